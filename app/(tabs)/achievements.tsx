@@ -1,10 +1,59 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, RefreshControl, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Trophy, Target, Users } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
 
-import { GamificationService, Achievement, Challenge, LeaderboardEntry, UserStats } from '@/lib/gamification';
+import {
+  GamificationService,
+  Achievement,
+  Challenge,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  LeaderboardScope,
+  StreakHistoryEntry,
+  AchievementTier,
+  UserStats,
+} from '@/lib/gamification';
+import StreakTimeline from '@/components/StreakTimeline';
+
+const LEADERBOARD_PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'week', label: 'This Week' },
+  { value: 'month', label: 'This Month' },
+  { value: 'all', label: 'All Time' },
+];
+
+const LEADERBOARD_METRICS: { value: LeaderboardMetric; label: string }[] = [
+  { value: 'points', label: 'Points' },
+  { value: 'checkins', label: 'Check-ins' },
+  { value: 'streak', label: 'Streak' },
+  { value: 'volume', label: 'Volume' },
+];
+
+const LEADERBOARD_SCOPES: { value: LeaderboardScope; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'friends', label: 'Friends' },
+  { value: 'trainer_group', label: 'Trainer Group' },
+];
+
+const TIER_COLORS: Record<AchievementTier, { color: string; backgroundColor: string }> = {
+  gold: { color: '#B7791F', backgroundColor: '#FEF5E7' },
+  silver: { color: '#5D6D7E', backgroundColor: '#F2F3F4' },
+  bronze: { color: '#A0522D', backgroundColor: '#FBEEE6' },
+};
+
+const formatLeaderboardValue = (metric: LeaderboardMetric, value: number) => {
+  switch (metric) {
+    case 'points':
+      return `${value} pts`;
+    case 'checkins':
+    case 'streak':
+      return `${value} ${value === 1 ? 'day' : 'days'}`;
+    case 'volume':
+      return `${Math.round(value).toLocaleString()} kg`;
+  }
+};
 
 export default function AchievementsScreen() {
   const { user } = useAuth();
@@ -12,8 +61,12 @@ export default function AchievementsScreen() {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>('week');
+  const [leaderboardMetric, setLeaderboardMetric] = useState<LeaderboardMetric>('points');
+  const [leaderboardScope, setLeaderboardScope] = useState<LeaderboardScope>('everyone');
   const [userStats, setUserStats] = useState<UserStats>({
     totalPoints: 0,
+    pointsBalance: 0,
     currentStreak: 0,
     longestStreak: 0,
     level: 1,
@@ -28,7 +81,10 @@ export default function AchievementsScreen() {
     streakFreezeUsedThisWeek: false,
     streakFreezeWeekStart: null,
     lastCheckinDate: null,
+    streakRules: { mode: 'daily', weeklyTarget: 3, restDays: [] },
+    streakWeekDays: 0,
   });
+  const [streakHistory, setStreakHistory] = useState<StreakHistoryEntry[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [achievementsError, setAchievementsError] = useState<string | null>(null);
 
@@ -39,6 +95,13 @@ export default function AchievementsScreen() {
       // Clear any previous errors
       setAchievementsError(null);
 
+      // Let the server catch up on any achievement rules and challenge progress
+      // before reading stats, so newly earned points are included
+      await Promise.all([
+        GamificationService.checkAndUnlockAchievements(),
+        GamificationService.refreshChallengeProgress(),
+      ]);
+
       // Fetch user stats
       const stats = await GamificationService.getUserStats(user.id);
       if (stats) {
@@ -74,6 +137,8 @@ export default function AchievementsScreen() {
         setAchievementsError(error instanceof Error ? error.message : 'Failed to load achievements');
       }
 
+      setStreakHistory(await GamificationService.getStreakHistory(user.id));
+
       // Fetch challenges with error handling
       try {
         const userChallenges = await GamificationService.getUserChallenges(user.id);
@@ -82,24 +147,31 @@ export default function AchievementsScreen() {
         setChallenges([]);
       }
 
-      // Fetch leaderboard with error handling
-      try {
-        const leaderboardData = await GamificationService.getLeaderboard();
-        setLeaderboard(leaderboardData);
-
-        // Update user rank
-        if (stats) {
-          const userRank = leaderboardData.findIndex(entry => entry.id === user.id) + 1;
-          setUserStats(prev => ({ ...prev, rank: userRank > 0 ? userRank : leaderboardData.length + 1 }));
+      // Overall rank is the all-time points position, which the leaderboard
+      // returns for the current user even outside the top entries
+      if (stats) {
+        const overall = await GamificationService.getLeaderboard({ limit: 1 });
+        const ownEntry = overall.find(entry => entry.isCurrentUser);
+        if (ownEntry) {
+          setUserStats(prev => ({ ...prev, rank: ownEntry.rank }));
         }
-      } catch {
-        setLeaderboard([]);
       }
     } catch (error) {
       console.error('Error fetching gamification data:', error);
     }
   }, [user]);
 
+  const fetchLeaderboard = useCallback(async () => {
+    if (!user) return;
+
+    const leaderboardData = await GamificationService.getLeaderboard({
+      metric: leaderboardMetric,
+      period: leaderboardPeriod,
+      scope: leaderboardScope,
+    });
+    setLeaderboard(leaderboardData);
+  }, [user, leaderboardMetric, leaderboardPeriod, leaderboardScope]);
+
   // Only fetch data for regular users
   useEffect(() => {
     if (user) {
@@ -107,17 +179,73 @@ export default function AchievementsScreen() {
     }
   }, [fetchGamificationData, user]);
 
+  useEffect(() => {
+    fetchLeaderboard();
+  }, [fetchLeaderboard]);
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchGamificationData();
+    await Promise.all([fetchGamificationData(), fetchLeaderboard()]);
     setRefreshing(false);
   };
 
+  // Dates are yyyy-mm-dd, so they compare as strings
+  const getChallengeDateLabel = (challenge: Challenge) => {
+    const today = new Date().toISOString().split('T')[0];
+    return challenge.startDate > today ? `Starts: ${challenge.startDate}` : `Ends: ${challenge.endDate}`;
+  };
 
+  const handleJoinChallenge = async (challenge: Challenge) => {
+    const result = await GamificationService.joinChallenge(challenge.id);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to join challenge');
+      return;
+    }
+    fetchGamificationData();
+  };
 
+  const handleLeaveChallenge = (challenge: Challenge) => {
+    Alert.alert(
+      'Leave Challenge',
+      `Your progress in "${challenge.name}" will be kept if you join again before it ends.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await GamificationService.leaveChallenge(challenge.id);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to leave challenge');
+              return;
+            }
+            fetchGamificationData();
+          },
+        },
+      ]
+    );
+  };
+  const renderFilterRow = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.filterRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.filterChip, selected === option.value && styles.filterChipSelected]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.filterChipText, selected === option.value && styles.filterChipTextSelected]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
 
-
-
+  const levelProgress = GamificationService.getLevelProgress(userStats.totalPoints);
 
   return (
     <ScrollView 
@@ -155,7 +283,9 @@ export default function AchievementsScreen() {
               <View style={styles.userStat}>
                 <Text style={styles.userStatIcon}>🔥</Text>
                 <Text style={styles.userStatNumber}>{userStats.currentStreak}</Text>
-                <Text style={styles.userStatLabel}>Day Streak</Text>
+                <Text style={styles.userStatLabel}>
+                  {userStats.streakRules.mode === 'weekly' ? 'Week Streak' : 'Day Streak'}
+                </Text>
               </View>
               <View style={styles.userStat}>
                 <Text style={styles.userStatIcon}>🏅</Text>
@@ -163,6 +293,14 @@ export default function AchievementsScreen() {
                 <Text style={styles.userStatLabel}>Rank</Text>
               </View>
             </View>
+            <View style={styles.levelProgress}>
+              <View style={styles.levelProgressBar}>
+                <View style={[styles.levelProgressFill, { width: `${Math.round(levelProgress.progress * 100)}%` }]} />
+              </View>
+              <Text style={styles.levelProgressText}>
+                {levelProgress.nextLevelXp - userStats.totalPoints} XP to Level {levelProgress.level + 1}
+              </Text>
+            </View>
           </View>
         </View>
 
@@ -228,6 +366,11 @@ export default function AchievementsScreen() {
                     </View>
                     
                     <Text style={styles.achievementName}>{achievement.name}</Text>
+                    <View style={[styles.tierPill, { backgroundColor: TIER_COLORS[achievement.tier].backgroundColor }]}>
+                      <Text style={[styles.tierText, { color: TIER_COLORS[achievement.tier].color }]}>
+                        {achievement.tier.toUpperCase()}
+                      </Text>
+                    </View>
                     <Text style={styles.achievementDescription}>{achievement.description}</Text>
                     
                     <View style={styles.achievementProgress}>
@@ -238,6 +381,9 @@ export default function AchievementsScreen() {
                     </Text>
                     
                     <Text style={styles.achievementPoints}>+{achievement.points} pts</Text>
+                    {achievement.rarity !== undefined && (
+                      <Text style={styles.achievementRarity}>{achievement.rarity}% of members</Text>
+                    )}
                     
                     {achievement.unlocked && (
                       <Text style={styles.unlockDate}>Unlocked {achievement.unlockedAt}</Text>
@@ -269,39 +415,59 @@ export default function AchievementsScreen() {
                 <Text style={styles.emptyStateSubtitle}>Start working out to unlock achievements!</Text>
               </View>
             )}
+
+            <Text style={[styles.sectionTitle, styles.timelineTitle]}>Streak Timeline</Text>
+            <StreakTimeline history={streakHistory} />
           </View>
         )}
 
         {activeTab === 'challenges' && (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Active Challenges</Text>
-            {challenges.filter(c => c.active).length > 0 ? (
-              challenges.filter(c => c.active).map((challenge) => (
+            {challenges.length > 0 ? (
+              challenges.map((challenge) => (
                 <View key={challenge.id} style={styles.challengeCard}>
                   <View style={styles.challengeHeader}>
                     <View>
                       <Text style={styles.challengeName}>{challenge.name}</Text>
                       <Text style={styles.challengeType}>{challenge.type.charAt(0).toUpperCase() + challenge.type.slice(1)} Challenge</Text>
                     </View>
-                    <Text style={styles.challengeReward}>+{challenge.reward} pts</Text>
+                    <Text style={styles.challengeReward}>
+                      {challenge.completed ? `✓ ${challenge.pointsEarned}` : `+${challenge.reward}`} pts
+                    </Text>
                   </View>
                   <Text style={styles.challengeDescription}>{challenge.description}</Text>
-                  <View style={styles.challengeProgress}>
-                    <View style={styles.progressBar}>
-                      <View 
-                        style={[
-                          styles.progressFill, 
-                          { width: `${Math.min((challenge.current / challenge.target) * 100, 100)}%` }
-                        ]} 
-                      />
+                  {challenge.enrolled ? (
+                    <View style={styles.challengeProgress}>
+                      <View style={styles.progressBar}>
+                        <View 
+                          style={[
+                            styles.progressFill, 
+                            challenge.completed && styles.progressFillCompleted,
+                            { width: `${Math.min((challenge.current / challenge.target) * 100, 100)}%` }
+                          ]} 
+                        />
+                      </View>
+                      <Text style={styles.progressText}>
+                        {challenge.completed ? 'Completed!' : `${challenge.current}/${challenge.target}`}
+                      </Text>
                     </View>
-                    <Text style={styles.progressText}>
-                      {challenge.current}/{challenge.target}
-                    </Text>
-                  </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.joinChallengeButton}
+                      onPress={() => handleJoinChallenge(challenge)}
+                    >
+                      <Text style={styles.joinChallengeButtonText}>Join Challenge</Text>
+                    </TouchableOpacity>
+                  )}
                   <Text style={styles.challengeEndDate}>
-                    Ends: {new Date(challenge.endDate).toISOString().split('T')[0]}
+                    {getChallengeDateLabel(challenge)}
                   </Text>
+                  {challenge.enrolled && !challenge.completed && (
+                    <TouchableOpacity onPress={() => handleLeaveChallenge(challenge)}>
+                      <Text style={styles.leaveChallengeText}>Leave challenge</Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
               ))
             ) : (
@@ -317,39 +483,57 @@ export default function AchievementsScreen() {
         {activeTab === 'leaderboard' && (
           <View style={styles.tabContent}>
             <Text style={styles.sectionTitle}>Top Performers</Text>
-            {leaderboard.length > 0 ? (
+            {renderFilterRow(LEADERBOARD_PERIODS, leaderboardPeriod, setLeaderboardPeriod)}
+            {renderFilterRow(LEADERBOARD_METRICS, leaderboardMetric, setLeaderboardMetric)}
+            {renderFilterRow(LEADERBOARD_SCOPES, leaderboardScope, setLeaderboardScope)}
+            {leaderboard.some(entry => entry.value > 0) ? (
               <View style={styles.leaderboardContainer}>
-                {leaderboard.map((entry, index) => (
-                  <View key={entry.id} style={styles.leaderboardEntry}>
-                    <View style={styles.rankContainer}>
-                      <Text style={styles.rankNumber}>#{entry.rank}</Text>
-                      {index < 3 && (
-                        <View style={[styles.medal, 
-                          index === 0 ? styles.goldMedal : 
-                          index === 1 ? styles.silverMedal : styles.bronzeMedal
-                        ]}>
-                          <Text style={styles.medalText}>
-                            {index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉'}
-                          </Text>
+                {leaderboard.map((entry, index) => {
+                  // The current user's entry comes last when they are outside the top entries
+                  const outsideTop = entry.isCurrentUser && index > 0 && entry.rank > leaderboard[index - 1].rank + 1;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      {outsideTop && (
+                        <View style={styles.leaderboardGap}>
+                          <Text style={styles.leaderboardGapText}>Your position</Text>
                         </View>
                       )}
-                    </View>
-                    <View style={styles.userInfo}>
-                      <Text style={styles.username}>@{entry.username}</Text>
-                      <Text style={styles.fullName}>{entry.fullName}</Text>
-                    </View>
-                    <View style={styles.userStats}>
-                      <Text style={styles.userPoints}>{entry.points} pts</Text>
-                      <Text style={styles.userLevel}>Level {entry.level}</Text>
-                    </View>
-                  </View>
-                ))}
+                      <View style={[styles.leaderboardEntry, entry.isCurrentUser && styles.currentUserEntry]}>
+                        <View style={styles.rankContainer}>
+                          <Text style={styles.rankNumber}>#{entry.rank}</Text>
+                          {entry.rank <= 3 && (
+                            <View style={[styles.medal,
+                              entry.rank === 1 ? styles.goldMedal :
+                              entry.rank === 2 ? styles.silverMedal : styles.bronzeMedal
+                            ]}>
+                              <Text style={styles.medalText}>
+                                {entry.rank === 1 ? '🥇' : entry.rank === 2 ? '🥈' : '🥉'}
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+                        <View style={styles.userInfo}>
+                          <Text style={styles.username}>@{entry.username}{entry.isCurrentUser ? ' (you)' : ''}</Text>
+                          <Text style={styles.fullName}>{entry.fullName}</Text>
+                        </View>
+                        <View style={styles.userStats}>
+                          <Text style={styles.userPoints}>{formatLeaderboardValue(leaderboardMetric, entry.value)}</Text>
+                          <Text style={styles.userLevel}>Level {entry.level}</Text>
+                        </View>
+                      </View>
+                    </React.Fragment>
+                  );
+                })}
               </View>
             ) : (
               <View style={styles.emptyState}>
                 <Users size={48} color="#D1D5DB" />
                 <Text style={styles.emptyStateTitle}>No leaderboard data</Text>
-                <Text style={styles.emptyStateSubtitle}>Be the first to start earning points!</Text>
+                <Text style={styles.emptyStateSubtitle}>
+                  {leaderboardScope === 'everyone'
+                    ? 'Be the first to start earning points!'
+                    : 'Nobody here has been active yet for this period.'}
+                </Text>
               </View>
             )}
           </View>
@@ -422,6 +606,26 @@ const styles = StyleSheet.create({
     color: '#636E72',
     textAlign: 'center',
   },
+  levelProgress: {
+    marginTop: 16,
+  },
+  levelProgressBar: {
+    height: 8,
+    backgroundColor: '#F1F2F6',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  levelProgressFill: {
+    height: '100%',
+    backgroundColor: '#FF6B35',
+    borderRadius: 4,
+  },
+  levelProgressText: {
+    fontSize: 12,
+    color: '#636E72',
+    textAlign: 'center',
+    marginTop: 6,
+  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -458,6 +662,9 @@ const styles = StyleSheet.create({
     flex: 1,
     width: '100%',
   },
+  timelineTitle: {
+    marginTop: 30,
+  },
   sectionTitle: {
     fontSize: 22,
     fontWeight: 'bold',
@@ -614,6 +821,22 @@ const styles = StyleSheet.create({
     color: '#FFD700',
     fontWeight: '700',
   },
+  tierPill: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginBottom: 6,
+  },
+  tierText: {
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  achievementRarity: {
+    fontSize: 11,
+    color: '#636E72',
+    marginTop: 4,
+  },
   unlockDate: {
     fontSize: 12,
     color: '#00B894',
@@ -782,6 +1005,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#FF6B35',
     borderRadius: 4,
   },
+  progressFillCompleted: {
+    backgroundColor: '#00B894',
+  },
   progressText: {
     fontSize: 14,
     color: '#636E72',
@@ -792,6 +1018,24 @@ const styles = StyleSheet.create({
     color: '#95A5A6',
     textAlign: 'center',
   },
+  joinChallengeButton: {
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  joinChallengeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  leaveChallengeText: {
+    fontSize: 13,
+    color: '#E74C3C',
+    textAlign: 'center',
+    marginTop: 10,
+  },
   // Leaderboard styles
   leaderboardContainer: {
     backgroundColor: '#FFFFFF',
@@ -810,6 +1054,48 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#F1F3F4',
   },
+  currentUserEntry: {
+    backgroundColor: '#FFF4EE',
+  },
+  leaderboardGap: {
+    paddingVertical: 8,
+    alignItems: 'center',
+    backgroundColor: '#F8F9FA',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F3F4',
+  },
+  leaderboardGapText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#636E72',
+    textTransform: 'uppercase',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E9ECEF',
+  },
+  filterChipSelected: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#2D3436',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   rankContainer: {
     width: 50,
     alignItems: 'center',
@@ -20,6 +20,7 @@ import {
   QrCode,
   Trophy,
   ShoppingBag,
+  Ticket,
 } from 'lucide-react-native';
 import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 
@@ -27,22 +28,45 @@ import { useUserRoles } from '@/hooks/useUserRoles';
 import { getUnreadNotificationCount } from '@/lib/notifications';
 import { useCheckIn } from '@/hooks/useCheckIn';
 import { supabase } from '@/lib/supabase';
+import { useProfile } from '@/contexts/ProfileContext';
+import { getOfflineRejectionMessage } from '@/lib/offlineCheckIns';
+import { DEFAULT_GYM_ID } from '@/lib/qrGenerator';
+import {
+  getGymOccupancy,
+  getGymBusyHours,
+  forecastBusyHours,
+  getQuietestHour,
+  getOccupancyColor,
+  formatHour,
+  GymOccupancy,
+  BusyHourForecast,
+} from '@/lib/occupancy';
 import Drawer from '@/components/Drawer';
 
 export default function HomeScreen() {
 
   const { isTrainer } = useUserRoles();
-  const { checkInStatus, loading, checkOut, refreshStatus } = useCheckIn();
+  const {
+    checkInStatus,
+    loading,
+    checkOut,
+    refreshStatus,
+    pendingSyncCount,
+    syncRejections,
+    clearSyncRejections,
+  } = useCheckIn();
+  const { userProfile } = useProfile();
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [lastFocusTime, setLastFocusTime] = useState<number>(0);
   const searchParams = useLocalSearchParams();
   const shouldOpenNavBar = searchParams.openNavBar === 'true';
   
-  // NEW: Active members state
-  const [activeMembers, setActiveMembers] = useState(0);
-  const [gymBusyStatus, setGymBusyStatus] = useState<'quiet' | 'moderate' | 'busy'>('quiet');
-  const [activeMembersLoading, setActiveMembersLoading] = useState(false);
+  // Live occupancy of the member's home gym
+  const homeGymId = userProfile?.home_gym_id || DEFAULT_GYM_ID;
+  const [occupancy, setOccupancy] = useState<GymOccupancy | null>(null);
+  const [busyForecast, setBusyForecast] = useState<BusyHourForecast[]>([]);
+  const [occupancyLoading, setOccupancyLoading] = useState(false);
   const isFetchingRef = useRef(false);
   const lastUpdateTimeRef = useRef(0);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
@@ -55,72 +79,47 @@ export default function HomeScreen() {
     setDrawerVisible(false);
   };
 
-  // Fetch active members count - moved here to fix declaration order
-  const fetchActiveMembers = useCallback(async () => {
+  // Fetch live occupancy and the busy-hour forecast for the home gym
+  const fetchOccupancy = useCallback(async () => {
     // Use a ref to prevent multiple simultaneous calls without causing re-renders
     if (isFetchingRef.current) return;
     
     try {
       isFetchingRef.current = true;
-      setActiveMembersLoading(true);
+      setOccupancyLoading(true);
       
-      // First, let's try a simpler query to see what's in the table
-      const { data: allCheckIns, error: allError } = await supabase
-        .from('gym_checkins')
-        .select('*')
-        .eq('is_checked_in', true);
-
-      if (allError) {
-        console.error('Error fetching all check-ins:', allError);
-        return;
-      }
-
-      // Now let's get the count of members (excluding trainers)
-      const { count, error } = await supabase
-        .from('gym_checkins')
-        .select(`
-          *,
-          user_profiles!inner (
-            user_type
-          )
-        `, { count: 'exact', head: true })
-        .eq('is_checked_in', true)
-        .eq('user_profiles.user_type', 'user');
-
-      if (error) {
-        console.error('Error fetching active members:', error);
-        // Fallback: count manually from allCheckIns
-        const memberCount = allCheckIns.filter(checkIn => 
-          checkIn.user_type === 'user' || 
-          (checkIn.user_profiles && checkIn.user_profiles.user_type === 'user')
-        ).length;
-        setActiveMembers(memberCount);
-        updateBusyStatus(memberCount);
-        return;
+      const [currentOccupancy, busyHours] = await Promise.all([
+        getGymOccupancy(homeGymId),
+        getGymBusyHours(homeGymId),
+      ]);
+
+      if (currentOccupancy) {
+        setOccupancy(currentOccupancy);
+        setBusyForecast(forecastBusyHours(busyHours, currentOccupancy.capacity));
       }
-
-      const memberCount = count || 0;
-      setActiveMembers(memberCount);
-      updateBusyStatus(memberCount);
       lastUpdateTimeRef.current = Date.now(); // Update timestamp after successful fetch
     } catch (error) {
-      console.error('Error fetching active members:', error);
+      console.error('Error fetching gym occupancy:', error);
     } finally {
       isFetchingRef.current = false;
-      setActiveMembersLoading(false);
+      setOccupancyLoading(false);
     }
-  }, []); // Remove activeMembersLoading dependency to prevent circular dependency
-
-  // Helper function to update busy status
-  const updateBusyStatus = (memberCount: number) => {
-    if (memberCount <= 5) {
-      setGymBusyStatus('quiet');
-    } else if (memberCount <= 15) {
-      setGymBusyStatus('moderate');
-    } else {
-      setGymBusyStatus('busy');
-    }
-  };
+  }, [homeGymId]);
+
+  const occupancyLevel = occupancy?.level || 'quiet';
+  const quietestHour = getQuietestHour(busyForecast);
+  const maxForecastOccupancy = Math.max(1, ...busyForecast.map(slot => slot.averageOccupancy));
+
+  // Tell the member about offline check-ins the server refused when syncing
+  useEffect(() => {
+    if (syncRejections.length === 0) return;
+
+    Alert.alert(
+      'Offline Check-in Not Saved',
+      syncRejections.map(getOfflineRejectionMessage).join('\n\n'),
+      [{ text: 'OK', onPress: clearSyncRejections }]
+    );
+  }, [syncRejections, clearSyncRejections]);
 
   // Handle automatic nav bar opening from settings back button
   useEffect(() => {
@@ -133,11 +132,11 @@ export default function HomeScreen() {
 
   useEffect(() => {
     fetchNotificationCount();
-    fetchActiveMembers(); // Fetch active members on mount
+    fetchOccupancy(); // Fetch gym occupancy on mount
     
-    // Set up real-time subscription for active members (only for significant changes)
-    const activeMembersSubscription = supabase
-      .channel('active_members_changes')
+    // Set up real-time subscription for gym occupancy (only for significant changes)
+    const occupancySubscription = supabase
+      .channel('gym_occupancy_changes')
       .on(
         'postgres_changes',
         {
@@ -155,7 +154,7 @@ export default function HomeScreen() {
             if (!isFetchingRef.current && (now - lastUpdateTimeRef.current) > 5000) { // 5 second minimum between updates
               lastUpdateTimeRef.current = now;
               setTimeout(() => {
-                fetchActiveMembers();
+                fetchOccupancy();
               }, 3000); // Increased delay to 3 seconds to prevent flickering
             }
           }
@@ -165,9 +164,9 @@ export default function HomeScreen() {
 
     // Cleanup subscription only
     return () => {
-      activeMembersSubscription.unsubscribe();
+      occupancySubscription.unsubscribe();
     };
-  }, [fetchActiveMembers]);
+  }, [fetchOccupancy]);
 
   // Set initial load to false after first data fetch
   useEffect(() => {
@@ -200,9 +199,9 @@ export default function HomeScreen() {
       if (!loading && !isInitialLoad && timeSinceLastFocus > 5000) {
         setLastFocusTime(now);
         refreshStatus();
-        fetchActiveMembers(); // Also refresh active members
+        fetchOccupancy(); // Also refresh gym occupancy
       }
-    }, [refreshStatus, loading, lastFocusTime, fetchActiveMembers, isInitialLoad])
+    }, [refreshStatus, loading, lastFocusTime, fetchOccupancy, isInitialLoad])
   );
 
 
@@ -324,6 +323,16 @@ export default function HomeScreen() {
                     Since {formattedCheckInTime}
                   </Text>
                 )}
+                {!checkInStatus.is_checked_in && checkInStatus.auto_closed && (
+                  <Text style={styles.checkInTime}>
+                    Last session was checked out automatically
+                  </Text>
+                )}
+                {pendingSyncCount > 0 && (
+                  <Text style={styles.checkInTime}>
+                    Saved offline - waiting to sync
+                  </Text>
+                )}
 
               </View>
               
@@ -365,7 +374,7 @@ export default function HomeScreen() {
           )} */}
         </View>
 
-        {/* NEW: Active Members Main Feature */}
+        {/* Gym occupancy */}
         <View style={styles.sectionContainer}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Gym Activity</Text>
@@ -378,12 +387,13 @@ export default function HomeScreen() {
                 <Users size={32} color="#667eea" />
               </View>
               <View style={styles.gymActivityTextContainer}>
-                <Text style={styles.gymActivityTitle}>Active Members</Text>
+                <Text style={styles.gymActivityTitle}>Live Occupancy</Text>
                 <Text style={styles.gymActivitySubtitle}>
-                  {activeMembersLoading ? 'Updating...' :
-                   gymBusyStatus === 'quiet' ? 'Perfect time for a workout!' : 
-                   gymBusyStatus === 'moderate' ? 'Gym is moderately busy' : 
-                   'Gym is quite busy right now'}
+                  {occupancyLoading && !occupancy ? 'Updating...' :
+                   occupancyLevel === 'quiet' ? 'Perfect time for a workout!' : 
+                   occupancyLevel === 'moderate' ? 'Gym is moderately busy' : 
+                   occupancyLevel === 'busy' ? 'Gym is quite busy right now' :
+                   'Gym is at capacity right now'}
                 </Text>
               </View>
             </View>
@@ -391,21 +401,67 @@ export default function HomeScreen() {
             <View style={styles.gymActivityStats}>
               <View style={styles.gymActivityStat}>
                 <Text style={styles.gymActivityStatNumber}>
-                  {activeMembersLoading ? '...' : activeMembers}
+                  {occupancy ? occupancy.occupancy : '...'}
+                  {occupancy && (
+                    <Text style={styles.gymActivityCapacityText}> / {occupancy.capacity}</Text>
+                  )}
                 </Text>
-                <Text style={styles.gymActivityStatLabel}>Members</Text>
+                <Text style={styles.gymActivityStatLabel}>In the gym</Text>
               </View>
               <View style={styles.gymActivityDivider} />
               <View style={styles.gymActivityStat}>
                 <View style={[
                   styles.gymActivityStatusIndicator,
-                  { backgroundColor: gymBusyStatus === 'quiet' ? '#00B894' : gymBusyStatus === 'moderate' ? '#F39C12' : '#E74C3C' }
+                  { backgroundColor: getOccupancyColor(occupancyLevel) }
                 ]} />
                 <Text style={styles.gymActivityStatusText}>
-                  {gymBusyStatus === 'quiet' ? 'Quiet' : gymBusyStatus === 'moderate' ? 'Moderate' : 'Busy'}
+                  {occupancyLevel === 'quiet' ? 'Quiet' :
+                   occupancyLevel === 'moderate' ? 'Moderate' :
+                   occupancyLevel === 'busy' ? 'Busy' : 'Full'}
                 </Text>
               </View>
             </View>
+
+            {occupancy && (
+              <View style={styles.capacityBar}>
+                <View style={[
+                  styles.capacityBarFill,
+                  {
+                    width: `${Math.min(occupancy.percentFull, 100)}%`,
+                    backgroundColor: getOccupancyColor(occupancyLevel),
+                  }
+                ]} />
+              </View>
+            )}
+
+            {busyForecast.length > 0 && (
+              <View style={styles.forecastContainer}>
+                <Text style={styles.forecastTitle}>Usually at this time</Text>
+                <View style={styles.forecastBars}>
+                  {busyForecast.map((slot, index) => (
+                    <View key={`${slot.hour}-${index}`} style={styles.forecastColumn}>
+                      <View style={styles.forecastBarTrack}>
+                        <View style={[
+                          styles.forecastBarFill,
+                          {
+                            height: `${Math.max((slot.averageOccupancy / maxForecastOccupancy) * 100, 4)}%`,
+                            backgroundColor: getOccupancyColor(slot.level),
+                          }
+                        ]} />
+                      </View>
+                      <Text style={styles.forecastHourText}>
+                        {index === 0 ? 'Now' : formatHour(slot.hour)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+                {quietestHour && (
+                  <Text style={styles.forecastHint}>
+                    Quietest in the next few hours: around {formatHour(quietestHour.hour)}
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
         </View>
 
@@ -519,6 +575,14 @@ export default function HomeScreen() {
                   <ShoppingBag size={24} color="#FFFFFF" />
                   <Text style={styles.actionCardText}>Shop</Text>
                 </TouchableOpacity>
+                
+                <TouchableOpacity
+                  style={[styles.actionCard, { backgroundColor: '#FF8C42' }]}
+                  onPress={() => router.push('/guest-passes')}
+                >
+                  <Ticket size={24} color="#FFFFFF" />
+                  <Text style={styles.actionCardText}>Guest Passes</Text>
+                </TouchableOpacity>
               </>
             )}
           </View>
@@ -821,5 +885,63 @@ const styles = StyleSheet.create({
     color: '#1E293B',
     textTransform: 'uppercase',
   },
+  gymActivityCapacityText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  capacityBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F1F5F9',
+    marginTop: 20,
+    overflow: 'hidden',
+  },
+  capacityBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  forecastContainer: {
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+  },
+  forecastTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  forecastBars: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  forecastColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  forecastBarTrack: {
+    width: 18,
+    height: 60,
+    borderRadius: 6,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  forecastBarFill: {
+    width: '100%',
+    borderRadius: 6,
+  },
+  forecastHourText: {
+    fontSize: 11,
+    color: '#64748B',
+    marginTop: 6,
+  },
+  forecastHint: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 12,
+  },
 
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,10 +11,12 @@ import {
   Image,
   Modal,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
+import * as VideoThumbnails from 'expo-video-thumbnails';
 import { 
   MessageCircle, 
   Send, 
@@ -26,24 +28,47 @@ import {
   FileText,
   Plus,
   User,
-  UserCheck
+  UserCheck,
+  Users,
+  Mic,
+  Square,
+  Video,
+  X,
+  Pin
 } from 'lucide-react-native';
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useVoiceRecorder, VoiceNote } from '@/hooks/useVoiceRecorder';
 
 import { 
   getUserConversations, 
-  getConversationMessages, 
   sendMessage as sendMessageAPI,
   markMessagesAsRead,
   searchConversations,
   uploadFileToStorage,
+  uploadMessageMedia,
+  formatMediaDuration,
+  MEDIA_LIMITS,
+  MEDIA_PLACEHOLDER_CONTENT,
   getConnectedUsers,
   startNewConversation,
-  getOrCreateConversation
+  getOrCreateConversation,
+  getConversationMembers,
+  leaveGroupConversation,
+  editMessage as editMessageAPI,
+  getMessageEditHistory,
+  forwardMessage as forwardMessageAPI,
+  setMessagePinned,
+  getPinnedMessages,
+  ConversationMember,
+  GroupRole,
+  Message as APIMessage,
+  MessageWithSender
 } from '@/lib/messaging';
+import { useConversationMessages, clearMessageCache } from '@/hooks/useConversationMessages';
+import { useRealtimeMessaging, formatTypingUsers, MemberReadState } from '@/hooks/useRealtimeMessaging';
 import { supabase } from '@/lib/supabase';
 import EnhancedMessage from '@/components/EnhancedMessage';
 import ProfilePicture from '@/components/ProfilePicture';
@@ -60,16 +85,21 @@ interface Conversation {
   is_online: boolean;
   profile_image?: string;
   avatar_url?: string; // Add avatar_url for profile picture
+  // Group chats: participant_id is the conversation id and participant_name the group name
+  is_group?: boolean;
+  member_count?: number;
+  group_role?: GroupRole;
 }
 
 interface Message {
   id: string;
   sender_id: string;
-  receiver_id: string;
+  sender_name?: string;
+  receiver_id: string | null;
   content: string;
   timestamp: string;
   is_read: boolean;
-  message_type: 'text' | 'image' | 'file';
+  message_type: 'text' | 'image' | 'file' | 'system' | 'audio' | 'video';
   // Enhanced features
   delivery_status: 'sent' | 'delivered' | 'read' | 'failed'; // Added 'failed' to match API
   file_url?: string;
@@ -77,9 +107,39 @@ interface Message {
   file_size?: number;
   file_type?: string;
   thumbnail_url?: string;
+  media_duration_ms?: number;
   reply_to_message_id?: string;
+  reply_to?: { sender_name: string; content: string } | null;
+  edited_at?: string;
+  forwarded_from_message_id?: string;
+  pinned_at?: string;
 }
 
+// API message to the shape this screen renders
+const toUIMessage = (msg: MessageWithSender): Message => ({
+  id: msg.id,
+  sender_id: msg.sender_id,
+  sender_name: msg.sender?.name,
+  receiver_id: msg.receiver_id,
+  content: msg.content,
+  timestamp: msg.created_at,
+  is_read: msg.is_read,
+  message_type: msg.message_type,
+  // Enhanced features
+  delivery_status: msg.delivery_status || 'sent',
+  file_url: msg.file_url || undefined,
+  file_name: msg.file_name || undefined,
+  file_size: msg.file_size || undefined,
+  file_type: msg.file_type || undefined,
+  thumbnail_url: msg.thumbnail_url || undefined,
+  media_duration_ms: msg.media_duration_ms || undefined,
+  reply_to_message_id: msg.reply_to_message_id || undefined,
+  reply_to: msg.reply_to || null,
+  edited_at: msg.edited_at || undefined,
+  forwarded_from_message_id: msg.forwarded_from_message_id || undefined,
+  pinned_at: msg.pinned_at || undefined,
+});
+
 interface ConnectedUser {
   id: string;
   name: string;
@@ -110,27 +170,149 @@ export default function MessagesScreen() {
   
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [groupMembers, setGroupMembers] = useState<ConversationMember[]>([]);
   const [messageText, setMessageText] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
   const [showChat, setShowChat] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectedAttachment, setSelectedAttachment] = useState<{
-    type: 'image' | 'file';
+    type: 'image' | 'file' | 'audio' | 'video';
     uri: string;
     name: string;
     size?: number;
     mimeType?: string;
+    durationMs?: number; // Voice notes and videos
+    posterUri?: string; // A video's first frame, for the preview
   } | null>(null);
   const [showAttachmentOptions, setShowAttachmentOptions] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  // Message actions (long press): replying, editing, forwarding and pins
+  const [actionMessage, setActionMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<MessageWithSender[]>([]);
+  const selectedConversationIdRef = useRef<string | null>(null);
+  selectedConversationIdRef.current = showChat ? selectedConversation?.id ?? null : null;
+
+  const attachVoiceNote = (note: VoiceNote) => {
+    setSelectedAttachment({
+      type: 'audio',
+      uri: note.uri,
+      name: `voice_note_${Date.now()}.m4a`,
+      mimeType: note.mimeType,
+      durationMs: note.durationMs,
+    });
+  };
+
+  // Stops by itself at the length limit and attaches what it has
+  const voiceRecorder = useVoiceRecorder(attachVoiceNote);
 
   // New state for conversation creation
   const [showNewConversationModal, setShowNewConversationModal] = useState(false);
   const [connectedUsers, setConnectedUsers] = useState<ConnectedUser[]>([]);
   const [loadingConnectedUsers, setLoadingConnectedUsers] = useState(false);
 
+  // Newest first, paged and cached per conversation
+  const {
+    messages: apiMessages,
+    loading: loadingMessages,
+    loadingMore: loadingOlderMessages,
+    loadOlder: loadOlderMessages,
+    refresh: refreshMessages,
+    addMessage,
+    updateMessage,
+  } = useConversationMessages(showChat ? selectedConversation?.id : null);
+  const messages = useMemo(() => apiMessages.map(toUIMessage), [apiMessages]);
+
+  // A new message anywhere: pull it into the open chat, or bump its conversation
+  const handleIncomingMessage = (message: APIMessage) => {
+    if (!user?.id) return;
+
+    const isOpenChat = showChat && selectedConversation?.id === message.conversation_id;
+    const fromOther = message.sender_id !== user.id;
+
+    if (isOpenChat && fromOther) {
+      refreshMessages();
+      markMessagesAsRead(message.conversation_id, user.id);
+    }
+
+    if (!(conversations || []).some(conv => conv.id === message.conversation_id)) {
+      fetchConversations();
+      return;
+    }
+
+    setConversations(prev =>
+      (prev || []).map(conv =>
+        conv.id === message.conversation_id
+          ? {
+              ...conv,
+              last_message: message.content,
+              last_message_time: 'Just now',
+              unread_count: fromOther && !isOpenChat ? conv.unread_count + 1 : conv.unread_count,
+            }
+          : conv
+      )
+    );
+  };
+
+  // Another group member read up to here
+  const handleReadStateChange = (member: MemberReadState) => {
+    setGroupMembers(prev =>
+      prev.map(existing =>
+        existing.conversation_id === member.conversation_id && existing.user_id === member.user_id
+          ? { ...existing, last_read_at: member.last_read_at }
+          : existing
+      )
+    );
+  };
+
+  // Receipts, edits and pins; the pinned bar reloads when a pin changes
+  const handleMessageUpdate = (message: APIMessage) => {
+    const existing = apiMessages.find(loaded => loaded.id === message.id);
+    updateMessage(message);
+
+    const pinChanged = (existing?.pinned_at || null) !== (message.pinned_at || null);
+    const isPinned = pinnedMessages.some(pinned => pinned.id === message.id);
+    if (message.conversation_id === selectedConversation?.id && (pinChanged || isPinned)) {
+      loadPinnedMessages(message.conversation_id);
+    }
+  };
+
+  const { typingUsers, isOnline, sendTyping, stopTyping } = useRealtimeMessaging({
+    conversationId: showChat ? selectedConversation?.id : null,
+    onMessage: handleIncomingMessage,
+    onMessageUpdate: (message) => handleMessageUpdate(message),
+    onReadStateChange: handleReadStateChange,
+  });
+
+
+  const loadPinnedMessages = useCallback(async (conversationId: string) => {
+    const pinned = await getPinnedMessages(conversationId);
+    if (selectedConversationIdRef.current === conversationId) {
+      setPinnedMessages(pinned);
+    }
+  }, []);
+
+  // Group members (for read state) and this user's read marker
+  const syncConversationState = useCallback(async (conversation: Conversation) => {
+    try {
+      if (!user?.id) return;
+
+      // Group read state comes from each member's last_read_at
+      setGroupMembers(conversation.is_group
+        ? await getConversationMembers(conversation.id)
+        : []);
+      loadPinnedMessages(conversation.id);
+
+      await markMessagesAsRead(conversation.id, user.id);
+    } catch (error) {
+      setGroupMembers([]);
+    }
+  }, [user?.id, loadPinnedMessages]);
 
   useEffect(() => {
     fetchConversations();
@@ -145,10 +327,10 @@ export default function MessagesScreen() {
   }, [searchQuery, conversations]);
 
   useEffect(() => {
-    if (selectedConversation?.id && selectedConversation?.participant_id) {
-      fetchMessages(selectedConversation.participant_id);
+    if (selectedConversation?.id) {
+      syncConversationState(selectedConversation);
     }
-  }, [selectedConversation]);
+  }, [selectedConversation, syncConversationState]);
 
   // New useEffect to fetch connected users when modal opens
   useEffect(() => {
@@ -211,9 +393,12 @@ export default function MessagesScreen() {
         participant_type: conv.other_participant?.type === 'trainer' ? 'trainer' : 'client', // Map 'user' to 'client'
         last_message: conv.last_message?.content || 'No messages yet',
         last_message_time: formatTimeAgo(new Date(conv.last_message_time || new Date())),
-        unread_count: conv.unread_count_participant_1 || conv.unread_count_participant_2 || 0,
+        unread_count: conv.unread_count,
         is_online: false, // TODO: Implement online status
         avatar_url: conv.other_participant?.avatar_url, // Include avatar URL
+        is_group: conv.is_group,
+        member_count: conv.group?.member_count,
+        group_role: conv.group?.role,
       }));
       
       setConversations(transformedConversations || []);
@@ -225,42 +410,6 @@ export default function MessagesScreen() {
     }
   };
 
-  const fetchMessages = async (participantId: string) => {
-    try {
-      if (!user?.id || !selectedConversation?.id) return;
-      
-      const apiMessages = await getConversationMessages(selectedConversation.id);
-      
-      // Transform API data to match our UI interface
-      const transformedMessages: Message[] = apiMessages.map(msg => ({
-        id: msg.id,
-        sender_id: msg.sender_id,
-        receiver_id: msg.receiver_id,
-        content: msg.content,
-        timestamp: msg.created_at,
-        is_read: msg.is_read,
-        message_type: msg.message_type === 'system' ? 'text' : msg.message_type,
-        // Enhanced features
-        delivery_status: msg.delivery_status || 'sent',
-        file_url: msg.file_url || undefined,
-        file_name: msg.file_name || undefined,
-        file_size: msg.file_size || undefined,
-        file_type: msg.file_type || undefined,
-        thumbnail_url: msg.thumbnail_url || undefined,
-        reply_to_message_id: msg.reply_to_message_id || undefined,
-      }));
-      
-      setMessages(transformedMessages || []);
-      
-      // Mark messages as read
-      if (selectedConversation?.id) {
-        await markMessagesAsRead(selectedConversation.id, user.id);
-      }
-    } catch (error) {
-      setMessages([]);
-    }
-  };
-
   const filterConversations = async () => {
     if (!searchQuery.trim()) {
       setFilteredConversations(conversations || []);
@@ -281,9 +430,12 @@ export default function MessagesScreen() {
         participant_type: conv.other_participant?.type === 'trainer' ? 'trainer' : 'client', // Map 'user' to 'client'
         last_message: conv.last_message?.content || 'No messages yet',
         last_message_time: formatTimeAgo(new Date(conv.last_message_time || new Date())),
-        unread_count: conv.unread_count_participant_1 || conv.unread_count_participant_2 || 0,
+        unread_count: conv.unread_count,
         is_online: false, // TODO: Implement online status
         avatar_url: conv.other_participant?.avatar_url, // Include avatar URL
+        is_group: conv.is_group,
+        member_count: conv.group?.member_count,
+        group_role: conv.group?.role,
       }));
       
       setFilteredConversations(transformedResults || []);
@@ -300,12 +452,48 @@ export default function MessagesScreen() {
   const sendMessage = async () => {
     if ((!messageText.trim() && !selectedAttachment) || !selectedConversation?.id || !user?.id) return;
 
+    // Editing changes the earlier message instead of sending a new one
+    if (editingMessage) {
+      await saveEdit();
+      return;
+    }
+
     try {
       setIsUploading(true);
-      let messageType: 'text' | 'image' | 'file' = 'text';
+      let messageType: APIMessage['message_type'] = 'text';
       let attachment = undefined;
+      const content = messageText.trim() || (
+        selectedAttachment?.type === 'audio' || selectedAttachment?.type === 'video'
+          ? MEDIA_PLACEHOLDER_CONTENT[selectedAttachment.type]
+          : selectedAttachment ? `Sent ${selectedAttachment.type}` : ''
+      );
 
-      if (selectedAttachment) {
+      if (selectedAttachment?.type === 'audio' || selectedAttachment?.type === 'video') {
+        messageType = selectedAttachment.type;
+
+        // The server checks the clip and works out its duration and thumbnail
+        setUploadProgress(0);
+        const upload = await uploadMessageMedia(
+          user.id,
+          selectedAttachment.type,
+          selectedAttachment.uri,
+          selectedAttachment.mimeType || (selectedAttachment.type === 'audio' ? 'audio/mp4' : 'video/mp4'),
+          { onProgress: setUploadProgress }
+        );
+
+        if (!upload.success || !upload.media) {
+          Alert.alert('Error', upload.error || 'Failed to upload. Please try again.');
+          return;
+        }
+
+        attachment = {
+          file_url: upload.media.file_url,
+          file_name: selectedAttachment.name,
+          file_size: upload.media.file_size,
+          file_type: upload.media.mime_type,
+          thumbnail_url: upload.media.thumbnail_url || undefined,
+        };
+      } else if (selectedAttachment) {
         messageType = selectedAttachment.type;
         
         // Upload file to Supabase storage
@@ -332,37 +520,43 @@ export default function MessagesScreen() {
         };
       }
 
+      // Group messages have no single receiver
+      const receiverId = selectedConversation.is_group ? null : selectedConversation.participant_id;
+
       // Send message via API
       const sentMessage = await sendMessageAPI(
         selectedConversation.id,
         user.id,
-        selectedConversation.participant_id,
-        messageText.trim() || (selectedAttachment ? `Sent ${selectedAttachment.type}` : ''),
+        receiverId,
+        content,
         messageType,
-        attachment
+        attachment,
+        replyingTo?.id
       );
 
-      // Create local message object for UI
-      const newMessage: Message = {
-        id: sentMessage?.message?.id || `temp_${Date.now()}`, // Use temp prefix for temporary IDs
-        sender_id: user.id,
-        receiver_id: selectedConversation.participant_id || '',
-        content: messageText.trim() || (selectedAttachment ? `Sent ${selectedAttachment.type}` : ''),
-        timestamp: sentMessage?.message?.created_at || new Date().toISOString(),
-        is_read: false,
-        message_type: messageType,
-        // Enhanced features
-        delivery_status: 'sent',
-        file_url: attachment?.file_url || undefined,
-        file_name: attachment?.file_name || undefined,
-        file_size: attachment?.file_size || undefined,
-        file_type: attachment?.file_type || undefined,
-        thumbnail_url: attachment?.thumbnail_url || undefined,
-        reply_to_message_id: undefined,
-      };
+      if (!sentMessage.success || !sentMessage.message) {
+        Alert.alert('Error', sentMessage.error || 'Failed to send message. Please try again.');
+        return;
+      }
 
-      // Add message to local state
-      setMessages(prev => [newMessage, ...(prev || [])]);
+      // Show it right away; the next refresh brings the server's copy
+      addMessage({
+        ...sentMessage.message,
+        sender: {
+          id: user.id,
+          name: 'You',
+          type: isTrainer() ? 'trainer' : 'user',
+        },
+        reply_to: replyingTo ? {
+          id: replyingTo.id,
+          sender_id: replyingTo.sender_id,
+          sender_name: replyingTo.sender_id === user.id
+            ? 'You'
+            : replyingTo.sender_name || selectedConversation.participant_name,
+          content: replyingTo.content,
+          message_type: replyingTo.message_type,
+        } : null,
+      });
       
       // Update conversation last message
       if (selectedConversation?.id) {
@@ -371,7 +565,7 @@ export default function MessagesScreen() {
             conv.id === selectedConversation.id 
               ? { 
                   ...conv, 
-                  last_message: messageText.trim() || (selectedAttachment ? `Sent ${selectedAttachment.type}` : ''),
+                  last_message: content,
                   last_message_time: 'Just now',
                   unread_count: 0
                 }
@@ -382,13 +576,128 @@ export default function MessagesScreen() {
 
       setMessageText('');
       setSelectedAttachment(null);
+      setReplyingTo(null);
+      stopTyping();
     } catch (error) {
       Alert.alert('Error', 'Failed to send message. Please try again.');
     } finally {
       setIsUploading(false);
+      setUploadProgress(null);
     }
   };
 
+  const saveEdit = async () => {
+    if (!editingMessage) return;
+
+    setIsUploading(true);
+    const result = await editMessageAPI(editingMessage.id, messageText);
+    setIsUploading(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to edit message. Please try again.');
+      return;
+    }
+
+    const loaded = apiMessages.find(message => message.id === editingMessage.id);
+    if (loaded) {
+      updateMessage({ ...loaded, content: messageText.trim(), edited_at: new Date().toISOString() });
+    }
+
+    setEditingMessage(null);
+    setMessageText('');
+    stopTyping();
+  };
+
+  const cancelCompose = () => {
+    if (editingMessage) {
+      setMessageText('');
+    }
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  const showEditHistory = async (message: Message) => {
+    const edits = await getMessageEditHistory(message.id);
+    const history = edits
+      .map(edit => `${new Date(edit.edited_at).toLocaleString()}\n${edit.previous_content}`)
+      .join('\n\n');
+
+    Alert.alert('Edit History', history || 'No earlier versions');
+  };
+
+  const handleForward = async (conversation: Conversation) => {
+    if (!forwardingMessage) return;
+
+    const result = await forwardMessageAPI(forwardingMessage.id, conversation.id);
+    setForwardingMessage(null);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to forward message. Please try again.');
+      return;
+    }
+
+    Alert.alert('Forwarded', `Sent to ${conversation.participant_name}`);
+    fetchConversations();
+  };
+
+  const togglePin = async (message: Message) => {
+    if (!selectedConversation) return;
+
+    const result = await setMessagePinned(message.id, !message.pinned_at);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update pin. Please try again.');
+      return;
+    }
+
+    loadPinnedMessages(selectedConversation.id);
+    refreshMessages();
+  };
+
+  const showPinnedMessages = () => {
+    const list = pinnedMessages
+      .map(message => `${message.sender_id === user?.id ? 'You' : message.sender.name}: ${message.content}`)
+      .join('\n\n');
+
+    Alert.alert('Pinned Messages', list);
+  };
+
+  // What a long press offers for this message
+  const getMessageActions = (message: Message) => {
+    const isOwnMessage = message.sender_id === user?.id;
+    const canPin = !selectedConversation?.is_group || selectedConversation.group_role === 'owner';
+
+    return [
+      {
+        label: 'Reply',
+        onPress: () => {
+          setEditingMessage(null);
+          setReplyingTo(message);
+        },
+      },
+      isOwnMessage && !message.forwarded_from_message_id && {
+        label: 'Edit',
+        onPress: () => {
+          setReplyingTo(null);
+          setSelectedAttachment(null);
+          setEditingMessage(message);
+          setMessageText(message.content);
+        },
+      },
+      message.edited_at && {
+        label: 'Edit History',
+        onPress: () => showEditHistory(message),
+      },
+      {
+        label: 'Forward',
+        onPress: () => setForwardingMessage(message),
+      },
+      canPin && {
+        label: message.pinned_at ? 'Unpin' : 'Pin to Top',
+        onPress: () => togglePin(message),
+      },
+    ].filter((action): action is { label: string; onPress: () => void } => !!action);
+  };
+
   const markAsRead = (conversationId: string) => {
     if (!conversationId) return;
     setConversations(prev => 
@@ -412,7 +721,12 @@ export default function MessagesScreen() {
   const closeChat = () => {
     setShowChat(false);
     setSelectedConversation(null);
-    setMessages([]);
+    setGroupMembers([]);
+    setPinnedMessages([]);
+    setReplyingTo(null);
+    setEditingMessage(null);
+    setActionMessage(null);
+    setForwardingMessage(null);
     setSelectedAttachment(null);
     setShowAttachmentOptions(false);
     setIsUploading(false);
@@ -489,6 +803,73 @@ export default function MessagesScreen() {
     }
   };
 
+  // Short technique videos, recorded or from the library
+  const pickVideo = async (source: 'camera' | 'library') => {
+    try {
+      if (source === 'camera') {
+        const { status } = await ImagePicker.requestCameraPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Permission needed', 'Please grant camera permissions to record videos.');
+          return;
+        }
+      } else {
+        const hasPermission = await requestPermissions();
+        if (!hasPermission) return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ['videos'],
+        videoMaxDuration: MEDIA_LIMITS.video.maxDurationMs / 1000,
+        videoQuality: ImagePicker.UIImagePickerControllerQualityType.Medium,
+      };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+
+      if (!result.canceled && result.assets[0]) {
+        const asset = result.assets[0];
+
+        // The server enforces these too; this saves uploading for nothing
+        if (asset.duration && asset.duration > MEDIA_LIMITS.video.maxDurationMs) {
+          Alert.alert('Video too long', `Videos can be up to ${formatMediaDuration(MEDIA_LIMITS.video.maxDurationMs)} long.`);
+          return;
+        }
+        if (asset.fileSize && asset.fileSize > MEDIA_LIMITS.video.maxBytes) {
+          Alert.alert('Video too big', 'Videos can be up to 50 MB.');
+          return;
+        }
+
+        let posterUri: string | undefined;
+        try {
+          posterUri = (await VideoThumbnails.getThumbnailAsync(asset.uri, { time: 0, quality: 0.7 })).uri;
+        } catch {
+          // Sent without a thumbnail
+        }
+
+        setSelectedAttachment({
+          type: 'video',
+          uri: asset.uri,
+          name: asset.fileName || `video_${Date.now()}.mp4`,
+          size: asset.fileSize,
+          mimeType: asset.mimeType || 'video/mp4',
+          durationMs: asset.duration || undefined,
+          posterUri,
+        });
+        setShowAttachmentOptions(false);
+      }
+    } catch (error) {
+      console.error('Error picking video:', error);
+      Alert.alert('Error', 'Failed to pick video. Please try again.');
+    }
+  };
+
+  const stopVoiceRecording = async () => {
+    const note = await voiceRecorder.stop();
+    if (note) {
+      attachVoiceNote(note);
+    }
+  };
+
   const pickDocument = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -570,10 +951,6 @@ export default function MessagesScreen() {
       setShowNewConversationModal(false);
       setSelectedConversation(newConversation);
       setShowChat(true);
-
-      // Fetch messages for this conversation
-      await fetchMessages(connectedUser.id);
-
     } catch (error) {
       console.error('Error starting chat:', error);
       Alert.alert('Error', 'Failed to start conversation');
@@ -596,7 +973,10 @@ export default function MessagesScreen() {
       
       <View style={styles.conversationContent}>
         <View style={styles.conversationHeader}>
-          <Text style={styles.conversationName}>{item.participant_name || 'Unknown User'}</Text>
+          <View style={styles.conversationNameRow}>
+            {item.is_group && <Users size={14} color="#6B7280" />}
+            <Text style={styles.conversationName}>{item.participant_name || 'Unknown User'}</Text>
+          </View>
           <Text style={styles.conversationTime}>{item.last_message_time}</Text>
         </View>
         <View style={styles.conversationFooter}>
@@ -613,8 +993,67 @@ export default function MessagesScreen() {
     </TouchableOpacity>
   );
 
+  // "Seen by 2" under your own group messages
+  const getGroupReadLabel = (message: Message) => {
+    const others = groupMembers.filter(member => member.user_id !== user?.id);
+    const seenBy = others.filter(member => new Date(member.last_read_at) >= new Date(message.timestamp)).length;
+
+    if (seenBy === 0) return 'Sent';
+    return seenBy === others.length ? 'Seen by everyone' : `Seen by ${seenBy}`;
+  };
+
+  const handleGroupOptions = () => {
+    if (!selectedConversation?.is_group) return;
+
+    const memberList = groupMembers
+      .map(member => member.role === 'owner' ? `${member.name} (owner)` : member.name)
+      .join('\n');
+
+    Alert.alert(selectedConversation.participant_name, memberList, [
+      { text: 'Close', style: 'cancel' },
+      {
+        text: 'Leave Group',
+        style: 'destructive',
+        onPress: () => {
+          Alert.alert(
+            'Leave Group',
+            selectedConversation.group_role === 'owner'
+              ? 'You own this group. If you leave, the member who joined first becomes the owner.'
+              : `Leave ${selectedConversation.participant_name}?`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Leave',
+                style: 'destructive',
+                onPress: async () => {
+                  const result = await leaveGroupConversation(selectedConversation.id);
+                  if (!result.success) {
+                    Alert.alert('Error', result.error || 'Failed to leave group');
+                    return;
+                  }
+                  clearMessageCache(selectedConversation.id);
+                  closeChat();
+                  fetchConversations();
+                },
+              },
+            ]
+          );
+        },
+      },
+    ]);
+  };
+
   const renderMessageItem = ({ item }: { item: Message }) => {
     const isOwnMessage = item.sender_id === user?.id;
+
+    // Join and leave events
+    if (item.message_type === 'system') {
+      return (
+        <View style={styles.systemMessage}>
+          <Text style={styles.systemMessageText}>{item.content}</Text>
+        </View>
+      );
+    }
     
     return (
       <EnhancedMessage
@@ -632,14 +1071,20 @@ export default function MessagesScreen() {
           file_size: item.file_size,
           file_type: item.file_type,
           thumbnail_url: item.thumbnail_url,
+          media_duration_ms: item.media_duration_ms,
           reply_to_message_id: item.reply_to_message_id,
+          reply_to: item.reply_to,
+          edited_at: item.edited_at,
+          forwarded_from_message_id: item.forwarded_from_message_id,
+          pinned_at: item.pinned_at,
         }}
         isOwnMessage={isOwnMessage}
+        onLongPress={() => setActionMessage(item)}
+        senderName={selectedConversation?.is_group ? item.sender_name : undefined}
+        readByLabel={selectedConversation?.is_group && isOwnMessage ? getGroupReadLabel(item) : undefined}
         onReactionUpdate={() => {
           // Refresh messages when reactions change
-          if (selectedConversation) {
-            fetchMessages(selectedConversation.participant_id);
-          }
+          refreshMessages();
         }}
       />
     );
@@ -724,22 +1169,41 @@ export default function MessagesScreen() {
                   fullName={selectedConversation.participant_name}
                   size={40}
                 />
-                {selectedConversation.is_online && <View style={styles.chatOnlineIndicator} />}
+                {!selectedConversation.is_group && isOnline(selectedConversation.participant_id) && (
+                  <View style={styles.chatOnlineIndicator} />
+                )}
               </View>
               <View>
                 <Text style={styles.chatParticipantName}>{selectedConversation.participant_name || 'Unknown User'}</Text>
                 <Text style={styles.chatParticipantStatus}>
-                  {selectedConversation.is_online ? 'Online' : 'Offline'}
+                  {formatTypingUsers(typingUsers) || (selectedConversation.is_group
+                    ? `${selectedConversation.member_count || groupMembers.length} members`
+                    : isOnline(selectedConversation.participant_id) ? 'Active now' : 'Offline')}
                 </Text>
               </View>
             </View>
             
-            <TouchableOpacity style={styles.moreButton}>
+            <TouchableOpacity style={styles.moreButton} onPress={handleGroupOptions}>
               <MoreVertical size={24} color="#FFFFFF" />
             </TouchableOpacity>
           </View>
         </LinearGradient>
 
+        {/* Pinned messages */}
+        {pinnedMessages.length > 0 && (
+          <TouchableOpacity style={styles.pinnedBar} onPress={showPinnedMessages}>
+            <Pin size={16} color="#FF6B35" />
+            <View style={styles.pinnedBarContent}>
+              <Text style={styles.pinnedBarTitle}>
+                {pinnedMessages.length === 1 ? 'Pinned message' : `${pinnedMessages.length} pinned messages`}
+              </Text>
+              <Text style={styles.pinnedBarText} numberOfLines={1}>
+                {pinnedMessages[0].content}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
         {/* Messages */}
         <FlatList
           data={messages}
@@ -750,6 +1214,14 @@ export default function MessagesScreen() {
           showsVerticalScrollIndicator={false}
           keyboardShouldPersistTaps="handled"
           contentContainerStyle={{ flexGrow: 1 }}
+          // Inverted, so the end is the top: scrolling up loads older messages
+          onEndReached={loadOlderMessages}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            loadingMessages || loadingOlderMessages
+              ? <ActivityIndicator color="#FF6B35" style={styles.messagesLoader} />
+              : null
+          }
         />
 
         {/* Message Input */}
@@ -766,6 +1238,14 @@ export default function MessagesScreen() {
                    <Camera size={24} color="#FF6B35" />
                    <Text style={styles.attachmentOptionText}>Choose Photo</Text>
                  </TouchableOpacity>
+                 <TouchableOpacity style={styles.attachmentOption} onPress={() => pickVideo('camera')}>
+                   <Video size={24} color="#FF6B35" />
+                   <Text style={styles.attachmentOptionText}>Record Video</Text>
+                 </TouchableOpacity>
+                 <TouchableOpacity style={styles.attachmentOption} onPress={() => pickVideo('library')}>
+                   <Video size={24} color="#FF6B35" />
+                   <Text style={styles.attachmentOptionText}>Choose Video</Text>
+                 </TouchableOpacity>
                  <TouchableOpacity style={styles.attachmentOption} onPress={pickDocument}>
                    <FileText size={24} color="#FF6B35" />
                    <Text style={styles.attachmentOptionText}>Choose File</Text>
@@ -780,11 +1260,56 @@ export default function MessagesScreen() {
              </View>
            )}
 
+           {/* Replying to or editing a message */}
+           {(replyingTo || editingMessage) && (
+             <View style={styles.composeBanner}>
+               <View style={styles.composeBannerContent}>
+                 <Text style={styles.composeBannerTitle}>
+                   {editingMessage
+                     ? 'Editing message'
+                     : `Replying to ${replyingTo?.sender_id === user?.id
+                         ? 'yourself'
+                         : replyingTo?.sender_name || selectedConversation.participant_name}`}
+                 </Text>
+                 <Text style={styles.composeBannerText} numberOfLines={1}>
+                   {(editingMessage || replyingTo)?.content}
+                 </Text>
+               </View>
+               <TouchableOpacity onPress={cancelCompose} style={styles.attachmentButton}>
+                 <X size={18} color="#6B7280" />
+               </TouchableOpacity>
+             </View>
+           )}
+
            {/* Selected Attachment Preview */}
            {selectedAttachment && (
              <View style={styles.attachmentPreview}>
                {selectedAttachment.type === 'image' ? (
                  <Image source={{ uri: selectedAttachment.uri }} style={styles.attachmentImage} />
+               ) : selectedAttachment.type === 'audio' || selectedAttachment.type === 'video' ? (
+                 <View style={styles.attachmentFile}>
+                   {selectedAttachment.posterUri ? (
+                     <Image source={{ uri: selectedAttachment.posterUri }} style={styles.attachmentImage} />
+                   ) : selectedAttachment.type === 'audio' ? (
+                     <Mic size={24} color="#FF6B35" />
+                   ) : (
+                     <Video size={24} color="#FF6B35" />
+                   )}
+                   <View style={styles.attachmentMediaInfo}>
+                     <Text style={styles.attachmentFileName} numberOfLines={1}>
+                       {selectedAttachment.type === 'audio' ? 'Voice note' : 'Video'}
+                       {selectedAttachment.durationMs ? ` · ${formatMediaDuration(selectedAttachment.durationMs)}` : ''}
+                     </Text>
+                     {uploadProgress !== null && (
+                       <View style={styles.uploadProgress}>
+                         <View style={styles.uploadProgressTrack}>
+                           <View style={[styles.uploadProgressFill, { width: `${Math.round(uploadProgress * 100)}%` }]} />
+                         </View>
+                         <Text style={styles.uploadProgressText}>{Math.round(uploadProgress * 100)}%</Text>
+                       </View>
+                     )}
+                   </View>
+                 </View>
                ) : (
                  <View style={styles.attachmentFile}>
                    <FileText size={24} color="#FF6B35" />
@@ -793,45 +1318,147 @@ export default function MessagesScreen() {
                    </Text>
                  </View>
                )}
-               <TouchableOpacity style={styles.removeAttachmentButton} onPress={removeAttachment}>
+               <TouchableOpacity style={styles.removeAttachmentButton} onPress={removeAttachment} disabled={isUploading}>
                  <Text style={styles.removeAttachmentText}>✕</Text>
                </TouchableOpacity>
              </View>
            )}
 
-           <View style={styles.messageInputWrapper}>
-             <TouchableOpacity 
-               style={styles.attachmentButton}
-               onPress={() => setShowAttachmentOptions(!showAttachmentOptions)}
-             >
-               <Paperclip size={20} color="#6B7280" />
-             </TouchableOpacity>
-             
-             <TextInput
-               style={styles.messageInput}
-               placeholder="Type a message..."
-               value={messageText}
-               onChangeText={setMessageText}
-               multiline
-               maxLength={500}
-             />
-             
-             <TouchableOpacity
-               style={[
-                 styles.sendButton, 
-                 (!messageText.trim() && !selectedAttachment) && styles.sendButtonDisabled
-               ]}
-               onPress={sendMessage}
-               disabled={(!messageText.trim() && !selectedAttachment) || isUploading}
-             >
-               {isUploading ? (
-                 <Text style={styles.uploadingText}>...</Text>
+           {voiceRecorder.isRecording ? (
+             <View style={styles.messageInputWrapper}>
+               <View style={styles.recordingIndicator} />
+               <Text style={styles.recordingText}>
+                 Recording {formatMediaDuration(voiceRecorder.durationMs)} / {formatMediaDuration(MEDIA_LIMITS.audio.maxDurationMs)}
+               </Text>
+               <TouchableOpacity style={styles.attachmentButton} onPress={voiceRecorder.cancel}>
+                 <X size={20} color="#6B7280" />
+               </TouchableOpacity>
+               <TouchableOpacity style={styles.sendButton} onPress={stopVoiceRecording}>
+                 <Square size={16} color="#FFFFFF" />
+               </TouchableOpacity>
+             </View>
+           ) : (
+             <View style={styles.messageInputWrapper}>
+               <TouchableOpacity 
+                 style={styles.attachmentButton}
+                 onPress={() => setShowAttachmentOptions(!showAttachmentOptions)}
+                 disabled={!!editingMessage}
+               >
+                 <Paperclip size={20} color="#6B7280" />
+               </TouchableOpacity>
+               
+               <TextInput
+                 style={styles.messageInput}
+                 placeholder="Type a message..."
+                 value={messageText}
+                 onChangeText={(text) => {
+                   setMessageText(text);
+                   if (text.trim()) {
+                     sendTyping();
+                   } else {
+                     stopTyping();
+                   }
+                 }}
+                 multiline
+                 maxLength={500}
+               />
+               
+               {/* Nothing to send yet: record a voice note instead */}
+               {!messageText.trim() && !selectedAttachment && !editingMessage && Platform.OS !== 'web' ? (
+                 <TouchableOpacity style={styles.sendButton} onPress={voiceRecorder.start}>
+                   <Mic size={20} color="#FFFFFF" />
+                 </TouchableOpacity>
                ) : (
-                 <Send size={20} color={(messageText.trim() || selectedAttachment) ? "#FFFFFF" : "#9CA3AF"} />
+                 <TouchableOpacity
+                   style={[
+                     styles.sendButton, 
+                     (!messageText.trim() && !selectedAttachment) && styles.sendButtonDisabled
+                   ]}
+                   onPress={sendMessage}
+                   disabled={(!messageText.trim() && !selectedAttachment) || isUploading}
+                 >
+                   {isUploading ? (
+                     <Text style={styles.uploadingText}>...</Text>
+                   ) : (
+                     <Send size={20} color={(messageText.trim() || selectedAttachment) ? "#FFFFFF" : "#9CA3AF"} />
+                   )}
+                 </TouchableOpacity>
                )}
-             </TouchableOpacity>
-           </View>
+             </View>
+           )}
          </View>
+
+         {/* Message actions */}
+         <Modal
+           visible={!!actionMessage}
+           transparent={true}
+           animationType="fade"
+           onRequestClose={() => setActionMessage(null)}
+         >
+           <TouchableOpacity
+             style={styles.actionSheetOverlay}
+             activeOpacity={1}
+             onPress={() => setActionMessage(null)}
+           >
+             <View style={styles.actionSheet}>
+               {actionMessage && getMessageActions(actionMessage).map(action => (
+                 <TouchableOpacity
+                   key={action.label}
+                   style={styles.actionSheetOption}
+                   onPress={() => {
+                     setActionMessage(null);
+                     action.onPress();
+                   }}
+                 >
+                   <Text style={styles.actionSheetOptionText}>{action.label}</Text>
+                 </TouchableOpacity>
+               ))}
+             </View>
+           </TouchableOpacity>
+         </Modal>
+
+         {/* Forward to another conversation */}
+         <Modal
+           visible={!!forwardingMessage}
+           transparent={true}
+           animationType="slide"
+           onRequestClose={() => setForwardingMessage(null)}
+         >
+           <View style={styles.modalOverlay}>
+             <View style={styles.modalContent}>
+               <View style={styles.modalHeader}>
+                 <Text style={styles.modalTitle}>Forward To</Text>
+                 <TouchableOpacity
+                   onPress={() => setForwardingMessage(null)}
+                   style={styles.modalCloseButton}
+                 >
+                   <Text style={styles.modalCloseButtonText}>✕</Text>
+                 </TouchableOpacity>
+               </View>
+
+               <FlatList
+                 data={(conversations || []).filter(conv => conv.id !== selectedConversation.id)}
+                 keyExtractor={(item) => item.id}
+                 style={styles.modalConnectedUsersList}
+                 renderItem={({ item }) => (
+                   <TouchableOpacity style={styles.connectedUserItem} onPress={() => handleForward(item)}>
+                     <ProfilePicture
+                       avatarUrl={item.avatar_url}
+                       fullName={item.participant_name}
+                       size={40}
+                     />
+                     <Text style={styles.forwardTargetName} numberOfLines={1}>
+                       {item.participant_name}
+                     </Text>
+                   </TouchableOpacity>
+                 )}
+                 ListEmptyComponent={
+                   <Text style={styles.modalSubtitle}>No other conversations yet</Text>
+                 }
+               />
+             </View>
+           </View>
+         </Modal>
        </KeyboardAvoidingView>
      );
    }
@@ -1128,6 +1755,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 4,
   },
+  conversationNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   conversationName: {
     fontSize: 16,
     fontWeight: '600',
@@ -1231,6 +1863,22 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     minHeight: 0,
   },
+  messagesLoader: {
+    marginVertical: 12,
+  },
+  systemMessage: {
+    alignSelf: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 16,
+  },
+  systemMessageText: {
+    fontSize: 12,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
   messageInputContainer: {
     backgroundColor: '#FFFFFF',
     borderTopWidth: 1,
@@ -1347,6 +1995,118 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  attachmentMediaInfo: {
+    flex: 1,
+  },
+  uploadProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    marginLeft: 8,
+  },
+  uploadProgressTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  uploadProgressFill: {
+    height: '100%',
+    backgroundColor: '#FF6B35',
+  },
+  uploadProgressText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 8,
+  },
+  recordingIndicator: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#EF4444',
+    alignSelf: 'center',
+    marginRight: 8,
+  },
+  recordingText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2D3436',
+    alignSelf: 'center',
+  },
+  pinnedBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF7ED',
+    borderBottomWidth: 1,
+    borderBottomColor: '#FED7AA',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  pinnedBarContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  pinnedBarTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF6B35',
+  },
+  pinnedBarText: {
+    fontSize: 14,
+    color: '#2D3436',
+  },
+  composeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderLeftWidth: 3,
+    borderLeftColor: '#FF6B35',
+    borderRadius: 8,
+    paddingLeft: 12,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  composeBannerContent: {
+    flex: 1,
+  },
+  composeBannerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF6B35',
+    marginBottom: 2,
+  },
+  composeBannerText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  actionSheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  actionSheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingVertical: 8,
+    paddingBottom: 32,
+  },
+  actionSheetOption: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+  },
+  actionSheetOptionText: {
+    fontSize: 16,
+    color: '#2D3436',
+  },
+  forwardTargetName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3436',
+    marginLeft: 12,
+  },
 
   // New Conversation Modal Styles
   modalOverlay: {
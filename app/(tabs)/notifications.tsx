@@ -17,6 +17,11 @@ import {
   Users, 
   Dumbbell, 
   Clock,
+  Trophy,
+  Flag,
+  Swords,
+  Flame,
+  Rocket,
   Check,
   X
 } from 'lucide-react-native';
@@ -33,6 +38,7 @@ import {
   ConnectionRequest,
   Notification
 } from '@/lib/notifications';
+import { respondToTeamInvite } from '@/lib/teamChallenges';
 import { useFocusEffect } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 
@@ -46,6 +52,7 @@ export default function NotificationsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isClearingNotifications, setIsClearingNotifications] = useState(false);
+  const [answeredInvites, setAnsweredInvites] = useState<Set<string>>(new Set());
 
   const fetchData = useCallback(async () => {
     try {
@@ -247,6 +254,16 @@ export default function NotificationsScreen() {
         return <Dumbbell size={20} color="#F59E0B" />;
       case 'session_reminder':
         return <Clock size={20} color="#8B5CF6" />;
+      case 'achievement_unlocked':
+        return <Trophy size={20} color="#FFD700" />;
+      case 'challenge_completed':
+        return <Flag size={20} color="#00B894" />;
+      case 'team_invite':
+        return <Swords size={20} color="#FF6B35" />;
+      case 'streak_reminder':
+        return <Flame size={20} color="#E74C3C" />;
+      case 'level_up':
+        return <Rocket size={20} color="#FF6B35" />;
       default:
         return <Bell size={20} color="#6B7280" />;
     }
@@ -263,6 +280,25 @@ export default function NotificationsScreen() {
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
+  const handleTeamInviteAction = async (notification: Notification, accept: boolean) => {
+    const teamId = notification.data?.team_id;
+    if (!teamId) return;
+
+    const result = await respondToTeamInvite(teamId, accept);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to respond to invite');
+      return;
+    }
+
+    setAnsweredInvites(prev => new Set(prev).add(notification.id));
+    if (!notification.is_read) {
+      handleMarkAsRead(notification.id);
+    }
+    if (accept) {
+      Alert.alert('Challenge Accepted', 'You joined the team. Follow the standings in Gamification.');
+    }
+  };
+
   const renderNotification = (notification: Notification) => (
     <TouchableOpacity
       key={notification.id}
@@ -281,6 +317,22 @@ export default function NotificationsScreen() {
         <Text style={styles.notificationTime}>
           {formatTimeAgo(notification.created_at)}
         </Text>
+        {notification.type === 'team_invite' && !answeredInvites.has(notification.id) && (
+          <View style={styles.teamInviteActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => handleTeamInviteAction(notification, true)}
+            >
+              <Check size={16} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton]}
+              onPress={() => handleTeamInviteAction(notification, false)}
+            >
+              <X size={16} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
       {!notification.is_read && <View style={styles.unreadIndicator} />}
     </TouchableOpacity>
@@ -611,6 +663,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  teamInviteActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
   actionButton: {
     width: 32,
     height: 32,
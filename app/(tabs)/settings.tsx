@@ -26,6 +26,10 @@ import {
   MessageCircle,
   Dumbbell,
   UserPlus,
+  MapPin,
+  Check,
+  Flame,
+  CalendarDays,
 } from 'lucide-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
@@ -33,6 +37,11 @@ import { useProfile } from '@/contexts/ProfileContext';
 import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/notificationPreferences';
 import { getPrivacySettings, updatePrivacySettings } from '@/lib/privacySettings';
 import { useUserRoles } from '@/hooks/useUserRoles';
+import { getGymLocations, GymLocation } from '@/lib/gymLocations';
+import { GamificationService, StreakRules } from '@/lib/gamification';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MAX_REST_DAYS = 3;
 
 
 export default function SettingsScreen() {
@@ -46,6 +55,8 @@ export default function SettingsScreen() {
   const [notificationsModal, setNotificationsModal] = useState(false);
   const [privacyModal, setPrivacyModal] = useState(false);
   const [accountModal, setAccountModal] = useState(false);
+  const [homeGymModal, setHomeGymModal] = useState(false);
+  const [streakRulesModal, setStreakRulesModal] = useState(false);
 
   const [helpModal, setHelpModal] = useState(false);
   const [aboutModal, setAboutModal] = useState(false);
@@ -62,6 +73,13 @@ export default function SettingsScreen() {
     achievements: true,
   });
   
+  const [gymLocations, setGymLocations] = useState<GymLocation[]>([]);
+
+  const [streakRules, setStreakRules] = useState<StreakRules>({ mode: 'daily', weeklyTarget: 3, restDays: [] });
+  const [savedStreakRules, setSavedStreakRules] = useState<StreakRules | null>(null);
+  const [currentStreak, setCurrentStreak] = useState(0);
+  const [savingStreakRules, setSavingStreakRules] = useState(false);
+  
   const [privacySettings, setPrivacySettings] = useState({
     profileVisibility: 'public' as 'public' | 'private',
     showActivity: true,
@@ -94,8 +112,19 @@ export default function SettingsScreen() {
   useEffect(() => {
     loadNotificationPreferences();
     loadPrivacySettings();
+    getGymLocations().then(setGymLocations);
   }, []);
 
+  useEffect(() => {
+    if (user && isUser()) {
+      GamificationService.getUserStats(user.id).then(stats => {
+        if (stats) {
+          setSavedStreakRules(stats.streakRules);
+        }
+      });
+    }
+  }, [user, isUser]);
+
 
 
   // Update account settings when profile context data changes
@@ -125,6 +154,71 @@ export default function SettingsScreen() {
     }
   }, [userProfile, trainerProfile]);
 
+  const openStreakRules = async () => {
+    if (user) {
+      const stats = await GamificationService.getUserStats(user.id);
+      if (stats) {
+        setStreakRules(stats.streakRules);
+        setSavedStreakRules(stats.streakRules);
+        setCurrentStreak(stats.currentStreak);
+      }
+    }
+    setStreakRulesModal(true);
+  };
+
+  const toggleRestDay = (day: number) => {
+    setStreakRules(prev => {
+      if (prev.restDays.includes(day)) {
+        return { ...prev, restDays: prev.restDays.filter(restDay => restDay !== day) };
+      }
+      if (prev.restDays.length >= MAX_REST_DAYS) {
+        Alert.alert('Rest Days', `Pick up to ${MAX_REST_DAYS} rest days, or switch to a weekly target.`);
+        return prev;
+      }
+      return { ...prev, restDays: [...prev.restDays, day].sort() };
+    });
+  };
+
+  const saveStreakRules = async () => {
+    const save = async () => {
+      setSavingStreakRules(true);
+      const result = await GamificationService.setStreakRules(streakRules);
+      setSavingStreakRules(false);
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to save streak rules. Please try again.');
+        return;
+      }
+
+      setSavedStreakRules(streakRules);
+      setStreakRulesModal(false);
+    };
+
+    // The server starts a new streak whenever the rule that counts it changes
+    const ruleChanged = !!savedStreakRules && (
+      savedStreakRules.mode !== streakRules.mode
+      || (streakRules.mode === 'daily' && savedStreakRules.restDays.join() !== streakRules.restDays.join())
+      || (streakRules.mode === 'weekly' && savedStreakRules.weeklyTarget !== streakRules.weeklyTarget)
+    );
+
+    if (savedStreakRules && ruleChanged && currentStreak > 0) {
+      const change = savedStreakRules.mode !== streakRules.mode
+        ? `Switching to ${streakRules.mode === 'weekly' ? 'a weekly target' : 'daily streaks'}`
+        : `Changing your ${streakRules.mode === 'weekly' ? 'weekly target' : 'rest days'}`;
+      Alert.alert(
+        'Start a New Streak?',
+        `${change} ends your current ${currentStreak}-${savedStreakRules.mode === 'weekly' ? 'week' : 'day'} streak. It stays in your streak history.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Switch', style: 'destructive', onPress: save },
+        ]
+      );
+      return;
+    }
+
+    await save();
+  };
+
   const settingsSections = [
     {
       title: 'Notifications',
@@ -147,7 +241,22 @@ export default function SettingsScreen() {
       color: '#3498DB',
       subtitle: 'Update your account information',
     },
-
+    {
+      title: 'Home Gym',
+      icon: MapPin,
+      onPress: () => setHomeGymModal(true),
+      color: '#16A085',
+      subtitle: gymLocations.find(location => location.id === userProfile?.home_gym_id)?.name || 'Choose the branch you usually train at',
+    },
+    ...(isUser() ? [{
+      title: 'Streak Rules',
+      icon: Flame,
+      onPress: openStreakRules,
+      color: '#E67E22',
+      subtitle: savedStreakRules?.mode === 'weekly'
+        ? `${savedStreakRules.weeklyTarget} gym days a week`
+        : 'Consecutive gym days, with optional rest days',
+    }] : []),
     {
       title: 'Help & Support',
       icon: HelpCircle,
@@ -218,6 +327,17 @@ export default function SettingsScreen() {
     }));
   };
 
+  // Save the member's home gym
+  const selectHomeGym = async (locationId: string) => {
+    try {
+      await updateUserProfile({ home_gym_id: locationId });
+      setHomeGymModal(false);
+    } catch (error) {
+      console.error('Error updating home gym:', error);
+      Alert.alert('Error', 'Failed to update home gym. Please try again.');
+    }
+  };
+
   // Save profile data to database using profile context
   const saveProfileData = async () => {
     try {
@@ -880,6 +1000,146 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Home Gym Modal */}
+      <Modal
+        visible={homeGymModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <ModalHeader title="Home Gym" onClose={() => setHomeGymModal(false)} />
+          
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalDescription}>
+              Choose the branch you usually train at
+            </Text>
+            
+            <View style={styles.section}>
+              {gymLocations.map((location) => (
+                <TouchableOpacity
+                  key={location.id}
+                  style={styles.settingRow}
+                  onPress={() => selectHomeGym(location.id)}
+                >
+                  <View style={styles.settingInfo}>
+                    <MapPin size={20} color="#16A085" />
+                    <View style={styles.settingText}>
+                      <Text style={styles.settingLabel}>{location.name}</Text>
+                      {(location.address || location.city) && (
+                        <Text style={styles.settingDescription}>
+                          {[location.address, location.city].filter(Boolean).join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                  </View>
+                  {userProfile?.home_gym_id === location.id && (
+                    <Check size={20} color="#16A085" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Streak Rules Modal */}
+      <Modal
+        visible={streakRulesModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <ModalHeader title="Streak Rules" onClose={() => setStreakRulesModal(false)} />
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalDescription}>
+              Choose how your streak is counted
+            </Text>
+
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.settingRow}
+                onPress={() => setStreakRules(prev => ({ ...prev, mode: 'daily' }))}
+              >
+                <View style={styles.settingInfo}>
+                  <Flame size={20} color="#E67E22" />
+                  <View style={styles.settingText}>
+                    <Text style={styles.settingLabel}>Daily streak</Text>
+                    <Text style={styles.settingDescription}>
+                      Check in every day. Planned rest days never break your streak.
+                    </Text>
+                  </View>
+                </View>
+                {streakRules.mode === 'daily' && <Check size={20} color="#E67E22" />}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.settingRow}
+                onPress={() => setStreakRules(prev => ({ ...prev, mode: 'weekly' }))}
+              >
+                <View style={styles.settingInfo}>
+                  <CalendarDays size={20} color="#E67E22" />
+                  <View style={styles.settingText}>
+                    <Text style={styles.settingLabel}>Weekly target</Text>
+                    <Text style={styles.settingDescription}>
+                      Hit a number of gym days each week (Monday to Sunday). Your streak counts weeks.
+                    </Text>
+                  </View>
+                </View>
+                {streakRules.mode === 'weekly' && <Check size={20} color="#E67E22" />}
+              </TouchableOpacity>
+            </View>
+
+            {streakRules.mode === 'daily' ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Rest Days</Text>
+                <Text style={styles.settingDescription}>Up to {MAX_REST_DAYS} days a week</Text>
+                <View style={styles.dayChipRow}>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <TouchableOpacity
+                      key={label}
+                      style={[styles.dayChip, streakRules.restDays.includes(day) && styles.dayChipSelected]}
+                      onPress={() => toggleRestDay(day)}
+                    >
+                      <Text style={[styles.dayChipText, streakRules.restDays.includes(day) && styles.dayChipTextSelected]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ) : (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Gym Days per Week</Text>
+                <View style={styles.dayChipRow}>
+                  {[1, 2, 3, 4, 5, 6, 7].map(target => (
+                    <TouchableOpacity
+                      key={target}
+                      style={[styles.dayChip, streakRules.weeklyTarget === target && styles.dayChipSelected]}
+                      onPress={() => setStreakRules(prev => ({ ...prev, weeklyTarget: target }))}
+                    >
+                      <Text style={[styles.dayChipText, streakRules.weeklyTarget === target && styles.dayChipTextSelected]}>
+                        {target}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveProfileButton, savingStreakRules && styles.saveProfileButtonDisabled]}
+              onPress={saveStreakRules}
+              disabled={savingStreakRules}
+            >
+              <Text style={styles.saveProfileButtonText}>
+                {savingStreakRules ? 'Saving...' : 'Save Streak Rules'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </Modal>
+
       {/* About Modal */}
       <Modal
         visible={aboutModal}
@@ -1119,6 +1379,34 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     marginHorizontal: 20,
   },
+  saveProfileButtonDisabled: {
+    opacity: 0.6,
+  },
+  dayChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  dayChip: {
+    minWidth: 44,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+  },
+  dayChipSelected: {
+    backgroundColor: '#E67E22',
+  },
+  dayChipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  dayChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   saveProfileButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -8,10 +8,24 @@ import {
   Image,
   Alert,
   RefreshControl,
+  Modal,
 } from 'react-native';
 
 import { supabase } from '@/lib/supabase';
-import { Package, ShoppingBag, DollarSign } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { GamificationService } from '@/lib/gamification';
+import {
+  getPointsLedger,
+  getMembershipDiscounts,
+  getMyRedemptions,
+  redeemProduct,
+  redeemMembershipDiscount,
+  MembershipDiscount,
+  PointsLedgerEntry,
+  PointsRedemption,
+  POINTS_SOURCE_LABELS,
+} from '@/lib/points';
+import { Package, ShoppingBag, DollarSign, Coins, Gift, X } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 
 interface ShopProduct {
@@ -23,14 +37,25 @@ interface ShopProduct {
   image_url: string;
   stock_quantity: number;
   is_active: boolean;
+  points_price: number | null;
 }
 
+const formatPoints = (points: number) => points.toLocaleString();
+
 export default function ShopScreen() {
+  const { user } = useAuth();
   const [products, setProducts] = useState<ShopProduct[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
+  const [pointsBalance, setPointsBalance] = useState(0);
+  const [discounts, setDiscounts] = useState<MembershipDiscount[]>([]);
+  const [redemptions, setRedemptions] = useState<PointsRedemption[]>([]);
+  const [ledger, setLedger] = useState<PointsLedgerEntry[]>([]);
+  const [pointsModal, setPointsModal] = useState(false);
+  const [redeeming, setRedeeming] = useState(false);
+
 
   const categories = [
     { id: 'all', name: 'All', icon: Package },
@@ -68,16 +93,98 @@ export default function ShopScreen() {
     }
   }, [selectedCategory]);
 
+  const fetchPoints = useCallback(async () => {
+    if (!user) return;
+
+    const [stats, availableDiscounts, myRedemptions] = await Promise.all([
+      GamificationService.getUserStats(user.id),
+      getMembershipDiscounts(),
+      getMyRedemptions(user.id),
+    ]);
+
+    setPointsBalance(stats?.pointsBalance ?? 0);
+    setDiscounts(availableDiscounts);
+    setRedemptions(myRedemptions);
+  }, [user]);
+
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts]);
 
+  useEffect(() => {
+    fetchPoints();
+  }, [fetchPoints]);
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchProducts();
+    await Promise.all([fetchProducts(), fetchPoints()]);
     setRefreshing(false);
   };
 
+  const openPointsHistory = async () => {
+    setPointsModal(true);
+    if (user) {
+      setLedger(await getPointsLedger(user.id));
+    }
+  };
+
+  const confirmRedeem = (
+    itemName: string,
+    cost: number,
+    redeem: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    if (cost > pointsBalance) {
+      Alert.alert('Not Enough Points', `You need ${formatPoints(cost - pointsBalance)} more points for ${itemName}.`);
+      return;
+    }
+
+    Alert.alert(
+      'Redeem Points',
+      `Spend ${formatPoints(cost)} points on ${itemName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Redeem',
+          onPress: async () => {
+            setRedeeming(true);
+            const result = await redeem();
+            setRedeeming(false);
+
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to redeem points');
+              return;
+            }
+
+            Alert.alert('Redeemed!', successMessage);
+            fetchProducts();
+            fetchPoints();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRedeemProduct = (product: ShopProduct) => {
+    if (!product.points_price) return;
+
+    confirmRedeem(
+      product.name,
+      product.points_price,
+      () => redeemProduct(product.id),
+      'Show this at the front desk to collect it.'
+    );
+  };
+
+  const handleRedeemDiscount = (discount: MembershipDiscount) => {
+    confirmRedeem(
+      discount.name,
+      discount.pointsCost,
+      () => redeemMembershipDiscount(discount.id),
+      `We'll take ${discount.discountPercent}% off your next membership payment.`
+    );
+  };
+
   const handlePurchase = (product: ShopProduct) => {
     if (product.stock_quantity <= 0) {
       Alert.alert('Out of Stock', 'This product is currently out of stock.');
@@ -108,6 +215,9 @@ export default function ShopScreen() {
     return `$${price.toFixed(2)}`;
   };
 
+  const pendingRedemptions = redemptions.filter(redemption => redemption.status === 'pending');
+  const hasPendingDiscount = pendingRedemptions.some(redemption => redemption.kind === 'membership_discount');
+
   const renderProduct = (product: ShopProduct) => (
     <View key={product.id} style={styles.productCard}>
       <View style={styles.productImageContainer}>
@@ -137,6 +247,9 @@ export default function ShopScreen() {
           <View style={styles.priceContainer}>
             <DollarSign size={16} color="#00B894" />
             <Text style={styles.price}>{formatPrice(product.price)}</Text>
+            {product.points_price !== null && (
+              <Text style={styles.pointsPrice}>or {formatPoints(product.points_price)} pts</Text>
+            )}
           </View>
           
           <View style={styles.stockContainer}>
@@ -162,6 +275,22 @@ export default function ShopScreen() {
             {product.stock_quantity > 0 ? 'Purchase' : 'Out of Stock'}
           </Text>
         </TouchableOpacity>
+
+        {product.points_price !== null && product.stock_quantity > 0 && (
+          <TouchableOpacity
+            style={[
+              styles.redeemButton,
+              (redeeming || product.points_price > pointsBalance) && styles.redeemButtonDisabled,
+            ]}
+            onPress={() => handleRedeemProduct(product)}
+            disabled={redeeming}
+          >
+            <Coins size={16} color="#FF6B35" />
+            <Text style={styles.redeemButtonText}>
+              Redeem for {formatPoints(product.points_price)} pts
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
@@ -184,6 +313,10 @@ export default function ShopScreen() {
       >
         <Text style={styles.headerTitle}>Gym Shop</Text>
         <Text style={styles.headerSubtitle}>Get the gear you need</Text>
+        <TouchableOpacity style={styles.pointsPill} onPress={openPointsHistory}>
+          <Coins size={16} color="#FFFFFF" />
+          <Text style={styles.pointsPillText}>{formatPoints(pointsBalance)} points</Text>
+        </TouchableOpacity>
       </LinearGradient>
 
       {/* Category Filter */}
@@ -223,6 +356,38 @@ export default function ShopScreen() {
         }
         showsVerticalScrollIndicator={false}
       >
+        {selectedCategory === 'all' && discounts.length > 0 && (
+          <View style={styles.discountSection}>
+            <Text style={styles.sectionTitle}>Membership Discounts</Text>
+            {hasPendingDiscount && (
+              <Text style={styles.sectionHint}>
+                You have a discount waiting to be applied to your next payment.
+              </Text>
+            )}
+            {discounts.map(discount => (
+              <View key={discount.id} style={styles.discountCard}>
+                <Gift size={24} color="#FF6B35" />
+                <View style={styles.discountInfo}>
+                  <Text style={styles.discountName}>{discount.name}</Text>
+                  {discount.description && (
+                    <Text style={styles.discountDescription}>{discount.description}</Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  style={[
+                    styles.discountButton,
+                    (redeeming || hasPendingDiscount || discount.pointsCost > pointsBalance) && styles.redeemButtonDisabled,
+                  ]}
+                  onPress={() => handleRedeemDiscount(discount)}
+                  disabled={redeeming || hasPendingDiscount}
+                >
+                  <Text style={styles.discountButtonText}>{formatPoints(discount.pointsCost)} pts</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
         {products.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Package size={64} color="#FF6B35" />
@@ -239,6 +404,66 @@ export default function ShopScreen() {
           </View>
         )}
       </ScrollView>
+
+      {/* Points History Modal */}
+      <Modal
+        visible={pointsModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPointsModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Your Points</Text>
+            <TouchableOpacity onPress={() => setPointsModal(false)}>
+              <X size={24} color="#2D3436" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.balanceValue}>{formatPoints(pointsBalance)}</Text>
+            <Text style={styles.balanceLabel}>points to spend</Text>
+
+            {pendingRedemptions.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Waiting at the Front Desk</Text>
+                {pendingRedemptions.map(redemption => (
+                  <View key={redemption.id} style={styles.ledgerRow}>
+                    <View style={styles.ledgerInfo}>
+                      <Text style={styles.ledgerTitle}>{redemption.itemName}</Text>
+                      <Text style={styles.ledgerMeta}>
+                        Redeemed {new Date(redemption.createdAt).toLocaleDateString()}
+                      </Text>
+                    </View>
+                    <Text style={styles.ledgerAmount}>-{formatPoints(redemption.pointsSpent)}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>History</Text>
+            {ledger.length === 0 ? (
+              <Text style={styles.sectionHint}>
+                Earn points from check-ins, achievements and challenges.
+              </Text>
+            ) : (
+              ledger.map(entry => (
+                <View key={entry.id} style={styles.ledgerRow}>
+                  <View style={styles.ledgerInfo}>
+                    <Text style={styles.ledgerTitle}>{entry.description || POINTS_SOURCE_LABELS[entry.source]}</Text>
+                    <Text style={styles.ledgerMeta}>
+                      {POINTS_SOURCE_LABELS[entry.source]} · {new Date(entry.createdAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <Text style={[styles.ledgerAmount, entry.amount > 0 && styles.ledgerAmountPositive]}>
+                    {entry.amount > 0 ? '+' : ''}{formatPoints(entry.amount)}
+                  </Text>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -380,6 +605,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#00B894',
   },
+  pointsPrice: {
+    fontSize: 14,
+    color: '#FF6B35',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   stockContainer: {
     alignItems: 'flex-end',
   },
@@ -403,6 +634,157 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  redeemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#FF6B35',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  redeemButtonDisabled: {
+    opacity: 0.5,
+  },
+  redeemButtonText: {
+    color: '#FF6B35',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  pointsPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginTop: 12,
+    gap: 6,
+  },
+  pointsPillText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  discountSection: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2D3436',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#636E72',
+    marginBottom: 12,
+  },
+  discountCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 10,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  discountInfo: {
+    flex: 1,
+  },
+  discountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3436',
+  },
+  discountDescription: {
+    fontSize: 13,
+    color: '#636E72',
+    marginTop: 2,
+  },
+  discountButton: {
+    backgroundColor: '#FF6B35',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  discountButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2D3436',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  balanceValue: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: '#FF6B35',
+    textAlign: 'center',
+  },
+  balanceLabel: {
+    fontSize: 14,
+    color: '#636E72',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  ledgerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9ECEF',
+  },
+  ledgerInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ledgerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2D3436',
+  },
+  ledgerMeta: {
+    fontSize: 12,
+    color: '#636E72',
+    marginTop: 2,
+  },
+  ledgerAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#E74C3C',
+  },
+  ledgerAmountPositive: {
+    color: '#00B894',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,569 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Flag } from 'lucide-react-native';
+import { router } from 'expo-router';
+import {
+  GamificationService,
+  ChallengeSummary,
+  ChallengeCategory,
+} from '@/lib/gamification';
+import { createTeamChallenge } from '@/lib/teamChallenges';
+
+type ChallengePeriod = 'weekly' | 'monthly';
+type ChallengeFormat = 'solo' | 'team';
+type PeriodStart = 'current' | 'next';
+type ChallengeStatus = 'upcoming' | 'running' | 'closed' | 'hidden';
+
+const CATEGORY_OPTIONS: { value: ChallengeCategory; label: string; unit: string }[] = [
+  { value: 'checkin', label: 'Check-ins', unit: 'days with a check-in' },
+  { value: 'workout', label: 'Workouts', unit: 'days with a logged workout' },
+  { value: 'streak', label: 'Streak', unit: 'check-in days in a row' },
+  { value: 'goal', label: 'Goals', unit: 'goals completed' },
+];
+
+const STATUS_COLORS: Record<ChallengeStatus, string> = {
+  upcoming: '#3498DB',
+  running: '#2ECC71',
+  closed: '#95A5A6',
+  hidden: '#E67E22',
+};
+
+const STATUS_LABELS: Record<ChallengeStatus, string> = {
+  upcoming: 'Upcoming',
+  running: 'Running',
+  closed: 'Closed',
+  hidden: 'Hidden',
+};
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Monday-Sunday weeks and calendar months, in local time
+const getPeriodDates = (period: ChallengePeriod, start: PeriodStart) => {
+  const today = new Date();
+  const offset = start === 'next' ? 1 : 0;
+
+  if (period === 'weekly') {
+    const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7) + offset * 7);
+    const sunday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6);
+    return { startDate: formatDate(monday), endDate: formatDate(sunday) };
+  }
+
+  const first = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+  const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+  return { startDate: formatDate(first), endDate: formatDate(last) };
+};
+
+const getChallengeStatus = (challenge: ChallengeSummary): ChallengeStatus => {
+  if (challenge.closedAt || challenge.endDate < formatDate(new Date())) return 'closed';
+  if (!challenge.isActive) return 'hidden';
+  return challenge.startDate > formatDate(new Date()) ? 'upcoming' : 'running';
+};
+
+export default function AdminChallengesScreen() {
+  const [challenges, setChallenges] = useState<ChallengeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [period, setPeriod] = useState<ChallengePeriod>('weekly');
+  const [periodStart, setPeriodStart] = useState<PeriodStart>('next');
+  const [category, setCategory] = useState<ChallengeCategory>('checkin');
+  const [format, setFormat] = useState<ChallengeFormat>('solo');
+  const [teamNames, setTeamNames] = useState('Team Red, Team Blue');
+  const [target, setTarget] = useState('');
+  const [reward, setReward] = useState('');
+
+  const dates = getPeriodDates(period, periodStart);
+  const categoryUnit = CATEGORY_OPTIONS.find(option => option.value === category)?.unit;
+
+  const fetchChallenges = useCallback(async () => {
+    setChallenges(await GamificationService.getAllChallenges());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchChallenges();
+  }, [fetchChallenges]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchChallenges();
+    setRefreshing(false);
+  };
+
+  const handleCreate = async () => {
+    const targetValue = parseInt(target, 10);
+    const rewardPoints = parseInt(reward, 10);
+
+    if (!name.trim() || !description.trim()) {
+      Alert.alert('Missing Details', 'Please enter a name and description for the challenge.');
+      return;
+    }
+
+    if (format === 'solo' && (!Number.isFinite(targetValue) || targetValue < 1)) {
+      Alert.alert('Invalid Target', 'The target must be at least 1.');
+      return;
+    }
+
+    if (!Number.isFinite(rewardPoints) || rewardPoints < 0) {
+      Alert.alert('Invalid Reward', 'The reward must be 0 points or more.');
+      return;
+    }
+
+    const teams = teamNames.split(',').map(team => team.trim()).filter(Boolean);
+    if (format === 'team' && (teams.length < 2 || new Set(teams).size !== teams.length)) {
+      Alert.alert('Team Names', 'Enter at least two different team names, separated by commas.');
+      return;
+    }
+
+    setCreating(true);
+    const result = format === 'team'
+      ? await createTeamChallenge({
+          name: name.trim(),
+          description: description.trim(),
+          category,
+          teamNames: teams,
+          reward: rewardPoints,
+          ...dates,
+        })
+      : await GamificationService.createChallenge({
+          name: name.trim(),
+          description: description.trim(),
+          type: period,
+          category,
+          target: targetValue,
+          reward: rewardPoints,
+          ...dates,
+        });
+    setCreating(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to create challenge');
+      return;
+    }
+
+    setName('');
+    setDescription('');
+    setTarget('');
+    setReward('');
+    fetchChallenges();
+  };
+
+  const handleToggleActive = (challenge: ChallengeSummary) => {
+    const hide = challenge.isActive;
+    Alert.alert(
+      hide ? 'Hide Challenge' : 'Show Challenge',
+      hide
+        ? `Members will no longer see "${challenge.name}" or be able to join it.`
+        : `"${challenge.name}" will be visible to members again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: hide ? 'Hide' : 'Show',
+          style: hide ? 'destructive' : 'default',
+          onPress: async () => {
+            const result = await GamificationService.setChallengeActive(challenge.id, !hide);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to update challenge');
+              return;
+            }
+            fetchChallenges();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChallenge = (challenge: ChallengeSummary) => {
+    const status = getChallengeStatus(challenge);
+
+    return (
+      <View key={challenge.id} style={styles.challengeRow}>
+        <View style={styles.challengeInfo}>
+          <Text style={styles.challengeName}>{challenge.name}</Text>
+          <Text style={styles.challengeDetail}>
+            {challenge.startDate} – {challenge.endDate} · {challenge.format === 'team' ? 'most' : challenge.target}{' '}
+            {CATEGORY_OPTIONS.find(option => option.value === challenge.challenge_category)?.unit}
+            {challenge.format === 'team' ? ` · teams${challenge.inviteOnly ? ' (members)' : ''}` : ''}
+          </Text>
+          <Text style={styles.challengeDetail}>
+            {challenge.enrolledCount} joined · {challenge.completedCount} completed · {challenge.reward} pts
+          </Text>
+          {status !== 'closed' && (
+            <TouchableOpacity onPress={() => handleToggleActive(challenge)}>
+              <Text style={styles.toggleText}>{challenge.isActive ? 'Hide from members' : 'Show to members'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[status] }]}>
+          <Text style={styles.statusText}>{STATUS_LABELS[status]}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#FF6B35', '#FF8C42']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Challenges</Text>
+        <Text style={styles.headerSubtitle}>Run weekly and monthly challenges for members</Text>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>New Challenge</Text>
+
+          <TextInput
+            style={styles.textInput}
+            placeholder="Name"
+            placeholderTextColor="#95A5A6"
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            style={[styles.textInput, styles.multilineInput]}
+            placeholder="Description"
+            placeholderTextColor="#95A5A6"
+            value={description}
+            onChangeText={setDescription}
+            multiline
+          />
+
+          <Text style={styles.fieldLabel}>Format</Text>
+          <View style={styles.chipRow}>
+            {(['solo', 'team'] as ChallengeFormat[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, format === value && styles.chipSelected]}
+                onPress={() => setFormat(value)}
+              >
+                <Text style={[styles.chipText, format === value && styles.chipTextSelected]}>
+                  {value === 'solo' ? 'Solo' : 'Teams'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Length</Text>
+          <View style={styles.chipRow}>
+            {(['weekly', 'monthly'] as ChallengePeriod[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, period === value && styles.chipSelected]}
+                onPress={() => setPeriod(value)}
+              >
+                <Text style={[styles.chipText, period === value && styles.chipTextSelected]}>
+                  {value === 'weekly' ? 'Weekly' : 'Monthly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Runs</Text>
+          <View style={styles.chipRow}>
+            {(['current', 'next'] as PeriodStart[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, periodStart === value && styles.chipSelected]}
+                onPress={() => setPeriodStart(value)}
+              >
+                <Text style={[styles.chipText, periodStart === value && styles.chipTextSelected]}>
+                  {value === 'current' ? 'This' : 'Next'} {period === 'weekly' ? 'week' : 'month'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hintText}>{dates.startDate} – {dates.endDate}</Text>
+
+          <Text style={styles.fieldLabel}>Counts</Text>
+          <View style={styles.chipRow}>
+            {CATEGORY_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, category === option.value && styles.chipSelected]}
+                onPress={() => setCategory(option.value)}
+              >
+                <Text style={[styles.chipText, category === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {format === 'team' && (
+            <>
+              <Text style={styles.fieldLabel}>Teams</Text>
+              <TextInput
+                style={styles.textInput}
+                placeholder="Team Red, Team Blue"
+                placeholderTextColor="#95A5A6"
+                value={teamNames}
+                onChangeText={setTeamNames}
+              />
+            </>
+          )}
+
+          <View style={styles.numberRow}>
+            {format === 'solo' && (
+              <View style={styles.numberField}>
+                <Text style={styles.fieldLabel}>Target</Text>
+                <TextInput
+                  style={styles.textInput}
+                  placeholder="e.g. 12"
+                  placeholderTextColor="#95A5A6"
+                  value={target}
+                  onChangeText={setTarget}
+                  keyboardType="number-pad"
+                />
+              </View>
+            )}
+            <View style={styles.numberField}>
+              <Text style={styles.fieldLabel}>Reward (points)</Text>
+              <TextInput
+                style={styles.textInput}
+                placeholder="e.g. 250"
+                placeholderTextColor="#95A5A6"
+                value={reward}
+                onChangeText={setReward}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+          <Text style={styles.hintText}>
+            {format === 'solo'
+              ? `Target is the number of ${categoryUnit}.`
+              : `The team with the most ${categoryUnit} wins; each winner gets the reward.`}
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.createButton, creating && styles.createButtonDisabled]}
+            onPress={handleCreate}
+            disabled={creating}
+          >
+            {creating ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Flag size={20} color="#FFFFFF" />
+                <Text style={styles.createButtonText}>Create Challenge</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>All Challenges</Text>
+          {loading ? (
+            <ActivityIndicator color="#FF6B35" style={styles.loader} />
+          ) : challenges.length === 0 ? (
+            <Text style={styles.emptyText}>No challenges yet.</Text>
+          ) : (
+            challenges.map(renderChallenge)
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 5,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 15,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 15,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#2C3E50',
+    marginBottom: 15,
+  },
+  multilineInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F1F2F6',
+  },
+  chipSelected: {
+    backgroundColor: '#FF6B35',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginTop: -8,
+    marginBottom: 15,
+  },
+  numberRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  numberField: {
+    flex: 1,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  createButtonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  createButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  challengeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  challengeInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  challengeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 4,
+  },
+  challengeDetail: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginBottom: 2,
+  },
+  toggleText: {
+    fontSize: 13,
+    color: '#FF6B35',
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+});
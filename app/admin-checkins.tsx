@@ -6,20 +6,36 @@ import {
   ScrollView,
   TouchableOpacity,
   RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, Users, UserCheck, Clock } from 'lucide-react-native';
+import { ArrowLeft, Users, UserCheck, Clock, Download, X, FileText, FileSpreadsheet } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
+import { getGymLocations, GymLocation } from '@/lib/gymLocations';
+import { getCheckInAnalyticsReport, checkInAnalyticsToCsv } from '@/lib/checkInAnalytics';
+import { shareCsv } from '@/lib/csv';
+import {
+  exportCheckInHistory,
+  CheckInExportFormat,
+  CheckInExportUserType,
+} from '@/lib/checkInExport';
 
 interface CheckInRecord {
   id: string;
-  user_id: string;
+  user_id: string | null;
   user_type: string;
   check_in_time: string;
   check_out_time: string | null;
   check_in_reason: string | null;
   is_checked_in: boolean;
+  auto_closed: boolean;
+  location_id: string;
+  guest_pass_id: string | null;
+  guest_name: string | null;
   created_at: string;
   user_profiles: {
     full_name: string | null;
@@ -30,12 +46,89 @@ interface CheckInRecord {
 
 type TimeFilter = 'today' | 'week' | 'month' | 'all';
 
+const getTimeFilterStart = (filter: TimeFilter) => {
+  const now = new Date();
+
+  switch (filter) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case 'week':
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    default:
+      return new Date(0); // Beginning of time
+  }
+};
+
+type ExportRange = 'this_month' | 'last_month' | 'last_30_days' | 'custom';
+
+const EXPORT_RANGE_LABELS: Record<ExportRange, string> = {
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  last_30_days: 'Last 30 Days',
+  custom: 'Custom',
+};
+
+const EXPORT_USER_TYPE_LABELS: Record<CheckInExportUserType, string> = {
+  all: 'Everyone',
+  user: 'Members',
+  trainer: 'Trainers',
+  guest: 'Guests',
+};
+
+const parseDateInput = (value: string) => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const formatDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Start (inclusive) and end (exclusive) of an export range in local time
+const getExportRangeDates = (
+  range: ExportRange,
+  customStart: string,
+  customEnd: string
+): { start: Date; end: Date } | null => {
+  const now = new Date();
+
+  switch (range) {
+    case 'this_month':
+      return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: now };
+    case 'last_month':
+      return {
+        start: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+        end: new Date(now.getFullYear(), now.getMonth(), 1),
+      };
+    case 'last_30_days':
+      return { start: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000), end: now };
+    case 'custom': {
+      const start = parseDateInput(customStart);
+      const end = parseDateInput(customEnd);
+      if (!start || !end || end < start) return null;
+      // Include the whole end day
+      return { start, end: new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1) };
+    }
+  }
+};
+
 export default function AdminCheckInsScreen() {
 
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportRange, setExportRange] = useState<ExportRange>('this_month');
+  const [exportUserType, setExportUserType] = useState<CheckInExportUserType>('all');
+  const [customStart, setCustomStart] = useState(formatDateInput(new Date(new Date().getFullYear(), new Date().getMonth(), 1)));
+  const [customEnd, setCustomEnd] = useState(formatDateInput(new Date()));
   const [filter, setFilter] = useState<'all' | 'users' | 'trainers'>('all');
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('today');
+  const [locationFilter, setLocationFilter] = useState<string>('all');
+  const [locations, setLocations] = useState<GymLocation[]>([]);
   const [stats, setStats] = useState({
     totalCheckIns: 0,
     activeCheckIns: 0,
@@ -46,9 +139,13 @@ export default function AdminCheckInsScreen() {
   const [aggregatedData, setAggregatedData] = useState<any[]>([]);
   const [expandedUsers, setExpandedUsers] = useState<Set<string>>(new Set());
 
+  useEffect(() => {
+    getGymLocations(true).then(setLocations);
+  }, []);
+
   useEffect(() => {
     fetchCheckIns();
-  }, [filter, timeFilter]);
+  }, [filter, timeFilter, locationFilter]);
 
   const fetchCheckIns = async () => {
     try {
@@ -58,7 +155,7 @@ export default function AdminCheckInsScreen() {
         .from('gym_checkins')
         .select(`
           *,
-          user_profiles (
+          user_profiles!gym_checkins_user_id_fkey (
             full_name,
             username,
             user_type
@@ -71,26 +168,14 @@ export default function AdminCheckInsScreen() {
         query = query.eq('user_profiles.user_type', filter === 'trainers' ? 'trainer' : 'user');
       }
 
-      // Apply time filter
-      const now = new Date();
-      let startDate: Date;
-
-      switch (timeFilter) {
-        case 'today':
-          startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          break;
-        case 'week':
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case 'month':
-          startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-          break;
-        default:
-          startDate = new Date(0); // Beginning of time
+      // Apply location filter
+      if (locationFilter !== 'all') {
+        query = query.eq('location_id', locationFilter);
       }
 
+      // Apply time filter
       if (timeFilter !== 'all') {
-        query = query.gte('check_in_time', startDate.toISOString());
+        query = query.gte('check_in_time', getTimeFilterStart(timeFilter).toISOString());
       }
 
       const { data, error } = await query;
@@ -126,13 +211,16 @@ export default function AdminCheckInsScreen() {
     const userMap = new Map();
     
     data.forEach(checkIn => {
-      const userId = checkIn.user_id;
+      // Guests have no account, so each guest pass is grouped on its own
+      const userId = checkIn.user_id ?? checkIn.guest_pass_id ?? checkIn.id;
       
       if (!userMap.has(userId)) {
         userMap.set(userId, {
           userInfo: {
             id: userId,
-            name: checkIn.user_profiles?.full_name || checkIn.user_profiles?.username || 'Unknown User',
+            name: checkIn.user_type === 'guest'
+              ? checkIn.guest_name || 'Guest'
+              : checkIn.user_profiles?.full_name || checkIn.user_profiles?.username || 'Unknown User',
             type: checkIn.user_type,
             icon: getUserTypeIcon(checkIn.user_type)
           },
@@ -142,7 +230,8 @@ export default function AdminCheckInsScreen() {
             isCurrentlyActive: false,
             lastCheckInTime: null,
             totalSessionTime: 0,
-            completedSessions: 0
+            completedSessions: 0,
+            autoClosedSessions: 0
           }
         });
       }
@@ -150,6 +239,9 @@ export default function AdminCheckInsScreen() {
       const userData = userMap.get(userId);
       userData.checkIns.push(checkIn);
       userData.summary.totalCheckIns++;
+      if (checkIn.auto_closed) {
+        userData.summary.autoClosedSessions++;
+      }
       
       // Update active status
       if (checkIn.is_checked_in) {
@@ -162,8 +254,8 @@ export default function AdminCheckInsScreen() {
         userData.summary.lastCheckInTime = checkInTime;
       }
       
-      // Calculate session duration if completed
-      if (checkIn.check_out_time && checkIn.check_in_time) {
+      // Calculate session duration if completed (auto-closed sessions only have an estimated end)
+      if (checkIn.check_out_time && checkIn.check_in_time && !checkIn.auto_closed) {
         const duration = new Date(checkIn.check_out_time).getTime() - checkInTime.getTime();
         userData.summary.totalSessionTime += duration;
         userData.summary.completedSessions++;
@@ -188,7 +280,7 @@ export default function AdminCheckInsScreen() {
     let completedSessions = 0;
     
     data.forEach(checkIn => {
-      if (checkIn.check_out_time && checkIn.check_in_time) {
+      if (checkIn.check_out_time && checkIn.check_in_time && !checkIn.auto_closed) {
         const duration = new Date(checkIn.check_out_time).getTime() - new Date(checkIn.check_in_time).getTime();
         totalSessionTime += duration;
         completedSessions++;
@@ -204,6 +296,51 @@ export default function AdminCheckInsScreen() {
     });
   };
 
+  const getSelectedExportRange = () => {
+    const range = getExportRangeDates(exportRange, customStart, customEnd);
+    if (!range) {
+      Alert.alert('Invalid Dates', 'Please enter a start and end date as YYYY-MM-DD, with the end on or after the start.');
+    }
+    return range;
+  };
+
+  const exportHistory = async (format: CheckInExportFormat) => {
+    const range = getSelectedExportRange();
+    if (!range) return;
+
+    setExporting(true);
+    const result = await exportCheckInHistory({
+      ...range,
+      userType: exportUserType,
+      locationId: locationFilter === 'all' ? undefined : locationFilter,
+    }, format);
+    setExporting(false);
+
+    if (!result.success) {
+      Alert.alert('Export Failed', result.error || 'Could not export check-in history. Please try again.');
+    }
+  };
+
+  const exportAnalytics = async () => {
+    const range = getSelectedExportRange();
+    if (!range) return;
+
+    try {
+      setExporting(true);
+      const report = await getCheckInAnalyticsReport({
+        ...range,
+        locationId: locationFilter === 'all' ? undefined : locationFilter,
+      }, exportRange === 'custom' ? 'week' : 'day');
+      const date = formatDateInput(range.start);
+      await shareCsv(`checkin-analytics-${date}.csv`, checkInAnalyticsToCsv(report));
+    } catch (error) {
+      console.error('Error exporting check-in analytics:', error);
+      Alert.alert('Export Failed', 'Could not export check-in analytics. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchCheckIns();
@@ -223,11 +360,17 @@ export default function AdminCheckInsScreen() {
 
 
 
+  const getLocationName = (locationId: string) => {
+    return locations.find(location => location.id === locationId)?.name || locationId;
+  };
+
   const getUserTypeIcon = (userType: string) => {
+    if (userType === 'guest') return '🎟️';
     return userType === 'trainer' ? '🏋️' : '💪';
   };
 
   const getUserTypeLabel = (userType: string) => {
+    if (userType === 'guest') return 'Guest';
     return userType === 'trainer' ? 'Trainer' : 'Member';
   };
 
@@ -257,12 +400,21 @@ export default function AdminCheckInsScreen() {
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
       >
-        <TouchableOpacity 
-          style={styles.backButton}
-          onPress={() => router.back()}
-        >
-          <ArrowLeft size={24} color="#FFFFFF" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => setShowExportModal(true)}
+          >
+            <Download size={18} color="#FFFFFF" />
+            <Text style={styles.exportButtonText}>Export</Text>
+          </TouchableOpacity>
+        </View>
         <Text style={styles.headerTitle}>Check-in Analytics</Text>
         <Text style={styles.headerSubtitle}>Monitor gym attendance and patterns</Text>
       </LinearGradient>
@@ -310,7 +462,30 @@ export default function AdminCheckInsScreen() {
         </ScrollView>
       </View>
 
-      
+      {/* Location Filter */}
+      {locations.length > 1 && (
+        <View style={styles.timeFilterContainer}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {[{ id: 'all', name: 'All Locations' }, ...locations].map((location) => (
+              <TouchableOpacity 
+                key={location.id}
+                style={[
+                  styles.timeFilterTab,
+                  locationFilter === location.id && { backgroundColor: '#2C3E50' }
+                ]}
+                onPress={() => setLocationFilter(location.id)}
+              >
+                <Text style={[
+                  styles.timeFilterText,
+                  locationFilter === location.id && styles.timeFilterTextActive
+                ]}>
+                  {location.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
 
       {/* User Type Filter */}
       <View style={styles.filterContainer}>
@@ -422,6 +597,13 @@ export default function AdminCheckInsScreen() {
                    </View>
                  )}
                  
+                 {userData.summary.autoClosedSessions > 0 && (
+                   <View style={styles.summaryRow}>
+                     <Text style={styles.summaryLabel}>Auto Checked Out:</Text>
+                     <Text style={styles.summaryValue}>{userData.summary.autoClosedSessions}</Text>
+                   </View>
+                 )}
+                 
                  {userData.summary.completedSessions > 0 && (
                    <View style={styles.summaryRow}>
                      <Text style={styles.summaryLabel}>Avg. Session:</Text>
@@ -442,9 +624,11 @@ export default function AdminCheckInsScreen() {
                        <Text style={styles.detailText}>
                          {formatTime(checkIn.check_in_time)} • {formatDateTime(checkIn.check_in_time)}
                          {checkIn.check_out_time && ` → ${formatTime(checkIn.check_out_time)}`}
-                         {checkIn.check_out_time && checkIn.check_in_time && 
+                         {checkIn.check_out_time && checkIn.check_in_time && !checkIn.auto_closed &&
                            ` (${Math.round((new Date(checkIn.check_out_time).getTime() - new Date(checkIn.check_in_time).getTime()) / (1000 * 60))} min)`
                          }
+                         {checkIn.auto_closed && ' (auto checked out)'}
+                         {locations.length > 1 && ` • ${getLocationName(checkIn.location_id)}`}
                        </Text>
                      </View>
                    ))}
@@ -454,6 +638,99 @@ export default function AdminCheckInsScreen() {
            ))
          )}
       </ScrollView>
+
+      {/* Export Modal */}
+      <Modal
+        visible={showExportModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowExportModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Export Check-ins</Text>
+              <TouchableOpacity onPress={() => setShowExportModal(false)}>
+                <X size={24} color="#2C3E50" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalLabel}>Date range</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(EXPORT_RANGE_LABELS) as ExportRange[]).map(range => (
+                <TouchableOpacity
+                  key={range}
+                  style={[styles.chip, exportRange === range && styles.chipActive]}
+                  onPress={() => setExportRange(range)}
+                >
+                  <Text style={[styles.chipText, exportRange === range && styles.chipTextActive]}>
+                    {EXPORT_RANGE_LABELS[range]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {exportRange === 'custom' && (
+              <View style={styles.dateInputRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={customStart}
+                  onChangeText={setCustomStart}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#95A5A6"
+                  autoCapitalize="none"
+                />
+                <Text style={styles.dateInputSeparator}>to</Text>
+                <TextInput
+                  style={styles.dateInput}
+                  value={customEnd}
+                  onChangeText={setCustomEnd}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#95A5A6"
+                  autoCapitalize="none"
+                />
+              </View>
+            )}
+
+            <Text style={styles.modalLabel}>Who</Text>
+            <View style={styles.chipRow}>
+              {(Object.keys(EXPORT_USER_TYPE_LABELS) as CheckInExportUserType[]).map(userType => (
+                <TouchableOpacity
+                  key={userType}
+                  style={[styles.chip, exportUserType === userType && styles.chipActive]}
+                  onPress={() => setExportUserType(userType)}
+                >
+                  <Text style={[styles.chipText, exportUserType === userType && styles.chipTextActive]}>
+                    {EXPORT_USER_TYPE_LABELS[userType]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.modalNote}>
+              Location: {locationFilter === 'all' ? 'All locations' : getLocationName(locationFilter)}
+            </Text>
+
+            {exporting ? (
+              <ActivityIndicator color="#2C3E50" style={styles.exportingIndicator} />
+            ) : (
+              <>
+                <TouchableOpacity style={styles.exportOption} onPress={() => exportHistory('csv')}>
+                  <FileSpreadsheet size={20} color="#2ECC71" />
+                  <Text style={styles.exportOptionText}>Check-in History (CSV)</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.exportOption} onPress={() => exportHistory('pdf')}>
+                  <FileText size={20} color="#E74C3C" />
+                  <Text style={styles.exportOptionText}>Check-in History (PDF)</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.exportOption} onPress={exportAnalytics}>
+                  <FileSpreadsheet size={20} color="#3498DB" />
+                  <Text style={styles.exportOptionText}>Analytics Report (CSV)</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -470,6 +747,11 @@ const styles = StyleSheet.create({
     borderBottomLeftRadius: 30,
     borderBottomRightRadius: 30,
   },
+  headerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
   backButton: {
     width: 40,
     height: 40,
@@ -479,6 +761,115 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginBottom: 20,
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  modalLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#636E72',
+    marginBottom: 8,
+  },
+  modalNote: {
+    fontSize: 13,
+    color: '#636E72',
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  chipActive: {
+    backgroundColor: '#2C3E50',
+    borderColor: '#2C3E50',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  dateInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#2C3E50',
+  },
+  dateInputSeparator: {
+    marginHorizontal: 10,
+    color: '#636E72',
+  },
+  exportingIndicator: {
+    marginVertical: 30,
+  },
+  exportOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F8F9FA',
+    marginBottom: 10,
+  },
+  exportOptionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
   headerTitle: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,41 +17,66 @@ import {
   Users, 
   UserCheck, 
   ShoppingBag, 
+  Coins,
   BarChart3, 
   Settings,
   LogOut,
   Shield,
   MessageCircle,
   Bell,
-  MessageSquare
+  MessageSquare,
+  QrCode,
+  ShieldAlert,
+  Ticket,
+  Flag
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { getGymLocations, GymLocation } from '@/lib/gymLocations';
+import { getRecentCheckInDenials, getDenialReasonLabel, CheckInDenial } from '@/lib/checkInAccess';
+import CheckInAnalyticsPanel from '@/components/CheckInAnalyticsPanel';
 
 
 interface DashboardStats {
   totalMembers: number;
   totalTrainers: number;
   activeCheckIns: number;
+  deniedCheckIns: number;
   totalRevenue: number;
 }
 
+// Denied check-ins are reviewed over the last week
+const DENIED_CHECKINS_WINDOW_DAYS = 7;
+
+const getDeniedCheckInsSince = () =>
+  new Date(Date.now() - DENIED_CHECKINS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
 export default function AdminDashboardScreen() {
   const { signOut, user, loading: authLoading } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     totalMembers: 0,
     totalTrainers: 0,
     activeCheckIns: 0,
+    deniedCheckIns: 0,
     totalRevenue: 0,
   });
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [locations, setLocations] = useState<GymLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>('all');
+  const [analyticsRefreshKey, setAnalyticsRefreshKey] = useState(0);
+  // Realtime callbacks are registered once, so they read the filter through a ref
+  const locationFilterRef = useRef('all');
   
   // NEW: Modal state for active users
   const [showActiveUsersModal, setShowActiveUsersModal] = useState(false);
   const [activeUsers, setActiveUsers] = useState<any[]>([]);
 
+  // Denied check-in attempts for review
+  const [showDeniedCheckInsModal, setShowDeniedCheckInsModal] = useState(false);
+  const [deniedCheckIns, setDeniedCheckIns] = useState<CheckInDenial[]>([]);
+
   // NEW: Admin notifications state
   const [showNotificationsModal, setShowNotificationsModal] = useState(false);
   const [adminNotifications, setAdminNotifications] = useState<any[]>([]);
@@ -79,7 +104,15 @@ export default function AdminDashboardScreen() {
   }, [user, authLoading]);
 
   useEffect(() => {
+    getGymLocations(true).then(setLocations);
+  }, []);
+
+  useEffect(() => {
+    locationFilterRef.current = locationFilter;
     fetchDashboardStats();
+  }, [locationFilter]);
+
+  useEffect(() => {
     fetchAdminNotifications(); // Fetch admin notifications on mount
     checkExpiredSubscriptions(); // Check for expired subscriptions
     
@@ -205,15 +238,37 @@ export default function AdminDashboardScreen() {
       }
 
       // Fetch active check-ins
-      const { count: activeCheckIns, error: checkInsError } = await supabase
+      let activeCheckInsQuery = supabase
         .from('gym_checkins')
         .select('*', { count: 'exact', head: true })
         .eq('is_checked_in', true);
 
+      if (locationFilterRef.current !== 'all') {
+        activeCheckInsQuery = activeCheckInsQuery.eq('location_id', locationFilterRef.current);
+      }
+
+      const { count: activeCheckIns, error: checkInsError } = await activeCheckInsQuery;
+
       if (checkInsError) {
         console.error('Error fetching active check-ins:', checkInsError);
       }
 
+      // Fetch denied check-in attempts
+      let deniedCheckInsQuery = supabase
+        .from('checkin_denials')
+        .select('*', { count: 'exact', head: true })
+        .gte('created_at', getDeniedCheckInsSince().toISOString());
+
+      if (locationFilterRef.current !== 'all') {
+        deniedCheckInsQuery = deniedCheckInsQuery.eq('location_id', locationFilterRef.current);
+      }
+
+      const { count: deniedCheckIns, error: deniedError } = await deniedCheckInsQuery;
+
+      if (deniedError) {
+        console.error('Error fetching denied check-ins:', deniedError);
+      }
+
       // Also fetch all check-ins to see what's in the table
       const { error: allCheckInsError } = await supabase
         .from('gym_checkins')
@@ -229,6 +284,7 @@ export default function AdminDashboardScreen() {
         totalMembers: membersCount || 0,
         totalTrainers: trainersCount || 0,
         activeCheckIns: activeCheckIns || 0,
+        deniedCheckIns: deniedCheckIns || 0,
         totalRevenue: 0, // Placeholder for future revenue tracking
       };
 
@@ -444,11 +500,11 @@ export default function AdminDashboardScreen() {
   // NEW: Fetch currently active users
   const fetchActiveUsers = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('gym_checkins')
         .select(`
           *,
-          user_profiles (
+          user_profiles!gym_checkins_user_id_fkey (
             full_name,
             username,
             user_type
@@ -457,6 +513,12 @@ export default function AdminDashboardScreen() {
         .eq('is_checked_in', true)
         .order('check_in_time', { ascending: false });
 
+      if (locationFilterRef.current !== 'all') {
+        query = query.eq('location_id', locationFilterRef.current);
+      }
+
+      const { data, error } = await query;
+
       if (error) {
         console.error('Error fetching active users:', error);
         return;
@@ -465,14 +527,17 @@ export default function AdminDashboardScreen() {
       // Group by user to avoid duplicates
       const userMap = new Map();
       data.forEach(checkIn => {
-        const userId = checkIn.user_id;
+        const userId = checkIn.user_id ?? checkIn.guest_pass_id ?? checkIn.id;
         if (!userMap.has(userId)) {
+          const isGuest = checkIn.user_type === 'guest';
           userMap.set(userId, {
             id: userId,
-            name: checkIn.user_profiles?.full_name || checkIn.user_profiles?.username || 'Unknown User',
-            type: checkIn.user_profiles?.user_type || checkIn.user_type,
+            name: isGuest
+              ? `${checkIn.guest_name || 'Guest'} (guest)`
+              : checkIn.user_profiles?.full_name || checkIn.user_profiles?.username || 'Unknown User',
+            type: isGuest ? 'guest' : checkIn.user_profiles?.user_type || checkIn.user_type,
             checkInTime: checkIn.check_in_time,
-            icon: checkIn.user_profiles?.user_type === 'trainer' ? '🏋️' : '💪'
+            icon: isGuest ? '🎟️' : checkIn.user_profiles?.user_type === 'trainer' ? '🏋️' : '💪'
           });
         }
       });
@@ -483,8 +548,14 @@ export default function AdminDashboardScreen() {
     }
   };
 
+  const fetchDeniedCheckIns = async () => {
+    const locationId = locationFilterRef.current !== 'all' ? locationFilterRef.current : undefined;
+    setDeniedCheckIns(await getRecentCheckInDenials(getDeniedCheckInsSince(), locationId));
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
+    setAnalyticsRefreshKey(key => key + 1);
     await fetchDashboardStats();
     setRefreshing(false);
   };
@@ -879,6 +950,31 @@ Thank you for being part of our gym community!
         {/* Stats Overview */}
         <View style={styles.statsContainer}>
           <Text style={styles.sectionTitle}>Overview</Text>
+          {locations.length > 1 && (
+            <ScrollView 
+              horizontal 
+              showsHorizontalScrollIndicator={false}
+              style={styles.locationFilterRow}
+            >
+              {[{ id: 'all', name: 'All Locations' }, ...locations].map((location) => (
+                <TouchableOpacity
+                  key={location.id}
+                  style={[
+                    styles.locationFilterChip,
+                    locationFilter === location.id && styles.locationFilterChipActive
+                  ]}
+                  onPress={() => setLocationFilter(location.id)}
+                >
+                  <Text style={[
+                    styles.locationFilterText,
+                    locationFilter === location.id && styles.locationFilterTextActive
+                  ]}>
+                    {location.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
           <View style={styles.statsGrid}>
             <StatCard
               title="Total Members"
@@ -912,9 +1008,28 @@ Thank you for being part of our gym community!
               color="#E74C3C"
               onPress={() => setShowBulkMessagingModal(true)}
             />
+            <StatCard
+              title="Denied Check-ins (7d)"
+              value={stats.deniedCheckIns}
+              icon={ShieldAlert}
+              color="#C0392B"
+              onPress={() => {
+                fetchDeniedCheckIns();
+                setShowDeniedCheckInsModal(true);
+              }}
+            />
           </View>
         </View>
 
+        {/* Check-in Trends */}
+        <View style={styles.statsContainer}>
+          <Text style={styles.sectionTitle}>Check-in Trends</Text>
+          <CheckInAnalyticsPanel
+            locationId={locationFilter === 'all' ? undefined : locationFilter}
+            refreshKey={analyticsRefreshKey}
+          />
+        </View>
+
         {/* Quick Actions */}
         <View style={styles.actionsContainer}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
@@ -933,6 +1048,41 @@ Thank you for being part of our gym community!
               color="#2ECC71"
               onPress={() => router.push('/admin-checkins')}
             />
+            <ActionCard
+              title="Check-in Kiosk"
+              subtitle="Show the live check-in QR and who's in now"
+              icon={QrCode}
+              color="#16A085"
+              onPress={() => router.push('/admin-kiosk')}
+            />
+            <ActionCard
+              title="Guest Passes"
+              subtitle="Issue and revoke guest passes"
+              icon={Ticket}
+              color="#FF8C42"
+              onPress={() => router.push('/guest-passes')}
+            />
+            <ActionCard
+              title="Challenges"
+              subtitle="Create weekly and monthly member challenges"
+              icon={Flag}
+              color="#F39C12"
+              onPress={() => router.push('/admin-challenges')}
+            />
+            <ActionCard
+              title="Points & Rewards"
+              subtitle="Redemptions, point adjustments and ledger checks"
+              icon={Coins}
+              color="#16A085"
+              onPress={() => router.push('/admin-points')}
+            />
+            <ActionCard
+              title="Flagged Activity"
+              subtitle="Review check-ins, workouts and sets refused as cheating"
+              icon={ShieldAlert}
+              color="#C0392B"
+              onPress={() => router.push('/admin-flags')}
+            />
             <ActionCard
               title="Shop Management"
               subtitle="Add, edit, and manage products"
@@ -1016,6 +1166,64 @@ Thank you for being part of our gym community!
         </View>
       )}
 
+      {/* Denied Check-ins Modal */}
+      {showDeniedCheckInsModal && (
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                🚫 Denied Check-ins ({deniedCheckIns.length})
+              </Text>
+              <TouchableOpacity 
+                style={styles.closeButton}
+                onPress={() => setShowDeniedCheckInsModal(false)}
+              >
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            
+            <ScrollView style={styles.modalContent}>
+              {deniedCheckIns.length === 0 ? (
+                <View style={styles.emptyActiveUsers}>
+                  <Text style={styles.emptyActiveUsersText}>
+                    No check-ins were denied in the last {DENIED_CHECKINS_WINDOW_DAYS} days
+                  </Text>
+                </View>
+              ) : (
+                deniedCheckIns.map((denial) => (
+                  <View key={denial.id} style={styles.activeUserCard}>
+                    <View style={styles.activeUserInfo}>
+                      <View style={styles.activeUserDetails}>
+                        <Text style={styles.activeUserName}>
+                          {denial.user_profiles?.full_name || denial.user_profiles?.username || 'Unknown User'}
+                        </Text>
+                        <Text style={styles.deniedReasonText}>
+                          {getDenialReasonLabel(denial.reason)}
+                          {locations.length > 1 && denial.location_id
+                            ? ` • ${locations.find(location => location.id === denial.location_id)?.name || denial.location_id}`
+                            : ''}
+                        </Text>
+                      </View>
+                    </View>
+                    <View style={styles.activeUserTime}>
+                      <Text style={styles.activeUserTimeLabel}>Attempted:</Text>
+                      <Text style={styles.activeUserTimeValue}>
+                        {new Date(denial.created_at).toLocaleString([], {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </Text>
+                    </View>
+                  </View>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      )}
+
       {/* NEW: Admin Notifications Modal */}
       {showNotificationsModal && (
         <View style={styles.modalOverlay}>
@@ -1363,6 +1571,30 @@ const styles = StyleSheet.create({
   statsContainer: {
     marginBottom: 30,
   },
+  locationFilterRow: {
+    marginBottom: 16,
+  },
+  locationFilterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    marginRight: 10,
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+  },
+  locationFilterChipActive: {
+    backgroundColor: '#2C3E50',
+    borderColor: '#2C3E50',
+  },
+  locationFilterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  locationFilterTextActive: {
+    color: '#FFFFFF',
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1593,6 +1825,11 @@ const styles = StyleSheet.create({
     color: '#636E72',
     textTransform: 'capitalize',
   },
+  deniedReasonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#C0392B',
+  },
   activeUserTime: {
     flexDirection: 'row',
     justifyContent: 'space-between',
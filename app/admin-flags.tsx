@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft } from 'lucide-react-native';
+import { router } from 'expo-router';
+import {
+  getGamificationFlags,
+  reviewGamificationFlag,
+  FLAG_REASON_LABELS,
+  FlagStatus,
+  GamificationFlag,
+} from '@/lib/gamificationFlags';
+
+const STATUS_FILTERS: { value: FlagStatus; label: string }[] = [
+  { value: 'open', label: 'To Review' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'dismissed', label: 'Dismissed' },
+];
+
+// e.g. { weight_kg: 500, max_weight_kg: 120 } -> "weight kg: 500 · max weight kg: 120"
+const formatDetails = (details: Record<string, any>) =>
+  Object.entries(details)
+    .filter(([key, value]) => value !== null && typeof value !== 'object' && key !== 'valid')
+    .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`)
+    .join(' · ');
+
+export default function AdminFlagsScreen() {
+  const [status, setStatus] = useState<FlagStatus>('open');
+  const [flags, setFlags] = useState<GamificationFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchFlags = useCallback(async () => {
+    setFlags(await getGamificationFlags(status));
+    setLoading(false);
+  }, [status]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchFlags();
+  }, [fetchFlags]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchFlags();
+    setRefreshing(false);
+  };
+
+  const handleReview = (flag: GamificationFlag, confirmed: boolean) => {
+    Alert.alert(
+      confirmed ? 'Confirm Cheating' : 'Dismiss Flag',
+      confirmed
+        ? `Mark this as cheating by ${flag.memberName || 'the member'}? Correct their points from Points & Rewards if needed.`
+        : 'Mark this flag as a false alarm?',
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: confirmed ? 'Confirm' : 'Dismiss',
+          style: confirmed ? 'destructive' : 'default',
+          onPress: async () => {
+            const result = await reviewGamificationFlag(flag.id, confirmed ? 'confirmed' : 'dismissed');
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to update flag');
+              return;
+            }
+            fetchFlags();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#2C3E50', '#34495E']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Flagged Activity</Text>
+        <Text style={styles.headerSubtitle}>Check-ins, workouts and sets the server refused</Text>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.chipRow}>
+          {STATUS_FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[styles.chip, status === filter.value && styles.chipSelected]}
+              onPress={() => setStatus(filter.value)}
+            >
+              <Text style={[styles.chipText, status === filter.value && styles.chipTextSelected]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          {loading ? (
+            <ActivityIndicator color="#2C3E50" style={styles.loader} />
+          ) : flags.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {status === 'open' ? 'Nothing to review.' : 'No flags here yet.'}
+            </Text>
+          ) : (
+            flags.map(flag => (
+              <View key={flag.id} style={styles.row}>
+                <Text style={styles.rowTitle}>{FLAG_REASON_LABELS[flag.reason] || flag.reason}</Text>
+                <Text style={styles.rowDetail}>
+                  {flag.memberName || 'Member'} · {new Date(flag.createdAt).toLocaleString()}
+                </Text>
+                {formatDetails(flag.details) !== '' && (
+                  <Text style={styles.rowDetail}>{formatDetails(flag.details)}</Text>
+                )}
+                {flag.status === 'open' && (
+                  <View style={styles.rowActions}>
+                    <TouchableOpacity onPress={() => handleReview(flag, true)}>
+                      <Text style={[styles.linkText, styles.destructiveText]}>Confirm cheating</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleReview(flag, false)}>
+                      <Text style={styles.linkText}>Dismiss</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 5,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 15,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#2C3E50',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 4,
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginBottom: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#3498DB',
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  destructiveText: {
+    color: '#E74C3C',
+  },
+});
@@ -0,0 +1,468 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, RefreshCw } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
+import { supabase } from '@/lib/supabase';
+import { generateGymQRCode, GymQRToken, DEFAULT_GYM_ID } from '@/lib/qrGenerator';
+import { getGymLocations, GymLocation } from '@/lib/gymLocations';
+
+interface PresentMember {
+  id: string;
+  user_id: string | null;
+  user_type: string;
+  check_in_time: string;
+  guest_pass_id: string | null;
+  guest_name: string | null;
+  user_profiles: {
+    full_name: string | null;
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+const FALLBACK_ROTATION_SECONDS = 30;
+
+export default function AdminKioskScreen() {
+  const { width } = useWindowDimensions();
+  const isWide = width >= 768;
+  const searchParams = useLocalSearchParams();
+
+  const [locations, setLocations] = useState<GymLocation[]>([]);
+  const [locationId, setLocationId] = useState<string>(
+    typeof searchParams.location === 'string' ? searchParams.location : DEFAULT_GYM_ID
+  );
+
+  const [qrToken, setQrToken] = useState<GymQRToken | null>(null);
+  const [qrError, setQrError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [present, setPresent] = useState<PresentMember[]>([]);
+  const [loadingPresent, setLoadingPresent] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Fetch a new signed token and schedule the next rotation
+  const refreshQRCode = useCallback(async () => {
+    if (refreshTimer.current) {
+      clearTimeout(refreshTimer.current);
+    }
+
+    let rotationSeconds = FALLBACK_ROTATION_SECONDS;
+    try {
+      const token = await generateGymQRCode(locationId);
+      setQrToken(token);
+      setQrError(null);
+      rotationSeconds = token.rotationSeconds || FALLBACK_ROTATION_SECONDS;
+    } catch (error) {
+      console.error('Error refreshing kiosk QR code:', error);
+      setQrError('Unable to load the check-in code. Retrying...');
+    }
+
+    setSecondsLeft(rotationSeconds);
+    refreshTimer.current = setTimeout(refreshQRCode, rotationSeconds * 1000);
+  }, [locationId]);
+
+  const fetchPresent = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('gym_checkins')
+        .select(`
+          id,
+          user_id,
+          user_type,
+          check_in_time,
+          guest_pass_id,
+          guest_name,
+          user_profiles!gym_checkins_user_id_fkey (
+            full_name,
+            username,
+            avatar_url
+          )
+        `)
+        .eq('is_checked_in', true)
+        .eq('location_id', locationId)
+        .order('check_in_time', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching checked-in members:', error);
+        return;
+      }
+
+      // Keep only the latest open session per person (guests per pass)
+      const seen = new Set<string>();
+      const unique = ((data || []) as unknown as PresentMember[]).filter(row => {
+        const key = row.user_id ?? row.guest_pass_id ?? row.id;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      setPresent(unique);
+    } catch (error) {
+      console.error('Error fetching checked-in members:', error);
+    } finally {
+      setLoadingPresent(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    getGymLocations().then(setLocations);
+  }, []);
+
+  useEffect(() => {
+    refreshQRCode();
+    fetchPresent();
+
+    const checkInsSubscription = supabase
+      .channel(`kiosk_gym_checkins_${locationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'gym_checkins',
+        },
+        () => {
+          fetchPresent();
+        }
+      )
+      .subscribe();
+
+    // Countdown for the QR code and elapsed times on the board
+    const ticker = setInterval(() => {
+      setSecondsLeft(prev => Math.max(0, prev - 1));
+      setNow(Date.now());
+    }, 1000);
+
+    return () => {
+      checkInsSubscription.unsubscribe();
+      clearInterval(ticker);
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+      }
+    };
+  }, [locationId, refreshQRCode, fetchPresent]);
+
+  const formatElapsed = (checkInTime: string) => {
+    const minutes = Math.max(0, Math.floor((now - new Date(checkInTime).getTime()) / 60000));
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const members = present.filter(p => p.user_type !== 'trainer');
+  const trainers = present.filter(p => p.user_type === 'trainer');
+  const qrSize = isWide ? Math.min(width * 0.35, 420) : Math.min(width - 80, 320);
+
+  const renderPerson = (person: PresentMember) => (
+    <View key={person.id} style={styles.personRow}>
+      <Text style={styles.personIcon}>
+        {person.user_type === 'trainer' ? '🏋️' : person.user_type === 'guest' ? '🎟️' : '💪'}
+      </Text>
+      <Text style={styles.personName} numberOfLines={1}>
+        {person.user_type === 'guest'
+          ? `${person.guest_name || 'Guest'} (guest)`
+          : person.user_profiles?.full_name || person.user_profiles?.username || 'Unknown User'}
+      </Text>
+      <Text style={styles.personElapsed}>{formatElapsed(person.check_in_time)}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#2C3E50', '#34495E']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Check-in Kiosk</Text>
+        <Text style={styles.headerSubtitle}>
+          {locations.find(l => l.id === locationId)?.name || 'Scan the code below to check in'}
+        </Text>
+      </LinearGradient>
+
+      {locations.length > 1 && (
+        <View style={styles.locationBar}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {locations.map(location => (
+              <TouchableOpacity
+                key={location.id}
+                style={[styles.locationChip, location.id === locationId && styles.locationChipActive]}
+                onPress={() => {
+                  setLoadingPresent(true);
+                  setQrToken(null);
+                  setLocationId(location.id);
+                }}
+              >
+                <Text style={[styles.locationChipText, location.id === locationId && styles.locationChipTextActive]}>
+                  {location.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <View style={[styles.body, isWide && styles.bodyWide]}>
+        {/* Live QR code */}
+        <View style={[styles.qrPanel, isWide && styles.panelWide]}>
+          {qrToken ? (
+            <View style={styles.qrWrapper}>
+              <QRCode value={qrToken.token} size={qrSize} />
+            </View>
+          ) : (
+            <View style={[styles.qrPlaceholder, { width: qrSize, height: qrSize }]}>
+              {qrError ? (
+                <Text style={styles.qrErrorText}>{qrError}</Text>
+              ) : (
+                <ActivityIndicator size="large" color="#2C3E50" />
+              )}
+            </View>
+          )}
+          <Text style={styles.qrHint}>Open the app → Check-in → scan this code</Text>
+          <View style={styles.countdownRow}>
+            <RefreshCw size={16} color="#636E72" />
+            <Text style={styles.countdownText}>New code in {secondsLeft}s</Text>
+          </View>
+          {qrError && qrToken && <Text style={styles.qrErrorText}>{qrError}</Text>}
+        </View>
+
+        {/* Who's in now */}
+        <View style={[styles.boardPanel, isWide && styles.panelWide]}>
+          <View style={styles.boardHeader}>
+            <Text style={styles.boardTitle}>Who&apos;s in now</Text>
+            <View style={styles.countBadge}>
+              <Text style={styles.countBadgeText}>{present.length}</Text>
+            </View>
+          </View>
+
+          {loadingPresent ? (
+            <ActivityIndicator size="small" color="#2C3E50" style={styles.boardLoading} />
+          ) : present.length === 0 ? (
+            <Text style={styles.emptyText}>Nobody is checked in right now</Text>
+          ) : (
+            <ScrollView style={styles.boardList}>
+              {trainers.length > 0 && (
+                <>
+                  <Text style={styles.groupTitle}>Trainers ({trainers.length})</Text>
+                  {trainers.map(renderPerson)}
+                </>
+              )}
+              {members.length > 0 && (
+                <>
+                  <Text style={styles.groupTitle}>Members ({members.length})</Text>
+                  {members.map(renderPerson)}
+                </>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 5,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  locationBar: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  locationChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    marginRight: 10,
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+  },
+  locationChipActive: {
+    backgroundColor: '#2C3E50',
+    borderColor: '#2C3E50',
+  },
+  locationChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  locationChipTextActive: {
+    color: '#FFFFFF',
+  },
+  body: {
+    flex: 1,
+    padding: 20,
+    gap: 20,
+  },
+  bodyWide: {
+    flexDirection: 'row',
+  },
+  panelWide: {
+    flex: 1,
+  },
+  qrPanel: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  qrWrapper: {
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+  },
+  qrPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  qrHint: {
+    fontSize: 16,
+    color: '#2D3436',
+    fontWeight: '600',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  countdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  countdownText: {
+    fontSize: 14,
+    color: '#636E72',
+  },
+  qrErrorText: {
+    fontSize: 14,
+    color: '#E17055',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  boardPanel: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  boardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  boardTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  countBadge: {
+    backgroundColor: '#2ECC71',
+    borderRadius: 14,
+    minWidth: 28,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    alignItems: 'center',
+  },
+  countBadgeText: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  boardLoading: {
+    marginTop: 20,
+  },
+  boardList: {
+    flex: 1,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#636E72',
+    marginTop: 12,
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  personIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  personName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2D3436',
+    fontWeight: '500',
+  },
+  personElapsed: {
+    fontSize: 14,
+    color: '#636E72',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#636E72',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+});
@@ -22,6 +22,8 @@ import {
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeMessaging, formatTypingUsers } from '@/hooks/useRealtimeMessaging';
+import { Message } from '@/lib/messaging';
 import { 
   getAllUsersForAdmin, 
   getOrCreateAdminConversation, 
@@ -63,6 +65,44 @@ export default function AdminMessagingScreen() {
   const flatListRef = useRef<FlatList>(null);
   const messageInputRef = useRef<TextInput>(null);
 
+  // New messages land in the open chat; anything else refreshes the list
+  const handleIncomingMessage = (message: Message) => {
+    if (selectedConversation?.id !== message.conversation_id) {
+      fetchConversations();
+      return;
+    }
+
+    setMessages(prev =>
+      prev.some(existing => existing.id === message.id)
+        ? prev
+        : [...prev, message as AdminMessage]
+    );
+    if (message.sender_id !== user?.id) {
+      markMessagesAsRead(message.conversation_id);
+    }
+
+    setTimeout(() => {
+      flatListRef.current?.scrollToEnd({ animated: true });
+    }, 100);
+  };
+
+  // Delivery and read receipts on what the admin sent
+  const handleMessageUpdate = (message: Message) => {
+    setMessages(prev =>
+      prev.map(existing =>
+        existing.id === message.id
+          ? { ...existing, is_read: message.is_read, delivery_status: message.delivery_status }
+          : existing
+      )
+    );
+  };
+
+  const { typingUsers, isOnline, sendTyping, stopTyping } = useRealtimeMessaging({
+    conversationId: selectedConversation?.id,
+    onMessage: handleIncomingMessage,
+    onMessageUpdate: handleMessageUpdate,
+  });
+
   useEffect(() => {
     if (user) {
       fetchConversations();
@@ -211,8 +251,13 @@ export default function AdminMessagingScreen() {
       );
 
       if (result.success && result.message) {
-        setMessages(prev => [...prev, result.message!]);
+        setMessages(prev =>
+          prev.some(existing => existing.id === result.message!.id)
+            ? prev
+            : [...prev, result.message!]
+        );
         setMessageText('');
+        stopTyping();
         
         setConversations(prev => 
           prev.map(conv => 
@@ -305,6 +350,9 @@ export default function AdminMessagingScreen() {
               hour: '2-digit', 
               minute: '2-digit' 
             })}
+            {isAdmin && item.delivery_status && item.delivery_status !== 'failed' && (
+              item.delivery_status === 'sent' ? '  ✓' : '  ✓✓'
+            )}
           </Text>
         </View>
         {item.is_admin_message && (
@@ -405,7 +453,11 @@ export default function AdminMessagingScreen() {
                  </Text>
                  <Text style={styles.chatParticipantType}>
                    {selectedConversation.other_participant.type === 'trainer' ? '🏋️ Trainer' : '💪 Member'}
+                   {isOnline(selectedConversation.other_participant.id) && ' · Active now'}
                  </Text>
+                 {typingUsers.length > 0 && (
+                   <Text style={styles.typingText}>{formatTypingUsers(typingUsers)}</Text>
+                 )}
                </View>
              </View>
            </View>
@@ -430,7 +482,14 @@ export default function AdminMessagingScreen() {
               style={styles.messageInput}
               placeholder="Type your message..."
               value={messageText}
-              onChangeText={setMessageText}
+              onChangeText={(text) => {
+                setMessageText(text);
+                if (text.trim()) {
+                  sendTyping();
+                } else {
+                  stopTyping();
+                }
+              }}
               multiline
               placeholderTextColor="#95A5A6"
               onSubmitEditing={sendMessage}
@@ -777,6 +836,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#7F8C8D',
   },
+  typingText: {
+    fontSize: 12,
+    color: '#3498DB',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   messagesList: {
     flex: 1,
     paddingHorizontal: 20,
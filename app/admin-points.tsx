@@ -0,0 +1,596 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Coins, ShieldCheck } from 'lucide-react-native';
+import { router } from 'expo-router';
+import {
+  getPendingRedemptions,
+  resolveRedemption,
+  adjustPoints,
+  reconcilePointsBalances,
+  getMembershipDiscounts,
+  createMembershipDiscount,
+  setMembershipDiscountActive,
+  MembershipDiscount,
+  PointsMismatch,
+  PointsRedemption,
+} from '@/lib/points';
+
+type AdjustmentType = 'admin_grant' | 'admin_adjustment';
+
+export default function AdminPointsScreen() {
+  const [redemptions, setRedemptions] = useState<PointsRedemption[]>([]);
+  const [discounts, setDiscounts] = useState<MembershipDiscount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [username, setUsername] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [adjustmentType, setAdjustmentType] = useState<AdjustmentType>('admin_grant');
+  const [adjusting, setAdjusting] = useState(false);
+
+  const [discountName, setDiscountName] = useState('');
+  const [discountPercent, setDiscountPercent] = useState('');
+  const [discountCost, setDiscountCost] = useState('');
+  const [creatingDiscount, setCreatingDiscount] = useState(false);
+
+  const [mismatches, setMismatches] = useState<PointsMismatch[] | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    const [pending, allDiscounts] = await Promise.all([
+      getPendingRedemptions(),
+      getMembershipDiscounts(),
+    ]);
+    setRedemptions(pending);
+    setDiscounts(allDiscounts);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchData();
+    setRefreshing(false);
+  };
+
+  const handleResolve = (redemption: PointsRedemption, fulfil: boolean) => {
+    Alert.alert(
+      fulfil ? 'Fulfil Redemption' : 'Cancel Redemption',
+      fulfil
+        ? `Confirm ${redemption.memberName || 'the member'} has received "${redemption.itemName}".`
+        : `${redemption.pointsSpent} points will be refunded to ${redemption.memberName || 'the member'}.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: fulfil ? 'Fulfil' : 'Cancel & Refund',
+          style: fulfil ? 'default' : 'destructive',
+          onPress: async () => {
+            const result = await resolveRedemption(redemption.id, fulfil);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to update redemption');
+              return;
+            }
+            fetchData();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAdjust = async () => {
+    const points = parseInt(amount, 10);
+
+    if (!username.trim() || !reason.trim()) {
+      Alert.alert('Missing Details', 'Please enter a username and a reason.');
+      return;
+    }
+
+    if (!Number.isFinite(points) || points === 0 || (adjustmentType === 'admin_grant' && points < 0)) {
+      Alert.alert(
+        'Invalid Amount',
+        adjustmentType === 'admin_grant'
+          ? 'A grant must be a positive number of points.'
+          : 'Enter the points to add, or a negative number to take points away.'
+      );
+      return;
+    }
+
+    setAdjusting(true);
+    const result = await adjustPoints(username.trim(), points, reason.trim(), adjustmentType);
+    setAdjusting(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to adjust points');
+      return;
+    }
+
+    Alert.alert('Points Updated', `${points > 0 ? '+' : ''}${points} points for ${username.trim()}.`);
+    setUsername('');
+    setAmount('');
+    setReason('');
+  };
+
+  const handleCreateDiscount = async () => {
+    const percent = parseInt(discountPercent, 10);
+    const cost = parseInt(discountCost, 10);
+
+    if (!discountName.trim()) {
+      Alert.alert('Missing Details', 'Please enter a name for the discount.');
+      return;
+    }
+
+    if (!Number.isFinite(percent) || percent < 1 || percent > 100) {
+      Alert.alert('Invalid Discount', 'The discount must be between 1% and 100%.');
+      return;
+    }
+
+    if (!Number.isFinite(cost) || cost < 1) {
+      Alert.alert('Invalid Cost', 'The cost must be at least 1 point.');
+      return;
+    }
+
+    setCreatingDiscount(true);
+    const result = await createMembershipDiscount({
+      name: discountName.trim(),
+      description: 'Taken off your next membership payment',
+      discountPercent: percent,
+      pointsCost: cost,
+    });
+    setCreatingDiscount(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to create discount');
+      return;
+    }
+
+    setDiscountName('');
+    setDiscountPercent('');
+    setDiscountCost('');
+    fetchData();
+  };
+
+  const handleToggleDiscount = async (discount: MembershipDiscount) => {
+    const result = await setMembershipDiscountActive(discount.id, !discount.isActive);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update discount');
+      return;
+    }
+    fetchData();
+  };
+
+  const handleReconcile = async () => {
+    setReconciling(true);
+    const result = await reconcilePointsBalances();
+    setReconciling(false);
+
+    if (!result) {
+      Alert.alert('Error', 'Failed to check points balances');
+      return;
+    }
+
+    setMismatches(result);
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#2C3E50', '#34495E']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Points & Rewards</Text>
+        <Text style={styles.headerSubtitle}>Redemptions, adjustments and the points ledger</Text>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Waiting at the Front Desk</Text>
+          {loading ? (
+            <ActivityIndicator color="#2C3E50" style={styles.loader} />
+          ) : redemptions.length === 0 ? (
+            <Text style={styles.emptyText}>No redemptions to hand over.</Text>
+          ) : (
+            redemptions.map(redemption => (
+              <View key={redemption.id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{redemption.itemName}</Text>
+                  <Text style={styles.rowDetail}>
+                    {redemption.memberName || 'Member'} · {redemption.pointsSpent} pts ·{' '}
+                    {new Date(redemption.createdAt).toLocaleDateString()}
+                  </Text>
+                  <View style={styles.rowActions}>
+                    <TouchableOpacity onPress={() => handleResolve(redemption, true)}>
+                      <Text style={styles.linkText}>
+                        {redemption.kind === 'membership_discount' ? 'Mark applied' : 'Mark collected'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleResolve(redemption, false)}>
+                      <Text style={[styles.linkText, styles.destructiveText]}>Cancel & refund</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Adjust Points</Text>
+
+          <View style={styles.chipRow}>
+            {(['admin_grant', 'admin_adjustment'] as AdjustmentType[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, adjustmentType === value && styles.chipSelected]}
+                onPress={() => setAdjustmentType(value)}
+              >
+                <Text style={[styles.chipText, adjustmentType === value && styles.chipTextSelected]}>
+                  {value === 'admin_grant' ? 'Grant' : 'Correction'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hintText}>
+            {adjustmentType === 'admin_grant'
+              ? 'Give a member bonus points.'
+              : 'Fix a balance. Use a negative amount to take points away.'}
+          </Text>
+
+          <TextInput
+            style={styles.textInput}
+            placeholder="Member username"
+            placeholderTextColor="#95A5A6"
+            value={username}
+            onChangeText={setUsername}
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={styles.textInput}
+            placeholder={adjustmentType === 'admin_grant' ? 'Points, e.g. 100' : 'Points, e.g. -50'}
+            placeholderTextColor="#95A5A6"
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="numbers-and-punctuation"
+          />
+          <TextInput
+            style={styles.textInput}
+            placeholder="Reason (shown to the member)"
+            placeholderTextColor="#95A5A6"
+            value={reason}
+            onChangeText={setReason}
+          />
+
+          <TouchableOpacity
+            style={[styles.primaryButton, adjusting && styles.primaryButtonDisabled]}
+            onPress={handleAdjust}
+            disabled={adjusting}
+          >
+            {adjusting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Coins size={20} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>Record Adjustment</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Membership Discounts</Text>
+          {discounts.map(discount => (
+            <View key={discount.id} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{discount.name}</Text>
+                <Text style={styles.rowDetail}>
+                  {discount.discountPercent}% off · {discount.pointsCost} pts
+                </Text>
+                <TouchableOpacity onPress={() => handleToggleDiscount(discount)}>
+                  <Text style={styles.linkText}>{discount.isActive ? 'Hide from members' : 'Show to members'}</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: discount.isActive ? '#27AE60' : '#95A5A6' }]}>
+                <Text style={styles.statusText}>{discount.isActive ? 'Active' : 'Hidden'}</Text>
+              </View>
+            </View>
+          ))}
+
+          <Text style={[styles.fieldLabel, styles.formTop]}>New Discount</Text>
+          <TextInput
+            style={styles.textInput}
+            placeholder="Name, e.g. 15% off next month"
+            placeholderTextColor="#95A5A6"
+            value={discountName}
+            onChangeText={setDiscountName}
+          />
+          <View style={styles.numberRow}>
+            <TextInput
+              style={[styles.textInput, styles.numberField]}
+              placeholder="Discount %"
+              placeholderTextColor="#95A5A6"
+              value={discountPercent}
+              onChangeText={setDiscountPercent}
+              keyboardType="number-pad"
+            />
+            <TextInput
+              style={[styles.textInput, styles.numberField]}
+              placeholder="Cost (points)"
+              placeholderTextColor="#95A5A6"
+              value={discountCost}
+              onChangeText={setDiscountCost}
+              keyboardType="number-pad"
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.primaryButton, creatingDiscount && styles.primaryButtonDisabled]}
+            onPress={handleCreateDiscount}
+            disabled={creatingDiscount}
+          >
+            {creatingDiscount ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Add Discount</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Ledger Check</Text>
+          <Text style={styles.hintText}>
+            Checks every member&apos;s points total and balance against their ledger.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, reconciling && styles.primaryButtonDisabled]}
+            onPress={handleReconcile}
+            disabled={reconciling}
+          >
+            {reconciling ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <ShieldCheck size={20} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>Run Check</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          {mismatches && (
+            mismatches.length === 0 ? (
+              <Text style={styles.successText}>Every balance matches its ledger.</Text>
+            ) : (
+              mismatches.map(mismatch => (
+                <View key={mismatch.userId} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{mismatch.fullName || mismatch.username || mismatch.userId}</Text>
+                    <Text style={styles.rowDetail}>
+                      Total {mismatch.storedTotal} (ledger {mismatch.ledgerTotal}) · Balance{' '}
+                      {mismatch.storedBalance} (ledger {mismatch.ledgerBalance})
+                    </Text>
+                    {mismatch.brokenEntries > 0 && (
+                      <Text style={[styles.rowDetail, styles.destructiveText]}>
+                        {mismatch.brokenEntries} ledger {mismatch.brokenEntries === 1 ? 'entry' : 'entries'} out of sequence
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 5,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 15,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 15,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#2C3E50',
+    marginBottom: 15,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
+  formTop: {
+    marginTop: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F1F2F6',
+  },
+  chipSelected: {
+    backgroundColor: '#2C3E50',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginTop: -8,
+    marginBottom: 15,
+  },
+  numberRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  numberField: {
+    flex: 1,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2C3E50',
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  successText: {
+    fontSize: 14,
+    color: '#27AE60',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 15,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 4,
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: '#7F8C8D',
+    marginBottom: 2,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#3498DB',
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  destructiveText: {
+    color: '#E74C3C',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+});
@@ -25,11 +25,15 @@ import {
   Download,
   Trash2,
   Edit,
-  Plus
+  Plus,
+  Clock,
+  MapPin
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { getGymSettings, updateGymSetting, GymSettings, NumericGymSettingKey, DEFAULT_GYM_SETTINGS } from '@/lib/gymSettings';
+import { getGymLocations, createGymLocation, setGymLocationActive, setGymLocationCapacity, GymLocation } from '@/lib/gymLocations';
 
 interface Role {
   id: string;
@@ -55,6 +59,106 @@ interface SecuritySetting {
   options?: string[];
 }
 
+// Gym settings that are editable from the Check-in Settings modal
+const CHECK_IN_SETTING_FIELDS: { key: NumericGymSettingKey; name: string; description: string; min: number }[] = [
+  {
+    key: 'max_session_hours',
+    name: 'Max Session Length (hours)',
+    description: 'Sessions open longer than this are checked out automatically',
+    min: 1,
+  },
+  {
+    key: 'default_session_minutes',
+    name: 'Default Session Length (minutes)',
+    description: 'Estimated length used when auto-checking out members with no session history',
+    min: 1,
+  },
+  {
+    key: 'membership_grace_days',
+    name: 'Membership Grace Period (days)',
+    description: 'Days after a membership expires that the member can still check in',
+    min: 0,
+  },
+  {
+    key: 'guest_passes_per_month',
+    name: 'Guest Passes per Member (monthly)',
+    description: 'How many guest passes each member can issue per calendar month',
+    min: 0,
+  },
+  {
+    key: 'guest_pass_max_uses',
+    name: 'Max Visits per Guest Pass',
+    description: 'The most visits a member can put on a single guest pass',
+    min: 1,
+  },
+  {
+    key: 'guest_pass_max_valid_days',
+    name: 'Guest Pass Validity (days)',
+    description: 'The longest a member-issued guest pass stays valid',
+    min: 1,
+  },
+  {
+    key: 'checkin_points',
+    name: 'Points per Check-in Day',
+    description: 'Points members earn for their first check-in of the day (0 turns them off)',
+    min: 0,
+  },
+  {
+    key: 'checkin_cooldown_minutes',
+    name: 'Check-in Cooldown (minutes)',
+    description: 'Minimum time between two check-ins by the same member',
+    min: 0,
+  },
+  {
+    key: 'max_checkins_per_day',
+    name: 'Max Check-ins per Day',
+    description: 'Check-ins over this in 24 hours are refused and flagged for review',
+    min: 1,
+  },
+  {
+    key: 'max_workouts_per_day',
+    name: 'Max Workouts per Day',
+    description: 'Workout sessions over this in 24 hours are refused and flagged for review',
+    min: 1,
+  },
+  {
+    key: 'max_workout_minutes',
+    name: 'Max Workout Length (minutes)',
+    description: 'Longer workout sessions are refused and flagged for review',
+    min: 1,
+  },
+  {
+    key: 'max_sets_per_exercise',
+    name: 'Max Sets per Exercise',
+    description: 'Most sets a member can log for one exercise in a day',
+    min: 1,
+  },
+  {
+    key: 'max_sets_per_day',
+    name: 'Max Sets per Day',
+    description: 'Most sets a member can log across all exercises in a day',
+    min: 1,
+  },
+  {
+    key: 'max_reps_per_set',
+    name: 'Max Reps per Set',
+    description: 'Sets with more reps are refused and flagged for review',
+    min: 1,
+  },
+  {
+    key: 'max_set_weight_kg',
+    name: 'Max Weight per Set (kg)',
+    description: 'Heaviest weight for any exercise. Curls, raises, flyes and extensions have lower limits.',
+    min: 1,
+  },
+  {
+    key: 'max_member_challenges_per_week',
+    name: 'Member Team Challenges per Week',
+    description: 'How many team challenges a member can create in 7 days',
+    min: 0,
+  },
+];
+
 export default function AdminSettingsScreen() {
   const { signOut, user, loading: authLoading } = useAuth();
   
@@ -64,11 +168,16 @@ export default function AdminSettingsScreen() {
   const [dataModal, setDataModal] = useState(false);
   const [securityModal, setSecurityModal] = useState(false);
   const [aboutModal, setAboutModal] = useState(false);
+  const [checkInSettingsModal, setCheckInSettingsModal] = useState(false);
+  const [locationsModal, setLocationsModal] = useState(false);
   
   // Data states
   const [roles, setRoles] = useState<Role[]>([]);
   const [notificationSettings, setNotificationSettings] = useState<NotificationSetting[]>([]);
   const [securitySettings, setSecuritySettings] = useState<SecuritySetting[]>([]);
+  const [gymSettings, setGymSettings] = useState<GymSettings>(DEFAULT_GYM_SETTINGS);
+  const [gymLocations, setGymLocations] = useState<GymLocation[]>([]);
+  const [newLocation, setNewLocation] = useState({ name: '', city: '' });
   const [loading, setLoading] = useState(false);
   const [systemInfo, setSystemInfo] = useState({
     version: '1.0.0',
@@ -105,6 +214,9 @@ export default function AdminSettingsScreen() {
       await loadNotificationSettings();
       // Load security settings
       await loadSecuritySettings();
+      // Load gym settings and locations
+      setGymSettings(await getGymSettings());
+      setGymLocations(await getGymLocations(true));
       // Load system info
       await loadSystemInfo();
     } catch (error) {
@@ -305,6 +417,72 @@ export default function AdminSettingsScreen() {
     }
   };
 
+  const saveGymSetting = async (key: NumericGymSettingKey, min: number) => {
+    const value = gymSettings[key];
+    if (value < min) {
+      Alert.alert(
+        'Invalid Value',
+        min > 0 ? 'Please enter a number greater than zero.' : 'Please enter a number of zero or more.'
+      );
+      return;
+    }
+
+    const result = await updateGymSetting(key, value);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update setting');
+    }
+  };
+
+  const toggleBlockAtCapacity = async (value: boolean) => {
+    setGymSettings(prev => ({ ...prev, block_checkins_at_capacity: value }));
+
+    const result = await updateGymSetting('block_checkins_at_capacity', value);
+    if (!result.success) {
+      setGymSettings(prev => ({ ...prev, block_checkins_at_capacity: !value }));
+      Alert.alert('Error', result.error || 'Failed to update setting');
+    }
+  };
+
+  const addGymLocation = async () => {
+    if (!newLocation.name.trim()) {
+      Alert.alert('Missing Name', 'Please enter a name for the new location.');
+      return;
+    }
+
+    const result = await createGymLocation({
+      name: newLocation.name.trim(),
+      city: newLocation.city.trim() || null,
+    });
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to create location');
+      return;
+    }
+
+    setNewLocation({ name: '', city: '' });
+    setGymLocations(await getGymLocations(true));
+  };
+
+  const toggleGymLocation = async (location: GymLocation, isActive: boolean) => {
+    const result = await setGymLocationActive(location.id, isActive);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update location');
+      return;
+    }
+
+    setGymLocations(prev => 
+      prev.map(item => item.id === location.id ? { ...item, is_active: isActive } : item)
+    );
+  };
+
+  const saveGymLocationCapacity = async (location: GymLocation) => {
+    const result = await setGymLocationCapacity(location.id, location.capacity);
+    if (!result.success) {
+      Alert.alert('Invalid Capacity', result.error || 'Failed to update capacity');
+      setGymLocations(await getGymLocations(true));
+    }
+  };
+
   const exportData = async () => {
     try {
       setLoading(true);
@@ -402,6 +580,26 @@ export default function AdminSettingsScreen() {
           />
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Gym Operations</Text>
+          
+          <SettingItem
+            icon={Clock}
+            title="Check-in Settings"
+            subtitle="Session limits and automatic check-out"
+            onPress={() => setCheckInSettingsModal(true)}
+            color="#16A085"
+          />
+          
+          <SettingItem
+            icon={MapPin}
+            title="Gym Locations"
+            subtitle="Add branches and manage their check-in codes"
+            onPress={() => setLocationsModal(true)}
+            color="#2980B9"
+          />
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Security</Text>
           
@@ -651,6 +849,134 @@ export default function AdminSettingsScreen() {
         </View>
       </Modal>
 
+      {/* Check-in Settings Modal */}
+      <Modal
+        visible={checkInSettingsModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <ModalHeader title="Check-in Settings" onClose={() => setCheckInSettingsModal(false)} />
+          
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalDescription}>
+              Configure how gym sessions are tracked and who can check in
+            </Text>
+            
+            {CHECK_IN_SETTING_FIELDS.map((field) => (
+              <View key={field.key} style={styles.securityCard}>
+                <View style={styles.securityHeader}>
+                  <Text style={styles.securityName}>{field.name}</Text>
+                  <Text style={styles.securityDescription}>{field.description}</Text>
+                </View>
+                
+                <View style={styles.securityInput}>
+                  <TextInput
+                    style={styles.textInput}
+                    value={gymSettings[field.key] || field.min === 0 ? gymSettings[field.key].toString() : ''}
+                    onChangeText={(text) => setGymSettings(prev => ({ ...prev, [field.key]: parseInt(text) || 0 }))}
+                    onEndEditing={() => saveGymSetting(field.key, field.min)}
+                    keyboardType="numeric"
+                    placeholder="Enter value"
+                  />
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.securityCard}>
+              <View style={styles.securityHeader}>
+                <Text style={styles.securityName}>Block Check-ins When Full</Text>
+                <Text style={styles.securityDescription}>
+                  Refuse member check-ins once a location reaches its capacity. When off, members are only warned.
+                </Text>
+              </View>
+              
+              <View style={styles.securityInput}>
+                <Switch
+                  value={gymSettings.block_checkins_at_capacity}
+                  onValueChange={toggleBlockAtCapacity}
+                  trackColor={{ false: '#E5E7EB', true: '#3498DB' }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
+      {/* Gym Locations Modal */}
+      <Modal
+        visible={locationsModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <ModalHeader title="Gym Locations" onClose={() => setLocationsModal(false)} />
+          
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.modalDescription}>
+              Each location gets its own check-in QR code on the kiosk screen
+            </Text>
+            
+            {gymLocations.map((location) => (
+              <View key={location.id} style={styles.securityCard}>
+                <View style={styles.securityHeader}>
+                  <Text style={styles.securityName}>{location.name}</Text>
+                  <Text style={styles.securityDescription}>
+                    {[location.city, `ID: ${location.id}`].filter(Boolean).join(' • ')}
+                  </Text>
+                </View>
+                
+                <View style={styles.securityInput}>
+                  <Switch
+                    value={location.is_active}
+                    onValueChange={(value) => toggleGymLocation(location, value)}
+                    trackColor={{ false: '#E5E7EB', true: '#3498DB' }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+                
+                <View style={styles.capacityRow}>
+                  <Text style={styles.capacityLabel}>Capacity</Text>
+                  <TextInput
+                    style={[styles.textInput, styles.capacityInput]}
+                    value={location.capacity ? location.capacity.toString() : ''}
+                    onChangeText={(text) => setGymLocations(prev => 
+                      prev.map(item => item.id === location.id ? { ...item, capacity: parseInt(text) || 0 } : item)
+                    )}
+                    onEndEditing={() => saveGymLocationCapacity(location)}
+                    keyboardType="numeric"
+                    placeholder="People"
+                  />
+                </View>
+              </View>
+            ))}
+            
+            <View style={styles.securityCard}>
+              <View style={styles.securityHeader}>
+                <Text style={styles.securityName}>Add Location</Text>
+              </View>
+              <TextInput
+                style={[styles.textInput, styles.locationInput]}
+                value={newLocation.name}
+                onChangeText={(text) => setNewLocation(prev => ({ ...prev, name: text }))}
+                placeholder="Location name"
+              />
+              <TextInput
+                style={[styles.textInput, styles.locationInput]}
+                value={newLocation.city}
+                onChangeText={(text) => setNewLocation(prev => ({ ...prev, city: text }))}
+                placeholder="City (optional)"
+              />
+              <TouchableOpacity style={styles.addButton} onPress={addGymLocation}>
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={styles.addButtonText}>Add Location</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+
       {/* About System Modal */}
       <Modal
         visible={aboutModal}
@@ -1077,6 +1403,24 @@ const styles = StyleSheet.create({
     minWidth: 120,
     textAlign: 'center',
   },
+  locationInput: {
+    textAlign: 'left',
+    marginBottom: 12,
+  },
+  capacityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  capacityLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2C3E50',
+  },
+  capacityInput: {
+    minWidth: 100,
+  },
 
   // About Modal Styles
   aboutSection: {
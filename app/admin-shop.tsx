@@ -35,6 +35,7 @@ interface Product {
   image_url: string | null;
   stock_quantity: number;
   is_active: boolean;
+  points_price: number | null;
   created_at: string;
 }
 
@@ -52,6 +53,7 @@ export default function AdminShopScreen() {
     category: '',
     image_url: '',
     stock_quantity: '',
+    points_price: '',
   });
 
   useEffect(() => {
@@ -94,6 +96,7 @@ export default function AdminShopScreen() {
       category: '',
       image_url: '',
       stock_quantity: '',
+      points_price: '',
     });
     setModalVisible(true);
   };
@@ -107,6 +110,7 @@ export default function AdminShopScreen() {
       category: product.category,
       image_url: product.image_url || '',
       stock_quantity: product.stock_quantity.toString(),
+      points_price: product.points_price?.toString() || '',
     });
     setModalVisible(true);
   };
@@ -117,6 +121,12 @@ export default function AdminShopScreen() {
       return;
     }
 
+    const pointsPrice = formData.points_price ? parseInt(formData.points_price) : null;
+    if (pointsPrice !== null && !(pointsPrice > 0)) {
+      Alert.alert('Error', 'Points price must be a whole number above 0, or left empty');
+      return;
+    }
+
     try {
       const productData = {
         name: formData.name,
@@ -125,6 +135,7 @@ export default function AdminShopScreen() {
         category: formData.category,
         image_url: formData.image_url || null,
         stock_quantity: parseInt(formData.stock_quantity) || 0,
+        points_price: pointsPrice,
         created_by: user?.id,
       };
 
@@ -284,7 +295,10 @@ export default function AdminShopScreen() {
                   <View style={styles.productDetails}>
                     <Text style={styles.productName}>{product.name}</Text>
                     <Text style={styles.productCategory}>{product.category}</Text>
-                    <Text style={styles.productPrice}>{formatPrice(product.price)}</Text>
+                    <Text style={styles.productPrice}>
+                      {formatPrice(product.price)}
+                      {product.points_price ? ` · ${product.points_price} pts` : ''}
+                    </Text>
                   </View>
                 </View>
                 
@@ -418,6 +432,18 @@ export default function AdminShopScreen() {
                 </View>
               </View>
 
+              <View style={styles.formGroup}>
+                <Text style={styles.formLabel}>Points Price</Text>
+                <TextInput
+                  style={styles.formInput}
+                  value={formData.points_price}
+                  onChangeText={(text) => setFormData({ ...formData, points_price: text })}
+                  placeholder="Leave empty if it can't be redeemed"
+                  placeholderTextColor="#95A5A6"
+                  keyboardType="numeric"
+                />
+              </View>
+
               <View style={styles.formGroup}>
                 <Text style={styles.formLabel}>Category *</Text>
                 <TextInput
@@ -12,7 +12,10 @@ import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import { ArrowLeft, QrCode, CircleCheck as CheckCircle } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useCheckIn } from '@/hooks/useCheckIn';
-import { validateGymQRCode } from '@/lib/qrGenerator';
+import { validateGymQRCode, getQRErrorMessage } from '@/lib/qrGenerator';
+import { getMembershipDenialMessage } from '@/lib/checkInAccess';
+import { isGuestPassToken, redeemGuestPass, getGuestPassErrorMessage, GuestPassRedemption } from '@/lib/guestPasses';
+import { CheckInWarning } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 
 const { width, height } = Dimensions.get('window');
@@ -22,6 +25,8 @@ export default function CheckinScreen() {
   const [facing, setFacing] = useState<CameraType>('back');
   const [scanned, setScanned] = useState(false);
   const [checkedIn, setCheckedIn] = useState(false);
+  const [checkInWarnings, setCheckInWarnings] = useState<CheckInWarning[]>([]);
+  const [guestCheckIn, setGuestCheckIn] = useState<GuestPassRedemption | null>(null);
   const { checkIn } = useCheckIn(); // Only use checkIn, don't destructure other values
   const { user } = useAuth();
 
@@ -36,20 +41,39 @@ export default function CheckinScreen() {
     if (scanned) return;
     
     setScanned(true);
+
+    // A guest pass checks the guest in, not the person scanning it
+    if (isGuestPassToken(data)) {
+      const redemption = await redeemGuestPass(data);
+
+      if (redemption.valid) {
+        setGuestCheckIn(redemption);
+      } else {
+        const { title, message } = getGuestPassErrorMessage(redemption.errorCode);
+        Alert.alert(
+          title,
+          message,
+          [{ text: 'Try Again', onPress: () => setScanned(false) }]
+        );
+      }
+      return;
+    }
     
-    // Validate QR code format using the validation function
+    // Quick format check before asking the server to verify the signed code
     if (validateGymQRCode(data)) {
       try {
-        // Attempt to check in
-        const success = await checkIn();
+        // Attempt to check in - the code is verified server-side
+        const result = await checkIn(data);
         
-        if (success) {
+        if (result.success) {
           // Set checked in state and ensure it stays
+          setCheckInWarnings(result.warnings || []);
           setCheckedIn(true);
         } else {
+          const { title, message } = getMembershipDenialMessage(result.error) || getQRErrorMessage(result.error);
           Alert.alert(
-            'Check-in Failed',
-            'Unable to check in. Please try again.',
+            title,
+            message,
             [{ text: 'Try Again', onPress: () => setScanned(false) }]
           );
         }
@@ -61,9 +85,10 @@ export default function CheckinScreen() {
         );
       }
     } else {
+      const { title, message } = getQRErrorMessage('QR_INVALID_FORMAT');
       Alert.alert(
-        'Invalid QR Code',
-        'This QR code is not valid for gym check-in. Please scan the gym\'s QR code.',
+        title,
+        message,
         [{ text: 'Try Again', onPress: () => setScanned(false) }]
       );
     }
@@ -109,6 +134,39 @@ export default function CheckinScreen() {
     );
   }
 
+  if (guestCheckIn) {
+    return (
+      <View style={styles.container}>
+        <LinearGradient
+          colors={['#16A085', '#1ABC9C']}
+          style={styles.successContainer}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <CheckCircle size={80} color="#FFFFFF" />
+          <Text style={styles.successTitle}>Guest Checked In!</Text>
+          <Text style={styles.successText}>
+            Welcome, {guestCheckIn.guestName}! Enjoy your visit.
+          </Text>
+          <Text style={styles.successSubtext}>
+            {guestCheckIn.remainingUses
+              ? `${guestCheckIn.remainingUses} visit${guestCheckIn.remainingUses === 1 ? '' : 's'} left on this pass`
+              : 'This was the last visit on this pass'}
+          </Text>
+          <TouchableOpacity 
+            style={styles.doneButton}
+            onPress={() => {
+              setGuestCheckIn(null);
+              setScanned(false);
+            }}
+          >
+            <Text style={styles.doneButtonText}>Scan Another</Text>
+          </TouchableOpacity>
+        </LinearGradient>
+      </View>
+    );
+  }
+
   if (checkedIn) {
     return (
       <View style={styles.container}>
@@ -123,6 +181,11 @@ export default function CheckinScreen() {
           <Text style={styles.successText}>
             Welcome to FitForge Gym! Enjoy your workout session.
           </Text>
+          {checkInWarnings.map((warning) => (
+            <Text key={warning.code} style={styles.successSubtext}>
+              {warning.message}
+            </Text>
+          ))}
           <TouchableOpacity 
             style={styles.doneButton}
             onPress={() => {
@@ -166,7 +229,7 @@ export default function CheckinScreen() {
           </View>
           <View style={styles.instructionsContainer}>
             <Text style={styles.instructionsText}>
-              Position the QR code within the frame
+              Position the gym QR code or a guest pass within the frame
             </Text>
           </View>
         </View>
@@ -346,7 +409,7 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     textAlign: 'center',
     opacity: 0.9,
-    marginBottom: 40,
+    marginBottom: 20,
   },
   doneButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.9)',
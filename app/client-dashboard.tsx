@@ -17,7 +17,9 @@ import {
   Phone, 
   Edit3, 
   BarChart3,
-  Search
+  Search,
+  Users,
+  Check
 } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
@@ -25,9 +27,11 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 
 import ProfilePicture from '@/components/ProfilePicture';
+import ProfileBadges from '@/components/ProfileBadges';
 import { supabase } from '@/lib/supabase';
 import { getTrainerPrograms, assignProgramToUser } from '@/lib/trainerPrograms';
-import { getOrCreateConversation } from '@/lib/messaging';
+import { getOrCreateConversation, createGroupConversation } from '@/lib/messaging';
+import { GamificationService, ProfileBadgeSummary } from '@/lib/gamification';
 
 interface Client {
   id: string;
@@ -81,8 +85,13 @@ export default function ClientDashboard() {
   const { user } = useAuth();
   const { isTrainer, roles, loading } = useUserRoles();
   const [clients, setClients] = useState<Client[]>([]);
+  const [clientBadges, setClientBadges] = useState<Record<string, ProfileBadgeSummary>>({});
   const [activeTab, setActiveTab] = useState<'clients' | 'messages'>('clients');
   const [showAddClientModal, setShowAddClientModal] = useState(false);
+  const [showGroupModal, setShowGroupModal] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [groupMemberIds, setGroupMemberIds] = useState<string[]>([]);
+  const [creatingGroup, setCreatingGroup] = useState(false);
 
 
   const [showWorkoutModal, setShowWorkoutModal] = useState(false);
@@ -146,6 +155,7 @@ export default function ClientDashboard() {
       }
 
       setClients(clientData || []);
+      setClientBadges(await GamificationService.getProfileBadges(clientIds));
     } catch (error) {
       console.error('Error fetching clients:', error);
       setClients([]);
@@ -217,6 +227,40 @@ export default function ClientDashboard() {
     }
   };
 
+  // Clients added by hand here are only pending until they connect
+  const groupCandidates = clients.filter(client => client.status !== 'pending');
+
+  const closeGroupModal = () => {
+    setShowGroupModal(false);
+    setGroupName('');
+    setGroupMemberIds([]);
+  };
+
+  const toggleGroupMember = (clientId: string) => {
+    setGroupMemberIds(prev =>
+      prev.includes(clientId) ? prev.filter(id => id !== clientId) : [...prev, clientId]
+    );
+  };
+
+  const createGroup = async () => {
+    if (!groupName.trim() || groupMemberIds.length === 0) {
+      Alert.alert('Error', 'Give the group a name and pick at least one client');
+      return;
+    }
+
+    setCreatingGroup(true);
+    const result = await createGroupConversation(groupName.trim(), groupMemberIds);
+    setCreatingGroup(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to create group');
+      return;
+    }
+
+    closeGroupModal();
+    router.push('/(tabs)/messages');
+  };
+
 
 
 
@@ -438,6 +482,7 @@ export default function ClientDashboard() {
                       <View style={styles.clientTextDetails}>
                         <Text style={styles.clientName}>{client.full_name}</Text>
                         <Text style={styles.clientUsername}>@{client.username}</Text>
+                        <ProfileBadges badges={clientBadges[client.id]} />
                       </View>
                     </View>
                     <View style={[styles.statusBadge, { backgroundColor: getStatusColor(client.status) }]}>
@@ -560,6 +605,13 @@ export default function ClientDashboard() {
                 <MessageCircle size={20} color="#FFFFFF" />
                 <Text style={styles.bulkMessageText}>Open Messages</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.messageHistoryButton}
+                onPress={() => setShowGroupModal(true)}
+              >
+                <Users size={20} color="#FFFFFF" />
+                <Text style={styles.messageHistoryText}>Create Group Chat</Text>
+              </TouchableOpacity>
             </View>
           </View>
         )}
@@ -673,6 +725,91 @@ export default function ClientDashboard() {
         </View>
       </Modal>
 
+      {/* Create Group Modal */}
+      <Modal
+        visible={showGroupModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={closeGroupModal}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.addClientModalContent}>
+            <LinearGradient
+              colors={['#FF6B35', '#FF8C42']}
+              style={styles.addClientModalHeader}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              <Text style={styles.addClientModalTitle}>New Group Chat</Text>
+              <Text style={styles.addClientModalSubtitle}>Message a group of your clients together</Text>
+            </LinearGradient>
+
+            <ScrollView
+              style={styles.addClientModalBody}
+              showsVerticalScrollIndicator={true}
+              contentContainerStyle={styles.addClientModalBodyContent}
+            >
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Group Name *</Text>
+                <TextInput
+                  style={styles.addClientModalInput}
+                  placeholder="e.g. Monday Bootcamp"
+                  value={groupName}
+                  onChangeText={setGroupName}
+                  maxLength={60}
+                />
+              </View>
+
+              <Text style={styles.inputLabel}>
+                Members ({groupMemberIds.length} selected)
+              </Text>
+              {groupCandidates.length === 0 ? (
+                <Text style={styles.detailText}>You have no connected clients to add yet.</Text>
+              ) : (
+                groupCandidates.map(client => {
+                  const selected = groupMemberIds.includes(client.id);
+                  return (
+                    <TouchableOpacity
+                      key={client.id}
+                      style={styles.groupMemberRow}
+                      onPress={() => toggleGroupMember(client.id)}
+                    >
+                      <ProfilePicture
+                        avatarUrl={client.avatar_url}
+                        fullName={client.full_name}
+                        size={36}
+                      />
+                      <Text style={styles.groupMemberName}>{client.full_name}</Text>
+                      <View style={[styles.groupMemberCheckbox, selected && styles.groupMemberCheckboxSelected]}>
+                        {selected && <Check size={14} color="#FFFFFF" />}
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </ScrollView>
+
+            <View style={styles.addClientModalActions}>
+              <TouchableOpacity
+                style={[styles.addClientModalButton, styles.cancelButton]}
+                onPress={closeGroupModal}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.addClientModalButton, styles.saveButton]}
+                onPress={createGroup}
+                disabled={creatingGroup}
+              >
+                <Text style={styles.saveButtonText}>
+                  {creatingGroup ? 'Creating...' : 'Create Group'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
 
         
 
@@ -1297,6 +1434,32 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     elevation: 4,
   },
+  groupMemberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  groupMemberName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  groupMemberCheckbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 1.5,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  groupMemberCheckboxSelected: {
+    backgroundColor: '#FF6B35',
+    borderColor: '#FF6B35',
+  },
   
 
        workoutModalContent: {
@@ -1,11 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  TextInput,
+  Modal,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { 
@@ -15,10 +18,15 @@ import {
   Target, 
   Users, 
   Award,
-  ArrowLeft
+  ArrowLeft,
+  Plus,
+  X
 } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { ChallengeCategory } from '@/lib/gamification';
+import { getTeamChallenges, createTeamChallenge, TeamChallenge } from '@/lib/teamChallenges';
+import TeamChallengeCard from '@/components/TeamChallengeCard';
 
 interface Achievement {
   id: string;
@@ -31,17 +39,29 @@ interface Achievement {
   category: 'workout' | 'streak' | 'goal' | 'special';
 }
 
-interface Challenge {
-  id: string;
-  name: string;
-  description: string;
-  type: 'weekly' | 'monthly';
-  target: number;
-  current: number;
-  reward: number;
-  endDate: string;
-  active: boolean;
-}
+type TeamChallengeLength = 'week' | 'month';
+
+const TEAM_CATEGORY_OPTIONS: { value: ChallengeCategory; label: string }[] = [
+  { value: 'checkin', label: 'Check-ins' },
+  { value: 'workout', label: 'Workouts' },
+  { value: 'streak', label: 'Streak' },
+  { value: 'goal', label: 'Goals' },
+];
+
+const DEFAULT_TEAM_NAMES = ['Team Red', 'Team Blue'];
+const MAX_TEAMS = 4;
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Team challenges start today and run for a week or to the end of the month
+const getTeamChallengeDates = (length: TeamChallengeLength) => {
+  const today = new Date();
+  const end = length === 'week'
+    ? new Date(today.getFullYear(), today.getMonth(), today.getDate() + 6)
+    : new Date(today.getFullYear(), today.getMonth() + 1, 0);
+  return { startDate: formatDate(today), endDate: formatDate(end) };
+};
 
 interface LeaderboardEntry {
   id: string;
@@ -57,7 +77,14 @@ export default function GamificationScreen() {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'achievements' | 'challenges' | 'leaderboard'>('achievements');
   const [achievements, setAchievements] = useState<Achievement[]>([]);
-  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [teamChallenges, setTeamChallenges] = useState<TeamChallenge[]>([]);
+  const [loadingChallenges, setLoadingChallenges] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState<ChallengeCategory>('checkin');
+  const [newLength, setNewLength] = useState<TeamChallengeLength>('month');
+  const [newTeamNames, setNewTeamNames] = useState<string[]>(DEFAULT_TEAM_NAMES);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [userStats, setUserStats] = useState({
     totalPoints: 0,
@@ -67,16 +94,62 @@ export default function GamificationScreen() {
     rank: 0,
   });
 
+  const fetchTeamChallenges = useCallback(async () => {
+    setTeamChallenges(await getTeamChallenges());
+    setLoadingChallenges(false);
+  }, []);
+
   useEffect(() => {
     fetchGamificationData();
-  }, []);
+    fetchTeamChallenges();
+  }, [fetchTeamChallenges]);
+
+  const resetCreateForm = () => {
+    setNewName('');
+    setNewCategory('checkin');
+    setNewLength('month');
+    setNewTeamNames(DEFAULT_TEAM_NAMES);
+  };
+
+  const handleCreateTeamChallenge = async () => {
+    const teamNames = newTeamNames.map(name => name.trim());
+
+    if (!newName.trim()) {
+      Alert.alert('Name Required', 'Please give your challenge a name.');
+      return;
+    }
+
+    if (teamNames.some(name => !name) || new Set(teamNames).size !== teamNames.length) {
+      Alert.alert('Team Names', 'Every team needs its own name.');
+      return;
+    }
+
+    setCreating(true);
+    const result = await createTeamChallenge({
+      name: newName.trim(),
+      description: '',
+      category: newCategory,
+      teamNames,
+      ...getTeamChallengeDates(newLength),
+    });
+    setCreating(false);
+
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to create challenge');
+      return;
+    }
+
+    setCreateOpen(false);
+    resetCreateForm();
+    fetchTeamChallenges();
+    Alert.alert('Challenge Created', `You're on ${teamNames[0]}. Invite friends from the challenge card.`);
+  };
 
   const fetchGamificationData = async () => {
     try {
       // TODO: Implement real API call to fetch gamification data
       // For now, set empty arrays
       setAchievements([]);
-      setChallenges([]);
       setLeaderboard([]);
       setUserStats({
         totalPoints: 1250,
@@ -223,35 +296,28 @@ export default function GamificationScreen() {
 
         {activeTab === 'challenges' && (
           <View style={styles.tabContent}>
-            <Text style={styles.sectionTitle}>Active Challenges</Text>
-            {challenges.filter(c => c.active).map((challenge) => (
-              <View key={challenge.id} style={styles.challengeCard}>
-                <View style={styles.challengeHeader}>
-                  <View>
-                    <Text style={styles.challengeName}>{challenge.name}</Text>
-                    <Text style={styles.challengeType}>{challenge.type.charAt(0).toUpperCase() + challenge.type.slice(1)} Challenge</Text>
-                  </View>
-                  <Text style={styles.challengeReward}>+{challenge.reward} pts</Text>
-                </View>
-                <Text style={styles.challengeDescription}>{challenge.description}</Text>
-                <View style={styles.challengeProgress}>
-                  <View style={styles.progressBar}>
-                    <View 
-                      style={[
-                        styles.progressFill, 
-                        { width: `${Math.min((challenge.current / challenge.target) * 100, 100)}%` }
-                      ]} 
-                    />
-                  </View>
-                  <Text style={styles.progressText}>
-                    {challenge.current}/{challenge.target}
-                  </Text>
-                </View>
-                <Text style={styles.challengeEndDate}>
-                  Ends: {new Date(challenge.endDate).toLocaleDateString()}
-                </Text>
-              </View>
-            ))}
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Team Challenges</Text>
+              <TouchableOpacity style={styles.newChallengeButton} onPress={() => setCreateOpen(true)}>
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={styles.newChallengeButtonText}>New</Text>
+              </TouchableOpacity>
+            </View>
+            {loadingChallenges ? (
+              <ActivityIndicator color="#FF6B35" style={styles.challengesLoader} />
+            ) : teamChallenges.length === 0 ? (
+              <Text style={styles.emptyChallengesText}>
+                No team challenges yet. Start one and challenge your friends!
+              </Text>
+            ) : (
+              teamChallenges.map(challenge => (
+                <TeamChallengeCard
+                  key={challenge.id}
+                  challenge={challenge}
+                  onChanged={fetchTeamChallenges}
+                />
+              ))
+            )}
           </View>
         )}
 
@@ -288,6 +354,99 @@ export default function GamificationScreen() {
           </View>
         )}
       </View>
+
+      <Modal
+        visible={createOpen}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setCreateOpen(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>New Team Challenge</Text>
+              <TouchableOpacity onPress={() => setCreateOpen(false)}>
+                <X size={24} color="#2C3E50" />
+              </TouchableOpacity>
+            </View>
+
+            <TextInput
+              style={styles.textInput}
+              placeholder="e.g. Most check-ins this month"
+              placeholderTextColor="#95A5A6"
+              value={newName}
+              onChangeText={setNewName}
+            />
+
+            <Text style={styles.fieldLabel}>Most...</Text>
+            <View style={styles.chipRow}>
+              {TEAM_CATEGORY_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.chip, newCategory === option.value && styles.chipSelected]}
+                  onPress={() => setNewCategory(option.value)}
+                >
+                  <Text style={[styles.chipText, newCategory === option.value && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Runs until</Text>
+            <View style={styles.chipRow}>
+              {(['week', 'month'] as TeamChallengeLength[]).map(length => (
+                <TouchableOpacity
+                  key={length}
+                  style={[styles.chip, newLength === length && styles.chipSelected]}
+                  onPress={() => setNewLength(length)}
+                >
+                  <Text style={[styles.chipText, newLength === length && styles.chipTextSelected]}>
+                    {length === 'week' ? 'A week from today' : 'End of the month'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Teams (you join the first)</Text>
+            {newTeamNames.map((teamName, index) => (
+              <View key={index} style={styles.teamNameRow}>
+                <TextInput
+                  style={[styles.textInput, styles.teamNameInput]}
+                  value={teamName}
+                  onChangeText={text => setNewTeamNames(names => names.map((name, i) => (i === index ? text : name)))}
+                />
+                {newTeamNames.length > 2 && (
+                  <TouchableOpacity
+                    onPress={() => setNewTeamNames(names => names.filter((_, i) => i !== index))}
+                  >
+                    <X size={20} color="#95A5A6" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {newTeamNames.length < MAX_TEAMS && (
+              <TouchableOpacity
+                onPress={() => setNewTeamNames(names => [...names, `Team ${names.length + 1}`])}
+              >
+                <Text style={styles.addTeamText}>+ Add team</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.createButton, creating && styles.createButtonDisabled]}
+              onPress={handleCreateTeamChallenge}
+              disabled={creating}
+            >
+              {creating ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.createButtonText}>Create Challenge</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -476,73 +635,123 @@ const styles = StyleSheet.create({
     color: '#636E72',
     fontWeight: '600',
   },
-  challengeCard: {
-    backgroundColor: '#FFFFFF',
-    borderRadius: 12,
-    padding: 16,
-    marginBottom: 16,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 1 },
-    shadowOpacity: 0.05,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  challengeHeader: {
+  sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'flex-start',
-    marginBottom: 8,
   },
-  challengeName: {
-    fontSize: 16,
+  newChallengeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#FF6B35',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  newChallengeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
     fontWeight: '600',
+  },
+  challengesLoader: {
+    marginVertical: 30,
+  },
+  emptyChallengesText: {
+    fontSize: 14,
+    color: '#636E72',
+    textAlign: 'center',
+    paddingVertical: 30,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
     color: '#2D3436',
-    marginBottom: 4,
   },
-  challengeType: {
-    fontSize: 12,
-    color: '#6B7280',
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#2D3436',
+    marginBottom: 15,
   },
-  challengeReward: {
+  fieldLabel: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#00B894',
+    color: '#2D3436',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F1F2F6',
   },
-  challengeDescription: {
+  chipSelected: {
+    backgroundColor: '#FF6B35',
+  },
+  chipText: {
     fontSize: 14,
-    color: '#636E72',
-    marginBottom: 16,
-    lineHeight: 20,
+    color: '#2D3436',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
   },
-  challengeProgress: {
+  teamNameRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: 12,
-    marginBottom: 12,
+    gap: 8,
   },
-  progressBar: {
+  teamNameInput: {
     flex: 1,
-    height: 8,
-    backgroundColor: '#F1F3F4',
-    borderRadius: 4,
-    overflow: 'hidden',
-  },
-  progressFill: {
-    height: '100%',
-    backgroundColor: '#4ECDC4',
-    borderRadius: 4,
+    marginBottom: 10,
   },
-  progressText: {
+  addTeamText: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#636E72',
-    minWidth: 50,
-    textAlign: 'right',
+    color: '#FF6B35',
+    marginBottom: 20,
   },
-  challengeEndDate: {
-    fontSize: 12,
-    color: '#9CA3AF',
-    textAlign: 'right',
+  createButton: {
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  createButtonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  createButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
   },
   leaderboardContainer: {
     gap: 12,
@@ -0,0 +1,506 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Ticket, Plus, Minus, X } from 'lucide-react-native';
+import { router } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
+import { useUserRoles } from '@/hooks/useUserRoles';
+import {
+  getGuestPasses,
+  getGuestPassQuota,
+  issueGuestPass,
+  revokeGuestPass,
+  getGuestPassStatus,
+  getGuestPassErrorMessage,
+  GuestPass,
+  GuestPassQuota,
+  GuestPassStatus,
+} from '@/lib/guestPasses';
+
+// Upper bound for house passes issued by admins
+const ADMIN_MAX_USES = 20;
+
+const STATUS_COLORS: Record<GuestPassStatus, string> = {
+  active: '#2ECC71',
+  used: '#95A5A6',
+  expired: '#E67E22',
+  revoked: '#E74C3C',
+};
+
+const STATUS_LABELS: Record<GuestPassStatus, string> = {
+  active: 'Active',
+  used: 'Used',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+export default function GuestPassesScreen() {
+  const { isAdmin } = useUserRoles();
+  const admin = isAdmin();
+
+  const [passes, setPasses] = useState<GuestPass[]>([]);
+  const [quota, setQuota] = useState<GuestPassQuota | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [guestName, setGuestName] = useState('');
+  const [maxUses, setMaxUses] = useState(1);
+  const [issuing, setIssuing] = useState(false);
+  const [selectedPass, setSelectedPass] = useState<GuestPass | null>(null);
+
+  const usesLimit = admin ? ADMIN_MAX_USES : quota?.maxUses ?? 1;
+  const remainingPasses = quota ? Math.max(0, quota.quota - quota.issued) : 0;
+  const canIssue = admin || remainingPasses > 0;
+
+  const fetchPasses = useCallback(async () => {
+    const [passList, passQuota] = await Promise.all([
+      getGuestPasses(),
+      getGuestPassQuota(),
+    ]);
+    setPasses(passList);
+    setQuota(passQuota);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPasses();
+  }, [fetchPasses]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPasses();
+    setRefreshing(false);
+  };
+
+  const handleIssue = async () => {
+    if (!guestName.trim()) {
+      Alert.alert('Guest Name Required', 'Please enter the name of your guest.');
+      return;
+    }
+
+    setIssuing(true);
+    const result = await issueGuestPass({ guestName: guestName.trim(), maxUses });
+    setIssuing(false);
+
+    if (!result.success || !result.pass) {
+      const { title, message } = getGuestPassErrorMessage(result.errorCode);
+      Alert.alert(title, result.errorCode ? message : result.error || message);
+      return;
+    }
+
+    setGuestName('');
+    setMaxUses(1);
+    setSelectedPass(result.pass);
+    fetchPasses();
+  };
+
+  const handleRevoke = (pass: GuestPass) => {
+    Alert.alert(
+      'Revoke Guest Pass',
+      `${pass.guest_name} will no longer be able to check in with this pass.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await revokeGuestPass(pass.id);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to revoke guest pass');
+              return;
+            }
+            setSelectedPass(null);
+            fetchPasses();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderPass = (pass: GuestPass) => {
+    const status = getGuestPassStatus(pass);
+    const sponsorName = pass.sponsor?.full_name || pass.sponsor?.username;
+
+    return (
+      <TouchableOpacity
+        key={pass.id}
+        style={styles.passCard}
+        onPress={() => setSelectedPass(pass)}
+        disabled={status !== 'active'}
+      >
+        <View style={styles.passInfo}>
+          <Text style={styles.passName}>{pass.guest_name}</Text>
+          <Text style={styles.passDetail}>
+            {pass.uses} of {pass.max_uses} visit{pass.max_uses === 1 ? '' : 's'} used
+            {' · '}valid until {new Date(pass.valid_until).toLocaleDateString()}
+          </Text>
+          {admin && (
+            <Text style={styles.passDetail}>
+              Sponsor: {sponsorName || 'House pass'}
+            </Text>
+          )}
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[status] }]}>
+          <Text style={styles.statusText}>{STATUS_LABELS[status]}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#FF6B35', '#FF8C42']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      >
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <ArrowLeft size={24} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Guest Passes</Text>
+        <Text style={styles.headerSubtitle}>
+          {admin ? 'Issue and manage passes for visitors' : 'Bring a friend to the gym'}
+        </Text>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>New Guest Pass</Text>
+          {!admin && quota && (
+            <Text style={styles.quotaText}>
+              {remainingPasses} of {quota.quota} pass{quota.quota === 1 ? '' : 'es'} left this month
+            </Text>
+          )}
+
+          <TextInput
+            style={styles.textInput}
+            placeholder="Guest's name"
+            placeholderTextColor="#95A5A6"
+            value={guestName}
+            onChangeText={setGuestName}
+            editable={canIssue}
+          />
+
+          <View style={styles.usesRow}>
+            <Text style={styles.usesLabel}>Visits</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setMaxUses(value => Math.max(1, value - 1))}
+                disabled={maxUses <= 1}
+              >
+                <Minus size={18} color={maxUses <= 1 ? '#BDC3C7' : '#2C3E50'} />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{maxUses}</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setMaxUses(value => Math.min(usesLimit, value + 1))}
+                disabled={maxUses >= usesLimit}
+              >
+                <Plus size={18} color={maxUses >= usesLimit ? '#BDC3C7' : '#2C3E50'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.issueButton, (!canIssue || issuing) && styles.issueButtonDisabled]}
+            onPress={handleIssue}
+            disabled={!canIssue || issuing}
+          >
+            {issuing ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Ticket size={20} color="#FFFFFF" />
+                <Text style={styles.issueButtonText}>
+                  {canIssue ? 'Issue Guest Pass' : 'Monthly Limit Reached'}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{admin ? 'All Guest Passes' : 'Your Guest Passes'}</Text>
+          {loading ? (
+            <ActivityIndicator color="#FF6B35" style={styles.loader} />
+          ) : passes.length === 0 ? (
+            <Text style={styles.emptyText}>No guest passes issued yet.</Text>
+          ) : (
+            passes.map(renderPass)
+          )}
+        </View>
+      </ScrollView>
+
+      <Modal
+        visible={!!selectedPass}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSelectedPass(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <TouchableOpacity
+              style={styles.modalClose}
+              onPress={() => setSelectedPass(null)}
+            >
+              <X size={24} color="#2C3E50" />
+            </TouchableOpacity>
+
+            {selectedPass && (
+              <>
+                <Text style={styles.modalTitle}>{selectedPass.guest_name}</Text>
+                <Text style={styles.modalSubtitle}>
+                  Show this code at the gym scanner to check in
+                </Text>
+                <View style={styles.qrContainer}>
+                  <QRCode value={selectedPass.token} size={220} />
+                </View>
+                <Text style={styles.passDetail}>
+                  {selectedPass.max_uses - selectedPass.uses} visit
+                  {selectedPass.max_uses - selectedPass.uses === 1 ? '' : 's'} left
+                  {' · '}valid until {new Date(selectedPass.valid_until).toLocaleDateString()}
+                </Text>
+                <TouchableOpacity
+                  style={styles.revokeButton}
+                  onPress={() => handleRevoke(selectedPass)}
+                >
+                  <Text style={styles.revokeButtonText}>Revoke Pass</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 30,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 5,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 15,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 10,
+  },
+  quotaText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    marginBottom: 15,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#2C3E50',
+    marginBottom: 15,
+  },
+  usesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  usesLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F1F2F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  issueButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF6B35',
+    borderRadius: 12,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  issueButtonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  issueButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  passCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  passInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  passName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2C3E50',
+    marginBottom: 4,
+  },
+  passDetail: {
+    fontSize: 13,
+    color: '#7F8C8D',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    alignItems: 'center',
+  },
+  modalClose: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginTop: 10,
+    marginBottom: 6,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F1F2F6',
+    marginBottom: 16,
+  },
+  revokeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E74C3C',
+  },
+  revokeButtonText: {
+    color: '#E74C3C',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
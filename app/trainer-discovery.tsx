@@ -36,6 +36,8 @@ import { createBookingNotification } from '@/lib/notifications';
 import pushNotifications from '@/lib/pushNotifications';
 import ProfilePicture from '@/components/ProfilePicture';
 import StarRating from '@/components/StarRating';
+import ProfileBadges from '@/components/ProfileBadges';
+import { GamificationService, ProfileBadgeSummary } from '@/lib/gamification';
 import { getTrainerRatingStats } from '@/lib/trainerRatings';
 
 interface Trainer {
@@ -83,6 +85,7 @@ export default function TrainerDiscovery() {
   const { refreshProfiles } = useProfile();
   const [trainers, setTrainers] = useState<Trainer[]>([]);
   const [filteredTrainers, setFilteredTrainers] = useState<Trainer[]>([]);
+  const [trainerBadges, setTrainerBadges] = useState<Record<string, ProfileBadgeSummary>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTrainer, setSelectedTrainer] = useState<Trainer | null>(null);
   const [showTrainerModal, setShowTrainerModal] = useState(false);
@@ -206,6 +209,7 @@ export default function TrainerDiscovery() {
       }
       
       setTrainers(transformedTrainers);
+      setTrainerBadges(await GamificationService.getProfileBadges(transformedTrainers.map(trainer => trainer.id)));
       
     } catch (error) {
       console.error('❌ Error fetching trainers:', error);
@@ -397,6 +401,7 @@ export default function TrainerDiscovery() {
                         <View style={styles.trainerDetails}>
                           <Text style={styles.trainerName}>{trainer.full_name}</Text>
                           <Text style={styles.trainerUsername}>@{trainer.username}</Text>
+                          <ProfileBadges badges={trainerBadges[trainer.id]} />
                         </View>
                       </View>
                       <View style={styles.trainerStatus}>
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ActivityIndicator,
+  Dimensions,
+  ScrollView,
+} from 'react-native';
+import { BarChart } from 'react-native-chart-kit';
+import {
+  getCheckInAnalyticsReport,
+  toHeatmapGrid,
+  WEEKDAY_LABELS,
+  CheckInAnalyticsReport,
+} from '@/lib/checkInAnalytics';
+
+interface CheckInAnalyticsPanelProps {
+  locationId?: string; // All locations when omitted
+  refreshKey?: number; // Change to reload
+}
+
+const ANALYTICS_WEEKS = 8;
+const CHURN_RISK_PREVIEW = 5;
+const HEATMAP_HOUR_LABELS = [0, 6, 12, 18];
+
+const formatWeekLabel = (periodStart: string) => {
+  const [, month, day] = periodStart.split('-');
+  return `${Number(month)}/${Number(day)}`;
+};
+
+const formatCohortLabel = (cohortMonth: string) =>
+  new Date(`${cohortMonth}T00:00:00`).toLocaleDateString([], { month: 'short', year: '2-digit' });
+
+export default function CheckInAnalyticsPanel({ locationId, refreshKey }: CheckInAnalyticsPanelProps) {
+  const [report, setReport] = useState<CheckInAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    const end = new Date();
+    const start = new Date(end.getTime() - ANALYTICS_WEEKS * 7 * 24 * 60 * 60 * 1000);
+    setReport(await getCheckInAnalyticsReport({ start, end, locationId }));
+    setLoading(false);
+  }, [locationId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, refreshKey]);
+
+  if (loading && !report) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator color="#2C3E50" />
+      </View>
+    );
+  }
+
+  if (!report) return null;
+
+  const grid = toHeatmapGrid(report.heatmap);
+  const busiest = Math.max(1, ...grid.flat());
+  const chartWidth = Dimensions.get('window').width - 80;
+
+  return (
+    <View>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryTile}>
+          <Text style={styles.summaryValue}>{report.summary.uniqueVisitors}</Text>
+          <Text style={styles.summaryLabel}>Unique visitors</Text>
+        </View>
+        <View style={styles.summaryTile}>
+          <Text style={styles.summaryValue}>{report.summary.totalCheckIns}</Text>
+          <Text style={styles.summaryLabel}>Check-ins</Text>
+        </View>
+        <View style={styles.summaryTile}>
+          <Text style={styles.summaryValue}>{Math.round(report.summary.averageSessionMinutes)}m</Text>
+          <Text style={styles.summaryLabel}>Avg session</Text>
+        </View>
+      </View>
+      <Text style={styles.rangeText}>Last {ANALYTICS_WEEKS} weeks</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Unique Visitors per Week</Text>
+        {report.visitors.length === 0 ? (
+          <Text style={styles.emptyText}>No check-ins in this period</Text>
+        ) : (
+          <BarChart
+            data={{
+              labels: report.visitors.map(row => formatWeekLabel(row.periodStart)),
+              datasets: [{ data: report.visitors.map(row => row.uniqueVisitors) }],
+            }}
+            width={chartWidth}
+            height={180}
+            yAxisLabel=""
+            yAxisSuffix=""
+            fromZero
+            chartConfig={{
+              backgroundColor: '#FFFFFF',
+              backgroundGradientFrom: '#FFFFFF',
+              backgroundGradientTo: '#FFFFFF',
+              decimalPlaces: 0,
+              color: (opacity = 1) => `rgba(46, 204, 113, ${opacity})`,
+              labelColor: (opacity = 1) => `rgba(0, 0, 0, ${opacity})`,
+              propsForLabels: { fontSize: 10 },
+              propsForBackgroundLines: { strokeDasharray: '', stroke: 'rgba(0,0,0,0.1)' },
+            }}
+            style={styles.chart}
+          />
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Busiest Times</Text>
+        {grid.map((counts, weekday) => (
+          <View key={weekday} style={styles.heatmapRow}>
+            <Text style={styles.heatmapLabel}>{WEEKDAY_LABELS[weekday]}</Text>
+            {counts.map((count, hour) => (
+              <View
+                key={hour}
+                style={[
+                  styles.heatmapCell,
+                  { backgroundColor: count > 0 ? `rgba(255, 107, 53, ${0.15 + 0.85 * (count / busiest)})` : '#F1F2F6' },
+                ]}
+              />
+            ))}
+          </View>
+        ))}
+        <View style={styles.heatmapRow}>
+          <Text style={styles.heatmapLabel} />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <Text key={hour} style={styles.heatmapHourLabel}>
+              {HEATMAP_HOUR_LABELS.includes(hour) ? hour : ''}
+            </Text>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Retention by Join Month</Text>
+        {report.retention.length === 0 ? (
+          <Text style={styles.emptyText}>No new members in the last 6 months</Text>
+        ) : (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              {report.retention.map(cohort => (
+                <View key={cohort.cohortMonth} style={styles.cohortRow}>
+                  <Text style={styles.cohortLabel}>
+                    {formatCohortLabel(cohort.cohortMonth)} ({cohort.cohortSize})
+                  </Text>
+                  {cohort.months.map((month, index) => (
+                    <View
+                      key={index}
+                      style={[
+                        styles.cohortCell,
+                        { backgroundColor: `rgba(52, 152, 219, ${0.1 + 0.9 * month.retentionRate})` },
+                      ]}
+                    >
+                      <Text style={[styles.cohortCellText, month.retentionRate > 0.5 && styles.cohortCellTextLight]}>
+                        {Math.round(month.retentionRate * 100)}%
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Churn Risk ({report.churnRisk.length})</Text>
+        {report.churnRisk.length === 0 ? (
+          <Text style={styles.emptyText}>No regulars have dropped off recently</Text>
+        ) : (
+          report.churnRisk.slice(0, CHURN_RISK_PREVIEW).map(member => (
+            <View key={member.userId} style={styles.churnRow}>
+              <View style={styles.churnInfo}>
+                <Text style={styles.churnName} numberOfLines={1}>
+                  {member.fullName || member.username || 'Unknown User'}
+                </Text>
+                <Text style={styles.churnDetail}>
+                  Last visit {new Date(member.lastCheckIn).toLocaleDateString()} · {member.baselineWeeklyVisits} → {member.recentWeeklyVisits} visits/week
+                </Text>
+              </View>
+              <Text style={styles.churnDrop}>-{Math.round(member.dropRatio * 100)}%</Text>
+            </View>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    paddingVertical: 30,
+    alignItems: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryTile: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#7F8C8D',
+    marginTop: 4,
+  },
+  rangeText: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2C3E50',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  chart: {
+    marginLeft: -16,
+    borderRadius: 12,
+  },
+  heatmapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  heatmapLabel: {
+    width: 32,
+    fontSize: 11,
+    color: '#7F8C8D',
+  },
+  heatmapCell: {
+    flex: 1,
+    height: 16,
+    marginHorizontal: 0.5,
+    borderRadius: 2,
+  },
+  heatmapHourLabel: {
+    flex: 1,
+    fontSize: 9,
+    color: '#95A5A6',
+  },
+  cohortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  cohortLabel: {
+    width: 80,
+    fontSize: 12,
+    color: '#2C3E50',
+  },
+  cohortCell: {
+    width: 44,
+    height: 28,
+    marginHorizontal: 1,
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cohortCellText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  cohortCellTextLight: {
+    color: '#FFFFFF',
+  },
+  churnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F2F6',
+  },
+  churnInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  churnName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2C3E50',
+  },
+  churnDetail: {
+    fontSize: 12,
+    color: '#7F8C8D',
+    marginTop: 2,
+  },
+  churnDrop: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#E74C3C',
+  },
+});
@@ -19,15 +19,19 @@ import {
   Flame,
   Weight,
   Hand,
-  Lightbulb
+  Lightbulb,
+  Forward
 } from 'lucide-react-native';
 import { 
   toggleMessageReaction, 
   getMessageReactionsSummary,
   markMessageAsDelivered,
-  markMessageAsRead 
+  markMessageAsRead,
+  MEDIA_PLACEHOLDER_CONTENT
 } from '../lib/messaging';
 import { useAuth } from '../contexts/AuthContext';
+import VoiceNotePlayer from './VoiceNotePlayer';
+import VideoMessagePlayer from './VideoMessagePlayer';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -35,21 +39,29 @@ interface EnhancedMessageProps {
   message: {
     id: string;
     sender_id: string;
-    receiver_id: string;
+    receiver_id: string | null;
     content: string;
     timestamp: string;
     is_read: boolean;
-    message_type: 'text' | 'image' | 'file';
+    message_type: 'text' | 'image' | 'file' | 'audio' | 'video';
     delivery_status: 'sent' | 'delivered' | 'read';
     file_url?: string;
     file_name?: string;
     file_size?: number;
     file_type?: string;
     thumbnail_url?: string;
+    media_duration_ms?: number;
     reply_to_message_id?: string;
+    reply_to?: { sender_name: string; content: string } | null; // Quoted above a reply
+    edited_at?: string;
+    forwarded_from_message_id?: string;
+    pinned_at?: string;
   };
   isOwnMessage: boolean;
   onReactionUpdate?: () => void;
+  senderName?: string; // Shown above other people's messages in a group
+  readByLabel?: string; // Replaces the ticks in a group, e.g. "Seen by 3"
+  onLongPress?: () => void; // Message actions: reply, edit, forward, pin
 }
 
 const REACTION_ICONS = {
@@ -68,7 +80,10 @@ const REACTION_OPTIONS = ['👍', '❤️', '😊', '🎉', '🔥', '💪', '
 export default function EnhancedMessage({ 
   message, 
   isOwnMessage, 
-  onReactionUpdate 
+  onReactionUpdate,
+  senderName,
+  readByLabel,
+  onLongPress
 }: EnhancedMessageProps) {
   const { user } = useAuth();
   const [reactions, setReactions] = useState<any[]>([]);
@@ -140,6 +155,30 @@ export default function EnhancedMessage({
   const renderAttachment = () => {
     if (!message.file_url) return null;
 
+    if (message.message_type === 'audio') {
+      return (
+        <View style={styles.attachmentContainer}>
+          <VoiceNotePlayer
+            uri={message.file_url}
+            durationMs={message.media_duration_ms}
+            isOwnMessage={isOwnMessage}
+          />
+        </View>
+      );
+    }
+
+    if (message.message_type === 'video') {
+      return (
+        <View style={styles.attachmentContainer}>
+          <VideoMessagePlayer
+            uri={message.file_url}
+            thumbnailUrl={message.thumbnail_url}
+            durationMs={message.media_duration_ms}
+          />
+        </View>
+      );
+    }
+
     const isImage = message.message_type === 'image';
     const isVideo = message.file_type?.startsWith('video/');
     const isAudio = message.file_type?.startsWith('audio/');
@@ -182,6 +221,10 @@ export default function EnhancedMessage({
     );
   };
 
+  const isUncaptionedMedia =
+    (message.message_type === 'audio' || message.message_type === 'video') &&
+    message.content === MEDIA_PLACEHOLDER_CONTENT[message.message_type];
+
   const renderReactions = () => {
     if (reactions.length === 0) return null;
 
@@ -200,6 +243,14 @@ export default function EnhancedMessage({
   const renderDeliveryStatus = () => {
     if (!isOwnMessage) return null;
 
+    if (readByLabel !== undefined) {
+      return (
+        <Text style={[styles.deliveryStatus, styles.readByText]}>
+          {readByLabel}
+        </Text>
+      );
+    }
+
     let statusIcon = null;
     let statusColor = '#9CA3AF';
 
@@ -229,24 +280,62 @@ export default function EnhancedMessage({
       styles.messageContainer,
       isOwnMessage ? styles.ownMessage : styles.otherMessage
     ]}>
-      <View style={[
-        styles.messageBubble,
-        isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble
-      ]}>
-        {/* Reply indicator */}
+      <TouchableOpacity
+        style={[
+          styles.messageBubble,
+          isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble
+        ]}
+        activeOpacity={0.8}
+        onLongPress={onLongPress}
+        disabled={!onLongPress}
+      >
+        {/* Sender name in group chats */}
+        {!isOwnMessage && senderName && (
+          <Text style={styles.senderName}>{senderName}</Text>
+        )}
+
+        {/* Forwarded from another conversation */}
+        {message.forwarded_from_message_id && (
+          <View style={styles.forwardedLabel}>
+            <Forward size={12} color={isOwnMessage ? 'rgba(255, 255, 255, 0.7)' : '#9CA3AF'} />
+            <Text style={[styles.forwardedText, isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime]}>
+              Forwarded
+            </Text>
+          </View>
+        )}
+
+        {/* The message this replies to */}
         {message.reply_to_message_id && (
-          <View style={styles.replyIndicator}>
-            <Text style={styles.replyText}>Replying to message...</Text>
+          <View style={[styles.replyIndicator, isOwnMessage ? styles.ownReplyIndicator : styles.otherReplyIndicator]}>
+            {message.reply_to ? (
+              <>
+                <Text style={[styles.replySender, isOwnMessage ? styles.ownReplySender : styles.otherReplySender]}>
+                  {message.reply_to.sender_name}
+                </Text>
+                <Text
+                  style={[styles.replyText, isOwnMessage ? styles.ownReplyText : styles.otherReplyText]}
+                  numberOfLines={2}
+                >
+                  {message.reply_to.content}
+                </Text>
+              </>
+            ) : (
+              <Text style={[styles.replyText, isOwnMessage ? styles.ownReplyText : styles.otherReplyText]}>
+                Replying to a message
+              </Text>
+            )}
           </View>
         )}
 
-        {/* Message content */}
-        <Text style={[
-          styles.messageText,
-          isOwnMessage ? styles.ownMessageText : styles.otherMessageText
-        ]}>
-          {message.content}
-        </Text>
+        {/* Message content (a clip without a caption just shows the clip) */}
+        {!isUncaptionedMedia && (
+          <Text style={[
+            styles.messageText,
+            isOwnMessage ? styles.ownMessageText : styles.otherMessageText
+          ]}>
+            {message.content}
+          </Text>
+        )}
 
         {/* Attachment */}
         {renderAttachment()}
@@ -257,10 +346,12 @@ export default function EnhancedMessage({
             styles.messageTime,
             isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime
           ]}>
+            {message.pinned_at && '📌 '}
             {new Date(message.timestamp).toLocaleTimeString([], { 
               hour: '2-digit', 
               minute: '2-digit' 
             })}
+            {message.edited_at && ' · edited'}
           </Text>
           
           {renderDeliveryStatus()}
@@ -268,7 +359,7 @@ export default function EnhancedMessage({
 
         {/* Reactions */}
         {renderReactions()}
-      </View>
+      </TouchableOpacity>
 
       {/* Reaction button */}
       <TouchableOpacity
@@ -369,6 +460,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold',
   },
+  readByText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontWeight: '500',
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF6B35',
+    marginBottom: 4,
+  },
   attachmentContainer: {
     marginTop: 8,
     marginBottom: 8,
@@ -413,12 +514,46 @@ const styles = StyleSheet.create({
   replyIndicator: {
     backgroundColor: 'rgba(0, 0, 0, 0.1)',
     borderRadius: 8,
+    borderLeftWidth: 3,
     padding: 8,
     marginBottom: 8,
   },
+  ownReplyIndicator: {
+    borderLeftColor: '#FFFFFF',
+  },
+  otherReplyIndicator: {
+    backgroundColor: '#F3F4F6',
+    borderLeftColor: '#6C5CE7',
+  },
+  replySender: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  ownReplySender: {
+    color: '#FFFFFF',
+  },
+  otherReplySender: {
+    color: '#6C5CE7',
+  },
   replyText: {
     fontSize: 12,
+    fontStyle: 'italic',
+  },
+  ownReplyText: {
     color: 'rgba(255, 255, 255, 0.8)',
+  },
+  otherReplyText: {
+    color: '#6B7280',
+  },
+  forwardedLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  forwardedText: {
+    fontSize: 12,
     fontStyle: 'italic',
   },
   reactionsContainer: {
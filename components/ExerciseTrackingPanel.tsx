@@ -139,7 +139,10 @@ export default function ExerciseTrackingPanel({
       ]);
     } catch (error) {
       console.error('Error saving sets:', error);
-      Alert.alert('Save Error', 'Failed to save exercise sets. Please try again.');
+      Alert.alert(
+        'Save Error',
+        error instanceof Error ? error.message : 'Failed to save exercise sets. Please try again.'
+      );
     } finally {
       setLoading(false);
     }
@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Snowflake, Info, X } from 'lucide-react-native';
+import { StreakMode } from '@/lib/gamification';
 
 interface FreezeStreakModalProps {
   visible: boolean;
@@ -17,6 +18,8 @@ interface FreezeStreakModalProps {
   currentStreak: number;
   canFreeze: boolean;
   loading: boolean;
+  lastFreezeAt?: string | null;
+  streakMode?: StreakMode;
 }
 
 export const FreezeStreakModal: React.FC<FreezeStreakModalProps> = ({
@@ -26,6 +29,8 @@ export const FreezeStreakModal: React.FC<FreezeStreakModalProps> = ({
   currentStreak,
   canFreeze,
   loading,
+  lastFreezeAt,
+  streakMode = 'daily',
 }) => {
   const handleConfirm = () => {
     if (!canFreeze) {
@@ -67,7 +72,7 @@ export const FreezeStreakModal: React.FC<FreezeStreakModalProps> = ({
           <View style={styles.modalBody}>
             <View style={styles.streakInfo}>
               <Text style={styles.streakNumber}>{currentStreak}</Text>
-              <Text style={styles.streakLabel}>Day Streak</Text>
+              <Text style={styles.streakLabel}>{streakMode === 'weekly' ? 'Week Streak' : 'Day Streak'}</Text>
             </View>
 
             <View style={styles.infoSection}>
@@ -77,11 +82,21 @@ export const FreezeStreakModal: React.FC<FreezeStreakModalProps> = ({
 
             <View style={styles.benefitsList}>
               <Text style={styles.benefitItem}>• Freezes your streak for 24 hours</Text>
-              <Text style={styles.benefitItem}>• Prevents streak from expiring</Text>
+              {streakMode === 'weekly' ? (
+                <Text style={styles.benefitItem}>• Covers this week if you can&apos;t reach your weekly target</Text>
+              ) : (
+                <Text style={styles.benefitItem}>• Covers a missed day (planned rest days never break your streak)</Text>
+              )}
               <Text style={styles.benefitItem}>• Available once per week (Monday-Sunday)</Text>
               <Text style={styles.benefitItem}>• Perfect for busy days or emergencies</Text>
             </View>
 
+            {lastFreezeAt && (
+              <Text style={styles.lastFreezeText}>
+                Last used {new Date(lastFreezeAt).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+              </Text>
+            )}
+
             {!canFreeze && (
               <View style={styles.warningBox}>
                 <Text style={styles.warningText}>
@@ -199,6 +214,12 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     lineHeight: 22,
   },
+  lastFreezeText: {
+    fontSize: 14,
+    color: '#636E72',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   warningBox: {
     backgroundColor: '#FEF3C7',
     borderWidth: 1,
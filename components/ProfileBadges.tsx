@@ -0,0 +1,62 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ProfileBadgeSummary } from '@/lib/gamification';
+
+interface ProfileBadgesProps {
+  badges?: ProfileBadgeSummary; // Missing while loading or when hidden by privacy settings
+}
+
+const TIER_STYLES = [
+  { key: 'gold', label: '🥇', color: '#B7791F', backgroundColor: '#FEF5E7' },
+  { key: 'silver', label: '🥈', color: '#5D6D7E', backgroundColor: '#F2F3F4' },
+  { key: 'bronze', label: '🥉', color: '#A0522D', backgroundColor: '#FBEEE6' },
+] as const;
+
+export default function ProfileBadges({ badges }: ProfileBadgesProps) {
+  if (!badges) return null;
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.levelPill}>
+        <Text style={styles.levelText}>Lv {badges.level}</Text>
+      </View>
+      {TIER_STYLES.filter(tier => badges[tier.key] > 0).map(tier => (
+        <View key={tier.key} style={[styles.tierPill, { backgroundColor: tier.backgroundColor }]}>
+          <Text style={[styles.tierText, { color: tier.color }]}>
+            {tier.label} {badges[tier.key]}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  levelPill: {
+    backgroundColor: '#FF6B35',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  levelText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  tierPill: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  tierText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
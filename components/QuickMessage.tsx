@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -14,6 +14,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { MessageCircle, Send, X } from 'lucide-react-native';
 import { sendMessage, getOrCreateConversation } from '@/lib/messaging';
 import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeMessaging, formatTypingUsers } from '@/hooks/useRealtimeMessaging';
 
 interface QuickMessageProps {
   visible: boolean;
@@ -33,6 +34,31 @@ export default function QuickMessage({
   const { user } = useAuth();
   const [messageText, setMessageText] = useState('');
   const [sending, setSending] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  // Join the conversation while open, so the client sees us typing and we
+  // see whether they're around
+  const { typingUsers, isOnline, sendTyping, stopTyping } = useRealtimeMessaging({
+    conversationId: visible ? conversationId : null,
+  });
+
+  useEffect(() => {
+    if (!visible || !user?.id || !clientId || clientId.startsWith('unknown-')) {
+      setConversationId(null);
+      return;
+    }
+
+    let cancelled = false;
+    getOrCreateConversation(user.id, 'trainer', clientId, clientType)
+      .then(id => {
+        if (!cancelled) setConversationId(id);
+      })
+      .catch(error => console.error('Error opening quick message conversation:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, user?.id, clientId, clientType]);
 
   const handleSendMessage = async () => {
     if (!messageText.trim() || !user?.id) return;
@@ -45,8 +71,8 @@ export default function QuickMessage({
 
     setSending(true);
     try {
-      // Create or get conversation
-      const conversationId = await getOrCreateConversation(
+      // Create or get conversation, unless opening the modal already did
+      const targetConversationId = conversationId || await getOrCreateConversation(
         user.id,
         'trainer', // Current user is always a trainer in this context
         clientId,
@@ -55,13 +81,14 @@ export default function QuickMessage({
 
       // Send the message
       await sendMessage(
-        conversationId,
+        targetConversationId,
         user.id,
         clientId,
         messageText.trim(),
         'text'
       );
 
+      stopTyping();
       Alert.alert('Success', 'Message sent successfully!');
       setMessageText('');
       onClose();
@@ -74,6 +101,7 @@ export default function QuickMessage({
   };
 
   const handleClose = () => {
+    stopTyping();
     setMessageText('');
     onClose();
   };
@@ -105,6 +133,11 @@ export default function QuickMessage({
                 </TouchableOpacity>
               </View>
               <Text style={styles.clientName}>To: {clientName}</Text>
+              {(typingUsers.length > 0 || isOnline(clientId)) && (
+                <Text style={styles.clientStatus}>
+                  {formatTypingUsers(typingUsers) || 'Active now'}
+                </Text>
+              )}
             </LinearGradient>
 
             <View style={styles.modalBody}>
@@ -113,7 +146,14 @@ export default function QuickMessage({
                 style={styles.messageInput}
                 placeholder="Type your message..."
                 value={messageText}
-                onChangeText={setMessageText}
+                onChangeText={(text) => {
+                  setMessageText(text);
+                  if (text.trim()) {
+                    sendTyping();
+                  } else {
+                    stopTyping();
+                  }
+                }}
                 multiline
                 maxLength={500}
                 textAlignVertical="top"
@@ -180,6 +220,13 @@ const styles = StyleSheet.create({
     color: '#E5E7EB',
     marginLeft: 36,
   },
+  clientStatus: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    fontStyle: 'italic',
+    marginLeft: 36,
+    marginTop: 2,
+  },
   modalBody: {
     padding: 20,
   },
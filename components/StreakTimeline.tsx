@@ -0,0 +1,179 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Flame, Snowflake, Trophy } from 'lucide-react-native';
+import { StreakHistoryEntry, StreakMode } from '@/lib/gamification';
+
+interface StreakTimelineProps {
+  history: StreakHistoryEntry[]; // Newest first
+}
+
+// Dates are yyyy-mm-dd; parse them as local dates so they don't shift a day
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+export default function StreakTimeline({ history }: StreakTimelineProps) {
+  // A streak is a personal record if it beat every earlier streak counted the
+  // same way (days and weeks aren't comparable)
+  const recordIds = new Set<string>();
+  const best: Record<StreakMode, number> = { daily: 0, weekly: 0 };
+  [...history].reverse().forEach(entry => {
+    if (entry.length > best[entry.mode]) {
+      recordIds.add(entry.id);
+      best[entry.mode] = entry.length;
+    }
+  });
+
+  if (history.length === 0) {
+    return (
+      <View style={styles.emptyCard}>
+        <Flame size={32} color="#D1D5DB" />
+        <Text style={styles.emptyText}>Check in on consecutive days to start your first streak.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      {history.map((entry, index) => {
+        const running = !entry.endedOn;
+        const isRecord = recordIds.has(entry.id);
+        const isLast = index === history.length - 1;
+
+        return (
+          <View key={entry.id} style={styles.row}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, running && styles.runningDot, isRecord && !running && styles.recordDot]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.body}>
+              <Text style={styles.title}>
+                {entry.length}-{entry.mode === 'weekly' ? 'week' : 'day'} streak{running ? ' · running' : ''}
+              </Text>
+              <Text style={styles.dates}>
+                {running
+                  ? `Since ${formatDay(entry.startedOn)}`
+                  : `${formatDay(entry.startedOn)} – ${formatDay(entry.endedOn!)}`}
+              </Text>
+              {(isRecord || entry.freezesUsed > 0) && (
+                <View style={styles.badges}>
+                  {isRecord && (
+                    <View style={[styles.badge, styles.recordBadge]}>
+                      <Trophy size={12} color="#B7791F" />
+                      <Text style={[styles.badgeText, styles.recordBadgeText]}>Personal best</Text>
+                    </View>
+                  )}
+                  {entry.freezesUsed > 0 && (
+                    <View style={[styles.badge, styles.freezeBadge]}>
+                      <Snowflake size={12} color="#667eea" />
+                      <Text style={[styles.badgeText, styles.freezeBadgeText]}>
+                        {entry.freezesUsed === 1 ? 'Freeze used' : `${entry.freezesUsed} freezes used`}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  emptyCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#636E72',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#B2BEC3',
+    marginTop: 4,
+  },
+  runningDot: {
+    backgroundColor: '#FF6B35',
+  },
+  recordDot: {
+    backgroundColor: '#F1C40F',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E9ECEF',
+    marginVertical: 2,
+  },
+  body: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3436',
+  },
+  dates: {
+    fontSize: 13,
+    color: '#636E72',
+    marginTop: 2,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  recordBadge: {
+    backgroundColor: '#FEF5E7',
+  },
+  recordBadgeText: {
+    color: '#B7791F',
+  },
+  freezeBadge: {
+    backgroundColor: '#EEF0FD',
+  },
+  freezeBadgeText: {
+    color: '#667eea',
+  },
+});
@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Crown, UserPlus, Check, X } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { GamificationService } from '@/lib/gamification';
+import {
+  getChallengeStandings,
+  inviteToTeam,
+  respondToTeamInvite,
+  joinChallengeTeam,
+  TeamChallenge,
+  TeamStanding,
+} from '@/lib/teamChallenges';
+
+interface TeamChallengeCardProps {
+  challenge: TeamChallenge;
+  onChanged: () => void; // Called after joining, leaving or answering an invite
+}
+
+const CATEGORY_UNITS: Record<TeamChallenge['category'], string> = {
+  checkin: 'check-in days',
+  workout: 'workout days',
+  streak: 'streak days',
+  goal: 'goals',
+};
+
+export default function TeamChallengeCard({ challenge, onChanged }: TeamChallengeCardProps) {
+  const [standings, setStandings] = useState<TeamStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [sendingInvite, setSendingInvite] = useState(false);
+
+  const joined = !!challenge.myTeamId;
+  const leaderProgress = Math.max(1, ...standings.map(team => team.progress));
+  const pendingInviteTeamId = !joined ? challenge.invitedTeamIds[0] : undefined;
+
+  const fetchStandings = useCallback(async () => {
+    setStandings(await getChallengeStandings(challenge.id));
+    setLoading(false);
+  }, [challenge.id]);
+
+  // Standings follow every participant's progress as it is recounted
+  useEffect(() => {
+    fetchStandings();
+
+    const progressSubscription = supabase
+      .channel(`challenge_standings_${challenge.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_challenges',
+          filter: `challenge_id=eq.${challenge.id}`,
+        },
+        () => {
+          fetchStandings();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      progressSubscription.unsubscribe();
+    };
+  }, [challenge.id, fetchStandings]);
+
+  const handleJoinTeam = async (teamId: string) => {
+    const result = await joinChallengeTeam(teamId);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to join team');
+      return;
+    }
+    onChanged();
+    fetchStandings();
+  };
+
+  const handleRespond = async (accept: boolean) => {
+    if (!pendingInviteTeamId) return;
+    const result = await respondToTeamInvite(pendingInviteTeamId, accept);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to respond to invite');
+      return;
+    }
+    onChanged();
+    fetchStandings();
+  };
+
+  const handleSendInvite = async () => {
+    if (!challenge.myTeamId || !inviteUsername.trim()) return;
+
+    setSendingInvite(true);
+    const result = await inviteToTeam(challenge.myTeamId, inviteUsername.trim());
+    setSendingInvite(false);
+
+    if (!result.success) {
+      Alert.alert('Invite Not Sent', result.error || 'Failed to send invite');
+      return;
+    }
+
+    Alert.alert('Invite Sent', `@${inviteUsername.trim().replace(/^@/, '')} will get a notification to join your team.`);
+    setInviteUsername('');
+    setInviteOpen(false);
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      'Leave Challenge',
+      `Your progress will no longer count towards your team in "${challenge.name}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await GamificationService.leaveChallenge(challenge.id);
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to leave challenge');
+              return;
+            }
+            onChanged();
+          },
+        },
+      ]
+    );
+  };
+
+  const pendingTeamName = challenge.teams.find(team => team.id === pendingInviteTeamId)?.name;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.headerInfo}>
+          <Text style={styles.name}>{challenge.name}</Text>
+          <Text style={styles.type}>
+            {challenge.teams.length === 2 ? 'Head-to-head' : `${challenge.teams.length} teams`} · most {CATEGORY_UNITS[challenge.category]}
+          </Text>
+        </View>
+        {challenge.reward > 0 && <Text style={styles.reward}>+{challenge.reward} pts</Text>}
+      </View>
+      {!!challenge.description && <Text style={styles.description}>{challenge.description}</Text>}
+
+      {loading ? (
+        <ActivityIndicator color="#FF6B35" style={styles.loader} />
+      ) : (
+        standings.map(team => {
+          const isMyTeam = team.teamId === challenge.myTeamId;
+          return (
+            <View key={team.teamId} style={styles.teamRow}>
+              <View style={styles.teamHeader}>
+                <View style={[styles.teamDot, { backgroundColor: team.color }]} />
+                <Text style={[styles.teamName, isMyTeam && styles.myTeamName]} numberOfLines={1}>
+                  {team.teamName}{isMyTeam ? ' (you)' : ''}
+                </Text>
+                {team.standing === 1 && team.progress > 0 && <Crown size={14} color="#F1C40F" />}
+                <Text style={styles.teamProgress}>{team.progress}</Text>
+              </View>
+              <View style={styles.progressBar}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { backgroundColor: team.color, width: `${(team.progress / leaderProgress) * 100}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.teamMembers} numberOfLines={isMyTeam ? undefined : 1}>
+                {team.memberCount === 0
+                  ? 'No members yet'
+                  : team.members.map(member => (isMyTeam ? `${member.name} (${member.progress})` : member.name)).join(', ')}
+              </Text>
+              {!joined && !challenge.inviteOnly && (
+                <TouchableOpacity
+                  style={[styles.joinTeamButton, { borderColor: team.color }]}
+                  onPress={() => handleJoinTeam(team.teamId)}
+                >
+                  <Text style={[styles.joinTeamText, { color: team.color }]}>Join {team.teamName}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      {pendingInviteTeamId && (
+        <View style={styles.inviteBanner}>
+          <Text style={styles.inviteBannerText}>Invited to join {pendingTeamName}</Text>
+          <View style={styles.inviteActions}>
+            <TouchableOpacity style={[styles.actionButton, styles.acceptButton]} onPress={() => handleRespond(true)}>
+              <Check size={16} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.declineButton]} onPress={() => handleRespond(false)}>
+              <X size={16} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {joined && (
+        inviteOpen ? (
+          <View style={styles.inviteRow}>
+            <TextInput
+              style={styles.inviteInput}
+              placeholder="@username"
+              placeholderTextColor="#95A5A6"
+              value={inviteUsername}
+              onChangeText={setInviteUsername}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={[styles.sendInviteButton, (!inviteUsername.trim() || sendingInvite) && styles.sendInviteButtonDisabled]}
+              onPress={handleSendInvite}
+              disabled={!inviteUsername.trim() || sendingInvite}
+            >
+              {sendingInvite ? (
+                <ActivityIndicator color="#FFFFFF" size="small" />
+              ) : (
+                <Text style={styles.sendInviteText}>Invite</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.footerActions}>
+            <TouchableOpacity style={styles.footerButton} onPress={() => setInviteOpen(true)}>
+              <UserPlus size={16} color="#FF6B35" />
+              <Text style={styles.footerButtonText}>Invite a teammate</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleLeave}>
+              <Text style={styles.leaveText}>Leave</Text>
+            </TouchableOpacity>
+          </View>
+        )
+      )}
+
+      <Text style={styles.endDate}>
+        {challenge.startDate > new Date().toISOString().split('T')[0]
+          ? `Starts: ${new Date(challenge.startDate).toLocaleDateString()}`
+          : `Ends: ${new Date(challenge.endDate).toLocaleDateString()}`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  headerInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2D3436',
+    marginBottom: 4,
+  },
+  type: {
+    fontSize: 14,
+    color: '#FF6B35',
+    fontWeight: '600',
+  },
+  reward: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#00B894',
+  },
+  description: {
+    fontSize: 14,
+    color: '#636E72',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  teamRow: {
+    marginTop: 12,
+  },
+  teamHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  teamDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  teamName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2D3436',
+  },
+  myTeamName: {
+    color: '#FF6B35',
+  },
+  teamProgress: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2D3436',
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#E5E7EB',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  teamMembers: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginTop: 4,
+  },
+  joinTeamButton: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  joinTeamText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  inviteBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF4EC',
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 16,
+  },
+  inviteBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D3436',
+    marginRight: 10,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  acceptButton: {
+    backgroundColor: '#10B981',
+  },
+  declineButton: {
+    backgroundColor: '#EF4444',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  inviteInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#DFE6E9',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#2D3436',
+  },
+  sendInviteButton: {
+    backgroundColor: '#FF6B35',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  sendInviteButtonDisabled: {
+    backgroundColor: '#BDC3C7',
+  },
+  sendInviteText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  footerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6B35',
+  },
+  leaveText: {
+    fontSize: 13,
+    color: '#E74C3C',
+  },
+  endDate: {
+    fontSize: 12,
+    color: '#95A5A6',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
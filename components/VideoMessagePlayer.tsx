@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Modal,
+  Dimensions,
+} from 'react-native';
+import { Video, ResizeMode } from 'expo-av';
+import { Play, X } from 'lucide-react-native';
+import { formatMediaDuration } from '../lib/messaging';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+interface VideoMessagePlayerProps {
+  uri: string;
+  thumbnailUrl?: string | null;
+  durationMs?: number | null;
+}
+
+// The server's thumbnail with a play button; tapping plays full screen
+export default function VideoMessagePlayer({ uri, thumbnailUrl, durationMs }: VideoMessagePlayerProps) {
+  const [showPlayer, setShowPlayer] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity style={styles.preview} onPress={() => setShowPlayer(true)} activeOpacity={0.8}>
+        {thumbnailUrl ? (
+          <Image source={{ uri: thumbnailUrl }} style={styles.thumbnail} resizeMode="cover" />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]} />
+        )}
+        <View style={styles.playOverlay}>
+          <View style={styles.playButton}>
+            <Play size={24} color="#FFFFFF" />
+          </View>
+        </View>
+        {!!durationMs && (
+          <View style={styles.durationBadge}>
+            <Text style={styles.durationText}>{formatMediaDuration(durationMs)}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+
+      <Modal
+        visible={showPlayer}
+        animationType="fade"
+        onRequestClose={() => setShowPlayer(false)}
+      >
+        <View style={styles.playerContainer}>
+          <Video
+            source={{ uri }}
+            style={styles.player}
+            resizeMode={ResizeMode.CONTAIN}
+            useNativeControls
+            shouldPlay
+          />
+          <TouchableOpacity style={styles.closeButton} onPress={() => setShowPlayer(false)}>
+            <X size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  preview: {
+    width: Math.min(screenWidth * 0.6, 300),
+    height: 200,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  thumbnail: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#2D3436',
+  },
+  playOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  durationBadge: {
+    position: 'absolute',
+    right: 8,
+    bottom: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  durationText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  playerContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+  },
+  player: {
+    width: '100%',
+    height: '100%',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 8,
+  },
+});
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { Play, Pause } from 'lucide-react-native';
+import { formatMediaDuration } from '../lib/messaging';
+
+interface VoiceNotePlayerProps {
+  uri: string;
+  durationMs?: number | null;
+  isOwnMessage: boolean;
+}
+
+export default function VoiceNotePlayer({ uri, durationMs, isOwnMessage }: VoiceNotePlayerProps) {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [totalMs, setTotalMs] = useState(durationMs || 0);
+
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+    };
+  }, [uri]);
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setIsPlaying(status.isPlaying);
+    setPositionMs(status.positionMillis);
+    if (status.durationMillis) {
+      setTotalMs(status.durationMillis);
+    }
+
+    // Back to the start, ready to play again
+    if (status.didJustFinish) {
+      soundRef.current?.setPositionAsync(0);
+      setPositionMs(0);
+    }
+  };
+
+  const togglePlayback = async () => {
+    try {
+      // Load on first play, so a long chat doesn't fetch every voice note
+      if (!soundRef.current) {
+        setIsLoading(true);
+        await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+        const { sound } = await Audio.Sound.createAsync(
+          { uri },
+          { shouldPlay: true, progressUpdateIntervalMillis: 250 },
+          handleStatus
+        );
+        soundRef.current = sound;
+        return;
+      }
+
+      if (isPlaying) {
+        await soundRef.current.pauseAsync();
+      } else {
+        await soundRef.current.playAsync();
+      }
+    } catch (error) {
+      console.error('Error playing voice note:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const progress = totalMs > 0 ? Math.min(positionMs / totalMs, 1) : 0;
+  const iconColor = isOwnMessage ? '#FFFFFF' : '#6C5CE7';
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.playButton, isOwnMessage ? styles.ownPlayButton : styles.otherPlayButton]}
+        onPress={togglePlayback}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color={iconColor} />
+        ) : isPlaying ? (
+          <Pause size={18} color={iconColor} />
+        ) : (
+          <Play size={18} color={iconColor} />
+        )}
+      </TouchableOpacity>
+
+      <View style={styles.trackContainer}>
+        <View style={[styles.track, isOwnMessage ? styles.ownTrack : styles.otherTrack]}>
+          <View
+            style={[
+              styles.trackFill,
+              isOwnMessage ? styles.ownTrackFill : styles.otherTrackFill,
+              { width: `${progress * 100}%` }
+            ]}
+          />
+        </View>
+        <Text style={[styles.durationText, isOwnMessage ? styles.ownDurationText : styles.otherDurationText]}>
+          {formatMediaDuration(positionMs > 0 ? positionMs : totalMs)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+    paddingVertical: 4,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  ownPlayButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  otherPlayButton: {
+    backgroundColor: '#F3F4F6',
+  },
+  trackContainer: {
+    flex: 1,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  ownTrack: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  otherTrack: {
+    backgroundColor: '#E5E7EB',
+  },
+  trackFill: {
+    height: '100%',
+  },
+  ownTrackFill: {
+    backgroundColor: '#FFFFFF',
+  },
+  otherTrackFill: {
+    backgroundColor: '#6C5CE7',
+  },
+  durationText: {
+    fontSize: 12,
+  },
+  ownDurationText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  otherDurationText: {
+    color: '#6B7280',
+  },
+});
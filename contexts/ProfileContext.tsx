@@ -13,6 +13,7 @@ interface UserProfile {
   bio: string;
   goals: string[];
   avatar_url?: string;
+  home_gym_id?: string | null;
 }
 
 interface TrainerProfile {
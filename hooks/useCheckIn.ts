@@ -1,15 +1,58 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AppState } from 'react-native';
 import { gymAPI, CheckInResponse } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { GamificationService } from '@/lib/gamification';
+import {
+  getPendingCheckInEvents,
+  queueCheckInEvent,
+  syncPendingCheckInEvents,
+  PendingCheckInEvent,
+  RejectedCheckInEvent,
+  OfflineSyncResult,
+} from '@/lib/offlineCheckIns';
 
 export interface CheckInStatus {
   is_checked_in: boolean;
   check_in_time: string | null;
   check_out_time: string | null;
   duration_minutes: number | null;
+  auto_closed: boolean; // Last session was closed by the auto-checkout job
+  pending_sync: boolean; // Status includes check-ins/outs recorded offline and not yet synced
 }
 
+// How often queued offline events are retried while the app is open
+const OFFLINE_SYNC_INTERVAL_MS = 60000;
+
+// Apply queued offline events on top of the last status from the server
+const applyPendingEvents = (status: CheckInStatus, events: PendingCheckInEvent[]): CheckInStatus => {
+  if (events.length === 0) return status;
+
+  return events.reduce<CheckInStatus>((current, event) => {
+    if (event.action === 'check_in') {
+      return {
+        is_checked_in: true,
+        check_in_time: event.occurredAt,
+        check_out_time: null,
+        duration_minutes: Math.floor((Date.now() - new Date(event.occurredAt).getTime()) / (1000 * 60)),
+        auto_closed: false,
+        pending_sync: true,
+      };
+    }
+
+    return {
+      ...current,
+      is_checked_in: false,
+      check_out_time: event.occurredAt,
+      duration_minutes: current.check_in_time
+        ? Math.floor((new Date(event.occurredAt).getTime() - new Date(current.check_in_time).getTime()) / (1000 * 60))
+        : null,
+      auto_closed: false,
+      pending_sync: true,
+    };
+  }, status);
+};
+
 export interface WorkoutStats {
   workoutDays: number;
   totalCheckIns: number;
@@ -22,6 +65,7 @@ export interface WorkoutStats {
   streakFrozenAt: string | null;
   streakFreezeUsedThisWeek: boolean;
   streakFreezeWeekStart: string | null;
+  lastStreakFreezeAt: string | null; // Most recent freeze, from streak history
 }
 
 export const useCheckIn = () => {
@@ -31,6 +75,8 @@ export const useCheckIn = () => {
     check_in_time: null,
     check_out_time: null,
     duration_minutes: null,
+    auto_closed: false,
+    pending_sync: false,
   });
   const [workoutStats, setWorkoutStats] = useState<WorkoutStats>({
     workoutDays: 0,
@@ -44,10 +90,13 @@ export const useCheckIn = () => {
     streakFrozenAt: null,
     streakFreezeUsedThisWeek: false,
     streakFreezeWeekStart: null,
+    lastStreakFreezeAt: null,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdateTime, setLastUpdateTime] = useState<number>(0);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [syncRejections, setSyncRejections] = useState<RejectedCheckInEvent[]>([]);
 
   // Debounce function to prevent rapid state updates
   const debounce = useCallback((func: Function, delay: number) => {
@@ -82,40 +131,125 @@ export const useCheckIn = () => {
         check_in_time: response.data.check_in_time,
         check_out_time: response.data.check_out_time,
         duration_minutes: response.data.duration_minutes,
+        auto_closed: !!response.data.auto_closed,
+        pending_sync: false,
       };
       
-      // Always update with the latest data from the server
-      setCheckInStatus(newStatus);
+      // Always update with the latest data from the server, plus anything
+      // recorded offline that the server hasn't seen yet
+      const pendingEvents = await getPendingCheckInEvents(user.id);
+      setPendingSyncCount(pendingEvents.length);
+      setCheckInStatus(applyPendingEvents(newStatus, pendingEvents));
       setLastUpdateTime(Date.now());
       
     } catch (err) {
       console.error('Error fetching check-in status:', err);
       // Don't display error to user interface - just log it
       setError(null); // Don't set error state to prevent UI display
+
+      // Offline - still show anything recorded on this device
+      const pendingEvents = await getPendingCheckInEvents(user.id);
+      setPendingSyncCount(pendingEvents.length);
+      if (pendingEvents.length > 0) {
+        setCheckInStatus(prev => applyPendingEvents(prev, pendingEvents));
+      }
     } finally {
       setLoading(false);
     }
   }, [user]); // Remove checkInStatus from dependencies to prevent circular dependency
 
-  // Check in user
-  const checkIn = useCallback(async () => {
+  // Track the outcome of an offline queue sync
+  const processSyncResult = useCallback(async (result: OfflineSyncResult) => {
+    if (!user || result.remaining < 0) return;
+
+    setPendingSyncCount(result.remaining);
+
+    if (result.rejected.length > 0) {
+      setSyncRejections(prev => [...prev, ...result.rejected]);
+    }
+
+    // Workouts are recorded on check-out, same as online check-outs. The
+    // length is known when the matching check-in was queued too.
+    for (const event of result.applied) {
+      if (event.action !== 'check_out') continue;
+
+      const checkInEvent = result.applied
+        .filter(applied => applied.action === 'check_in' && applied.occurredAt <= event.occurredAt)
+        .pop();
+      const durationMinutes = checkInEvent
+        ? Math.floor((new Date(event.occurredAt).getTime() - new Date(checkInEvent.occurredAt).getTime()) / (1000 * 60))
+        : 0;
+
+      try {
+        await GamificationService.recordWorkout('gym_session', durationMinutes);
+      } catch (gamError) {
+        console.warn('⚠️ Gamification error (non-critical):', gamError);
+      }
+    }
+  }, [user]);
+
+  // Replay queued offline events before talking to the server, so actions
+  // are applied in the order they happened. Returns how many are still queued.
+  const flushPendingEvents = useCallback(async (): Promise<number> => {
+    if (!user) return 0;
+
+    const pendingEvents = await getPendingCheckInEvents(user.id);
+    if (pendingEvents.length === 0) return 0;
+
+    const result = await syncPendingCheckInEvents(user.id);
+    await processSyncResult(result);
+    return result.remaining < 0 ? pendingEvents.length : result.remaining;
+  }, [user, processSyncResult]);
+
+  // Check in user with the scanned gym QR code
+  const checkIn = useCallback(async (qrData: string): Promise<CheckInResponse> => {
     if (!user) {
       console.warn('User not authenticated during check-in');
       setError(null); // Don't set error state to prevent UI display
-      return false;
+      return { success: false, message: 'User not authenticated', error: 'NOT_AUTHENTICATED' };
     }
 
     try {
       setLoading(true);
       setError(null);
 
-      // Use the API to check in
-      const response: CheckInResponse = await gymAPI.checkIn(user.id);
+      // Keep the original scan time in case this has to be queued
+      const scannedAt = new Date();
+      const stillQueued = await flushPendingEvents();
+
+      // Use the API to verify the QR code and check in
+      const response: CheckInResponse = stillQueued > 0
+        ? { success: false, message: 'Offline events still queued', error: 'NETWORK_ERROR' }
+        : await gymAPI.checkIn(user.id, qrData);
+
+      if (!response.success && response.error === 'NETWORK_ERROR') {
+        // No signal - record the check-in on the device and sync it later
+        await queueCheckInEvent(user.id, 'check_in', scannedAt, qrData);
+        setPendingSyncCount(prev => prev + 1);
+        setCheckInStatus({
+          is_checked_in: true,
+          check_in_time: scannedAt.toISOString(),
+          check_out_time: null,
+          duration_minutes: 0,
+          auto_closed: false,
+          pending_sync: true,
+        });
+
+        return {
+          success: true,
+          message: 'Check-in saved offline',
+          data: { check_in_time: scannedAt.toISOString() },
+          warnings: [{
+            code: 'OFFLINE_PENDING_SYNC',
+            message: 'You\'re offline. Your check-in was saved on this device and will sync when you\'re back online.'
+          }]
+        };
+      }
 
       if (!response.success) {
         console.warn('Check-in API failed:', response.message);
         setError(null); // Don't set error state to prevent UI display
-        return false;
+        return response;
       }
 
       // Update local state
@@ -124,18 +258,24 @@ export const useCheckIn = () => {
         check_in_time: response.data.check_in_time,
         check_out_time: null,
         duration_minutes: 0,
+        auto_closed: false,
+        pending_sync: false,
       };
       setCheckInStatus(newStatus);
 
-      return true;
+      return response;
     } catch (err) {
       console.error('Error checking in:', err);
       setError(null); // Don't set error state to prevent UI display
-      return false;
+      return {
+        success: false,
+        message: 'Check-in failed',
+        error: err instanceof Error ? err.message : 'Unknown error'
+      };
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, flushPendingEvents]);
 
   // Check out user
   const checkOut = useCallback(async () => {
@@ -165,8 +305,32 @@ export const useCheckIn = () => {
         return false;
       }
 
+      // Queued check-ins must reach the server before their check-out
+      const checkedOutAt = new Date();
+      const stillQueued = await flushPendingEvents();
+
       // Use the API to check out
-      const response: CheckInResponse = await gymAPI.checkOut(user.id);
+      const response: CheckInResponse = stillQueued > 0
+        ? { success: false, message: 'Offline events still queued', error: 'NETWORK_ERROR' }
+        : await gymAPI.checkOut(user.id);
+
+      if (!response.success && response.error === 'NETWORK_ERROR') {
+        // No signal - record the check-out on the device and sync it later
+        await queueCheckInEvent(user.id, 'check_out', checkedOutAt);
+        setPendingSyncCount(prev => prev + 1);
+        setCheckInStatus(prev => ({
+          ...prev,
+          is_checked_in: false,
+          check_out_time: checkedOutAt.toISOString(),
+          duration_minutes: prev.check_in_time
+            ? Math.floor((checkedOutAt.getTime() - new Date(prev.check_in_time).getTime()) / (1000 * 60))
+            : null,
+          auto_closed: false,
+          pending_sync: true,
+        }));
+        clearTimeout(checkoutTimeout);
+        return true;
+      }
 
       if (!response.success) {
         console.error('Checkout API failed:', response.message);
@@ -191,6 +355,8 @@ export const useCheckIn = () => {
         check_in_time: response.data.check_in_time,
         check_out_time: response.data.check_out_time,
         duration_minutes: response.data.duration_minutes,
+        auto_closed: false,
+        pending_sync: false,
       };
       
       setCheckInStatus(newStatus);
@@ -198,7 +364,7 @@ export const useCheckIn = () => {
       // Record workout in gamification system when check-out is completed (only for regular users)
       if (response.data.check_out_time && response.data.duration_minutes > 0) {
         try {
-          await GamificationService.recordWorkout(user.id);
+          await GamificationService.recordWorkout('gym_session', response.data.duration_minutes);
         } catch (gamError) {
           console.warn('⚠️ Gamification error (non-critical):', gamError);
           // Silently handle gamification errors (normal for trainers)
@@ -229,7 +395,7 @@ export const useCheckIn = () => {
       clearTimeout(checkoutTimeout);
       setLoading(false);
     }
-  }, [user, checkInStatus.is_checked_in, fetchCheckInStatus]);
+  }, [user, checkInStatus.is_checked_in, fetchCheckInStatus, flushPendingEvents]);
 
   // Add a fallback mechanism to reset loading state if it gets stuck
   useEffect(() => {
@@ -253,8 +419,12 @@ export const useCheckIn = () => {
       if (response.success && response.data) {
         // Fetch gamification stats for streak data (only for regular users)
         let gamificationStats = null;
+        let lastStreakFreezeAt = null;
         try {
-          gamificationStats = await GamificationService.getUserStats(user.id);
+          [gamificationStats, lastStreakFreezeAt] = await Promise.all([
+            GamificationService.getUserStats(user.id),
+            GamificationService.getLastStreakFreeze(user.id),
+          ]);
         } catch (gamError) {
           // Silently handle gamification errors (normal for trainers)
         }
@@ -271,6 +441,7 @@ export const useCheckIn = () => {
           streakFrozenAt: gamificationStats?.streakFrozenAt || null,
           streakFreezeUsedThisWeek: gamificationStats?.streakFreezeUsedThisWeek || false,
           streakFreezeWeekStart: gamificationStats?.streakFreezeWeekStart || null,
+          lastStreakFreezeAt,
         });
       }
     } catch (err) {
@@ -284,6 +455,27 @@ export const useCheckIn = () => {
     await fetchWorkoutStats(); // Also refresh workout stats
   }, [fetchCheckInStatus, fetchWorkoutStats]);
 
+  // Replay the offline queue and refresh once anything was applied
+  const syncPendingCheckIns = useCallback(async () => {
+    if (!user) return;
+
+    const pendingEvents = await getPendingCheckInEvents(user.id);
+    setPendingSyncCount(pendingEvents.length);
+    if (pendingEvents.length === 0) return;
+
+    const result = await syncPendingCheckInEvents(user.id);
+    await processSyncResult(result);
+
+    if (result.applied.length > 0 || result.rejected.length > 0) {
+      await fetchCheckInStatus();
+      await fetchWorkoutStats();
+    }
+  }, [user, processSyncResult, fetchCheckInStatus, fetchWorkoutStats]);
+
+  const clearSyncRejections = useCallback(() => {
+    setSyncRejections([]);
+  }, []);
+
   // Freeze streak
   const freezeStreak = useCallback(async () => {
     if (!user) {
@@ -349,6 +541,32 @@ export const useCheckIn = () => {
     }
   }, [user, fetchCheckInStatus, fetchWorkoutStats]);
 
+  // Sync queued offline events on start, whenever the app comes back to the
+  // foreground and periodically while anything is still queued
+  useEffect(() => {
+    if (!user) return;
+
+    syncPendingCheckIns();
+
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        syncPendingCheckIns();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user, syncPendingCheckIns]);
+
+  useEffect(() => {
+    if (pendingSyncCount === 0) return;
+
+    const interval = setInterval(() => {
+      syncPendingCheckIns();
+    }, OFFLINE_SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pendingSyncCount, syncPendingCheckIns]);
+
   // Force refresh function for manual refresh
   const forceRefresh = useCallback(async () => {
     if (user) {
@@ -367,6 +585,8 @@ export const useCheckIn = () => {
         check_in_time: null,
         check_out_time: null,
         duration_minutes: null,
+        auto_closed: false,
+        pending_sync: false,
       });
       // Then fetch fresh data from server
       await fetchCheckInStatus();
@@ -385,5 +605,9 @@ export const useCheckIn = () => {
     freezeStreak,
     forceRefresh, // Add forceRefresh to the return object
     forceResetState, // Add forceResetState to the return object
+    pendingSyncCount,
+    syncPendingCheckIns,
+    syncRejections,
+    clearSyncRejections,
   };
 };
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getConversationMessages,
+  Message,
+  MessageCursor,
+  MessagePage,
+  MessageWithSender,
+} from '@/lib/messaging';
+
+interface CachedConversation {
+  messages: MessageWithSender[]; // Newest first
+  nextCursor: MessageCursor | null; // Where the next older page starts
+}
+
+const EMPTY_CONVERSATION: CachedConversation = { messages: [], nextCursor: null };
+
+// Pages loaded this session, per conversation. Reopening a chat shows what
+// was already loaded straight away while the newest page refreshes.
+const messageCache = new Map<string, CachedConversation>();
+
+const isOlderThan = (message: MessageWithSender, cursor: MessageCursor) => {
+  const messageTime = new Date(message.created_at).getTime();
+  const cursorTime = new Date(cursor.created_at).getTime();
+  return messageTime < cursorTime || (messageTime === cursorTime && message.id < cursor.id);
+};
+
+// Put a fresh newest page in front of the cached messages. If the page
+// doesn't reach back to them, too much arrived in between to stitch the two
+// together, so the cache starts over from this page. An empty page (or a
+// failed load) leaves the cache as it was.
+const mergeNewestPage = (cached: CachedConversation | undefined, page: MessagePage): CachedConversation => {
+  const oldestInPage = page.messages[page.messages.length - 1];
+  if (!oldestInPage) {
+    return cached || EMPTY_CONVERSATION;
+  }
+  if (!cached) {
+    return { messages: page.messages, nextCursor: page.nextCursor };
+  }
+
+  const pageIds = new Set(page.messages.map(message => message.id));
+  const reachesCache = page.nextCursor === null || cached.messages.some(message => pageIds.has(message.id));
+  if (!reachesCache) {
+    return { messages: page.messages, nextCursor: page.nextCursor };
+  }
+
+  const oldestCursor = { created_at: oldestInPage.created_at, id: oldestInPage.id };
+  const olderMessages = cached.messages.filter(message => isOlderThan(message, oldestCursor));
+
+  return {
+    messages: [...page.messages, ...olderMessages],
+    nextCursor: olderMessages.length > 0 ? cached.nextCursor : page.nextCursor,
+  };
+};
+
+export const clearMessageCache = (conversationId?: string) => {
+  if (conversationId) {
+    messageCache.delete(conversationId);
+  } else {
+    messageCache.clear();
+  }
+};
+
+// A conversation's messages, newest first, for an inverted list: call
+// loadOlder when the list reaches its end to page back through history.
+export const useConversationMessages = (conversationId: string | null | undefined) => {
+  const [conversation, setConversation] = useState<CachedConversation>(
+    () => (conversationId && messageCache.get(conversationId)) || EMPTY_CONVERSATION
+  );
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const currentIdRef = useRef(conversationId);
+  const loadingMoreRef = useRef(false);
+
+  // Always keep the cache current; only touch state if the chat is still open
+  const store = useCallback((id: string, next: CachedConversation) => {
+    messageCache.set(id, next);
+    if (currentIdRef.current === id) {
+      setConversation(next);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!conversationId) return;
+
+    const page = await getConversationMessages(conversationId);
+    store(conversationId, mergeNewestPage(messageCache.get(conversationId), page));
+  }, [conversationId, store]);
+
+  useEffect(() => {
+    currentIdRef.current = conversationId;
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+
+    if (!conversationId) {
+      setConversation(EMPTY_CONVERSATION);
+      setLoading(false);
+      return;
+    }
+
+    const cached = messageCache.get(conversationId);
+    setConversation(cached || EMPTY_CONVERSATION);
+    setLoading(!cached);
+
+    refresh().finally(() => {
+      if (currentIdRef.current === conversationId) {
+        setLoading(false);
+      }
+    });
+  }, [conversationId, refresh]);
+
+  const loadOlder = useCallback(async () => {
+    if (!conversationId || loadingMoreRef.current) return;
+
+    const cached = messageCache.get(conversationId);
+    if (!cached?.nextCursor) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    const page = await getConversationMessages(conversationId, { before: cached.nextCursor });
+    const latest = messageCache.get(conversationId) || cached;
+    const knownIds = new Set(latest.messages.map(message => message.id));
+
+    store(conversationId, {
+      messages: [...latest.messages, ...page.messages.filter(message => !knownIds.has(message.id))],
+      nextCursor: page.nextCursor,
+    });
+
+    if (currentIdRef.current === conversationId) {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [conversationId, store]);
+
+  // A message this device just sent, shown before the next refresh
+  const addMessage = useCallback((message: MessageWithSender) => {
+    const id = message.conversation_id;
+    const cached = messageCache.get(id) || EMPTY_CONVERSATION;
+    if (cached.messages.some(existing => existing.id === message.id)) return;
+
+    store(id, { ...cached, messages: [message, ...cached.messages] });
+  }, [store]);
+
+  // New fields for a loaded message, such as a delivery or read receipt
+  const updateMessage = useCallback((message: Message) => {
+    const cached = messageCache.get(message.conversation_id);
+    if (!cached?.messages.some(existing => existing.id === message.id)) return;
+
+    store(message.conversation_id, {
+      ...cached,
+      messages: cached.messages.map(existing =>
+        existing.id === message.id ? { ...existing, ...message, sender: existing.sender } : existing
+      ),
+    });
+  }, [store]);
+
+  return {
+    messages: conversation.messages,
+    hasMore: conversation.nextCursor !== null,
+    loading,
+    loadingMore,
+    loadOlder,
+    refresh,
+    addMessage,
+    updateMessage,
+  };
+};
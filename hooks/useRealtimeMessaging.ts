@@ -0,0 +1,219 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { Message, markMessagesDelivered } from '@/lib/messaging';
+
+export interface TypingUser {
+  id: string;
+  name: string;
+}
+
+// A group member's read marker, as streamed from conversation_members
+export interface MemberReadState {
+  conversation_id: string;
+  user_id: string;
+  last_read_at: string;
+  unread_count: number;
+}
+
+interface RealtimeMessagingOptions {
+  conversationId?: string | null; // The open chat, for typing and presence
+  onMessage?: (message: Message) => void; // Any new message the user can see, including their own
+  onMessageUpdate?: (message: Message) => void; // Receipts on the user's messages, edits and pins in the open chat
+  onReadStateChange?: (member: MemberReadState) => void; // Group members reading
+}
+
+const TYPING_TIMEOUT_MS = 4000; // Drop a typer who stopped sending updates
+const TYPING_THROTTLE_MS = 2000; // At most one "typing" broadcast per this
+
+type TypingPayload = { user_id: string; name: string; is_typing: boolean };
+
+// Live messaging over Supabase Realtime: new messages and receipts from the
+// database, plus typing and presence for the open conversation. Messages that
+// arrive for the current user are marked delivered on the way in.
+export const useRealtimeMessaging = ({
+  conversationId,
+  onMessage,
+  onMessageUpdate,
+  onReadStateChange,
+}: RealtimeMessagingOptions = {}) => {
+  const { user } = useAuth();
+  const { userProfile } = useProfile();
+  const userId = user?.id;
+  const userName = userProfile?.full_name || userProfile?.username || 'Someone';
+
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+
+  // Latest callbacks, so new handlers don't mean new subscriptions
+  const onMessageRef = useRef(onMessage);
+  const onMessageUpdateRef = useRef(onMessageUpdate);
+  const onReadStateChangeRef = useRef(onReadStateChange);
+  onMessageRef.current = onMessage;
+  onMessageUpdateRef.current = onMessageUpdate;
+  onReadStateChangeRef.current = onReadStateChange;
+
+  const userNameRef = useRef(userName);
+  userNameRef.current = userName;
+
+  const conversationChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const typingTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentRef = useRef(0);
+  const instanceIdRef = useRef(Math.random().toString(36).slice(2));
+
+  // Messages, receipts and read markers; row-level security decides what
+  // this user gets to see
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`messaging_inbox_${userId}_${instanceIdRef.current}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Message;
+          if (message.receiver_id === userId && message.delivery_status === 'sent') {
+            markMessagesDelivered([message.id]);
+          }
+          onMessageRef.current?.(message);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `sender_id=eq.${userId}` },
+        (payload) => onMessageUpdateRef.current?.(payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversation_members' },
+        (payload) => onReadStateChangeRef.current?.(payload.new as MemberReadState)
+      )
+      .subscribe((status) => {
+        // Catch up on anything sent while the app was closed
+        if (status === 'SUBSCRIBED') {
+          markMessagesDelivered();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // Typing, presence, and edits and pins for the open conversation
+  useEffect(() => {
+    if (!userId || !conversationId) return;
+
+    const clearTypingUser = (typingUserId: string) => {
+      clearTimeout(typingTimeoutsRef.current[typingUserId]);
+      delete typingTimeoutsRef.current[typingUserId];
+      setTypingUsers(prev => prev.filter(typingUser => typingUser.id !== typingUserId));
+    };
+
+    // Edits and pins only matter to this screen, so they get a channel of
+    // their own. Typing and presence have to share one topic with the other
+    // participants.
+    const updatesChannel = supabase
+      .channel(`conversation_updates_${conversationId}_${instanceIdRef.current}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+        (payload) => onMessageUpdateRef.current?.(payload.new as Message)
+      )
+      .subscribe();
+
+    const channel = supabase.channel(`conversation_${conversationId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: TypingPayload }) => {
+        if (!payload?.user_id || payload.user_id === userId) return;
+
+        if (!payload.is_typing) {
+          clearTypingUser(payload.user_id);
+          return;
+        }
+
+        setTypingUsers(prev =>
+          prev.some(typingUser => typingUser.id === payload.user_id)
+            ? prev
+            : [...prev, { id: payload.user_id, name: payload.name }]
+        );
+        clearTimeout(typingTimeoutsRef.current[payload.user_id]);
+        typingTimeoutsRef.current[payload.user_id] = setTimeout(
+          () => clearTypingUser(payload.user_id),
+          TYPING_TIMEOUT_MS
+        );
+      })
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(Object.keys(channel.presenceState()).filter(key => key !== userId));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ user_id: userId, name: userNameRef.current });
+        }
+      });
+
+    conversationChannelRef.current = channel;
+
+    const typingTimeouts = typingTimeoutsRef.current;
+    return () => {
+      Object.values(typingTimeouts).forEach(clearTimeout);
+      typingTimeoutsRef.current = {};
+      conversationChannelRef.current = null;
+      lastTypingSentRef.current = 0;
+      setTypingUsers([]);
+      setOnlineUserIds([]);
+      supabase.removeChannel(updatesChannel);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, conversationId]);
+
+  const broadcastTyping = useCallback((isTyping: boolean) => {
+    if (!userId || !conversationChannelRef.current) return;
+
+    conversationChannelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: userId, name: userNameRef.current, is_typing: isTyping },
+    });
+  }, [userId]);
+
+  // Call on every keystroke; throttled here
+  const sendTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    broadcastTyping(true);
+  }, [broadcastTyping]);
+
+  // Call once the message is sent or the draft cleared
+  const stopTyping = useCallback(() => {
+    if (lastTypingSentRef.current === 0) return;
+
+    lastTypingSentRef.current = 0;
+    broadcastTyping(false);
+  }, [broadcastTyping]);
+
+  const isOnline = useCallback((otherUserId: string) => onlineUserIds.includes(otherUserId), [onlineUserIds]);
+
+  return {
+    typingUsers,
+    onlineUserIds,
+    isOnline,
+    sendTyping,
+    stopTyping,
+  };
+};
+
+// "Sam is typing..." / "Sam and Alex are typing..." / "3 people are typing..."
+export const formatTypingUsers = (typingUsers: TypingUser[]): string | null => {
+  if (typingUsers.length === 0) return null;
+  if (typingUsers.length === 1) return `${typingUsers[0].name} is typing...`;
+  if (typingUsers.length === 2) return `${typingUsers[0].name} and ${typingUsers[1].name} are typing...`;
+  return `${typingUsers.length} people are typing...`;
+};
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
+import { StreakRules } from '@/lib/gamification';
 
 export type UrgencyLevel = 'normal' | 'warning' | 'critical';
 
 export interface StreakUrgency {
   urgencyLevel: UrgencyLevel;
-  timeRemaining: number;
+  timeRemaining: number; // Hours
+  daysNeeded: number; // Gym days still needed this week (weekly mode)
   isExpiringSoon: boolean;
   shouldShowWarning: boolean;
   shouldShowCritical: boolean;
@@ -12,31 +14,51 @@ export interface StreakUrgency {
   urgencyMessage: string;
 }
 
+const DEFAULT_STREAK_RULES: StreakRules = { mode: 'daily', weeklyTarget: 3, restDays: [] };
+
+const HOUR_MS = 1000 * 60 * 60;
+
+// yyyy-mm-dd as a local date
+const parseDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
 export const useStreakUrgency = (
   currentStreak: number,
   lastCheckinDate: string | null,
-  streakFrozen: boolean
+  streakFrozen: boolean,
+  rules: StreakRules = DEFAULT_STREAK_RULES,
+  weekDays: number = 0 // Gym days so far this week (weekly mode)
 ): StreakUrgency => {
   const [urgencyLevel, setUrgencyLevel] = useState<UrgencyLevel>('normal');
   const [timeRemaining, setTimeRemaining] = useState(0);
+  const [daysNeeded, setDaysNeeded] = useState(0);
+  const restDaysKey = rules.restDays.join(',');
 
   useEffect(() => {
     if (!lastCheckinDate || currentStreak === 0 || streakFrozen) {
       setUrgencyLevel('normal');
       setTimeRemaining(0);
+      setDaysNeeded(0);
       return;
     }
 
-    const calculateTimeRemaining = () => {
-      const lastCheckin = new Date(lastCheckinDate);
-      const now = new Date();
-      const timeDiff = 24 - ((now.getTime() - lastCheckin.getTime()) / (1000 * 60 * 60));
-      return Math.max(0, Math.ceil(timeDiff));
-    };
+    const restDays = restDaysKey ? restDaysKey.split(',').map(Number) : [];
 
-    const updateUrgency = () => {
-      const remaining = calculateTimeRemaining();
+    // Daily: the server breaks a streak once a whole day that isn't a planned
+    // rest day has passed without a check-in, so it expires at midnight at
+    // the end of the first such day after the last check-in
+    const updateDailyUrgency = () => {
+      const dueDay = parseDay(lastCheckinDate);
+      do {
+        dueDay.setDate(dueDay.getDate() + 1);
+      } while (restDays.includes(dueDay.getDay()) && restDays.length < 7);
+
+      const expiresAt = new Date(dueDay.getFullYear(), dueDay.getMonth(), dueDay.getDate() + 1);
+      const remaining = Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / HOUR_MS));
       setTimeRemaining(remaining);
+      setDaysNeeded(0);
 
       if (remaining <= 2) {
         setUrgencyLevel('critical');
@@ -47,6 +69,32 @@ export const useStreakUrgency = (
       }
     };
 
+    // Weekly: the week (Monday to Sunday) has to reach the target
+    const updateWeeklyUrgency = () => {
+      const now = new Date();
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const daysIntoWeek = (today.getDay() + 6) % 7; // Monday = 0
+      const weekEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7 - daysIntoWeek);
+      const checkedInToday = parseDay(lastCheckinDate).getTime() === today.getTime();
+
+      const needed = Math.max(0, rules.weeklyTarget - weekDays);
+      const daysAvailable = 7 - daysIntoWeek - (checkedInToday ? 1 : 0);
+      setDaysNeeded(needed);
+      setTimeRemaining(Math.max(0, Math.ceil((weekEnd.getTime() - now.getTime()) / HOUR_MS)));
+
+      if (needed === 0) {
+        setUrgencyLevel('normal');
+      } else if (daysAvailable <= needed) {
+        setUrgencyLevel('critical');
+      } else if (daysAvailable === needed + 1) {
+        setUrgencyLevel('warning');
+      } else {
+        setUrgencyLevel('normal');
+      }
+    };
+
+    const updateUrgency = rules.mode === 'weekly' ? updateWeeklyUrgency : updateDailyUrgency;
+
     // Update immediately
     updateUrgency();
 
@@ -54,7 +102,7 @@ export const useStreakUrgency = (
     const interval = setInterval(updateUrgency, 60000);
 
     return () => clearInterval(interval);
-  }, [lastCheckinDate, currentStreak, streakFrozen]);
+  }, [lastCheckinDate, currentStreak, streakFrozen, rules.mode, rules.weeklyTarget, restDaysKey, weekDays]);
 
   const isExpiringSoon = urgencyLevel === 'warning' || urgencyLevel === 'critical';
   const shouldShowWarning = urgencyLevel === 'warning';
@@ -76,6 +124,13 @@ export const useStreakUrgency = (
       return 'Streak Frozen';
     }
     
+    if (rules.mode === 'weekly' && urgencyLevel !== 'normal') {
+      const dayLabel = daysNeeded === 1 ? 'day' : 'days';
+      return urgencyLevel === 'critical'
+        ? `⚠️ ${daysNeeded} more gym ${dayLabel} this week`
+        : `⏰ ${daysNeeded} more gym ${dayLabel} this week`;
+    }
+
     switch (urgencyLevel) {
       case 'critical':
         return `⚠️ Expires in ${timeRemaining}h`;
@@ -89,6 +144,7 @@ export const useStreakUrgency = (
   return {
     urgencyLevel,
     timeRemaining,
+    daysNeeded,
     isExpiringSoon,
     shouldShowWarning,
     shouldShowCritical,
@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { Audio } from 'expo-av';
+import { MEDIA_LIMITS } from '@/lib/messaging';
+
+export interface VoiceNote {
+  uri: string;
+  durationMs: number;
+  mimeType: string;
+}
+
+// Records voice notes as M4A (what the server accepts) and stops by itself
+// at the voice note length limit
+export const useVoiceRecorder = (onLimitReached?: (note: VoiceNote) => void) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [durationMs, setDurationMs] = useState(0);
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  const finish = useCallback(async (): Promise<VoiceNote | null> => {
+    const recording = recordingRef.current;
+    if (!recording) return null;
+
+    recordingRef.current = null;
+    setIsRecording(false);
+
+    try {
+      const status = await recording.stopAndUnloadAsync();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+
+      const uri = recording.getURI();
+      if (!uri) return null;
+
+      return { uri, durationMs: status.durationMillis, mimeType: 'audio/mp4' };
+    } catch (error) {
+      console.error('Error stopping recording:', error);
+      return null;
+    }
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) return;
+
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission needed', 'Please grant microphone access to record voice notes.');
+        return;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+
+      const { recording } = await Audio.Recording.createAsync(
+        Audio.RecordingOptionsPresets.HIGH_QUALITY,
+        (status) => {
+          setDurationMs(status.durationMillis);
+          if (status.isRecording && status.durationMillis >= MEDIA_LIMITS.audio.maxDurationMs) {
+            finish().then(note => {
+              if (note) onLimitReachedRef.current?.(note);
+            });
+          }
+        },
+        250
+      );
+
+      recordingRef.current = recording;
+      setDurationMs(0);
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      Alert.alert('Error', 'Could not start recording. Please try again.');
+    }
+  }, [finish]);
+
+  // Throw the recording away
+  const cancel = useCallback(async () => {
+    await finish();
+    setDurationMs(0);
+  }, [finish]);
+
+  // Don't leave the microphone on when the screen goes away
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+      recordingRef.current = null;
+    };
+  }, []);
+
+  return {
+    isRecording,
+    durationMs,
+    start,
+    stop: finish,
+    cancel,
+  };
+};
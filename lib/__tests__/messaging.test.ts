@@ -0,0 +1,117 @@
+import { getConversationMessages } from '../messaging';
+
+type QueryResult = { data: unknown; error: unknown };
+
+interface RecordedQuery {
+  table: string;
+  calls: [string, unknown[]][];
+}
+
+// Each from() call gets a chainable builder that records its calls and
+// resolves with the next queued result for its table
+const mockQueries: RecordedQuery[] = [];
+let mockResults: Record<string, QueryResult[]> = {};
+
+jest.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const query: RecordedQuery = { table, calls: [] };
+      mockQueries.push(query);
+
+      const builder: Record<string, unknown> = {};
+      ['select', 'eq', 'order', 'limit', 'or', 'in'].forEach(method => {
+        builder[method] = (...args: unknown[]) => {
+          query.calls.push([method, args]);
+          return builder;
+        };
+      });
+      builder.then = (resolve: (result: QueryResult) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(mockResults[table]?.shift() ?? { data: [], error: null }).then(resolve, reject);
+
+      return builder;
+    },
+  },
+}));
+
+const message = (index: number, overrides: Record<string, unknown> = {}) => ({
+  id: `msg-${index}`,
+  conversation_id: 'conv-1',
+  sender_id: 'user-1',
+  content: `Message ${index}`,
+  message_type: 'text',
+  created_at: new Date(Date.UTC(2025, 8, 21, 12, 0, 60 - index)).toISOString(),
+  reply_to_message_id: null,
+  ...overrides,
+});
+
+const callsTo = (query: RecordedQuery, method: string) =>
+  query.calls.filter(([name]) => name === method).map(([, args]) => args);
+
+describe('getConversationMessages', () => {
+  beforeEach(() => {
+    mockQueries.length = 0;
+    mockResults = {
+      user_profiles: [{ data: [{ id: 'user-1', full_name: 'Sam Lee', username: 'sam', avatar_url: null, user_type: 'user' }], error: null }],
+    };
+  });
+
+  it('asks for one extra row and returns a cursor when there are older messages', async () => {
+    mockResults.messages = [{ data: [1, 2, 3, 4].map(index => message(index)), error: null }];
+
+    const page = await getConversationMessages('conv-1', { limit: 3 });
+
+    expect(callsTo(mockQueries[0], 'limit')).toEqual([[4]]);
+    expect(callsTo(mockQueries[0], 'or')).toEqual([]);
+    expect(page.messages.map(msg => msg.id)).toEqual(['msg-1', 'msg-2', 'msg-3']);
+    expect(page.nextCursor).toEqual({ created_at: message(3).created_at, id: 'msg-3' });
+    expect(page.messages[0].sender.name).toBe('Sam Lee');
+  });
+
+  it('returns no cursor on the last page', async () => {
+    mockResults.messages = [{ data: [1, 2].map(index => message(index)), error: null }];
+
+    const page = await getConversationMessages('conv-1', { limit: 3 });
+
+    expect(page.messages).toHaveLength(2);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('pages by created_at and breaks ties on id', async () => {
+    const before = { created_at: '2025-09-21T12:00:57.000Z', id: 'msg-3' };
+    mockResults.messages = [{ data: [message(4)], error: null }];
+
+    await getConversationMessages('conv-1', { before, limit: 3 });
+
+    expect(callsTo(mockQueries[0], 'order')).toEqual([
+      ['created_at', { ascending: false }],
+      ['id', { ascending: false }],
+    ]);
+    expect(callsTo(mockQueries[0], 'or')).toEqual([[
+      'created_at.lt."2025-09-21T12:00:57.000Z",and(created_at.eq."2025-09-21T12:00:57.000Z",id.lt.msg-3)',
+    ]]);
+  });
+
+  it('fetches quoted messages that are not on the page', async () => {
+    mockResults.messages = [
+      { data: [message(1, { reply_to_message_id: 'msg-2' }), message(2), message(3, { reply_to_message_id: 'msg-9' })], error: null },
+      { data: [{ id: 'msg-9', sender_id: 'user-1', content: 'Older message', message_type: 'text' }], error: null },
+    ];
+
+    const page = await getConversationMessages('conv-1', { limit: 3 });
+
+    const parentQuery = mockQueries.filter(query => query.table === 'messages')[1];
+    expect(callsTo(parentQuery, 'in')).toEqual([['id', ['msg-9']]]);
+    expect(page.messages[0].reply_to?.content).toBe('Message 2');
+    expect(page.messages[2].reply_to?.content).toBe('Older message');
+  });
+
+  it('keeps the cursor it was given when the query fails', async () => {
+    const before = { created_at: '2025-09-21T12:00:57.000Z', id: 'msg-3' };
+    mockResults.messages = [{ data: null, error: new Error('Network request failed') }];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const page = await getConversationMessages('conv-1', { before, limit: 3 });
+
+    expect(page).toEqual({ messages: [], nextCursor: before });
+  });
+});
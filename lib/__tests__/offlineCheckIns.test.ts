@@ -0,0 +1,137 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  queueCheckInEvent,
+  getPendingCheckInEvents,
+  syncPendingCheckInEvents,
+  isNetworkError,
+} from '../offlineCheckIns';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const mockRpc = jest.fn();
+
+jest.mock('../supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => mockRpc(...args) },
+}));
+
+const USER_ID = 'user-1';
+
+describe('offline check-in queue', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockRpc.mockReset();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('keeps queued events in the order they happened', async () => {
+    const checkIn = await queueCheckInEvent(USER_ID, 'check_in', new Date('2025-09-07T08:00:00Z'), 'rgqr1:ruangym:1:2:n:s');
+    const checkOut = await queueCheckInEvent(USER_ID, 'check_out', new Date('2025-09-07T09:30:00Z'));
+
+    const pending = await getPendingCheckInEvents(USER_ID);
+
+    expect(pending.map(event => event.id)).toEqual([checkIn.id, checkOut.id]);
+    expect(pending[0]).toMatchObject({ action: 'check_in', occurredAt: '2025-09-07T08:00:00.000Z', attempts: 0 });
+    expect(checkIn.id).not.toBe(checkOut.id);
+  });
+
+  it('keeps each user\'s queue separate', async () => {
+    await queueCheckInEvent(USER_ID, 'check_in');
+    await queueCheckInEvent('user-2', 'check_in');
+
+    expect(await getPendingCheckInEvents(USER_ID)).toHaveLength(1);
+    expect(await getPendingCheckInEvents('user-2')).toHaveLength(1);
+  });
+
+  it('replays events oldest first and empties the queue', async () => {
+    const checkIn = await queueCheckInEvent(USER_ID, 'check_in', new Date('2025-09-07T08:00:00Z'), 'token');
+    const checkOut = await queueCheckInEvent(USER_ID, 'check_out', new Date('2025-09-07T09:30:00Z'));
+    mockRpc.mockResolvedValue({ data: { status: 'applied' }, error: null });
+
+    const result = await syncPendingCheckInEvents(USER_ID);
+
+    expect(mockRpc.mock.calls).toEqual([
+      ['sync_offline_checkin_event', {
+        p_event_id: checkIn.id,
+        p_action: 'check_in',
+        p_occurred_at: '2025-09-07T08:00:00.000Z',
+        p_token: 'token',
+      }],
+      ['sync_offline_checkin_event', {
+        p_event_id: checkOut.id,
+        p_action: 'check_out',
+        p_occurred_at: '2025-09-07T09:30:00.000Z',
+        p_token: null,
+      }],
+    ]);
+    expect(result.applied.map(event => event.id)).toEqual([checkIn.id, checkOut.id]);
+    expect(result.remaining).toBe(0);
+    expect(await getPendingCheckInEvents(USER_ID)).toEqual([]);
+  });
+
+  it('drops events the server refuses and reports why', async () => {
+    await queueCheckInEvent(USER_ID, 'check_in', new Date(), 'token');
+    mockRpc.mockResolvedValue({ data: { status: 'rejected', reason: 'MEMBERSHIP_EXPIRED' }, error: null });
+
+    const result = await syncPendingCheckInEvents(USER_ID);
+
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0].reason).toBe('MEMBERSHIP_EXPIRED');
+    expect(result.remaining).toBe(0);
+  });
+
+  it('stops at a network error and keeps that event and the ones after it', async () => {
+    const checkIn = await queueCheckInEvent(USER_ID, 'check_in', new Date(), 'token');
+    const checkOut = await queueCheckInEvent(USER_ID, 'check_out');
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'Network request failed' } });
+
+    const result = await syncPendingCheckInEvents(USER_ID);
+
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(result.remaining).toBe(2);
+
+    const pending = await getPendingCheckInEvents(USER_ID);
+    expect(pending.map(event => event.id)).toEqual([checkIn.id, checkOut.id]);
+    expect(pending[0]).toMatchObject({ attempts: 1, lastError: 'Network request failed' });
+  });
+
+  it('gives up on an event the server keeps failing', async () => {
+    await queueCheckInEvent(USER_ID, 'check_in', new Date(), 'token');
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'internal error' } });
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect((await syncPendingCheckInEvents(USER_ID)).remaining).toBe(1);
+    }
+    const result = await syncPendingCheckInEvents(USER_ID);
+
+    expect(result.rejected.map(rejection => rejection.reason)).toEqual(['SYNC_FAILED']);
+    expect(result.remaining).toBe(0);
+  });
+
+  it('shares a running sync instead of replaying twice', async () => {
+    await queueCheckInEvent(USER_ID, 'check_in', new Date(), 'token');
+    mockRpc.mockResolvedValue({ data: { status: 'applied' }, error: null });
+
+    const [first, second] = await Promise.all([
+      syncPendingCheckInEvents(USER_ID),
+      syncPendingCheckInEvents(USER_ID),
+    ]);
+
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('recognises requests that never reached the server', () => {
+    expect(isNetworkError(new TypeError('Network request failed'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(isNetworkError('Request timed out')).toBe(true);
+  });
+
+  it('does not treat server refusals as network errors', () => {
+    expect(isNetworkError({ message: 'permission denied for table gym_checkins' })).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
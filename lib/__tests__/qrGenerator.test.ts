@@ -0,0 +1,59 @@
+import { validateGymQRCode, isTestQRCode, getQRErrorMessage } from '../qrGenerator';
+
+jest.mock('../supabase', () => ({ supabase: { rpc: jest.fn() } }));
+
+const VALID_TOKEN = 'rgqr1:ruangym:1757000000:1757000030:3f9c2a7d1b:Zm9vYmFyc2lnbmF0dXJl';
+
+describe('validateGymQRCode', () => {
+  const originalTestQR = process.env.EXPO_PUBLIC_ENABLE_TEST_QR;
+
+  afterEach(() => {
+    process.env.EXPO_PUBLIC_ENABLE_TEST_QR = originalTestQR;
+  });
+
+  it('accepts a signed gym token', () => {
+    expect(validateGymQRCode(VALID_TOKEN)).toBe(true);
+  });
+
+  it('rejects a token with another prefix', () => {
+    expect(validateGymQRCode(VALID_TOKEN.replace('rgqr1', 'rgqr2'))).toBe(false);
+  });
+
+  it('rejects a token with missing or extra parts', () => {
+    expect(validateGymQRCode('rgqr1:ruangym:1757000000:1757000030:3f9c2a7d1b')).toBe(false);
+    expect(validateGymQRCode(`${VALID_TOKEN}:extra`)).toBe(false);
+  });
+
+  it('rejects timestamps that are not whole seconds', () => {
+    expect(validateGymQRCode('rgqr1:ruangym:soon:1757000030:3f9c2a7d1b:sig')).toBe(false);
+    expect(validateGymQRCode('rgqr1:ruangym:1757000000:1757000030.5:3f9c2a7d1b:sig')).toBe(false);
+  });
+
+  it('rejects anything that is not a gym token', () => {
+    expect(validateGymQRCode('')).toBe(false);
+    expect(validateGymQRCode('https://ruangym.example.com/checkin')).toBe(false);
+  });
+
+  it('only accepts test codes in dev QR mode', () => {
+    delete process.env.EXPO_PUBLIC_ENABLE_TEST_QR;
+    expect(isTestQRCode('test:gym:checkin')).toBe(false);
+    expect(validateGymQRCode('test:gym:checkin')).toBe(false);
+
+    process.env.EXPO_PUBLIC_ENABLE_TEST_QR = 'true';
+    expect(isTestQRCode('test:gym:checkin')).toBe(true);
+    expect(validateGymQRCode('test:gym:checkin')).toBe(true);
+  });
+});
+
+describe('getQRErrorMessage', () => {
+  it('explains server error codes', () => {
+    expect(getQRErrorMessage('QR_EXPIRED').title).toBe('QR Code Expired');
+    expect(getQRErrorMessage('QR_REPLAYED').title).toBe('QR Code Already Used');
+    expect(getQRErrorMessage('CHECKIN_RATE_LIMITED').title).toBe('Too Many Check-ins');
+  });
+
+  it('falls back to a generic message', () => {
+    expect(getQRErrorMessage('SOMETHING_NEW').title).toBe('Check-in Failed');
+    expect(getQRErrorMessage().title).toBe('Check-in Failed');
+  });
+});
@@ -11,6 +11,7 @@ export interface AdminMessage {
   read_at?: string;
   created_at: string;
   is_admin_message: boolean;
+  delivery_status?: 'sent' | 'delivered' | 'read' | 'failed';
 }
 
 export interface AdminConversation {
@@ -1,74 +1,77 @@
 import { supabase } from './supabase';
+import { toMembershipAccess, getGracePeriodMessage } from './checkInAccess';
+import { isNetworkError } from './offlineCheckIns';
+
+export interface CheckInWarning {
+  code: string;
+  message: string;
+}
 
 export interface CheckInResponse {
   success: boolean;
   message: string;
   data?: any;
   error?: string;
+  warnings?: CheckInWarning[];
 }
 
 export const gymAPI = {
-  // Check in user
-  async checkIn(userId: string): Promise<CheckInResponse> {
+  // Check in user with the scanned gym QR code. The server verifies the code
+  // and records the check-in in one call, so only genuine codes check in.
+  async checkIn(userId: string, qrData: string): Promise<CheckInResponse> {
     try {
-      // Get user profile to determine user type
-      const { data: userProfile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('user_type, full_name, username')
-        .eq('id', userId)
-        .single();
+      // The server verifies the QR code and applies the check-in rate limits,
+      // membership rules and gym capacity, logging any refusal. It also
+      // closes any session the user forgot to check out of, stamping an
+      // estimated end time and flagging the row as auto_closed.
+      const { data: result, error } = await supabase
+        .rpc('record_checkin', { p_token: qrData });
 
-      if (profileError) {
-        console.error('Error fetching user profile:', profileError);
-        // Continue with default user type
-      }
-
-      const userType = userProfile?.user_type || 'user';
-      const userName = userProfile?.full_name || userProfile?.username || 'Unknown User';
-      
-      // Determine check-in reason based on user type
-      let checkInReason = '';
-      if (userType === 'trainer') {
-        checkInReason = 'Staff check-in for training session';
-      } else {
-        checkInReason = 'Member workout session';
+      if (error) {
+        console.error('Error recording check-in:', error);
+        throw error;
       }
 
-      // Clean up any stale check-in records for this user (safety measure)
-      await supabase
-        .from('gym_checkins')
-        .update({ 
-          is_checked_in: false,
-          check_out_time: new Date().toISOString()
-        })
-        .eq('user_id', userId)
-        .eq('is_checked_in', true)
-        .is('check_out_time', null);
+      if (!result?.success) {
+        // Membership refusals carry the member's access details
+        if (result?.access && !result.access.allowed) {
+          return {
+            success: false,
+            message: 'Membership does not allow check-in',
+            error: result.error_code,
+            data: toMembershipAccess(result.access)
+          };
+        }
 
-      // Create new check-in record
-      const { data, error } = await supabase
-        .from('gym_checkins')
-        .insert({
-          user_id: userId,
-          user_type: userType,
-          check_in_time: new Date().toISOString(),
-          is_checked_in: true,
-          check_in_reason: checkInReason,
-        })
-        .select()
-        .single();
+        if (result?.error_code === 'GYM_AT_CAPACITY') {
+          return { success: false, message: 'The gym is at capacity', error: 'GYM_AT_CAPACITY' };
+        }
 
-      if (error) {
-        console.error('Error inserting check-in:', error);
-        throw error;
+        return {
+          success: false,
+          message: 'Check-in refused by the server',
+          error: result?.error_code || 'QR_VERIFICATION_FAILED'
+        };
       }
 
+      const access = toMembershipAccess(result.access);
+      const warnings: CheckInWarning[] = (result.warnings || []).map(({ code }: { code: string }) => ({
+        code,
+        message: code === 'MEMBERSHIP_GRACE_PERIOD'
+          ? getGracePeriodMessage(access)
+          : 'The gym is at capacity right now, so equipment may be busy.'
+      }));
+
       return {
         success: true,
         message: 'Check-in successful',
-        data
+        data: result.checkin,
+        warnings
       };
     } catch (error) {
+      if (isNetworkError(error)) {
+        return { success: false, message: 'No connection', error: 'NETWORK_ERROR' };
+      }
       console.error('Check-in error:', error);
       return {
         success: false,
@@ -78,83 +81,35 @@ export const gymAPI = {
     }
   },
 
-  // Check out user
+  // Check out user. Check-ins can't be edited from the app, so the server
+  // closes the open session.
   async checkOut(userId: string): Promise<CheckInResponse> {
     try {
-      // First, let's check the user's profile to see their type
-      const { data: userProfile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('user_type, full_name, username')
-        .eq('id', userId)
-        .single();
+      const { data: result, error } = await supabase
+        .rpc('record_checkout');
 
-      if (profileError) {
-        console.error('❌ Error fetching user profile:', profileError);
-      }
-      
-      // First, let's check what the current status is
-      const { data: currentStatus, error: statusError } = await supabase
-        .from('gym_checkins')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_checked_in', true)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (statusError) {
-        console.error('❌ Error checking current status:', statusError);
-        throw statusError;
+      if (error) {
+        console.error('❌ Check-out error:', error);
+        throw error;
       }
 
-      if (!currentStatus || currentStatus.length === 0) {
+      if (!result?.success) {
         return {
           success: false,
           message: 'No active check-in found',
-          error: 'NO_ACTIVE_CHECKIN'
+          error: result?.error_code || 'NO_ACTIVE_CHECKIN'
         };
       }
 
-      // Update the specific check-in record we found
-      const { data: currentCheckIn, error: updateError } = await supabase
-        .from('gym_checkins')
-        .update({
-          check_out_time: new Date().toISOString(),
-          is_checked_in: false,
-        })
-        .eq('id', currentStatus[0].id)  // Update by specific ID, not by user_id + is_checked_in
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('❌ Update error:', updateError);
-        if (updateError.code === 'PGRST116') {
-          return {
-            success: false,
-            message: 'No active check-in found',
-            error: 'NO_ACTIVE_CHECKIN'
-          };
-        }
-        throw updateError;
-      }
-
-
-
       return {
         success: true,
         message: 'Check-out successful',
-        data: {
-          id: currentCheckIn.id,
-          user_id: currentCheckIn.user_id,
-          user_type: currentCheckIn.user_type,
-          check_in_time: currentCheckIn.check_in_time,
-          check_out_time: new Date().toISOString(),
-          is_checked_in: false,
-          check_in_reason: currentCheckIn.check_in_reason,
-          created_at: currentCheckIn.created_at,
-          updated_at: new Date().toISOString(),
-        }
+        data: result.checkin
       };
     } catch (error) {
+      if (isNetworkError(error)) {
+        return { success: false, message: 'No connection', error: 'NETWORK_ERROR' };
+      }
       console.error('Check-out API error:', error);
       return {
         success: false,
@@ -223,9 +178,10 @@ export const gymAPI = {
         };
       }
 
-      // Calculate duration for completed session
+      // Calculate duration for completed session. Auto-closed sessions only
+      // have an estimated end time, so they get no duration.
       let duration_minutes = null;
-      if (lastSession.check_out_time && lastSession.check_in_time) {
+      if (lastSession.check_out_time && lastSession.check_in_time && !lastSession.auto_closed) {
         const checkInTime = new Date(lastSession.check_in_time);
         const checkOutTime = new Date(lastSession.check_out_time);
         duration_minutes = Math.floor((checkOutTime.getTime() - checkInTime.getTime()) / (1000 * 60));
@@ -250,18 +206,24 @@ export const gymAPI = {
     }
   },
 
-  // Get check-in history for admin/staff purposes
-  async getCheckInHistory(limit: number = 50): Promise<CheckInResponse> {
+  // Get check-in history for admin/staff purposes, optionally for one location
+  async getCheckInHistory(limit: number = 50, locationId?: string): Promise<CheckInResponse> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('gym_checkins')
         .select(`
           *,
-          user_profiles!inner(full_name, username, user_type)
+          user_profiles!gym_checkins_user_id_fkey!inner(full_name, username, user_type)
         `)
         .order('created_at', { ascending: false })
         .limit(limit);
 
+      if (locationId) {
+        query = query.eq('location_id', locationId);
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
 
       return {
@@ -280,18 +242,24 @@ export const gymAPI = {
   },
 
   // Get check-ins by user type
-  async getCheckInsByType(userType: 'user' | 'trainer', limit: number = 50): Promise<CheckInResponse> {
+  async getCheckInsByType(userType: 'user' | 'trainer', limit: number = 50, locationId?: string): Promise<CheckInResponse> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('gym_checkins')
         .select(`
           *,
-          user_profiles!inner(full_name, username, user_type)
+          user_profiles!gym_checkins_user_id_fkey!inner(full_name, username, user_type)
         `)
         .eq('user_type', userType)
         .order('created_at', { ascending: false })
         .limit(limit);
 
+      if (locationId) {
+        query = query.eq('location_id', locationId);
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
 
       return {
@@ -314,7 +282,7 @@ export const gymAPI = {
     try {
       const now = new Date();
       const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      const startOfNextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
 
       // Get all check-ins for the current month
       const { data, error } = await supabase
@@ -322,7 +290,7 @@ export const gymAPI = {
         .select('check_in_time')
         .eq('user_id', userId)
         .gte('check_in_time', startOfMonth.toISOString())
-        .lte('check_in_time', endOfMonth.toISOString());
+        .lt('check_in_time', startOfNextMonth.toISOString());
 
       if (error) throw error;
 
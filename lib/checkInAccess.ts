@@ -0,0 +1,143 @@
+import { supabase } from './supabase';
+
+export type MembershipDenialReason =
+  | 'MEMBERSHIP_BLOCKED'
+  | 'MEMBERSHIP_UNPAID'
+  | 'MEMBERSHIP_EXPIRED'
+  | 'PROFILE_NOT_FOUND';
+
+export interface MembershipAccess {
+  allowed: boolean;
+  reason?: MembershipDenialReason;
+  warning?: 'MEMBERSHIP_GRACE_PERIOD';
+  subscriptionEnd?: string | null;
+  graceDaysRemaining?: number | null;
+}
+
+export interface CheckInDenial {
+  id: string;
+  user_id: string;
+  location_id: string | null;
+  reason: string;
+  details: Record<string, any>;
+  created_at: string;
+  user_profiles?: {
+    full_name: string | null;
+    username: string | null;
+    user_type: string;
+  };
+}
+
+// Membership access as returned by the server with a check-in result.
+// Membership denials are logged to checkin_denials by the server.
+export function toMembershipAccess(data: Record<string, any> | null | undefined): MembershipAccess {
+  return {
+    allowed: data?.allowed ?? false,
+    reason: data?.reason || undefined,
+    warning: data?.warning || undefined,
+    subscriptionEnd: data?.subscription_end,
+    graceDaysRemaining: data?.grace_days_remaining,
+  };
+}
+
+// Recent denied check-ins for the admin dashboard (admins only - enforced by RLS)
+export async function getRecentCheckInDenials(
+  since: Date,
+  locationId?: string,
+  limit: number = 100
+): Promise<CheckInDenial[]> {
+  try {
+    let query = supabase
+      .from('checkin_denials')
+      .select(`
+        *,
+        user_profiles (
+          full_name,
+          username,
+          user_type
+        )
+      `)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (locationId) {
+      query = query.eq('location_id', locationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error getting check-in denials:', error);
+    return [];
+  }
+}
+
+// Short label for a denial reason, used in admin lists
+export function getDenialReasonLabel(reason: string): string {
+  switch (reason) {
+    case 'MEMBERSHIP_BLOCKED':
+      return 'Account blocked';
+    case 'MEMBERSHIP_UNPAID':
+      return 'Membership unpaid';
+    case 'MEMBERSHIP_EXPIRED':
+      return 'Membership expired';
+    case 'GYM_AT_CAPACITY':
+      return 'Gym at capacity';
+    case 'CHECKIN_RATE_LIMITED':
+      return 'Too many check-ins';
+    case 'QR_EXPIRED':
+      return 'Expired QR code';
+    case 'QR_REPLAYED':
+      return 'Reused QR code';
+    case 'QR_FORGED':
+    case 'QR_UNKNOWN_GYM':
+    case 'QR_INVALID_FORMAT':
+      return 'Invalid QR code';
+    default:
+      return 'Check-in refused';
+  }
+}
+
+// Member-facing message for a membership denial, or null for other errors
+export function getMembershipDenialMessage(reason?: string): { title: string; message: string } | null {
+  switch (reason) {
+    case 'MEMBERSHIP_BLOCKED':
+      return {
+        title: 'Account Blocked',
+        message: 'Your account has been blocked. Please speak to the front desk.',
+      };
+    case 'MEMBERSHIP_UNPAID':
+      return {
+        title: 'Membership Unpaid',
+        message: 'We couldn\'t find a payment for your membership. Please pay at the front desk to check in.',
+      };
+    case 'MEMBERSHIP_EXPIRED':
+      return {
+        title: 'Membership Expired',
+        message: 'Your membership has expired. Please renew at the front desk to check in.',
+      };
+    case 'PROFILE_NOT_FOUND':
+      return {
+        title: 'Profile Not Found',
+        message: 'We couldn\'t find your member profile. Please complete your profile and try again.',
+      };
+    default:
+      return null;
+  }
+}
+
+export function getGracePeriodMessage(access: MembershipAccess): string {
+  const days = access.graceDaysRemaining ?? 0;
+  const expiredOn = access.subscriptionEnd
+    ? ` on ${new Date(access.subscriptionEnd).toLocaleDateString()}`
+    : '';
+  const remaining = days === 0
+    ? 'Today is the last day you can check in'
+    : `You can check in for ${days} more day${days === 1 ? '' : 's'}`;
+
+  return `Your membership expired${expiredOn}. ${remaining} - please renew at the front desk.`;
+}
@@ -0,0 +1,303 @@
+import { supabase } from './supabase';
+import { toCsv, CsvValue } from './csv';
+
+export type VisitorPeriod = 'day' | 'week' | 'month';
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;
+  locationId?: string; // All locations when omitted
+}
+
+export interface HeatmapCell {
+  weekday: number; // 0 = Sunday, matches Date.getDay()
+  hour: number;
+  checkIns: number;
+}
+
+export interface CheckInSummary {
+  totalCheckIns: number;
+  uniqueVisitors: number;
+  memberCheckIns: number;
+  trainerCheckIns: number;
+  guestCheckIns: number;
+  completedSessions: number;
+  autoClosedSessions: number;
+  averageSessionMinutes: number;
+}
+
+export interface VisitorCount {
+  periodStart: string; // yyyy-mm-dd in the gym's timezone
+  uniqueVisitors: number;
+  checkIns: number;
+}
+
+export interface RetentionCohort {
+  cohortMonth: string; // yyyy-mm-01
+  cohortSize: number;
+  // Index 0 is the join month
+  months: { activeMembers: number; retentionRate: number }[];
+}
+
+export interface ChurnRiskMember {
+  userId: string;
+  fullName: string | null;
+  username: string | null;
+  lastCheckIn: string;
+  baselineWeeklyVisits: number;
+  recentWeeklyVisits: number;
+  dropRatio: number;
+}
+
+export interface CheckInAnalyticsReport {
+  range: AnalyticsRange;
+  summary: CheckInSummary;
+  heatmap: HeatmapCell[];
+  visitors: VisitorCount[];
+  retention: RetentionCohort[];
+  churnRisk: ChurnRiskMember[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_SUMMARY: CheckInSummary = {
+  totalCheckIns: 0,
+  uniqueVisitors: 0,
+  memberCheckIns: 0,
+  trainerCheckIns: 0,
+  guestCheckIns: 0,
+  completedSessions: 0,
+  autoClosedSessions: 0,
+  averageSessionMinutes: 0,
+};
+
+// Rows returned by the analytics functions. Counts come back as bigint or
+// numeric, which may arrive as strings.
+interface HeatmapRow {
+  weekday: number;
+  hour: number;
+  checkins: number | string;
+}
+
+interface VisitorRow {
+  period_start: string;
+  unique_visitors: number | string;
+  checkins: number | string;
+}
+
+interface RetentionRow {
+  cohort_month: string;
+  cohort_size: number | string;
+  month_offset: number;
+  active_members: number | string;
+  retention_rate: number | string;
+}
+
+interface ChurnRiskRow {
+  user_id: string;
+  full_name: string | null;
+  username: string | null;
+  last_check_in: string;
+  baseline_weekly_visits: number | string;
+  recent_weekly_visits: number | string;
+  drop_ratio: number | string;
+}
+
+const rangeParams = (range: AnalyticsRange) => ({
+  p_start: range.start.toISOString(),
+  p_end: range.end.toISOString(),
+  p_location_id: range.locationId ?? null,
+});
+
+// Check-ins per weekday and hour (in each gym's local time)
+export async function getCheckInHeatmap(range: AnalyticsRange): Promise<HeatmapCell[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_checkin_heatmap', rangeParams(range));
+
+    if (error) throw error;
+
+    return ((data || []) as HeatmapRow[]).map(row => ({
+      weekday: row.weekday,
+      hour: row.hour,
+      checkIns: Number(row.checkins) || 0,
+    }));
+  } catch (error) {
+    console.error('Error getting check-in heatmap:', error);
+    return [];
+  }
+}
+
+export async function getCheckInSummary(range: AnalyticsRange): Promise<CheckInSummary> {
+  try {
+    const { data, error } = await supabase.rpc('get_checkin_summary', rangeParams(range));
+
+    if (error) throw error;
+
+    return {
+      totalCheckIns: Number(data.total_checkins) || 0,
+      uniqueVisitors: Number(data.unique_visitors) || 0,
+      memberCheckIns: Number(data.member_checkins) || 0,
+      trainerCheckIns: Number(data.trainer_checkins) || 0,
+      guestCheckIns: Number(data.guest_checkins) || 0,
+      completedSessions: Number(data.completed_sessions) || 0,
+      autoClosedSessions: Number(data.auto_closed_sessions) || 0,
+      averageSessionMinutes: Number(data.avg_session_minutes) || 0,
+    };
+  } catch (error) {
+    console.error('Error getting check-in summary:', error);
+    return { ...EMPTY_SUMMARY };
+  }
+}
+
+export async function getUniqueVisitors(
+  range: AnalyticsRange,
+  period: VisitorPeriod = 'week'
+): Promise<VisitorCount[]> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_unique_visitors', { p_period: period, ...rangeParams(range) });
+
+    if (error) throw error;
+
+    return ((data || []) as VisitorRow[]).map(row => ({
+      periodStart: row.period_start,
+      uniqueVisitors: Number(row.unique_visitors) || 0,
+      checkIns: Number(row.checkins) || 0,
+    }));
+  } catch (error) {
+    console.error('Error getting unique visitors:', error);
+    return [];
+  }
+}
+
+// Share of members from each join month who checked in during each month since
+export async function getRetentionCohorts(months: number = 6, locationId?: string): Promise<RetentionCohort[]> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_retention_cohorts', { p_months: months, p_location_id: locationId ?? null });
+
+    if (error) throw error;
+
+    const cohorts = new Map<string, RetentionCohort>();
+    ((data || []) as RetentionRow[]).forEach(row => {
+      if (!cohorts.has(row.cohort_month)) {
+        cohorts.set(row.cohort_month, {
+          cohortMonth: row.cohort_month,
+          cohortSize: Number(row.cohort_size) || 0,
+          months: [],
+        });
+      }
+      cohorts.get(row.cohort_month)!.months[row.month_offset] = {
+        activeMembers: Number(row.active_members) || 0,
+        retentionRate: Number(row.retention_rate) || 0,
+      };
+    });
+
+    return Array.from(cohorts.values());
+  } catch (error) {
+    console.error('Error getting retention cohorts:', error);
+    return [];
+  }
+}
+
+// Regulars whose visits over the last two weeks dropped by half or more
+export async function getChurnRiskMembers(locationId?: string): Promise<ChurnRiskMember[]> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_churn_risk_members', { p_location_id: locationId ?? null });
+
+    if (error) throw error;
+
+    return ((data || []) as ChurnRiskRow[]).map(row => ({
+      userId: row.user_id,
+      fullName: row.full_name,
+      username: row.username,
+      lastCheckIn: row.last_check_in,
+      baselineWeeklyVisits: Number(row.baseline_weekly_visits) || 0,
+      recentWeeklyVisits: Number(row.recent_weekly_visits) || 0,
+      dropRatio: Number(row.drop_ratio) || 0,
+    }));
+  } catch (error) {
+    console.error('Error getting churn risk members:', error);
+    return [];
+  }
+}
+
+export async function getCheckInAnalyticsReport(
+  range: AnalyticsRange,
+  period: VisitorPeriod = 'week'
+): Promise<CheckInAnalyticsReport> {
+  const [summary, heatmap, visitors, retention, churnRisk] = await Promise.all([
+    getCheckInSummary(range),
+    getCheckInHeatmap(range),
+    getUniqueVisitors(range, period),
+    getRetentionCohorts(6, range.locationId),
+    getChurnRiskMembers(range.locationId),
+  ]);
+
+  return { range, summary, heatmap, visitors, retention, churnRisk };
+}
+
+// The heatmap as a 7 x 24 grid, rows indexed by weekday
+export function toHeatmapGrid(cells: HeatmapCell[]): number[][] {
+  const grid = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+  cells.forEach(cell => {
+    grid[cell.weekday][cell.hour] = cell.checkIns;
+  });
+  return grid;
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// One CSV file with a section per report, separated by blank lines
+export function checkInAnalyticsToCsv(report: CheckInAnalyticsReport): string {
+  const { range, summary } = report;
+  const rows: CsvValue[][] = [
+    ['Check-in Analytics'],
+    ['From', range.start.toISOString()],
+    ['To', range.end.toISOString()],
+    ['Location', range.locationId ?? 'All locations'],
+    [],
+    ['Summary'],
+    ['Total check-ins', summary.totalCheckIns],
+    ['Unique visitors', summary.uniqueVisitors],
+    ['Member check-ins', summary.memberCheckIns],
+    ['Trainer check-ins', summary.trainerCheckIns],
+    ['Guest check-ins', summary.guestCheckIns],
+    ['Completed sessions', summary.completedSessions],
+    ['Auto-closed sessions', summary.autoClosedSessions],
+    ['Average session (minutes)', summary.averageSessionMinutes],
+    [],
+    ['Unique visitors by period'],
+    ['Period start', 'Unique visitors', 'Check-ins'],
+    ...report.visitors.map(row => [row.periodStart, row.uniqueVisitors, row.checkIns]),
+    [],
+    ['Check-ins by weekday and hour'],
+    ['Weekday', ...Array.from({ length: 24 }, (_, hour) => `${hour}:00`)],
+    ...toHeatmapGrid(report.heatmap).map((counts, weekday) => [WEEKDAY_LABELS[weekday], ...counts]),
+    [],
+    ['Retention by join month'],
+    ['Join month', 'Members', ...Array.from(
+      { length: Math.max(0, ...report.retention.map(cohort => cohort.months.length)) },
+      (_, month) => `Month ${month}`
+    )],
+    ...report.retention.map(cohort => [
+      cohort.cohortMonth.slice(0, 7),
+      cohort.cohortSize,
+      ...cohort.months.map(month => formatPercent(month.retentionRate)),
+    ]),
+    [],
+    ['Churn risk'],
+    ['Member', 'Username', 'Last check-in', 'Weekly visits before', 'Weekly visits now', 'Drop'],
+    ...report.churnRisk.map(member => [
+      member.fullName,
+      member.username,
+      member.lastCheckIn,
+      member.baselineWeeklyVisits,
+      member.recentWeeklyVisits,
+      formatPercent(member.dropRatio),
+    ]),
+  ];
+
+  return toCsv(rows);
+}
@@ -0,0 +1,238 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from './supabase';
+import { toCsv, shareCsv } from './csv';
+
+export type CheckInExportUserType = 'all' | 'user' | 'trainer' | 'guest';
+export type CheckInExportFormat = 'csv' | 'pdf';
+
+export interface CheckInExportOptions {
+  start: Date;
+  end: Date;
+  userType: CheckInExportUserType;
+  locationId?: string; // All locations when omitted
+}
+
+export interface CheckInHistoryRow {
+  id: string;
+  name: string;
+  username: string | null;
+  userType: string;
+  locationId: string;
+  checkInTime: string;
+  checkOutTime: string | null;
+  durationMinutes: number | null;
+  autoClosed: boolean;
+  recordedOffline: boolean;
+  sponsorName: string | null;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+const USER_TYPE_LABELS: Record<string, string> = {
+  user: 'Member',
+  trainer: 'Trainer',
+  guest: 'Guest',
+};
+
+export const getUserTypeLabel = (userType: string) => USER_TYPE_LABELS[userType] || userType;
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '';
+
+const formatRange = (options: CheckInExportOptions) =>
+  `${options.start.toLocaleDateString()} - ${options.end.toLocaleDateString()}`;
+
+// Check-ins that started within the range, oldest first
+export async function getCheckInHistory(options: CheckInExportOptions): Promise<CheckInHistoryRow[]> {
+  const rows: CheckInHistoryRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('gym_checkins')
+      .select(`
+        *,
+        user_profiles!gym_checkins_user_id_fkey (
+          full_name,
+          username
+        ),
+        sponsor:user_profiles!gym_checkins_sponsor_id_fkey (
+          full_name,
+          username
+        )
+      `)
+      .gte('check_in_time', options.start.toISOString())
+      .lt('check_in_time', options.end.toISOString())
+      .order('check_in_time', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (options.userType !== 'all') {
+      query = query.eq('user_type', options.userType);
+    }
+
+    if (options.locationId) {
+      query = query.eq('location_id', options.locationId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    (data || []).forEach((checkIn: any) => {
+      const checkOutTime = checkIn.check_out_time;
+      rows.push({
+        id: checkIn.id,
+        name: checkIn.user_type === 'guest'
+          ? checkIn.guest_name || 'Guest'
+          : checkIn.user_profiles?.full_name || checkIn.user_profiles?.username || 'Unknown User',
+        username: checkIn.user_profiles?.username ?? null,
+        userType: checkIn.user_type,
+        locationId: checkIn.location_id,
+        checkInTime: checkIn.check_in_time,
+        checkOutTime,
+        durationMinutes: checkOutTime
+          ? Math.round((new Date(checkOutTime).getTime() - new Date(checkIn.check_in_time).getTime()) / 60000)
+          : null,
+        autoClosed: !!checkIn.auto_closed,
+        recordedOffline: !!checkIn.recorded_offline,
+        sponsorName: checkIn.sponsor?.full_name || checkIn.sponsor?.username || null,
+      });
+    });
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+export function checkInHistoryToCsv(rows: CheckInHistoryRow[]): string {
+  return toCsv([
+    [
+      'Name',
+      'Username',
+      'Type',
+      'Location',
+      'Check-in',
+      'Check-out',
+      'Duration (minutes)',
+      'Auto-closed',
+      'Recorded offline',
+      'Guest of',
+    ],
+    ...rows.map(row => [
+      row.name,
+      row.username,
+      getUserTypeLabel(row.userType),
+      row.locationId,
+      formatDateTime(row.checkInTime),
+      formatDateTime(row.checkOutTime),
+      row.durationMinutes,
+      row.autoClosed ? 'Yes' : 'No',
+      row.recordedOffline ? 'Yes' : 'No',
+      row.sponsorName,
+    ]),
+  ]);
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDuration = (minutes: number | null) => {
+  if (minutes === null) return '';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Printable attendance report. Auto-closed sessions end at an estimate, so
+// their durations are starred.
+export function checkInHistoryToHtml(rows: CheckInHistoryRow[], options: CheckInExportOptions): string {
+  const completed = rows.filter(row => row.durationMinutes !== null && !row.autoClosed);
+  const totalMinutes = completed.reduce((sum, row) => sum + (row.durationMinutes || 0), 0);
+  const visitors = new Set(rows.map(row => (row.userType === 'guest' ? `guest:${row.name}` : row.username || row.name)));
+
+  const tableRows = rows.map(row => `
+    <tr>
+      <td>${escapeHtml(row.name)}${row.sponsorName ? `<br/><small>Guest of ${escapeHtml(row.sponsorName)}</small>` : ''}</td>
+      <td>${getUserTypeLabel(row.userType)}</td>
+      <td>${escapeHtml(formatDateTime(row.checkInTime))}</td>
+      <td>${escapeHtml(formatDateTime(row.checkOutTime))}</td>
+      <td>${formatDuration(row.durationMinutes)}${row.autoClosed ? ' *' : ''}</td>
+    </tr>`).join('');
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #2C3E50; padding: 24px; }
+          h1 { font-size: 22px; margin-bottom: 4px; }
+          .subtitle { color: #7F8C8D; margin-bottom: 16px; }
+          .summary { margin-bottom: 16px; }
+          table { width: 100%; border-collapse: collapse; font-size: 11px; }
+          th, td { text-align: left; padding: 6px; border-bottom: 1px solid #DFE6E9; }
+          th { background: #F1F2F6; }
+          small { color: #7F8C8D; }
+          .note { margin-top: 12px; font-size: 11px; color: #7F8C8D; }
+        </style>
+      </head>
+      <body>
+        <h1>Check-in History</h1>
+        <div class="subtitle">
+          ${escapeHtml(formatRange(options))}
+          · ${options.userType === 'all' ? 'Everyone' : `${getUserTypeLabel(options.userType)}s`}
+          · ${escapeHtml(options.locationId ?? 'All locations')}
+        </div>
+        <div class="summary">
+          ${rows.length} check-ins · ${visitors.size} visitors ·
+          average session ${completed.length > 0 ? formatDuration(Math.round(totalMinutes / completed.length)) : 'n/a'}
+        </div>
+        <table>
+          <thead>
+            <tr><th>Name</th><th>Type</th><th>Check-in</th><th>Check-out</th><th>Duration</th></tr>
+          </thead>
+          <tbody>${tableRows}</tbody>
+        </table>
+        <div class="note">* Auto checked out - the session end is estimated and not counted in the average.</div>
+      </body>
+    </html>`;
+}
+
+// Build the report for the range and hand it to the share sheet (or the
+// browser's download/print dialog on web)
+export async function exportCheckInHistory(
+  options: CheckInExportOptions,
+  format: CheckInExportFormat
+): Promise<{ success: boolean; count: number; error?: string }> {
+  try {
+    const rows = await getCheckInHistory(options);
+    const fileName = `checkins-${options.start.toISOString().split('T')[0]}-to-${options.end.toISOString().split('T')[0]}`;
+
+    if (format === 'csv') {
+      await shareCsv(`${fileName}.csv`, checkInHistoryToCsv(rows));
+    } else if (Platform.OS === 'web') {
+      await Print.printAsync({ html: checkInHistoryToHtml(rows, options) });
+    } else {
+      const { uri } = await Print.printToFileAsync({ html: checkInHistoryToHtml(rows, options) });
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: `${fileName}.pdf`,
+      });
+    }
+
+    return { success: true, count: rows.length };
+  } catch (error) {
+    console.error('Error exporting check-in history:', error);
+    return {
+      success: false,
+      count: 0,
+      error: error instanceof Error ? error.message : 'Failed to export check-in history'
+    };
+  }
+}
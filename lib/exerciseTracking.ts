@@ -33,36 +33,23 @@ export interface LastWeekData {
   sets_completed: number | null;
 }
 
-// Save exercise sets for a workout
+// Save exercise sets for a workout. The server rejects impossible sets (too
+// heavy for the exercise, too many reps or sets) and sets dated before
+// yesterday, and flags them for review.
 export const saveExerciseSets = async (
   exerciseName: string,
   sets: { weight: number; reps: number; rest?: number; notes?: string }[],
   workoutDate: string = new Date().toISOString().split('T')[0]
 ) => {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
-    const exerciseSets: ExerciseSet[] = sets.map((set, index) => ({
-      user_id: user.id,
-      exercise_name: exerciseName,
-      workout_date: workoutDate,
-      set_number: index + 1,
-      weight_kg: set.weight,
-      reps: set.reps,
-      rest_seconds: set.rest || null,
-      notes: set.notes || null,
-    }));
-
-    const { data, error } = await supabase
-      .from('exercise_sets')
-      .insert(exerciseSets)
-      .select();
+    const { data, error } = await supabase.rpc('log_exercise_sets', {
+      p_exercise_name: exerciseName,
+      p_sets: sets,
+      p_workout_date: workoutDate,
+    });
 
     if (error) throw error;
-
-    // Also save workout session
-    await saveWorkoutSession(exerciseName, workoutDate);
+    if (!data?.success) throw new Error(data?.message || 'These sets could not be saved');
 
     return data;
   } catch (error) {
@@ -1,44 +1,139 @@
 import { supabase } from './supabase';
 
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
 export interface Achievement {
   id: string;
   name: string;
   description: string;
   icon: string;
   points: number;
+  tier: AchievementTier;
+  rarity?: number; // % of members who unlocked it
   unlocked: boolean;
   unlockedAt?: string;
   category: 'workout' | 'streak' | 'goal' | 'special' | 'checkin';
   requirement_type: 'count' | 'streak' | 'goal' | 'special';
   requirement_value: number;
   requirement_description: string;
+  rule?: AchievementRule | null;
+}
+
+// Mirrors the rule format evaluated by evaluate_achievements in the database
+export type AchievementEvent = 'checkin' | 'workout' | 'workout_set' | 'booking' | 'goal' | 'streak';
+
+export type AchievementMetric =
+  | 'checkins'
+  | 'checkin_days'
+  | 'workouts'
+  | 'sets'
+  | 'max_weight'
+  | 'volume'
+  | 'bookings'
+  | 'goals_completed'
+  | 'streak'
+  | 'longest_streak';
+
+export type AchievementCondition =
+  | { all: AchievementCondition[] }
+  | { any: AchievementCondition[] }
+  | { not: AchievementCondition }
+  | {
+      metric: AchievementMetric;
+      gte?: number;
+      lte?: number;
+      window_days?: number;
+      offset_days?: number;
+      filters?: {
+        before_hour?: number;
+        after_hour?: number;
+        weekdays?: number[]; // 0 = Sunday
+        exercise?: string;
+        min_reps?: number;
+        status?: string;
+      };
+    };
+
+export interface AchievementRule {
+  on?: AchievementEvent[];
+  when: AchievementCondition;
 }
 
+export type ChallengeType = 'weekly' | 'monthly' | 'special';
+export type ChallengeCategory = 'workout' | 'checkin' | 'streak' | 'goal';
+
 export interface Challenge {
   id: string;
   name: string;
   description: string;
-  type: 'weekly' | 'monthly' | 'special';
+  type: ChallengeType;
   target: number;
   current: number;
   reward: number;
+  startDate: string;
   endDate: string;
   active: boolean;
-  challenge_category: string;
+  challenge_category: ChallengeCategory;
+  enrolled: boolean;
+  completed: boolean;
+  pointsEarned: number;
+}
+
+// Admin view of a challenge, including closed and deactivated ones
+export interface ChallengeSummary extends Challenge {
+  format: 'solo' | 'team';
+  inviteOnly: boolean;
+  isActive: boolean;
+  closedAt: string | null;
+  enrolledCount: number;
+  completedCount: number;
+}
+
+export interface NewChallenge {
+  name: string;
+  description: string;
+  type: ChallengeType;
+  category: ChallengeCategory;
+  target: number;
+  reward: number;
+  startDate: string; // yyyy-mm-dd
+  endDate: string; // yyyy-mm-dd
+}
+
+export type LeaderboardMetric = 'points' | 'checkins' | 'streak' | 'volume';
+export type LeaderboardPeriod = 'week' | 'month' | 'all';
+export type LeaderboardScope = 'everyone' | 'friends' | 'trainer_group';
+
+export interface LeaderboardOptions {
+  metric?: LeaderboardMetric;
+  period?: LeaderboardPeriod;
+  scope?: LeaderboardScope;
+  limit?: number;
 }
 
 export interface LeaderboardEntry {
   id: string;
   username: string;
   fullName: string;
-  points: number;
+  points: number; // All-time total points
+  value: number; // Score for the requested metric and period
   level: number;
-  rank: number;
+  rank: number; // Ties share a rank
   avatar?: string;
+  isCurrentUser: boolean;
+}
+
+export type StreakMode = 'daily' | 'weekly';
+
+export interface StreakRules {
+  mode: StreakMode; // daily: consecutive gym days; weekly: consecutive weeks meeting weeklyTarget
+  weeklyTarget: number; // Gym days per week (weekly mode)
+  restDays: number[]; // Planned rest weekdays, 0 = Sunday (daily mode)
 }
 
 export interface UserStats {
-  totalPoints: number;
+  totalPoints: number; // Lifetime points earned
+  pointsBalance: number; // Points left to redeem
   currentStreak: number;
   longestStreak: number;
   level: number;
@@ -53,6 +148,84 @@ export interface UserStats {
   streakFreezeUsedThisWeek: boolean;
   streakFreezeWeekStart: string | null;
   lastCheckinDate: string | null;
+  streakRules: StreakRules;
+  streakWeekDays: number; // Gym days so far this week
+}
+
+// Reaching level L takes 50 * L * (L - 1) XP (lifetime points), matching
+// level_xp_threshold in the database
+export const LEVEL_XP_STEP = 100;
+
+export interface LevelProgress {
+  level: number;
+  levelXp: number; // XP needed to reach the current level
+  nextLevelXp: number; // XP needed to reach the next level
+  progress: number; // 0-1 through the current level
+}
+
+// Level and badge counts shown on trainer and member profile cards
+export interface ProfileBadgeSummary {
+  level: number;
+  totalPoints: number;
+  gold: number;
+  silver: number;
+  bronze: number;
+}
+
+export interface StreakHistoryEntry {
+  id: string;
+  mode: StreakMode; // Whether length counts days or weeks
+  startedOn: string; // yyyy-mm-dd
+  endedOn: string | null; // yyyy-mm-dd, null while the streak is running
+  length: number;
+  freezesUsed: number;
+  lastFreezeAt: string | null;
+}
+
+// An available_challenges row
+interface ChallengeRow {
+  id: string;
+  name: string;
+  description: string;
+  type: ChallengeType;
+  target_value: number;
+  reward_points: number;
+  start_date: string;
+  end_date: string;
+  challenge_category: ChallengeCategory;
+  format: 'solo' | 'team' | null;
+  invite_only: boolean | null;
+  is_active: boolean | null;
+  closed_at: string | null;
+}
+
+// A row returned by get_leaderboard
+interface LeaderboardRow {
+  user_id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  value: number | string;
+  total_points: number | null;
+  level: number | null;
+  rank: number;
+  is_current_user: boolean;
+}
+
+// Rows returned by get_achievement_rarity and get_profile_badges
+interface AchievementRarityRow {
+  achievement_id: string;
+  unlocked_count: number;
+  rarity: number | string;
+}
+
+interface ProfileBadgeRow {
+  user_id: string;
+  level: number;
+  total_points: number;
+  gold: number;
+  silver: number;
+  bronze: number;
 }
 
 export class GamificationService {
@@ -116,24 +289,39 @@ export class GamificationService {
     }
   }
 
-  // Fetch all available achievements
+  // Fetch all available achievements, with their rarity
   static async getAvailableAchievements(): Promise<Achievement[]> {
     try {
       console.log('🔍 Fetching available achievements...');
       
-      const { data, error } = await supabase
-        .from('available_achievements')
-        .select('*')
-        .eq('is_active', true)
-        .order('points', { ascending: true });
+      const [{ data, error }, { data: rarityData, error: rarityError }] = await Promise.all([
+        supabase
+          .from('available_achievements')
+          .select('*')
+          .eq('is_active', true)
+          .order('points', { ascending: true }),
+        supabase.rpc('get_achievement_rarity'),
+      ]);
 
       if (error) {
         console.error('❌ Error fetching available achievements:', error);
         return [];
       }
 
+      // Rarity is a nice-to-have; achievements still load without it
+      if (rarityError) {
+        console.error('❌ Error fetching achievement rarity:', rarityError);
+      }
+
+      const rarity = new Map<string, number>(
+        ((rarityData || []) as AchievementRarityRow[]).map(row => [row.achievement_id, Number(row.rarity)])
+      );
+
       console.log(`✅ Found ${data?.length || 0} available achievements`);
-      return data || [];
+      return (data || []).map(achievement => ({
+        ...achievement,
+        rarity: rarity.get(achievement.id),
+      }));
     } catch (error) {
       console.error('❌ Exception in getAvailableAchievements:', error);
       return [];
@@ -204,78 +392,59 @@ export class GamificationService {
     }
   }
 
-  // Check and unlock achievements based on user actions
-  static async checkAndUnlockAchievements(userId: string, action: string, value: number = 1): Promise<Achievement[]> {
+  // Ask the server to re-check every achievement rule for the signed-in user.
+  // Rules are also evaluated automatically on check-ins, workouts, sets,
+  // bookings and goals, so this is only needed to catch up (e.g. for rules
+  // added after the triggering activity). Returns newly unlocked achievements.
+  static async checkAndUnlockAchievements(): Promise<Achievement[]> {
     try {
-      const availableAchievements = await this.getAvailableAchievements();
-      const userAchievements = await this.getUserAchievements(userId);
-      const unlockedAchievements: Achievement[] = [];
-
-      for (const achievement of availableAchievements) {
-        // Skip if already unlocked
-        if (userAchievements.find(ua => ua.id === achievement.id)) {
-          continue;
-        }
+      const { data, error } = await supabase.rpc('check_my_achievements');
 
-        let shouldUnlock = false;
-
-        switch (achievement.requirement_type) {
-          case 'count':
-            if (action === achievement.category && value >= achievement.requirement_value) {
-              shouldUnlock = true;
-            }
-            break;
-          case 'streak':
-            if (action === 'streak' && value >= achievement.requirement_value) {
-              shouldUnlock = true;
-            }
-            break;
-          case 'goal':
-            if (action === 'goal' && value >= achievement.requirement_value) {
-              shouldUnlock = true;
-            }
-            break;
-          case 'special':
-            if (action === achievement.category && value >= achievement.requirement_value) {
-              shouldUnlock = true;
-            }
-            break;
-        }
-
-        if (shouldUnlock) {
-          // Unlock achievement
-          const { error } = await supabase
-            .from('user_achievements')
-            .insert({
-              user_id: userId,
-              achievement_id: achievement.id,
-              points_earned: achievement.points,
-            });
-
-          if (!error) {
-            unlockedAchievements.push({
-              ...achievement,
-              unlocked: true,
-              unlockedAt: new Date().toISOString(),
-            });
-          }
-        }
+      if (error) {
+        console.error('❌ Error checking achievements:', error);
+        return [];
       }
 
-      return unlockedAchievements;
+      const unlockedAt = new Date().toISOString();
+      return (data || []).map((achievement: Achievement) => ({
+        ...achievement,
+        unlocked: true,
+        unlockedAt,
+      }));
     } catch (error) {
       console.error('Error in checkAndUnlockAchievements:', error);
       return [];
     }
   }
 
-  // Fetch available challenges
+  private static mapChallenge(challenge: ChallengeRow): Challenge {
+    return {
+      id: challenge.id,
+      name: challenge.name,
+      description: challenge.description,
+      type: challenge.type,
+      target: challenge.target_value,
+      current: 0, // Will be updated with user progress
+      reward: challenge.reward_points,
+      startDate: challenge.start_date,
+      endDate: challenge.end_date,
+      active: true,
+      challenge_category: challenge.challenge_category,
+      enrolled: false,
+      completed: false,
+      pointsEarned: 0,
+    };
+  }
+
+  // Fetch solo challenges that are still open (team challenges live in teamChallenges.ts)
   static async getAvailableChallenges(): Promise<Challenge[]> {
     try {
       const { data, error } = await supabase
         .from('available_challenges')
         .select('*')
+        .eq('format', 'solo')
         .eq('is_active', true)
+        .is('closed_at', null)
         .gte('end_date', new Date().toISOString().split('T')[0])
         .order('end_date', { ascending: true });
 
@@ -284,25 +453,14 @@ export class GamificationService {
         return [];
       }
 
-      return (data || []).map(challenge => ({
-        id: challenge.id,
-        name: challenge.name,
-        description: challenge.description,
-        type: challenge.type,
-        target: challenge.target_value,
-        current: 0, // Will be updated with user progress
-        reward: challenge.reward_points,
-        endDate: challenge.end_date,
-        active: true,
-        challenge_category: challenge.challenge_category,
-      }));
+      return (data || []).map(challenge => this.mapChallenge(challenge));
     } catch (error) {
       console.error('Error in getAvailableChallenges:', error);
       return [];
     }
   }
 
-  // Fetch user's challenges with progress
+  // Fetch open challenges with the user's enrolment and progress
   static async getUserChallenges(userId: string): Promise<Challenge[]> {
     try {
       const availableChallenges = await this.getAvailableChallenges();
@@ -323,6 +481,9 @@ export class GamificationService {
           ...challenge,
           current: userChallenge?.current_progress || 0,
           active: !userChallenge?.completed,
+          enrolled: !!userChallenge,
+          completed: !!userChallenge?.completed,
+          pointsEarned: userChallenge?.points_earned || 0,
         };
       });
     } catch (error) {
@@ -331,123 +492,188 @@ export class GamificationService {
     }
   }
 
-  // Update challenge progress
-  static async updateChallengeProgress(userId: string, challengeId: string, progress: number): Promise<boolean> {
+  // Opt in to a challenge. Progress is counted by the server from the
+  // challenge's start date, so earlier activity in the period still counts.
+  static async joinChallenge(challengeId: string): Promise<{ success: boolean; progress?: number; error?: string }> {
     try {
-      const { error } = await supabase
-        .from('user_challenges')
-        .upsert({
-          user_id: userId,
-          challenge_id: challengeId,
-          current_progress: progress,
-          completed: progress >= 1, // Mark as completed if progress reaches target
-          completed_at: progress >= 1 ? new Date().toISOString() : null,
-          points_earned: progress >= 1 ? 100 : 0, // Default points, should come from challenge
-        });
+      const { data, error } = await supabase.rpc('join_challenge', { p_challenge_id: challengeId });
+
+      if (error) throw error;
+
+      return { success: true, progress: data ?? 0 };
+    } catch (error) {
+      console.error('Error joining challenge:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to join challenge'
+      };
+    }
+  }
+
+  // Leave a challenge that hasn't been completed yet
+  static async leaveChallenge(challengeId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('leave_challenge', { p_challenge_id: challengeId });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error leaving challenge:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to leave challenge'
+      };
+    }
+  }
+
+  // Ask the server to recount the signed-in user's open challenges. Progress
+  // also updates automatically on check-ins, workouts and goals; completing a
+  // challenge pays its reward points once.
+  static async refreshChallengeProgress(): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('refresh_my_challenges');
 
       if (error) {
-        console.error('Error updating challenge progress:', error);
+        console.error('Error refreshing challenge progress:', error);
         return false;
       }
 
       return true;
     } catch (error) {
-      console.error('Error in updateChallengeProgress:', error);
+      console.error('Error in refreshChallengeProgress:', error);
       return false;
     }
   }
 
-  // Fetch leaderboard
-  static async getLeaderboard(): Promise<LeaderboardEntry[]> {
+  // Admin: every challenge, newest first, with enrolment counts
+  static async getAllChallenges(): Promise<ChallengeSummary[]> {
     try {
-      console.log('🔍 Fetching leaderboard...');
-      
-      // First get the gamification stats
-      const { data: statsData, error: statsError } = await supabase
-        .from('user_gamification_stats')
-        .select('*')
-        .order('total_points', { ascending: false })
-        .limit(50);
+      const { data, error } = await supabase
+        .from('available_challenges')
+        .select('*, user_challenges (completed)')
+        .order('start_date', { ascending: false });
 
-      if (statsError) {
-        console.error('❌ Error fetching gamification stats:', statsError);
-        return [];
-      }
+      if (error) throw error;
 
-      if (!statsData || statsData.length === 0) {
-        console.log('ℹ️ No gamification stats found for leaderboard');
-        return [];
-      }
+      return ((data || []) as (ChallengeRow & { user_challenges: { completed: boolean }[] | null })[]).map(challenge => {
+        const entries = challenge.user_challenges || [];
+        return {
+          ...this.mapChallenge(challenge),
+          active: !!challenge.is_active && !challenge.closed_at,
+          format: challenge.format ?? 'solo',
+          inviteOnly: !!challenge.invite_only,
+          isActive: !!challenge.is_active,
+          closedAt: challenge.closed_at,
+          enrolledCount: entries.length,
+          completedCount: entries.filter(entry => entry.completed).length,
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching all challenges:', error);
+      return [];
+    }
+  }
 
-      console.log(`✅ Found ${statsData.length} users for leaderboard`);
+  // Admin: create a challenge
+  static async createChallenge(challenge: NewChallenge): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
 
-      // Get user IDs for profile lookup
-      const userIds = statsData.map(entry => entry.user_id);
+      const { error } = await supabase
+        .from('available_challenges')
+        .insert({
+          name: challenge.name,
+          description: challenge.description,
+          type: challenge.type,
+          challenge_category: challenge.category,
+          target_value: challenge.target,
+          reward_points: challenge.reward,
+          start_date: challenge.startDate,
+          end_date: challenge.endDate,
+          created_by: user?.id ?? null,
+        });
 
-      // Fetch user profiles separately
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('user_profiles')
-        .select('id, username, full_name')
-        .in('id', userIds);
+      if (error) throw error;
 
-      if (profilesError) {
-        console.error('❌ Error fetching user profiles:', profilesError);
-        // Continue without profile data
-      } else {
-        console.log(`✅ Found ${profilesData?.length || 0} user profiles`);
-      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error creating challenge:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create challenge'
+      };
+    }
+  }
 
-      // Create a map of user ID to profile data
-      const profileMap = new Map();
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profileMap.set(profile.id, profile);
-        });
-      }
+  // Admin: hide a challenge from members (or show it again)
+  static async setChallengeActive(challengeId: string, isActive: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('available_challenges')
+        .update({ is_active: isActive })
+        .eq('id', challengeId);
 
-      // Combine the data
-      const leaderboard = statsData.map((entry, index) => {
-        const profile = profileMap.get(entry.user_id);
-        return {
-          id: entry.user_id,
-          username: profile?.username || 'user_' + entry.user_id.slice(0, 8),
-          fullName: profile?.full_name || 'Unknown User',
-          points: entry.total_points,
-          level: entry.current_level,
-          rank: index + 1,
-        };
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating challenge:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update challenge'
+      };
+    }
+  }
+
+  // Fetch a leaderboard. The current user's entry is always included, after
+  // the top entries when they are outside them.
+  static async getLeaderboard(options: LeaderboardOptions = {}): Promise<LeaderboardEntry[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_leaderboard', {
+        p_metric: options.metric ?? 'points',
+        p_period: options.period ?? 'all',
+        p_scope: options.scope ?? 'everyone',
+        p_limit: options.limit ?? 50,
       });
 
-      console.log(`✅ Leaderboard created with ${leaderboard.length} entries`);
-      return leaderboard;
+      if (error) throw error;
+
+      return ((data || []) as LeaderboardRow[]).map(entry => ({
+        id: entry.user_id,
+        username: entry.username || 'user_' + entry.user_id.slice(0, 8),
+        fullName: entry.full_name || 'Unknown User',
+        points: entry.total_points || 0,
+        value: Number(entry.value) || 0,
+        level: entry.level || 1,
+        rank: entry.rank,
+        avatar: entry.avatar_url || undefined,
+        isCurrentUser: entry.is_current_user,
+      }));
     } catch (error) {
       console.error('❌ Exception in getLeaderboard:', error);
       return [];
     }
   }
 
-  // Record workout session
-  static async recordWorkout(userId: string, workoutType: string, durationMinutes: number): Promise<boolean> {
+  // Record a finished workout for the current user. The server enforces the
+  // daily limit and maximum length, and flags anything over them for review.
+  static async recordWorkout(workoutType: string = 'gym_session', durationMinutes: number = 0): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('user_workout_sessions')
-        .insert({
-          user_id: userId,
-          workout_date: new Date().toISOString().split('T')[0],
-          workout_type: workoutType,
-          duration_minutes: durationMinutes,
-        });
+      const { data, error } = await supabase.rpc('record_workout_session', {
+        p_workout_type: workoutType,
+        p_duration_minutes: durationMinutes,
+      });
 
       if (error) {
         console.error('Error recording workout:', error);
         return false;
       }
 
-      // Update user stats
-      await this.updateUserStats(userId, 'workout', 1);
-      
-      // Check for achievements
-      await this.checkAndUnlockAchievements(userId, 'workout', 1);
+      if (!data?.success) {
+        console.warn('Workout not recorded:', data?.error_code);
+        return false;
+      }
 
       return true;
     } catch (error) {
@@ -456,187 +682,87 @@ export class GamificationService {
     }
   }
 
-  // Record check-in
-    static async recordCheckin(userId: string): Promise<boolean> {
+  // Change how the current user's streak is counted. A new mode, rest days or
+  // weekly target starts a new streak.
+  static async setStreakRules(rules: StreakRules): Promise<{ success: boolean; error?: string }> {
     try {
-      // Update user stats
-      await this.updateUserStats(userId, 'checkin', 1);
-      
-      // Check for achievements
-      await this.checkAndUnlockAchievements(userId, 'checkin', 1);
-      
-      // Update workout frequency and streak
-      await this.updateWorkoutStats(userId);
-      
-      return true;
+      const { error } = await supabase.rpc('set_streak_rules', {
+        p_mode: rules.mode,
+        p_weekly_target: rules.weeklyTarget,
+        p_rest_days: rules.restDays,
+      });
+
+      if (error) throw error;
+
+      return { success: true };
     } catch (error) {
-      console.error('Error in recordCheckin:', error);
-      return false;
+      console.error('Error updating streak rules:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : (error as { message?: string } | null)?.message || 'Failed to update streak rules',
+      };
     }
   }
 
-
-
-  static async updateWorkoutStats(userId: string): Promise<void> {
+  // Fetch the user's streaks, newest first. The running streak (if any) has no endedOn.
+  static async getStreakHistory(userId: string): Promise<StreakHistoryEntry[]> {
     try {
-      const { data: currentStats } = await supabase
-        .from('user_gamification_stats')
+      const { data, error } = await supabase
+        .from('streak_history')
         .select('*')
         .eq('user_id', userId)
-        .single();
-
-      if (!currentStats) return;
-
-      const today = new Date().toISOString().split('T')[0];
-      const lastCheckinDate = currentStats.last_checkin_date;
-      
-      // Only update if this is a new day (not multiple check-ins on same day)
-      if (lastCheckinDate === today) {
-        // Same day, don't update streak or workout days
-        return;
-      }
-      
-      // Calculate streak
-      let newStreak = currentStats.current_streak || 0;
-      
-      if (lastCheckinDate) {
-        const lastDate = new Date(lastCheckinDate);
-        const todayDate = new Date(today);
-        const diffTime = Math.abs(todayDate.getTime() - lastDate.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        
-        if (diffDays === 1) {
-          // Consecutive day
-          newStreak += 1;
-        } else if (diffDays > 1) {
-          // Streak broken
-          newStreak = 1;
-        } else {
-          // Same day, don't change streak
-          newStreak = currentStats.current_streak || 1;
-        }
-      } else {
-        // First check-in
-        newStreak = 1;
-      }
-
-      // Update longest streak if current is longer
-      const longestStreak = Math.max(currentStats.longest_streak || 0, newStreak);
-
-      // Update stats - only increment workout days for new days
-      await supabase
-        .from('user_gamification_stats')
-        .update({
-          current_streak: newStreak,
-          longest_streak: longestStreak,
-          last_checkin_date: today,
-          total_workouts: (currentStats.total_workouts || 0) + 1, // Track unique workout days
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', userId);
-
+        .order('started_on', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(entry => ({
+        id: entry.id,
+        mode: entry.streak_mode || 'daily',
+        startedOn: entry.started_on,
+        endedOn: entry.ended_on,
+        length: entry.streak_length,
+        freezesUsed: entry.freezes_used || 0,
+        lastFreezeAt: entry.last_freeze_at,
+      }));
     } catch (error) {
-      console.error('Error updating workout stats:', error);
+      console.error('Error fetching streak history:', error);
+      return [];
     }
   }
 
-  static async checkStreakExpiration(): Promise<void> {
+  // When the user last froze a streak, or null if they never have
+  static async getLastStreakFreeze(userId: string): Promise<string | null> {
     try {
-      const { data: allUsers } = await supabase
-        .from('user_gamification_stats')
-        .select('user_id, last_checkin_date, current_streak, streak_frozen, streak_frozen_at');
-
-      if (!allUsers) return;
-
-      const today = new Date();
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-
-      for (const user of allUsers) {
-        if (user.last_checkin_date && user.current_streak > 0) {
-          const lastCheckin = new Date(user.last_checkin_date);
-          const timeDiff = today.getTime() - lastCheckin.getTime();
-          const hoursDiff = timeDiff / (1000 * 60 * 60);
-
-          // Check if streak is frozen
-          if (user.streak_frozen && user.streak_frozen_at) {
-            const frozenAt = new Date(user.streak_frozen_at);
-            const frozenTimeDiff = today.getTime() - frozenAt.getTime();
-            const frozenHoursDiff = frozenTimeDiff / (1000 * 60 * 60);
-
-            // If frozen for more than 24 hours, unfreeze and check expiration
-            if (frozenHoursDiff >= 24) {
-              await supabase
-                .from('user_gamification_stats')
-                .update({
-                  streak_frozen: false,
-                  streak_frozen_at: null,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('user_id', user.user_id);
-
-              // Now check if streak should expire
-              if (hoursDiff >= 24) {
-                await supabase
-                  .from('user_gamification_stats')
-                  .update({
-                    current_streak: 0,
-                    updated_at: new Date().toISOString(),
-                  })
-                  .eq('user_id', user.user_id);
-              }
-            }
-          } else {
-            // Streak not frozen, check normal expiration
-            if (hoursDiff >= 24) {
-              await supabase
-                .from('user_gamification_stats')
-                .update({
-                  current_streak: 0,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('user_id', user.user_id);
-            }
-          }
-        }
-      }
+      const { data, error } = await supabase
+        .from('streak_history')
+        .select('last_freeze_at')
+        .eq('user_id', userId)
+        .not('last_freeze_at', 'is', null)
+        .order('last_freeze_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.last_freeze_at ?? null;
     } catch (error) {
-      console.error('Error checking streak expiration:', error);
+      console.error('Error fetching last streak freeze:', error);
+      return null;
     }
   }
 
-  // Freeze streak for 24 hours (once per week)
+  // Freeze streak for 24 hours (once per week). The server enforces the
+  // weekly allowance.
   static async freezeStreak(userId: string): Promise<{ success: boolean; message: string; canFreeze: boolean }> {
     try {
-      const { data: currentStats } = await supabase
-        .from('user_gamification_stats')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (!currentStats) {
-        return { success: false, message: 'User stats not found', canFreeze: false };
-      }
+      const { data: result, error } = await supabase.rpc('freeze_streak');
 
-      // Check if user can freeze this week
-      const today = new Date();
-      const weekStart = this.getWeekStart(today);
-      
-      // Reset weekly freeze if it's a new week
-      if (currentStats.streak_freeze_week_start !== weekStart.toISOString().split('T')[0]) {
-        await supabase
-          .from('user_gamification_stats')
-          .update({
-            streak_freeze_used_this_week: false,
-            streak_freeze_week_start: weekStart.toISOString().split('T')[0],
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', userId);
-        
-        currentStats.streak_freeze_used_this_week = false;
+      if (error) {
+        console.error('Error freezing streak:', error);
+        return { success: false, message: 'Failed to freeze streak', canFreeze: false };
       }
 
-      if (currentStats.streak_freeze_used_this_week) {
+      if (result?.error_code === 'FREEZE_ALREADY_USED') {
         return { 
           success: false, 
           message: 'You can only freeze your streak once per week. Save it for when you really need it!', 
@@ -644,7 +770,7 @@ export class GamificationService {
         };
       }
 
-      if (currentStats.current_streak === 0) {
+      if (result?.error_code === 'NO_ACTIVE_STREAK') {
         return { 
           success: false, 
           message: 'No active streak to freeze', 
@@ -652,20 +778,8 @@ export class GamificationService {
         };
       }
 
-      // Freeze the streak
-      const { error } = await supabase
-        .from('user_gamification_stats')
-        .update({
-          streak_frozen: true,
-          streak_frozen_at: new Date().toISOString(),
-          streak_freeze_used_this_week: true,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', userId);
-
-      if (error) {
-        console.error('Error freezing streak:', error);
-        return { success: false, message: 'Failed to freeze streak', canFreeze: false };
+      if (!result?.success) {
+        return { success: false, message: 'User stats not found', canFreeze: false };
       }
 
       return { 
@@ -679,70 +793,75 @@ export class GamificationService {
     }
   }
 
-  // Helper function to get the start of the week (Monday)
-  private static getWeekStart(date: Date): Date {
-    const d = new Date(date);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-    return new Date(d.setDate(diff));
+  static getLevelThreshold(level: number): number {
+    const safeLevel = Math.max(level, 1);
+    return (LEVEL_XP_STEP / 2) * safeLevel * (safeLevel - 1);
   }
 
-  // Update user stats
-  static async updateUserStats(userId: string, action: string, value: number = 1): Promise<boolean> {
-    try {
-      const { data: currentStats } = await supabase
-        .from('user_gamification_stats')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (!currentStats) {
-        return false;
-      }
+  static getLevelProgress(totalPoints: number): LevelProgress {
+    let level = 1;
+    while (this.getLevelThreshold(level + 1) <= totalPoints) {
+      level++;
+    }
 
-      let updates: any = { updated_at: new Date().toISOString() };
-
-      switch (action) {
-        case 'workout':
-          // Don't increment workout days here - that's handled in updateWorkoutStats
-          updates.last_workout_date = new Date().toISOString().split('T')[0];
-          break;
-        case 'checkin':
-          updates.total_checkins = currentStats.total_checkins + value;
-          // Don't update last_checkin_date here - that's handled in updateWorkoutStats
-          break;
-        case 'goal':
-          updates.total_goals_achieved = currentStats.total_goals_achieved + value;
-          break;
-        case 'streak':
-          updates.current_streak = value;
-          if (value > currentStats.longest_streak) {
-            updates.longest_streak = value;
-          }
-          break;
-      }
+    const levelXp = this.getLevelThreshold(level);
+    const nextLevelXp = this.getLevelThreshold(level + 1);
 
-      const { error } = await supabase
-        .from('user_gamification_stats')
-        .update(updates)
-        .eq('user_id', userId);
+    return {
+      level,
+      levelXp,
+      nextLevelXp,
+      progress: (totalPoints - levelXp) / (nextLevelXp - levelXp),
+    };
+  }
 
-      if (error) {
-        console.error('Error updating user stats:', error);
-        return false;
-      }
+  // Keyed by user id. People hidden by their privacy settings are left out.
+  static async getProfileBadges(userIds: string[]): Promise<Record<string, ProfileBadgeSummary>> {
+    if (userIds.length === 0) return {};
 
-      return true;
+    try {
+      const { data, error } = await supabase
+        .rpc('get_profile_badges', { p_user_ids: userIds });
+
+      if (error) throw error;
+
+      const badges: Record<string, ProfileBadgeSummary> = {};
+      ((data || []) as ProfileBadgeRow[]).forEach(row => {
+        badges[row.user_id] = {
+          level: row.level,
+          totalPoints: row.total_points,
+          gold: row.gold,
+          silver: row.silver,
+          bronze: row.bronze,
+        };
+      });
+      return badges;
     } catch (error) {
-      console.error('Error in updateUserStats:', error);
-      return false;
+      console.error('Error fetching profile badges:', error);
+      return {};
     }
   }
 
+  // yyyy-mm-dd in local time
+  private static toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  // Helper function to get the start of the week (Monday)
+  private static getWeekStart(date: Date): Date {
+    const d = new Date(date);
+    const day = d.getDay();
+    const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
+    return new Date(d.setDate(diff));
+  }
+
   // Helper function to map database stats to UserStats interface
   private static mapUserStats(data: any): UserStats {
     return {
       totalPoints: data.total_points || 0,
+      pointsBalance: data.points_balance || 0,
       currentStreak: data.current_streak || 0,
       longestStreak: data.longest_streak || 0,
       level: data.current_level || 1,
@@ -757,6 +876,15 @@ export class GamificationService {
       streakFreezeUsedThisWeek: data.streak_freeze_used_this_week || false,
       streakFreezeWeekStart: data.streak_freeze_week_start || null,
       lastCheckinDate: data.last_checkin_date || null,
+      streakRules: {
+        mode: data.streak_mode || 'daily',
+        weeklyTarget: data.weekly_target || 3,
+        restDays: data.rest_days || [],
+      },
+      // Only counts if the server last saw a check-in this week
+      streakWeekDays: data.streak_week_start === this.toDateKey(this.getWeekStart(new Date()))
+        ? data.streak_week_days || 0
+        : 0,
     };
   }
 }
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+
+export type FlagEventType = 'checkin' | 'workout' | 'exercise_sets' | 'stats';
+
+export type FlagStatus = 'open' | 'dismissed' | 'confirmed';
+
+// A check-in, workout, set or stats change the server refused or undid
+export interface GamificationFlag {
+  id: string;
+  userId: string;
+  memberName: string | null;
+  eventType: FlagEventType;
+  reason: string;
+  details: Record<string, any>;
+  status: FlagStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export const FLAG_REASON_LABELS: Record<string, string> = {
+  INVALID_QR_TOKEN: 'Check-in with an invalid QR code',
+  QR_REPLAYED: 'Check-in with a reused QR code',
+  TOO_MANY_CHECKINS: 'Too many check-ins in a day',
+  IMPOSSIBLE_WORKOUT_LENGTH: 'Impossible workout length',
+  TOO_MANY_WORKOUTS: 'Too many workouts in a day',
+  IMPOSSIBLE_SET: 'Impossible set',
+  TOO_MANY_SETS: 'Too many sets in a day',
+  WORKOUT_DATE_TOO_OLD: 'Sets logged for an old date',
+  STATS_TAMPERING: 'Stats changed from the app',
+};
+
+type Result = { success: boolean; error?: string };
+
+// Admin: flags with the given status, newest first
+export async function getGamificationFlags(status: FlagStatus = 'open', limit = 100): Promise<GamificationFlag[]> {
+  try {
+    const { data, error } = await supabase
+      .from('gamification_flags')
+      .select('*, user_profiles!gamification_flags_user_id_fkey(username, full_name)')
+      .eq('status', status)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map(flag => ({
+      id: flag.id,
+      userId: flag.user_id,
+      memberName: flag.user_profiles?.full_name || flag.user_profiles?.username || null,
+      eventType: flag.event_type,
+      reason: flag.reason,
+      details: flag.details || {},
+      status: flag.status,
+      reviewedAt: flag.reviewed_at,
+      createdAt: flag.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching gamification flags:', error);
+    return [];
+  }
+}
+
+// Admin: confirm a flag as cheating or dismiss it as a false alarm. Points
+// are corrected separately from the Points & Rewards screen.
+export async function reviewGamificationFlag(flagId: string, status: Exclude<FlagStatus, 'open'>): Promise<Result> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('gamification_flags')
+      .update({
+        status,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', flagId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error reviewing gamification flag:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update flag',
+    };
+  }
+}
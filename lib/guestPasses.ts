@@ -0,0 +1,216 @@
+import { supabase } from './supabase';
+
+export const GUEST_PASS_PREFIX = 'rggp1';
+
+export type GuestPassErrorCode =
+  | 'GUEST_PASS_NOT_FOUND'
+  | 'GUEST_PASS_REVOKED'
+  | 'GUEST_PASS_EXPIRED'
+  | 'GUEST_PASS_USED_UP'
+  | 'GUEST_PASS_SPONSOR_BLOCKED'
+  | 'GUEST_PASS_QUOTA_REACHED'
+  | 'GUEST_PASS_TOO_MANY_USES'
+  | 'GYM_AT_CAPACITY';
+
+export interface GuestPass {
+  id: string;
+  token: string;
+  guest_name: string;
+  sponsor_id: string | null;
+  issued_by: string;
+  location_id: string;
+  max_uses: number;
+  uses: number;
+  valid_until: string;
+  revoked_at: string | null;
+  created_at: string;
+  sponsor?: {
+    full_name: string | null;
+    username: string | null;
+  } | null;
+}
+
+export interface GuestPassQuota {
+  issued: number;
+  quota: number;
+  maxUses: number;
+}
+
+export interface GuestPassRedemption {
+  valid: boolean;
+  errorCode?: GuestPassErrorCode;
+  guestName?: string;
+  locationId?: string;
+  remainingUses?: number;
+}
+
+export const isGuestPassToken = (qrData: string): boolean =>
+  qrData.startsWith(`${GUEST_PASS_PREFIX}:`);
+
+export type GuestPassStatus = 'active' | 'used' | 'expired' | 'revoked';
+
+export function getGuestPassStatus(pass: GuestPass): GuestPassStatus {
+  if (pass.revoked_at) return 'revoked';
+  if (pass.uses >= pass.max_uses) return 'used';
+  if (new Date(pass.valid_until) < new Date()) return 'expired';
+  return 'active';
+}
+
+// Errors raised by the issue function carry the error code as their message
+const toGuestPassErrorCode = (message: string): GuestPassErrorCode | undefined => {
+  const match = message.match(/GUEST_PASS_[A-Z_]+/);
+  return match ? (match[0] as GuestPassErrorCode) : undefined;
+};
+
+// Passes the current user sponsors or issued. Admins see every pass.
+export async function getGuestPasses(limit: number = 100): Promise<GuestPass[]> {
+  try {
+    const { data, error } = await supabase
+      .from('guest_passes')
+      .select(`
+        *,
+        sponsor:user_profiles!guest_passes_sponsor_id_fkey (
+          full_name,
+          username
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error getting guest passes:', error);
+    return [];
+  }
+}
+
+export async function getGuestPassQuota(): Promise<GuestPassQuota | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_guest_pass_quota');
+
+    if (error) throw error;
+
+    return {
+      issued: Number(data.issued) || 0,
+      quota: Number(data.quota) || 0,
+      maxUses: Number(data.max_uses) || 1,
+    };
+  } catch (error) {
+    console.error('Error getting guest pass quota:', error);
+    return null;
+  }
+}
+
+// Issue a pass. Members are held to the monthly quota and the maximum validity
+// by the server; admins may issue a house pass (no sponsor) or sponsor it on a
+// member's behalf.
+export async function issueGuestPass(options: {
+  guestName: string;
+  maxUses?: number;
+  validDays?: number;
+  locationId?: string;
+  sponsorId?: string;
+}): Promise<{ success: boolean; pass?: GuestPass; error?: string; errorCode?: GuestPassErrorCode }> {
+  try {
+    const { data, error } = await supabase.rpc('issue_guest_pass', {
+      p_guest_name: options.guestName,
+      p_max_uses: options.maxUses ?? 1,
+      p_valid_days: options.validDays ?? 30,
+      p_location_id: options.locationId ?? null,
+      p_sponsor_id: options.sponsorId ?? null,
+    });
+
+    if (error) throw error;
+
+    return { success: true, pass: data };
+  } catch (error) {
+    console.error('Error issuing guest pass:', error);
+    const message = error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || 'Failed to issue guest pass';
+    return { success: false, error: message, errorCode: toGuestPassErrorCode(message) };
+  }
+}
+
+export async function revokeGuestPass(passId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('revoke_guest_pass', { p_pass_id: passId });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error revoking guest pass:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke guest pass'
+    };
+  }
+}
+
+// Check a guest in by scanning their pass. The guest needs no account.
+export async function redeemGuestPass(token: string): Promise<GuestPassRedemption> {
+  try {
+    const { data, error } = await supabase.rpc('redeem_guest_pass', { p_token: token });
+
+    if (error) throw error;
+
+    return {
+      valid: !!data?.valid,
+      errorCode: data?.error_code,
+      guestName: data?.guest_name,
+      locationId: data?.location_id,
+      remainingUses: data?.remaining_uses,
+    };
+  } catch (error) {
+    console.error('Error redeeming guest pass:', error);
+    return { valid: false, errorCode: 'GUEST_PASS_NOT_FOUND' };
+  }
+}
+
+export const getGuestPassErrorMessage = (code?: string): { title: string; message: string } => {
+  switch (code) {
+    case 'GUEST_PASS_REVOKED':
+      return {
+        title: 'Pass Revoked',
+        message: 'This guest pass has been cancelled by the member who issued it.',
+      };
+    case 'GUEST_PASS_EXPIRED':
+      return {
+        title: 'Pass Expired',
+        message: 'This guest pass has expired. Ask the member for a new one.',
+      };
+    case 'GUEST_PASS_USED_UP':
+      return {
+        title: 'Pass Used Up',
+        message: 'All visits on this guest pass have been used.',
+      };
+    case 'GUEST_PASS_SPONSOR_BLOCKED':
+      return {
+        title: 'Pass Not Valid',
+        message: 'The member who issued this pass can\'t sponsor guests right now. Please speak to the front desk.',
+      };
+    case 'GUEST_PASS_QUOTA_REACHED':
+      return {
+        title: 'Monthly Limit Reached',
+        message: 'You\'ve issued all your guest passes for this month.',
+      };
+    case 'GUEST_PASS_TOO_MANY_USES':
+      return {
+        title: 'Too Many Visits',
+        message: 'Guest passes can\'t have that many visits. Please choose fewer.',
+      };
+    case 'GYM_AT_CAPACITY':
+      return {
+        title: 'Gym Is Full',
+        message: 'The gym has reached its capacity right now. Please try again a little later.',
+      };
+    default:
+      return {
+        title: 'Invalid Guest Pass',
+        message: 'This guest pass could not be found. Please check the code and try again.',
+      };
+  }
+};
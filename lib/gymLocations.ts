@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+
+export interface GymLocation {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  timezone: string;
+  capacity: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Get gym locations, active ones only unless includeInactive is set
+export async function getGymLocations(includeInactive: boolean = false): Promise<GymLocation[]> {
+  try {
+    let query = supabase
+      .from('gym_locations')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error('Error getting gym locations:', error);
+    return [];
+  }
+}
+
+// Turn a display name into a location id, e.g. "North Branch" -> "north-branch"
+export function toGymLocationId(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Create a gym location (admins only - enforced by RLS). The database
+// creates the location's QR signing secret automatically.
+export async function createGymLocation(
+  location: Pick<GymLocation, 'name'> & Partial<Pick<GymLocation, 'id' | 'address' | 'city' | 'timezone'>>
+): Promise<{ success: boolean; location?: GymLocation; error?: string }> {
+  try {
+    const id = location.id || toGymLocationId(location.name);
+    if (!id) throw new Error('Location name is required');
+
+    const { data, error } = await supabase
+      .from('gym_locations')
+      .insert({ ...location, id })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return { success: true, location: data };
+  } catch (error) {
+    console.error('Error creating gym location:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create gym location'
+    };
+  }
+}
+
+// Activate or deactivate a gym location (admins only - enforced by RLS)
+export async function setGymLocationActive(
+  locationId: string,
+  isActive: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('gym_locations')
+      .update({ is_active: isActive })
+      .eq('id', locationId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating gym location:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update gym location'
+    };
+  }
+}
+
+// Set how many people a location can hold (admins only - enforced by RLS)
+export async function setGymLocationCapacity(
+  locationId: string,
+  capacity: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('Capacity must be a whole number greater than zero');
+    }
+
+    const { error } = await supabase
+      .from('gym_locations')
+      .update({ capacity })
+      .eq('id', locationId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating gym location capacity:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update gym location capacity'
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+
+export interface GymSettings {
+  max_session_hours: number;
+  default_session_minutes: number;
+  block_checkins_at_capacity: boolean;
+  membership_grace_days: number;
+  guest_passes_per_month: number;
+  guest_pass_max_uses: number;
+  guest_pass_max_valid_days: number;
+  checkin_points: number;
+  checkin_cooldown_minutes: number;
+  max_checkins_per_day: number;
+  max_workouts_per_day: number;
+  max_workout_minutes: number;
+  max_sets_per_exercise: number;
+  max_sets_per_day: number;
+  max_reps_per_set: number;
+  max_set_weight_kg: number;
+  max_member_challenges_per_week: number;
+}
+
+export type GymSettingKey = keyof GymSettings;
+
+// Settings that are edited as numbers
+export type NumericGymSettingKey = {
+  [K in GymSettingKey]: GymSettings[K] extends number ? K : never
+}[GymSettingKey];
+
+export const DEFAULT_GYM_SETTINGS: GymSettings = {
+  max_session_hours: 4,
+  default_session_minutes: 90,
+  block_checkins_at_capacity: false,
+  membership_grace_days: 3,
+  guest_passes_per_month: 2,
+  guest_pass_max_uses: 3,
+  guest_pass_max_valid_days: 30,
+  checkin_points: 10,
+  checkin_cooldown_minutes: 10,
+  max_checkins_per_day: 5,
+  max_workouts_per_day: 3,
+  max_workout_minutes: 360,
+  max_sets_per_exercise: 20,
+  max_sets_per_day: 150,
+  max_reps_per_set: 100,
+  max_set_weight_kg: 500,
+  max_member_challenges_per_week: 2,
+};
+
+// Get all gym settings, falling back to defaults for missing keys
+export async function getGymSettings(): Promise<GymSettings> {
+  try {
+    const { data, error } = await supabase
+      .from('gym_settings')
+      .select('key, value');
+
+    if (error) throw error;
+
+    const settings: GymSettings = { ...DEFAULT_GYM_SETTINGS };
+    (data || []).forEach(row => {
+      if (row.key in settings) {
+        (settings as any)[row.key] = row.value;
+      }
+    });
+
+    return settings;
+  } catch (error) {
+    console.error('Error getting gym settings:', error);
+    return { ...DEFAULT_GYM_SETTINGS };
+  }
+}
+
+// Update a single gym setting (admins only - enforced by RLS)
+export async function updateGymSetting<K extends GymSettingKey>(
+  key: K,
+  value: GymSettings[K]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('gym_settings')
+      .upsert({
+        key,
+        value,
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating gym setting:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update gym setting'
+    };
+  }
+}
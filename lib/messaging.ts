@@ -1,12 +1,18 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
 import { supabase } from './supabase';
 import { canSendMessage } from './privacySettings';
 
 export interface Conversation {
   id: string;
-  participant_1_id: string;
-  participant_2_id: string;
+  participant_1_id: string; // The owner in a group
+  participant_2_id: string | null; // Empty in a group
   participant_1_type: 'user' | 'trainer';
-  participant_2_type: 'user' | 'trainer';
+  participant_2_type: 'user' | 'trainer' | null;
+  is_group: boolean;
+  name?: string | null;
+  avatar_url?: string | null;
+  created_by?: string | null;
   last_message_id?: string;
   last_message_time: string;
   unread_count_participant_1: number;
@@ -19,9 +25,9 @@ export interface Message {
   id: string;
   conversation_id: string;
   sender_id: string;
-  receiver_id: string;
+  receiver_id: string | null; // Empty for group messages
   content: string;
-  message_type: 'text' | 'image' | 'file' | 'system';
+  message_type: 'text' | 'image' | 'file' | 'system' | 'audio' | 'video';
   is_read: boolean;
   read_at?: string;
   created_at: string;
@@ -31,12 +37,18 @@ export interface Message {
   file_size?: number;
   file_type?: string;
   thumbnail_url?: string;
+  media_duration_ms?: number | null; // Voice notes and videos
   delivery_status: 'sent' | 'delivered' | 'read' | 'failed';
   delivered_at?: string;
   reply_to_message_id?: string;
+  edited_at?: string | null; // Set once the text has been changed
+  forwarded_from_message_id?: string | null;
+  pinned_at?: string | null;
+  pinned_by?: string | null;
 }
 
 export interface ConversationWithParticipant extends Conversation {
+  // The other person, or for a group the group itself (id is the conversation id)
   other_participant: {
     id: string;
     name: string;
@@ -48,6 +60,23 @@ export interface ConversationWithParticipant extends Conversation {
     sender_id: string;
     created_at: string;
   };
+  unread_count: number; // For the current user
+  group?: {
+    role: GroupRole;
+    member_count: number;
+  };
+}
+
+export type GroupRole = 'owner' | 'member';
+
+export interface ConversationMember {
+  conversation_id: string;
+  user_id: string;
+  name: string;
+  avatar_url?: string;
+  role: GroupRole;
+  joined_at: string;
+  last_read_at: string;
 }
 
 export interface MessageWithSender extends Message {
@@ -57,6 +86,23 @@ export interface MessageWithSender extends Message {
     type: 'user' | 'trainer';
     avatar_url?: string;
   };
+  reply_to?: MessageQuote | null; // The message this one replies to, if it still exists
+}
+
+// Enough of a message to quote it above a reply
+export interface MessageQuote {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  content: string;
+  message_type: Message['message_type'];
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
 }
 
 export interface MessageReaction {
@@ -92,129 +138,278 @@ export interface NotificationPreferences {
   updated_at: string;
 }
 
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePage {
+  messages: MessageWithSender[]; // Newest first
+  nextCursor: MessageCursor | null; // Pass as `before` for older messages; null once there are none
+}
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+interface ProfileSummary {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  user_type: string | null;
+}
+
+// One user_profiles query for everyone in a list, instead of one per row
+const getProfilesById = async (ids: (string | null | undefined)[]): Promise<Map<string, ProfileSummary>> => {
+  const uniqueIds = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  if (uniqueIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, full_name, username, avatar_url, user_type')
+    .in('id', uniqueIds);
+
+  if (error) throw error;
+  return new Map((data || []).map(profile => [profile.id, profile]));
+};
+
+const profileName = (profile?: ProfileSummary) =>
+  profile?.full_name || profile?.username || 'Unknown User';
+
+// What a group chat shows in place of the other person
+const groupParticipant = (conv: Conversation): ConversationWithParticipant['other_participant'] => ({
+  id: conv.id,
+  name: conv.name || 'Group',
+  type: 'user',
+  avatar_url: conv.avatar_url || undefined
+});
+
+// A direct conversation always has both participants
+type DirectConversation = Conversation & {
+  participant_2_id: string;
+  participant_2_type: 'user' | 'trainer';
+};
+
+// The other person in a direct conversation
+const directParticipant = (
+  conv: DirectConversation,
+  userId: string,
+  profiles: Map<string, ProfileSummary>
+): ConversationWithParticipant['other_participant'] => {
+  const isFirst = conv.participant_1_id === userId;
+  const otherParticipantId = isFirst ? conv.participant_2_id : conv.participant_1_id;
+  const profile = profiles.get(otherParticipantId);
+
+  return {
+    id: otherParticipantId,
+    name: profileName(profile),
+    type: isFirst ? conv.participant_2_type : conv.participant_1_type,
+    avatar_url: profile?.avatar_url || undefined
+  };
+};
+
+const directUnreadCount = (conv: DirectConversation, userId: string): number =>
+  (conv.participant_1_id === userId
+    ? conv.unread_count_participant_1
+    : conv.unread_count_participant_2) || 0;
+
 // Get user conversations with participant info
 export const getUserConversations = async (userId: string): Promise<ConversationWithParticipant[]> => {
   try {
+    // Groups the user is still in, with their own read state
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('conversation_members')
+      .select('conversation_id, role, unread_count')
+      .eq('user_id', userId)
+      .is('left_at', null);
+
+    if (membershipsError) throw membershipsError;
+
+    const membershipByGroup = new Map((memberships || []).map(m => [m.conversation_id, m]));
+    const groupIds = Array.from(membershipByGroup.keys());
+    const groupFilter = groupIds.length > 0 ? `,id.in.(${groupIds.join(',')})` : '';
+
+    // Conversations without any messages yet stay hidden
     const { data: conversations, error } = await supabase
       .from('conversations')
-      .select(`
-        *,
-        messages!inner(
-          id,
-          content,
-          sender_id,
-          created_at
-        )
-      `)
-      .or(`participant_1_id.eq.${userId},participant_2_id.eq.${userId}`)
+      .select('*')
+      .or(`participant_1_id.eq.${userId},participant_2_id.eq.${userId}${groupFilter}`)
+      .not('last_message_id', 'is', null)
       .order('last_message_time', { ascending: false });
 
     if (error) throw error;
 
-    // Transform conversations to include participant info
-    const conversationsWithParticipants = await Promise.all(
-      conversations.map(async (conv) => {
-        const otherParticipantId = conv.participant_1_id === userId 
-          ? conv.participant_2_id 
-          : conv.participant_1_id;
-        
-        const otherParticipantType = conv.participant_1_id === userId 
-          ? conv.participant_2_type 
-          : conv.participant_1_type;
+    // An owner who left is still participant_1 until someone takes over
+    const visibleConversations = conversations.filter(conv => !conv.is_group || membershipByGroup.has(conv.id));
 
-        // Get participant profile info - always fetch from user_profiles for names
-        const { data: profile } = await supabase
-          .from('user_profiles')
-          .select('id, full_name, username, avatar_url')
-          .eq('id', otherParticipantId)
-          .single();
+    const lastMessageById = new Map<string, { id: string; content: string; sender_id: string; created_at: string }>();
+    if (visibleConversations.length > 0) {
+      const { data: lastMessages, error: lastMessagesError } = await supabase
+        .from('messages')
+        .select('id, content, sender_id, created_at')
+        .in('id', visibleConversations.map(conv => conv.last_message_id));
+
+      if (lastMessagesError) throw lastMessagesError;
+      (lastMessages || []).forEach(message => lastMessageById.set(message.id, message));
+    }
+
+    const memberCounts: Record<string, number> = {};
+    if (groupIds.length > 0) {
+      const { data: members } = await supabase
+        .from('conversation_members')
+        .select('conversation_id')
+        .in('conversation_id', groupIds)
+        .is('left_at', null);
+
+      (members || []).forEach(m => {
+        memberCounts[m.conversation_id] = (memberCounts[m.conversation_id] || 0) + 1;
+      });
+    }
 
-        const lastMessage = conv.messages && conv.messages.length > 0 
-          ? conv.messages[conv.messages.length - 1] 
-          : undefined;
+    const profiles = await getProfilesById(
+      visibleConversations
+        .filter(conv => !conv.is_group)
+        .map(conv => conv.participant_1_id === userId ? conv.participant_2_id : conv.participant_1_id)
+    );
 
+    return visibleConversations.map(conv => {
+      const lastMessage = lastMessageById.get(conv.last_message_id);
+      const lastMessageSummary = lastMessage ? {
+        content: lastMessage.content,
+        sender_id: lastMessage.sender_id,
+        created_at: lastMessage.created_at
+      } : undefined;
+
+      if (conv.is_group) {
+        const membership = membershipByGroup.get(conv.id)!;
         return {
           ...conv,
-          other_participant: {
-            id: otherParticipantId,
-            name: profile?.full_name || profile?.username || 'Unknown User',
-            type: otherParticipantType,
-            avatar_url: profile?.avatar_url
-          },
-          last_message: lastMessage ? {
-            content: lastMessage.content,
-            sender_id: lastMessage.sender_id,
-            created_at: lastMessage.created_at
-          } : undefined
+          other_participant: groupParticipant(conv),
+          last_message: lastMessageSummary,
+          unread_count: membership.unread_count || 0,
+          group: {
+            role: membership.role,
+            member_count: memberCounts[conv.id] || 1
+          }
         };
-      })
-    );
+      }
 
-    return conversationsWithParticipants;
+      return {
+        ...conv,
+        other_participant: directParticipant(conv, userId, profiles),
+        last_message: lastMessageSummary,
+        unread_count: directUnreadCount(conv, userId)
+      };
+    });
   } catch (error) {
     console.error('Error fetching conversations:', error);
     return [];
   }
 };
 
-// Get conversation messages with sender info
-export const getConversationMessages = async (conversationId: string): Promise<MessageWithSender[]> => {
+// Get one page of conversation messages with sender info, newest first.
+// Pages are keyed on (created_at, id) so messages sent while scrolling back
+// don't shift or repeat older pages.
+export const getConversationMessages = async (
+  conversationId: string,
+  options: { before?: MessageCursor | null; limit?: number } = {}
+): Promise<MessagePage> => {
+  const { before = null, limit = MESSAGE_PAGE_SIZE } = options;
+
   try {
-    const { data: messages, error } = await supabase
+    let query = supabase
       .from('messages')
       .select('*')
       .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
 
     if (error) throw error;
 
-    // Transform messages to include sender info by fetching profiles separately
-    const messagesWithSenders = await Promise.all(
-      messages.map(async (msg) => {
-        // Get sender profile info
-        const { data: senderProfile } = await supabase
-          .from('user_profiles')
-          .select('id, full_name, username, avatar_url')
-          .eq('id', msg.sender_id)
-          .single();
+    // The extra row only tells us whether there is another page
+    const hasMore = data.length > limit;
+    const messages = hasMore ? data.slice(0, limit) : data;
+
+    // Quoted parents: from this page where possible, the rest in one query
+    const byId = new Map<string, Message>(messages.map(msg => [msg.id, msg]));
+    const missingParentIds = Array.from(new Set(
+      messages
+        .map(msg => msg.reply_to_message_id)
+        .filter((id): id is string => !!id && !byId.has(id))
+    ));
+
+    if (missingParentIds.length > 0) {
+      const { data: parents, error: parentsError } = await supabase
+        .from('messages')
+        .select('id, sender_id, content, message_type')
+        .in('id', missingParentIds);
+
+      if (parentsError) throw parentsError;
+      (parents || []).forEach(parent => byId.set(parent.id, parent as Message));
+    }
 
-        return {
-          ...msg,
-          sender: {
-            id: msg.sender_id,
-            name: senderProfile?.full_name || senderProfile?.username || 'Unknown User',
-            type: 'user', // You might want to determine this from user_profiles.user_type
-            avatar_url: senderProfile?.avatar_url
-          }
-        };
-      })
-    );
+    const profiles = await getProfilesById(Array.from(byId.values()).map(msg => msg.sender_id));
+
+    const messagesWithSenders: MessageWithSender[] = messages.map(msg => {
+      const senderProfile = profiles.get(msg.sender_id);
+      const parent = msg.reply_to_message_id ? byId.get(msg.reply_to_message_id) : undefined;
+      return {
+        ...msg,
+        sender: {
+          id: msg.sender_id,
+          name: profileName(senderProfile),
+          type: senderProfile?.user_type === 'trainer' ? 'trainer' : 'user',
+          avatar_url: senderProfile?.avatar_url || undefined
+        },
+        reply_to: parent ? {
+          id: parent.id,
+          sender_id: parent.sender_id,
+          sender_name: profileName(profiles.get(parent.sender_id)),
+          content: parent.content,
+          message_type: parent.message_type
+        } : null
+      };
+    });
 
-    return messagesWithSenders;
+    const oldest = messages[messages.length - 1];
+    return {
+      messages: messagesWithSenders,
+      nextCursor: hasMore && oldest ? { created_at: oldest.created_at, id: oldest.id } : null
+    };
   } catch (error) {
     console.error('Error fetching messages:', error);
-    return [];
+    return { messages: [], nextCursor: before };
   }
 };
 
-// Send a message
+// Send a message. receiverId is null in a group, where the server counts
+// unread messages and notifies every member.
 export const sendMessage = async (
   conversationId: string,
   senderId: string,
-  receiverId: string,
+  receiverId: string | null,
   content: string,
-  messageType: 'text' | 'image' | 'file' | 'system' = 'text',
+  messageType: Message['message_type'] = 'text',
   attachment?: {
     file_url: string;
     file_name: string;
     file_size: number;
     file_type: string;
     thumbnail_url?: string;
-  }
+  },
+  replyToMessageId?: string // Quotes an earlier message in the same conversation
 ): Promise<{ success: boolean; message?: Message; error?: string }> => {
   try {
     // Check if sender can send message to receiver based on privacy settings
-    const canSend = await canSendMessage(receiverId);
+    const canSend = receiverId === null || await canSendMessage(receiverId);
     if (!canSend) {
       // Create notification for sender about blocked message using RPC
       await supabase.rpc('create_notification', {
@@ -245,6 +440,10 @@ export const sendMessage = async (
       Object.assign(messageData, attachment);
     }
 
+    if (replyToMessageId) {
+      messageData.reply_to_message_id = replyToMessageId;
+    }
+
     const { data: message, error } = await supabase
       .from('messages')
       .insert(messageData)
@@ -253,6 +452,14 @@ export const sendMessage = async (
 
     if (error) throw error;
 
+    // In a group the server updates the conversation and notifies members
+    if (receiverId === null) {
+      return {
+        success: true,
+        message
+      };
+    }
+
     // Update conversation last message
     await supabase
       .from('conversations')
@@ -340,7 +547,16 @@ export const getUnreadMessageCount = async (userId: string): Promise<number> =>
       .eq('is_read', false);
 
     if (error) throw error;
-    return data?.length || 0;
+
+    // Group messages are counted per member
+    const { data: memberships } = await supabase
+      .from('conversation_members')
+      .select('unread_count')
+      .eq('user_id', userId)
+      .is('left_at', null);
+
+    const groupUnread = (memberships || []).reduce((sum, m) => sum + (m.unread_count || 0), 0);
+    return (data?.length || 0) + groupUnread;
   } catch (error) {
     return 0;
   }
@@ -398,44 +614,38 @@ export const searchConversations = async (userId: string, query: string): Promis
 
     if (error) throw error;
 
-    // Transform conversations similar to getUserConversations
-    const conversationsWithParticipants = await Promise.all(
-      conversations.map(async (conv) => {
-        const otherParticipantId = conv.participant_1_id === userId 
-          ? conv.participant_2_id 
-          : conv.participant_1_id;
-        
-        const otherParticipantType = conv.participant_1_id === userId 
-          ? conv.participant_2_type 
-          : conv.participant_1_type;
-
-        // Get participant profile info - always fetch from user_profiles for names
-        const { data: profile } = await supabase
-          .from('user_profiles')
-          .select('id, full_name, username, avatar_url')
-          .eq('id', otherParticipantId)
-          .single();
-
-        const lastMessage = conv.messages && conv.messages.length > 0 
-          ? conv.messages[conv.messages.length - 1] 
-          : undefined;
+    const profiles = await getProfilesById(
+      conversations
+        .filter(conv => !conv.is_group)
+        .map(conv => conv.participant_1_id === userId ? conv.participant_2_id : conv.participant_1_id)
+    );
 
+    // Transform conversations similar to getUserConversations
+    const conversationsWithParticipants = conversations.map(conv => {
+      if (conv.is_group) {
         return {
           ...conv,
-          other_participant: {
-            id: otherParticipantId,
-            name: profile?.full_name || profile?.username || 'Unknown User',
-            type: otherParticipantType,
-            avatar_url: profile?.avatar_url
-          },
-          last_message: lastMessage ? {
-            content: lastMessage.content,
-            sender_id: otherParticipantId, // This will be the last message sender
-            created_at: new Date().toISOString() // We don't have this in the search results
-          } : undefined
+          other_participant: groupParticipant(conv),
+          unread_count: 0
         };
-      })
-    );
+      }
+
+      const otherParticipant = directParticipant(conv, userId, profiles);
+      const lastMessage = conv.messages && conv.messages.length > 0 
+        ? conv.messages[conv.messages.length - 1] 
+        : undefined;
+
+      return {
+        ...conv,
+        other_participant: otherParticipant,
+        last_message: lastMessage ? {
+          content: lastMessage.content,
+          sender_id: otherParticipant.id, // This will be the last message sender
+          created_at: new Date().toISOString() // We don't have this in the search results
+        } : undefined,
+        unread_count: directUnreadCount(conv, userId)
+      };
+    });
 
     return conversationsWithParticipants;
   } catch (error) {
@@ -557,6 +767,128 @@ export const uploadFileToStorage = async (
   }
 };
 
+export type MediaMessageType = 'audio' | 'video';
+
+// Kept in step with the message_media_limits constraint, so the app can stop
+// a recording before the server would turn it down
+export const MEDIA_LIMITS: Record<MediaMessageType, { maxBytes: number; maxDurationMs: number }> = {
+  audio: { maxBytes: 10 * 1024 * 1024, maxDurationMs: 5 * 60 * 1000 },
+  video: { maxBytes: 50 * 1024 * 1024, maxDurationMs: 2 * 60 * 1000 },
+};
+
+// Message text for a clip sent without a caption
+export const MEDIA_PLACEHOLDER_CONTENT: Record<MediaMessageType, string> = {
+  audio: '🎤 Voice note',
+  video: '🎬 Video',
+};
+
+// 83000 -> "1:23"
+export const formatMediaDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// A clip the server has checked, ready to attach to a message
+export interface ProcessedMedia {
+  file_url: string;
+  mime_type: string;
+  file_size: number;
+  duration_ms: number;
+  thumbnail_url: string | null;
+}
+
+const MEDIA_ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: 'Please sign in again',
+  INVALID_MEDIA: 'That file can\'t be sent',
+  MEDIA_NOT_FOUND: 'The upload didn\'t finish. Please try again.',
+  UNSUPPORTED_FORMAT: 'That format isn\'t supported. Record or pick an MP4 or M4A file.',
+  FILE_TOO_LARGE: 'That file is too big. Voice notes can be up to 10 MB and videos up to 50 MB.',
+  TOO_LONG: 'That clip is too long. Voice notes can be up to 5 minutes and videos up to 2 minutes.',
+};
+
+// Upload one file to a signed URL, reporting progress from 0 to 1. Native
+// uploads stream from disk; the web has no upload task, so it goes in one go.
+const uploadWithProgress = async (
+  bucketName: string,
+  path: string,
+  fileUri: string,
+  mimeType: string,
+  onProgress?: (progress: number) => void
+) => {
+  const { data: signed, error: signError } = await supabase.storage
+    .from(bucketName)
+    .createSignedUploadUrl(path);
+
+  if (signError || !signed) throw signError || new Error('Could not start the upload');
+
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(fileUri)).blob();
+    const { error } = await supabase.storage
+      .from(bucketName)
+      .uploadToSignedUrl(path, signed.token, blob, { contentType: mimeType });
+
+    if (error) throw error;
+    onProgress?.(1);
+    return;
+  }
+
+  const task = FileSystem.createUploadTask(
+    signed.signedUrl,
+    fileUri,
+    {
+      httpMethod: 'PUT',
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      headers: { 'Content-Type': mimeType, 'x-upsert': 'false' },
+    },
+    ({ totalBytesSent, totalBytesExpectedToSend }) => {
+      if (totalBytesExpectedToSend > 0) {
+        onProgress?.(totalBytesSent / totalBytesExpectedToSend);
+      }
+    }
+  );
+
+  const result = await task.uploadAsync();
+  if (!result || result.status < 200 || result.status >= 300) {
+    throw new Error(`Upload failed with status ${result?.status}`);
+  }
+};
+
+// Upload a voice note or video, then have the server check it and work out
+// its duration and thumbnail. Send the message with the returned file_url; the server fills
+// in the rest from its record.
+export const uploadMessageMedia = async (
+  userId: string,
+  mediaType: MediaMessageType,
+  fileUri: string,
+  mimeType: string,
+  options: { onProgress?: (progress: number) => void } = {}
+): Promise<{ success: boolean; media?: ProcessedMedia; error?: string }> => {
+  try {
+    const path = `${userId}/${Date.now()}_${mediaType}.${mediaType === 'audio' ? 'm4a' : 'mp4'}`;
+
+    await uploadWithProgress('message-media', path, fileUri, mimeType, options.onProgress);
+
+    const { data, error } = await supabase.functions.invoke('process-message-media', {
+      body: { path, media_type: mediaType }
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return {
+        success: false,
+        error: MEDIA_ERROR_MESSAGES[data?.error_code] || 'Failed to process the upload'
+      };
+    }
+
+    return { success: true, media: data.media };
+  } catch (error) {
+    console.error('Error uploading message media:', error);
+    return { success: false, error: 'Failed to upload. Please try again.' };
+  }
+};
+
 // Get notification preferences
 export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences | null> => {
   try {
@@ -622,6 +954,18 @@ export const markMessageAsRead = async (messageId: string, userId: string): Prom
   await updateMessageDeliveryStatus(messageId, 'read', userId);
 };
 
+// Mark messages that reached this device as delivered; with no ids, every
+// message still waiting for the current user
+export const markMessagesDelivered = async (messageIds?: string[]): Promise<void> => {
+  try {
+    await supabase.rpc('mark_messages_delivered', {
+      p_message_ids: messageIds && messageIds.length > 0 ? messageIds : null
+    });
+  } catch (error) {
+    console.error('Error marking messages as delivered:', error);
+  }
+};
+
 // Get connected users for starting new conversations
 export const getConnectedUsers = async (userId: string): Promise<{
   id: string;
@@ -794,3 +1138,290 @@ export const startNewConversation = async (
     };
   }
 };
+
+// Group conversations
+
+type Result = { success: boolean; error?: string };
+
+// The { success, error_code } object returned by the group and message action RPCs
+interface RpcOutcome {
+  success: boolean;
+  error_code?: string;
+}
+
+const GROUP_ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: 'Please sign in again',
+  NOT_A_TRAINER: 'Only trainers can start group chats',
+  INVALID_NAME: 'Give the group a name of up to 60 characters',
+  NO_MEMBERS: 'Pick at least one client for the group',
+  NOT_YOUR_CLIENT: 'Only your active clients can be added to a group',
+  GROUP_NOT_FOUND: 'This group no longer exists',
+  NOT_GROUP_OWNER: 'Only the group owner can do that',
+  NOT_A_MEMBER: 'They are no longer in this group',
+  CANNOT_REMOVE_OWNER: 'Leave the group instead of removing yourself',
+};
+
+const groupError = (data: RpcOutcome | null, fallback: string) =>
+  (data?.error_code && GROUP_ERROR_MESSAGES[data.error_code]) || fallback;
+
+// Trainers: start a group chat with some of their active clients
+export const createGroupConversation = async (
+  name: string,
+  memberIds: string[],
+  avatarUrl?: string
+): Promise<{ success: boolean; conversationId?: string; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('create_group_conversation', {
+      p_name: name,
+      p_member_ids: memberIds,
+      p_avatar_url: avatarUrl || null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: groupError(data, 'Failed to create group') };
+    }
+
+    return { success: true, conversationId: data.conversation_id };
+  } catch (error) {
+    console.error('Error creating group conversation:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create group'
+    };
+  }
+};
+
+// Current members of a group, owner first
+export const getConversationMembers = async (conversationId: string): Promise<ConversationMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('conversation_members')
+      .select('*, user_profiles!conversation_members_user_id_fkey(full_name, username, avatar_url)')
+      .eq('conversation_id', conversationId)
+      .is('left_at', null)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || [])
+      .map(member => ({
+        conversation_id: member.conversation_id,
+        user_id: member.user_id,
+        name: member.user_profiles?.full_name || member.user_profiles?.username || 'Unknown User',
+        avatar_url: member.user_profiles?.avatar_url || undefined,
+        role: member.role,
+        joined_at: member.joined_at,
+        last_read_at: member.last_read_at
+      }))
+      .sort((a, b) => (a.role === 'owner' ? -1 : b.role === 'owner' ? 1 : 0));
+  } catch (error) {
+    console.error('Error fetching group members:', error);
+    return [];
+  }
+};
+
+// Group owner: add more of their clients
+export const addGroupMembers = async (conversationId: string, memberIds: string[]): Promise<Result> => {
+  try {
+    const { data, error } = await supabase.rpc('add_group_members', {
+      p_conversation_id: conversationId,
+      p_member_ids: memberIds
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: groupError(data, 'Failed to add members') };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding group members:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to add members'
+    };
+  }
+};
+
+// Group owner: remove someone from the group
+export const removeGroupMember = async (conversationId: string, userId: string): Promise<Result> => {
+  try {
+    const { data, error } = await supabase.rpc('remove_group_member', {
+      p_conversation_id: conversationId,
+      p_user_id: userId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: groupError(data, 'Failed to remove member') };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing group member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove member'
+    };
+  }
+};
+
+// Leave a group; if the owner leaves, the longest-standing member takes over
+export const leaveGroupConversation = async (conversationId: string): Promise<Result> => {
+  try {
+    const { data, error } = await supabase.rpc('leave_group_conversation', {
+      p_conversation_id: conversationId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: groupError(data, 'Failed to leave group') };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error leaving group:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to leave group'
+    };
+  }
+};
+
+const MESSAGE_ACTION_ERROR_MESSAGES: Record<string, string> = {
+  NOT_AUTHENTICATED: 'Please sign in again',
+  MESSAGE_NOT_FOUND: 'This message no longer exists',
+  NOT_YOUR_MESSAGE: 'You can only edit your own messages',
+  CANNOT_EDIT: 'This message can\'t be edited',
+  INVALID_CONTENT: 'Messages need some text, up to 2000 characters',
+  CANNOT_FORWARD: 'This message can\'t be forwarded',
+  CONVERSATION_NOT_FOUND: 'You\'re no longer in that conversation',
+  CANNOT_PIN: 'This message can\'t be pinned',
+  NOT_GROUP_OWNER: 'Only the group owner can pin messages',
+  TOO_MANY_PINS: 'A conversation can have up to 10 pinned messages. Unpin one first.',
+};
+
+const messageActionError = (data: RpcOutcome | null, fallback: string) =>
+  (data?.error_code && MESSAGE_ACTION_ERROR_MESSAGES[data.error_code]) || fallback;
+
+// Sender: change a message's text; the old text goes into its edit history
+export const editMessage = async (messageId: string, content: string): Promise<Result> => {
+  try {
+    const { data, error } = await supabase.rpc('edit_message', {
+      p_message_id: messageId,
+      p_content: content
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: messageActionError(data, 'Failed to edit message') };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error editing message:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to edit message'
+    };
+  }
+};
+
+// Earlier versions of a message, newest first
+export const getMessageEditHistory = async (messageId: string): Promise<MessageEdit[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('message_edits')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching edit history:', error);
+    return [];
+  }
+};
+
+// Copy a message into another conversation the user is in
+export const forwardMessage = async (
+  messageId: string,
+  conversationId: string
+): Promise<{ success: boolean; messageId?: string; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('forward_message', {
+      p_message_id: messageId,
+      p_conversation_id: conversationId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: messageActionError(data, 'Failed to forward message') };
+    }
+
+    return { success: true, messageId: data.message_id };
+  } catch (error) {
+    console.error('Error forwarding message:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to forward message'
+    };
+  }
+};
+
+// Pin a message to the top of its conversation, or unpin it
+export const setMessagePinned = async (messageId: string, pinned: boolean): Promise<Result> => {
+  try {
+    const { data, error } = await supabase.rpc('set_message_pinned', {
+      p_message_id: messageId,
+      p_pinned: pinned
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, error: messageActionError(data, pinned ? 'Failed to pin message' : 'Failed to unpin message') };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error pinning message:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to pin message'
+    };
+  }
+};
+
+// A conversation's pinned messages, most recently pinned first
+export const getPinnedMessages = async (conversationId: string): Promise<MessageWithSender[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .not('pinned_at', 'is', null)
+      .order('pinned_at', { ascending: false });
+
+    if (error) throw error;
+
+    const profiles = await getProfilesById((data || []).map(msg => msg.sender_id));
+
+    return (data || []).map(msg => {
+      const senderProfile = profiles.get(msg.sender_id);
+      return {
+        ...msg,
+        sender: {
+          id: msg.sender_id,
+          name: profileName(senderProfile),
+          type: senderProfile?.user_type === 'trainer' ? 'trainer' : 'user',
+          avatar_url: senderProfile?.avatar_url || undefined
+        }
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching pinned messages:', error);
+    return [];
+  }
+};
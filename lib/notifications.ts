@@ -27,7 +27,7 @@ export interface ConnectionRequest {
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'connection_request' | 'connection_accepted' | 'connection_rejected' | 'new_message' | 'workout_assigned' | 'session_reminder';
+  type: 'connection_request' | 'connection_accepted' | 'connection_rejected' | 'new_message' | 'workout_assigned' | 'session_reminder' | 'achievement_unlocked' | 'challenge_completed' | 'team_invite' | 'streak_reminder' | 'level_up';
   title: string;
   message: string;
   data?: any;
@@ -347,6 +347,11 @@ async function createNotification(
       'connection_rejected': 'trainer_requests',
       'workout_assigned': 'workout_updates',
       'session_reminder': 'session_reminders',
+      'achievement_unlocked': 'achievements',
+      'challenge_completed': 'achievements',
+      'team_invite': 'achievements',
+      'streak_reminder': 'achievements',
+      'level_up': 'achievements',
     };
     
     const preferenceKey = preferenceMap[type];
@@ -0,0 +1,137 @@
+import { supabase } from './supabase';
+import { DEFAULT_GYM_ID } from './qrGenerator';
+
+export type OccupancyLevel = 'quiet' | 'moderate' | 'busy' | 'full';
+
+export interface GymOccupancy {
+  locationId: string;
+  occupancy: number;
+  capacity: number;
+  percentFull: number;
+  level: OccupancyLevel;
+}
+
+export interface BusyHour {
+  weekday: number; // 0 = Sunday, matches Date.getDay()
+  hour: number;
+  averageOccupancy: number;
+}
+
+export interface BusyHourForecast {
+  hour: number;
+  averageOccupancy: number;
+  level: OccupancyLevel;
+}
+
+// Occupancy thresholds as a share of capacity
+const MODERATE_THRESHOLD = 0.5;
+const BUSY_THRESHOLD = 0.8;
+
+export function getOccupancyLevel(occupancy: number, capacity: number): OccupancyLevel {
+  if (capacity <= 0) return 'quiet';
+
+  const ratio = occupancy / capacity;
+  if (ratio >= 1) return 'full';
+  if (ratio >= BUSY_THRESHOLD) return 'busy';
+  if (ratio >= MODERATE_THRESHOLD) return 'moderate';
+  return 'quiet';
+}
+
+export function getOccupancyColor(level: OccupancyLevel): string {
+  switch (level) {
+    case 'quiet':
+      return '#00B894';
+    case 'moderate':
+      return '#F39C12';
+    case 'busy':
+      return '#E74C3C';
+    case 'full':
+      return '#C0392B';
+  }
+}
+
+// Live headcount for a location, or null when it can't be loaded
+export async function getGymOccupancy(locationId: string = DEFAULT_GYM_ID): Promise<GymOccupancy | null> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_gym_occupancy', { p_location_id: locationId });
+
+    if (error) throw error;
+
+    const occupancy = Number(data.occupancy) || 0;
+    const capacity = Number(data.capacity) || 0;
+
+    return {
+      locationId: data.location_id,
+      occupancy,
+      capacity,
+      percentFull: capacity > 0 ? Math.round((occupancy / capacity) * 100) : 0,
+      level: getOccupancyLevel(occupancy, capacity),
+    };
+  } catch (error) {
+    console.error('Error getting gym occupancy:', error);
+    return null;
+  }
+}
+
+// Average headcount per weekday/hour over the last few weeks
+export async function getGymBusyHours(locationId: string = DEFAULT_GYM_ID, weeks: number = 8): Promise<BusyHour[]> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_gym_busy_hours', { p_location_id: locationId, p_weeks: weeks });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      weekday: row.weekday,
+      hour: row.hour,
+      averageOccupancy: Number(row.average_occupancy) || 0,
+    }));
+  } catch (error) {
+    console.error('Error getting gym busy hours:', error);
+    return [];
+  }
+}
+
+// Expected headcount for the next few hours of the given day. Busy hours
+// are in the gym's local time; members are assumed to be in the same
+// timezone as their gym.
+export function forecastBusyHours(
+  busyHours: BusyHour[],
+  capacity: number,
+  from: Date = new Date(),
+  hoursAhead: number = 6
+): BusyHourForecast[] {
+  const forecast: BusyHourForecast[] = [];
+
+  for (let i = 0; i < hoursAhead; i++) {
+    const slot = new Date(from.getTime() + i * 60 * 60 * 1000);
+    const match = busyHours.find(
+      entry => entry.weekday === slot.getDay() && entry.hour === slot.getHours()
+    );
+    const averageOccupancy = match ? match.averageOccupancy : 0;
+
+    forecast.push({
+      hour: slot.getHours(),
+      averageOccupancy,
+      level: getOccupancyLevel(averageOccupancy, capacity),
+    });
+  }
+
+  return forecast;
+}
+
+// Quietest upcoming hour in a forecast, useful for "best time to go" hints
+export function getQuietestHour(forecast: BusyHourForecast[]): BusyHourForecast | null {
+  if (forecast.length === 0) return null;
+
+  return forecast.reduce((quietest, slot) =>
+    slot.averageOccupancy < quietest.averageOccupancy ? slot : quietest
+  );
+}
+
+export function formatHour(hour: number): string {
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}${suffix}`;
+}
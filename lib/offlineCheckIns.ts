@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+
+export type OfflineCheckInAction = 'check_in' | 'check_out';
+
+export interface PendingCheckInEvent {
+  id: string; // Client-generated, used by the server to ignore replays
+  userId: string;
+  action: OfflineCheckInAction;
+  occurredAt: string;
+  qrData?: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface RejectedCheckInEvent {
+  event: PendingCheckInEvent;
+  reason: string;
+}
+
+export interface OfflineSyncResult {
+  applied: PendingCheckInEvent[];
+  rejected: RejectedCheckInEvent[];
+  remaining: number;
+}
+
+const QUEUE_KEY_PREFIX = 'offline_checkin_queue:';
+
+// Server errors (not network errors) after which an event is given up on
+const MAX_SYNC_ATTEMPTS = 5;
+
+const getQueueKey = (userId: string) => `${QUEUE_KEY_PREFIX}${userId}`;
+
+// Only one sync per user at a time; later callers share the running one
+const activeSyncs = new Map<string, Promise<OfflineSyncResult>>();
+
+// RFC 4122 version 4 id. Only needs to be unique per device queue.
+const generateEventId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+
+// Whether an error came from the request never reaching Supabase, as
+// opposed to the server refusing it
+export const isNetworkError = (error: unknown): boolean => {
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : String(error ?? '');
+
+  return /network request failed|failed to fetch|network ?error|timed? ?out|load failed/i.test(message);
+};
+
+export async function getPendingCheckInEvents(userId: string): Promise<PendingCheckInEvent[]> {
+  try {
+    const stored = await AsyncStorage.getItem(getQueueKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading offline check-in queue:', error);
+    return [];
+  }
+}
+
+const savePendingCheckInEvents = async (userId: string, events: PendingCheckInEvent[]) => {
+  if (events.length === 0) {
+    await AsyncStorage.removeItem(getQueueKey(userId));
+  } else {
+    await AsyncStorage.setItem(getQueueKey(userId), JSON.stringify(events));
+  }
+};
+
+// Queue updates are read-modify-write, so they run one at a time. Each
+// update re-reads storage so events queued during a sync are kept.
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const updateQueue = (
+  userId: string,
+  update: (events: PendingCheckInEvent[]) => PendingCheckInEvent[]
+): Promise<void> => {
+  const run = queueLock.then(async () => {
+    const events = await getPendingCheckInEvents(userId);
+    await savePendingCheckInEvents(userId, update(events));
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+const removePendingCheckInEvent = (userId: string, eventId: string) =>
+  updateQueue(userId, events => events.filter(event => event.id !== eventId));
+
+const recordFailedAttempt = (userId: string, eventId: string, message: string) =>
+  updateQueue(userId, events => events.map(event => event.id === eventId
+    ? { ...event, attempts: event.attempts + 1, lastError: message }
+    : event
+  ));
+
+// Record a check-in or check-out made without signal, keeping its original time
+export async function queueCheckInEvent(
+  userId: string,
+  action: OfflineCheckInAction,
+  occurredAt: Date = new Date(),
+  qrData?: string
+): Promise<PendingCheckInEvent> {
+  const event: PendingCheckInEvent = {
+    id: generateEventId(),
+    userId,
+    action,
+    occurredAt: occurredAt.toISOString(),
+    qrData,
+    attempts: 0,
+  };
+
+  await updateQueue(userId, events => [...events, event]);
+
+  return event;
+}
+
+const replayQueue = async (userId: string): Promise<OfflineSyncResult> => {
+  const events = await getPendingCheckInEvents(userId);
+  const result: OfflineSyncResult = { applied: [], rejected: [], remaining: events.length };
+
+  // Events are replayed oldest first so a check-out never overtakes its check-in
+  for (const event of events) {
+    const { data, error } = await supabase.rpc('sync_offline_checkin_event', {
+      p_event_id: event.id,
+      p_action: event.action,
+      p_occurred_at: event.occurredAt,
+      p_token: event.qrData ?? null,
+    });
+
+    if (error && (isNetworkError(error) || event.attempts + 1 < MAX_SYNC_ATTEMPTS)) {
+      // Still offline (or the server failed) - keep this and later events
+      // queued in order and try again later
+      if (!isNetworkError(error)) {
+        console.error('Error syncing offline check-in:', error);
+      }
+      await recordFailedAttempt(userId, event.id, error.message);
+      break;
+    }
+
+    if (error) {
+      console.error('Giving up on offline check-in event:', event.id, error);
+      result.rejected.push({ event, reason: 'SYNC_FAILED' });
+    } else if (data.status === 'applied') {
+      result.applied.push(event);
+    } else {
+      result.rejected.push({ event, reason: data.reason });
+    }
+
+    await removePendingCheckInEvent(userId, event.id);
+  }
+
+  result.remaining = (await getPendingCheckInEvents(userId)).length;
+  return result;
+};
+
+// Replay queued events against the server. Safe to call repeatedly: the
+// server remembers every event id it has already applied.
+export function syncPendingCheckInEvents(userId: string): Promise<OfflineSyncResult> {
+  const running = activeSyncs.get(userId);
+  if (running) return running;
+
+  const sync = replayQueue(userId)
+    .catch((error) => {
+      console.error('Error syncing offline check-ins:', error);
+      return { applied: [], rejected: [], remaining: -1 };
+    })
+    .finally(() => {
+      activeSyncs.delete(userId);
+    });
+
+  activeSyncs.set(userId, sync);
+  return sync;
+}
+
+// Member-facing explanation for a queued event the server refused
+export function getOfflineRejectionMessage(rejection: RejectedCheckInEvent): string {
+  const when = new Date(rejection.event.occurredAt).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const action = rejection.event.action === 'check_in' ? 'check-in' : 'check-out';
+
+  switch (rejection.reason) {
+    case 'OFFLINE_EVENT_TOO_OLD':
+      return `Your offline ${action} from ${when} was too old to sync.`;
+    case 'NO_MATCHING_CHECKIN':
+      return `Your offline check-out from ${when} had no matching check-in.`;
+    case 'ALREADY_CHECKED_OUT':
+      return `You were already checked out before your offline check-out from ${when}.`;
+    case 'MEMBERSHIP_BLOCKED':
+    case 'MEMBERSHIP_UNPAID':
+    case 'MEMBERSHIP_EXPIRED':
+      return `Your offline check-in from ${when} was refused because of your membership status.`;
+    default:
+      return `Your offline ${action} from ${when} could not be verified.`;
+  }
+}
@@ -0,0 +1,307 @@
+import { supabase } from './supabase';
+
+export type PointsSource =
+  | 'achievement'
+  | 'challenge'
+  | 'checkin'
+  | 'admin_grant'
+  | 'admin_adjustment'
+  | 'redemption'
+  | 'redemption_refund';
+
+export type RedemptionStatus = 'pending' | 'fulfilled' | 'cancelled';
+
+export interface PointsLedgerEntry {
+  id: string;
+  amount: number; // Negative when points were spent or taken away
+  balanceAfter: number;
+  source: PointsSource;
+  description: string | null;
+  createdAt: string;
+}
+
+export interface MembershipDiscount {
+  id: string;
+  name: string;
+  description: string | null;
+  discountPercent: number;
+  pointsCost: number;
+  isActive: boolean;
+}
+
+export interface PointsRedemption {
+  id: string;
+  userId: string;
+  memberName: string | null; // Only loaded for admins
+  itemName: string;
+  kind: 'product' | 'membership_discount';
+  pointsSpent: number;
+  status: RedemptionStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+// A member whose stored points don't match their ledger
+export interface PointsMismatch {
+  userId: string;
+  username: string | null;
+  fullName: string | null;
+  storedTotal: number;
+  ledgerTotal: number;
+  storedBalance: number;
+  ledgerBalance: number;
+  brokenEntries: number; // Entries whose balance doesn't follow from the one before
+}
+
+export const POINTS_SOURCE_LABELS: Record<PointsSource, string> = {
+  achievement: 'Achievement',
+  challenge: 'Challenge',
+  checkin: 'Check-in',
+  admin_grant: 'Bonus from the gym',
+  admin_adjustment: 'Adjustment',
+  redemption: 'Redeemed',
+  redemption_refund: 'Refund',
+};
+
+type Result = { success: boolean; error?: string };
+
+const toErrorResult = (error: unknown, fallback: string): Result => ({
+  success: false,
+  error: error instanceof Error ? error.message : (error as any)?.message || fallback,
+});
+
+const mapRedemption = (row: any): PointsRedemption => ({
+  id: row.id,
+  userId: row.user_id,
+  memberName: row.user_profiles?.full_name || row.user_profiles?.username || null,
+  itemName: row.item_name,
+  kind: row.membership_discount_id ? 'membership_discount' : 'product',
+  pointsSpent: row.points_spent,
+  status: row.status,
+  createdAt: row.created_at,
+  resolvedAt: row.resolved_at,
+});
+
+// Newest first
+export async function getPointsLedger(userId: string, limit = 50): Promise<PointsLedgerEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('points_ledger')
+      .select('id, amount, balance_after, source, description, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map(entry => ({
+      id: entry.id,
+      amount: entry.amount,
+      balanceAfter: entry.balance_after,
+      source: entry.source,
+      description: entry.description,
+      createdAt: entry.created_at,
+    }));
+  } catch (error) {
+    console.error('Error fetching points ledger:', error);
+    return [];
+  }
+}
+
+// Members only see active discounts (RLS); admins see them all
+export async function getMembershipDiscounts(): Promise<MembershipDiscount[]> {
+  try {
+    const { data, error } = await supabase
+      .from('membership_discounts')
+      .select('*')
+      .order('points_cost', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(discount => ({
+      id: discount.id,
+      name: discount.name,
+      description: discount.description,
+      discountPercent: discount.discount_percent,
+      pointsCost: discount.points_cost,
+      isActive: discount.is_active,
+    }));
+  } catch (error) {
+    console.error('Error fetching membership discounts:', error);
+    return [];
+  }
+}
+
+export async function redeemProduct(productId: string): Promise<Result & { redemptionId?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('redeem_points', { p_product_id: productId });
+
+    if (error) throw error;
+
+    return { success: true, redemptionId: data };
+  } catch (error) {
+    console.error('Error redeeming product:', error);
+    return toErrorResult(error, 'Failed to redeem points');
+  }
+}
+
+export async function redeemMembershipDiscount(discountId: string): Promise<Result & { redemptionId?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('redeem_points', { p_membership_discount_id: discountId });
+
+    if (error) throw error;
+
+    return { success: true, redemptionId: data };
+  } catch (error) {
+    console.error('Error redeeming membership discount:', error);
+    return toErrorResult(error, 'Failed to redeem points');
+  }
+}
+
+export async function getMyRedemptions(userId: string): Promise<PointsRedemption[]> {
+  try {
+    const { data, error } = await supabase
+      .from('point_redemptions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapRedemption);
+  } catch (error) {
+    console.error('Error fetching redemptions:', error);
+    return [];
+  }
+}
+
+// Admin: redemptions waiting at the front desk, oldest first
+export async function getPendingRedemptions(): Promise<PointsRedemption[]> {
+  try {
+    const { data, error } = await supabase
+      .from('point_redemptions')
+      .select('*, user_profiles!point_redemptions_user_id_fkey(username, full_name)')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(mapRedemption);
+  } catch (error) {
+    console.error('Error fetching pending redemptions:', error);
+    return [];
+  }
+}
+
+// Admin: fulfil hands the reward over; cancelling refunds the points
+export async function resolveRedemption(redemptionId: string, fulfil: boolean): Promise<Result> {
+  try {
+    const { error } = await supabase
+      .rpc('resolve_redemption', { p_redemption_id: redemptionId, p_fulfil: fulfil });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error resolving redemption:', error);
+    return toErrorResult(error, 'Failed to update redemption');
+  }
+}
+
+// Admin: grants add points; adjustments correct a balance either way
+export async function adjustPoints(
+  username: string,
+  amount: number,
+  reason: string,
+  source: 'admin_grant' | 'admin_adjustment' = 'admin_grant'
+): Promise<Result> {
+  try {
+    const { data: member, error: memberError } = await supabase
+      .from('user_profiles')
+      .select('id')
+      .eq('username', username)
+      .maybeSingle();
+
+    if (memberError) throw memberError;
+    if (!member) throw new Error(`No member with the username "${username}"`);
+
+    const { error } = await supabase.rpc('admin_adjust_points', {
+      p_user_id: member.id,
+      p_amount: amount,
+      p_reason: reason,
+      p_source: source,
+    });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error adjusting points:', error);
+    return toErrorResult(error, 'Failed to adjust points');
+  }
+}
+
+// Admin: an empty list means every balance matches its ledger
+export async function reconcilePointsBalances(): Promise<PointsMismatch[] | null> {
+  try {
+    const { data, error } = await supabase.rpc('reconcile_points_balances');
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      userId: row.user_id,
+      username: row.username,
+      fullName: row.full_name,
+      storedTotal: row.stored_total,
+      ledgerTotal: row.ledger_total,
+      storedBalance: row.stored_balance,
+      ledgerBalance: row.ledger_balance,
+      brokenEntries: row.broken_entries,
+    }));
+  } catch (error) {
+    console.error('Error reconciling points balances:', error);
+    return null;
+  }
+}
+
+export async function createMembershipDiscount(discount: {
+  name: string;
+  description: string;
+  discountPercent: number;
+  pointsCost: number;
+}): Promise<Result> {
+  try {
+    const { error } = await supabase
+      .from('membership_discounts')
+      .insert({
+        name: discount.name,
+        description: discount.description || null,
+        discount_percent: discount.discountPercent,
+        points_cost: discount.pointsCost,
+      });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error creating membership discount:', error);
+    return toErrorResult(error, 'Failed to create discount');
+  }
+}
+
+export async function setMembershipDiscountActive(discountId: string, isActive: boolean): Promise<Result> {
+  try {
+    const { error } = await supabase
+      .from('membership_discounts')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', discountId);
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating membership discount:', error);
+    return toErrorResult(error, 'Failed to update discount');
+  }
+}
@@ -1,29 +1,116 @@
-// Simple QR code generator for testing purposes
-// In a real app, you would use a proper QR code library
-
-export const generateGymQRCode = (gymId: string = 'ruangym'): string => {
-  // This is a simple implementation for testing
-  // In production, you would use a proper QR code library like 'qrcode'
-  const timestamp = Date.now();
-  const data = `${gymId}:${timestamp}:checkin`;
-  return data;
+import { supabase } from './supabase';
+
+// Gym check-in QR codes are signed, short-lived tokens issued by the
+// generate_gym_qr_token database function and checked by record_checkin.
+// Format: rgqr1:<gymId>:<issuedEpoch>:<expiresEpoch>:<nonce>:<signature>
+
+export const QR_TOKEN_PREFIX = 'rgqr1';
+export const DEFAULT_GYM_ID = 'ruangym';
+
+export interface GymQRToken {
+  token: string;
+  gymId: string;
+  issuedAt: string;
+  expiresAt: string;
+  rotationSeconds: number;
+}
+
+// Test QR codes are only accepted in development builds with
+// EXPO_PUBLIC_ENABLE_TEST_QR=true, so they can never unlock a production check-in
+export const isDevQRModeEnabled = (): boolean => {
+  return __DEV__ && process.env.EXPO_PUBLIC_ENABLE_TEST_QR === 'true';
+};
+
+const TEST_QR_CODES = ['ruangym:test:checkin:gym', 'test:gym:checkin'];
+
+// Request a freshly signed token for the kiosk screen (admins only)
+export const generateGymQRCode = async (gymId: string = DEFAULT_GYM_ID): Promise<GymQRToken> => {
+  const { data, error } = await supabase.rpc('generate_gym_qr_token', { p_gym_id: gymId });
+
+  if (error) {
+    console.error('Error generating gym QR code:', error);
+    throw error;
+  }
+
+  return {
+    token: data.token,
+    gymId: data.gym_id,
+    issuedAt: data.issued_at,
+    expiresAt: data.expires_at,
+    rotationSeconds: data.rotation_seconds,
+  };
 };
 
 export const generateTestQRCode = (): string => {
-  return 'ruangym:test:checkin:gym';
+  if (!isDevQRModeEnabled()) {
+    throw new Error('Test QR codes are only available in dev QR mode');
+  }
+  return TEST_QR_CODES[0];
 };
 
 // Generate a simple test QR code for debugging
 export const generateSimpleTestQRCode = (): string => {
-  return 'test:gym:checkin';
+  if (!isDevQRModeEnabled()) {
+    throw new Error('Test QR codes are only available in dev QR mode');
+  }
+  return TEST_QR_CODES[1];
+};
+
+export const isTestQRCode = (qrData: string): boolean => {
+  return isDevQRModeEnabled() && TEST_QR_CODES.includes(qrData);
 };
 
-// Function to validate QR code format
+// Quick client-side shape check before hitting the server. This does NOT
+// prove the code is genuine - record_checkin checks that on the server.
 export const validateGymQRCode = (qrData: string): boolean => {
-  // Check if the QR code contains gym-related identifiers
-  const validIdentifiers = ['gym', 'fitforge', 'ruangym', 'checkin', 'test'];
-  
-  const isValid = validIdentifiers.some(identifier => qrData.toLowerCase().includes(identifier));
-  
-  return isValid;
+  if (isTestQRCode(qrData)) return true;
+
+  const parts = qrData.split(':');
+  return (
+    parts.length === 6 &&
+    parts[0] === QR_TOKEN_PREFIX &&
+    /^\d+$/.test(parts[2]) &&
+    /^\d+$/.test(parts[3])
+  );
+};
+
+export const getQRErrorMessage = (code?: string): { title: string; message: string } => {
+  switch (code) {
+    case 'QR_EXPIRED':
+      return {
+        title: 'QR Code Expired',
+        message: 'This QR code has expired. Please scan the code currently shown on the gym screen.',
+      };
+    case 'QR_REPLAYED':
+      return {
+        title: 'QR Code Already Used',
+        message: 'You have already used this QR code. Please wait for the gym screen to refresh and scan again.',
+      };
+    case 'QR_FORGED':
+    case 'QR_UNKNOWN_GYM':
+      return {
+        title: 'Invalid QR Code',
+        message: 'This QR code was not issued by the gym. Please scan the code on the gym screen.',
+      };
+    case 'QR_INVALID_FORMAT':
+      return {
+        title: 'Invalid QR Code',
+        message: 'This QR code is not valid for gym check-in. Please scan the gym\'s QR code.',
+      };
+    case 'GYM_AT_CAPACITY':
+      return {
+        title: 'Gym Is Full',
+        message: 'The gym has reached its capacity right now. Please try again a little later.',
+      };
+    case 'CHECKIN_RATE_LIMITED':
+      return {
+        title: 'Too Many Check-ins',
+        message: 'You\'ve checked in too many times recently. Please wait a few minutes and try again.',
+      };
+    default:
+      return {
+        title: 'Check-in Failed',
+        message: 'Unable to check in. Please try again.',
+      };
+  }
 };
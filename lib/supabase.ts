@@ -79,6 +79,7 @@ export type Database = {
           bio: string | null;
           subscription_end: string | null;
           is_blocked: boolean;
+          home_gym_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -94,6 +95,7 @@ export type Database = {
           bio?: string | null;
           subscription_end?: string | null;
           is_blocked?: boolean;
+          home_gym_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -109,6 +111,7 @@ export type Database = {
           bio?: string | null;
           subscription_end?: string | null;
           is_blocked?: boolean;
+          home_gym_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -490,34 +493,52 @@ export type Database = {
       gym_checkins: {
         Row: {
           id: string;
-          user_id: string;
+          user_id: string | null;
           user_type: string;
           check_in_time: string;
           check_out_time: string | null;
           is_checked_in: boolean;
           check_in_reason: string | null;
+          auto_closed: boolean;
+          location_id: string;
+          recorded_offline: boolean;
+          guest_pass_id: string | null;
+          guest_name: string | null;
+          sponsor_id: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
-          user_id: string;
+          user_id?: string | null;
           user_type?: string;
           check_in_time?: string;
           check_out_time?: string | null;
           is_checked_in?: boolean;
           check_in_reason?: string | null;
+          auto_closed?: boolean;
+          location_id?: string;
+          recorded_offline?: boolean;
+          guest_pass_id?: string | null;
+          guest_name?: string | null;
+          sponsor_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
-          user_id?: string;
+          user_id?: string | null;
           user_type?: string;
           check_in_time?: string;
           check_out_time?: string | null;
           is_checked_in?: boolean;
           check_in_reason?: string | null;
+          auto_closed?: boolean;
+          location_id?: string;
+          recorded_offline?: boolean;
+          guest_pass_id?: string | null;
+          guest_name?: string | null;
+          sponsor_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
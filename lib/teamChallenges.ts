@@ -0,0 +1,228 @@
+import { supabase } from './supabase';
+import { ChallengeCategory } from './gamification';
+
+export interface ChallengeTeam {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface TeamChallenge {
+  id: string;
+  name: string;
+  description: string;
+  category: ChallengeCategory;
+  reward: number;
+  startDate: string;
+  endDate: string;
+  inviteOnly: boolean;
+  teams: ChallengeTeam[];
+  myTeamId: string | null; // Team the current user has joined
+  invitedTeamIds: string[]; // Teams the current user has been invited to
+}
+
+export interface TeamStanding {
+  teamId: string;
+  teamName: string;
+  color: string;
+  progress: number;
+  memberCount: number;
+  members: { userId: string; name: string; progress: number }[];
+  standing: number; // 1 = leading, ties share a standing
+}
+
+export interface NewTeamChallenge {
+  name: string;
+  description: string;
+  category: ChallengeCategory;
+  startDate: string; // yyyy-mm-dd
+  endDate: string; // yyyy-mm-dd
+  teamNames: string[];
+  reward?: number; // Only honoured for admins
+}
+
+type Result = { success: boolean; error?: string };
+
+// Shape of the available_challenges select in getTeamChallenges
+interface TeamChallengeRow {
+  id: string;
+  name: string;
+  description: string;
+  challenge_category: ChallengeCategory;
+  reward_points: number;
+  start_date: string;
+  end_date: string;
+  invite_only: boolean;
+  challenge_teams: (ChallengeTeam & {
+    challenge_team_members: { user_id: string; status: 'invited' | 'accepted' | 'declined' }[] | null;
+  })[] | null;
+}
+
+// A row returned by get_challenge_standings
+interface StandingRow {
+  team_id: string;
+  team_name: string;
+  color: string;
+  progress: number | string;
+  member_count: number | string;
+  members: { user_id: string; name: string; progress: number | string }[] | null;
+  standing: number;
+}
+
+const toErrorResult = (error: unknown, fallback: string): Result => ({
+  success: false,
+  error: error instanceof Error ? error.message : (error as { message?: string } | null)?.message || fallback,
+});
+
+// Open team challenges the current user can see: every admin challenge, and
+// invite-only challenges they joined or were invited to
+export async function getTeamChallenges(): Promise<TeamChallenge[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('available_challenges')
+      .select(`
+        *,
+        challenge_teams (
+          id,
+          name,
+          color,
+          challenge_team_members (
+            user_id,
+            status
+          )
+        )
+      `)
+      .eq('format', 'team')
+      .eq('is_active', true)
+      .is('closed_at', null)
+      .gte('end_date', new Date().toISOString().split('T')[0])
+      .order('end_date', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data || []) as TeamChallengeRow[])
+      .map(challenge => {
+        const teams = (challenge.challenge_teams || []).sort((a, b) => a.name.localeCompare(b.name));
+        const myMemberships = teams.flatMap(team =>
+          (team.challenge_team_members || [])
+            .filter(member => member.user_id === user.id)
+            .map(member => ({ teamId: team.id, status: member.status }))
+        );
+
+        return {
+          id: challenge.id,
+          name: challenge.name,
+          description: challenge.description,
+          category: challenge.challenge_category,
+          reward: challenge.reward_points,
+          startDate: challenge.start_date,
+          endDate: challenge.end_date,
+          inviteOnly: challenge.invite_only,
+          teams: teams.map(team => ({ id: team.id, name: team.name, color: team.color })),
+          myTeamId: myMemberships.find(membership => membership.status === 'accepted')?.teamId ?? null,
+          invitedTeamIds: myMemberships
+            .filter(membership => membership.status === 'invited')
+            .map(membership => membership.teamId),
+        };
+      })
+      .filter(challenge => !challenge.inviteOnly || challenge.myTeamId || challenge.invitedTeamIds.length > 0);
+  } catch (error) {
+    console.error('Error fetching team challenges:', error);
+    return [];
+  }
+}
+
+export async function getChallengeStandings(challengeId: string): Promise<TeamStanding[]> {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_challenge_standings', { p_challenge_id: challengeId });
+
+    if (error) throw error;
+
+    return ((data || []) as StandingRow[]).map(row => ({
+      teamId: row.team_id,
+      teamName: row.team_name,
+      color: row.color,
+      progress: Number(row.progress) || 0,
+      memberCount: Number(row.member_count) || 0,
+      members: (row.members || []).map(member => ({
+        userId: member.user_id,
+        name: member.name,
+        progress: Number(member.progress) || 0,
+      })),
+      standing: row.standing,
+    }));
+  } catch (error) {
+    console.error('Error fetching challenge standings:', error);
+    return [];
+  }
+}
+
+// Members create invite-only challenges and join the first team themselves.
+// Two single-member teams make a head-to-head challenge.
+export async function createTeamChallenge(challenge: NewTeamChallenge): Promise<Result & { challengeId?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('create_team_challenge', {
+      p_name: challenge.name,
+      p_description: challenge.description,
+      p_category: challenge.category,
+      p_start_date: challenge.startDate,
+      p_end_date: challenge.endDate,
+      p_team_names: challenge.teamNames,
+      p_reward_points: challenge.reward ?? 0,
+    });
+
+    if (error) throw error;
+
+    return { success: true, challengeId: data };
+  } catch (error) {
+    console.error('Error creating team challenge:', error);
+    return toErrorResult(error, 'Failed to create team challenge');
+  }
+}
+
+// Sends the member a team_invite notification
+export async function inviteToTeam(teamId: string, username: string): Promise<Result> {
+  try {
+    const { error } = await supabase
+      .rpc('invite_to_challenge_team', { p_team_id: teamId, p_username: username });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error inviting to team:', error);
+    return toErrorResult(error, 'Failed to send invite');
+  }
+}
+
+export async function respondToTeamInvite(teamId: string, accept: boolean): Promise<Result> {
+  try {
+    const { error } = await supabase
+      .rpc('respond_to_team_invite', { p_team_id: teamId, p_accept: accept });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error responding to team invite:', error);
+    return toErrorResult(error, 'Failed to respond to invite');
+  }
+}
+
+// Pick a team in an open (admin-created) challenge
+export async function joinChallengeTeam(teamId: string): Promise<Result> {
+  try {
+    const { error } = await supabase.rpc('join_challenge_team', { p_team_id: teamId });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error joining team:', error);
+    return toErrorResult(error, 'Failed to join team');
+  }
+}
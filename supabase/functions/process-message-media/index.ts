@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { FFmpeg } from 'https://esm.sh/@ffmpeg.wasm/main@0.13.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BUCKET = 'message-media'
+
+// Checked clips and the posters rendered from them are stored here. Users can
+// only write to and delete from their own folder, so nobody can swap a clip
+// or poster after it has been checked.
+const PROCESSED_FOLDER = 'processed'
+
+// Mirrors the message_media_limits constraint
+const LIMITS = {
+  audio: { maxBytes: 10 * 1024 * 1024, maxDurationMs: 5 * 60 * 1000 },
+  video: { maxBytes: 50 * 1024 * 1024, maxDurationMs: 2 * 60 * 1000 },
+}
+
+const MIME_TYPES: Record<string, string[]> = {
+  audio: ['audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/aac'],
+  video: ['video/mp4', 'video/quicktime'],
+}
+
+type MediaType = keyof typeof LIMITS
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+type Box = { type: string, start: number, end: number }
+
+// The boxes directly inside start..end of an MP4 / QuickTime file (what the
+// app records), or null if a box header doesn't add up
+const readBoxes = (view: DataView, start: number, end: number): Box[] | null => {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let headerSize = 8
+    const type = String.fromCharCode(
+      view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7)
+    )
+
+    if (size === 1) {
+      // 64-bit size follows the type
+      size = Number(view.getBigUint64(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset // Runs to the end of the file
+    }
+    if (size < headerSize) return null
+
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) })
+    offset += size
+  }
+  return boxes
+}
+
+const findBox = (view: DataView, parent: Box | null, path: string[]): Box | null => {
+  let box = parent
+  for (const type of path) {
+    box = readBoxes(view, box ? box.start : 0, box ? box.end : view.byteLength)?.find(child => child.type === type) ?? null
+    if (!box) return null
+  }
+  return box
+}
+
+// How long a clip runs. The movie header (moov > mvhd) only states a
+// duration, so each track's is also worked out from its sample table (how
+// long every sample plays, in stts) and the longest one counts: a clip
+// can't claim to be shorter than the media it carries.
+const readMp4DurationMs = (buffer: ArrayBuffer): number | null => {
+  const view = new DataView(buffer)
+
+  const moov = findBox(view, null, ['moov'])
+  const mvhd = findBox(view, moov, ['mvhd'])
+  if (!moov || !mvhd) return null
+
+  // Fragmented files keep their samples outside moov
+  if (findBox(view, moov, ['mvex'])) return null
+
+  const version = view.getUint8(mvhd.start)
+  const timescale = version === 1 ? view.getUint32(mvhd.start + 20) : view.getUint32(mvhd.start + 12)
+  const duration = version === 1 ? Number(view.getBigUint64(mvhd.start + 24)) : view.getUint32(mvhd.start + 16)
+  if (!timescale || !duration) return null
+
+  let durationMs = (duration / timescale) * 1000
+
+  const tracks = (readBoxes(view, moov.start, moov.end) || []).filter(box => box.type === 'trak')
+  if (tracks.length === 0) return null
+
+  for (const trak of tracks) {
+    const mdhd = findBox(view, trak, ['mdia', 'mdhd'])
+    const stts = findBox(view, trak, ['mdia', 'minf', 'stbl', 'stts'])
+    if (!mdhd || !stts) return null
+
+    const trackTimescale = view.getUint8(mdhd.start) === 1 ? view.getUint32(mdhd.start + 20) : view.getUint32(mdhd.start + 12)
+    if (!trackTimescale) return null
+
+    // stts: version/flags, entry count, then (sample count, sample duration) pairs
+    const entries = view.getUint32(stts.start + 4)
+    if (stts.start + 8 + entries * 8 > stts.end) return null
+
+    let trackDuration = 0
+    for (let entry = 0; entry < entries; entry++) {
+      const entryStart = stts.start + 8 + entry * 8
+      trackDuration += view.getUint32(entryStart) * view.getUint32(entryStart + 4)
+    }
+
+    durationMs = Math.max(durationMs, (trackDuration / trackTimescale) * 1000)
+  }
+
+  return Math.round(durationMs)
+}
+
+// A JPEG of a video's first frame, scaled to 480 px wide, or null if the
+// frame can't be decoded
+const renderPoster = async (video: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const ffmpeg = await FFmpeg.create({ core: '@ffmpeg.wasm/core-st' })
+    ffmpeg.fs.writeFile('input', video)
+    await ffmpeg.run('-i', 'input', '-frames:v', '1', '-vf', 'scale=480:-2', '-q:v', '5', 'poster.jpg')
+    return ffmpeg.fs.readFile('poster.jpg')
+  } catch (error) {
+    console.error('Error rendering video poster:', error)
+    return null
+  }
+}
+
+// Checks a freshly uploaded voice note or video, moves it out of the
+// uploader's folder, renders a video's poster frame and records it in
+// message_media, which audio and video messages must point at. Anything over
+// the limits is deleted and rejected with an error_code.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error(`Missing environment variables: SUPABASE_URL=${!!supabaseUrl}, SUPABASE_SERVICE_ROLE_KEY=${!!supabaseServiceKey}`)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The caller, from their own access token
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    const { data: { user } } = await supabase.auth.getUser(token)
+    if (!user) {
+      return respond({ success: false, error_code: 'NOT_AUTHENTICATED' })
+    }
+
+    const { path, media_type } = await req.json()
+    const mediaType = media_type as MediaType
+
+    // Only files from the caller's own folder
+    const ownFolder = `${user.id}/`
+    if (!LIMITS[mediaType] || typeof path !== 'string' || !path.startsWith(ownFolder)) {
+      return respond({ success: false, error_code: 'INVALID_MEDIA' })
+    }
+    const reject = async (errorCode: string) => {
+      await supabase.storage.from(BUCKET).remove([path])
+      return respond({ success: false, error_code: errorCode })
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage.from(BUCKET).download(path)
+    if (downloadError || !file) {
+      return respond({ success: false, error_code: 'MEDIA_NOT_FOUND' })
+    }
+
+    const mimeType = file.type.split(';')[0]
+    if (!MIME_TYPES[mediaType].includes(mimeType)) {
+      return await reject('UNSUPPORTED_FORMAT')
+    }
+    if (file.size > LIMITS[mediaType].maxBytes) {
+      return await reject('FILE_TOO_LARGE')
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const durationMs = readMp4DurationMs(bytes.buffer)
+    if (durationMs === null) {
+      return await reject('UNSUPPORTED_FORMAT')
+    }
+    if (durationMs > LIMITS[mediaType].maxDurationMs) {
+      return await reject('TOO_LONG')
+    }
+
+    const processedPath = `${PROCESSED_FOLDER}/${path}`
+    const { error: moveError } = await supabase.storage.from(BUCKET).move(path, processedPath)
+    if (moveError) throw moveError
+
+    const { data: { publicUrl } } = supabase.storage.from(BUCKET).getPublicUrl(processedPath)
+
+    // A clip whose frame can't be decoded is still sent, without a thumbnail
+    let thumbnailUrl: string | null = null
+    const poster = mediaType === 'video' ? await renderPoster(bytes) : null
+    if (poster) {
+      const posterPath = processedPath.replace(/\.[^./]+$/, '') + '_poster.jpg'
+      const { error: posterError } = await supabase.storage.from(BUCKET)
+        .upload(posterPath, poster, { contentType: 'image/jpeg', upsert: true })
+      if (posterError) throw posterError
+
+      thumbnailUrl = supabase.storage.from(BUCKET).getPublicUrl(posterPath).data.publicUrl
+    }
+
+    const { data: media, error: insertError } = await supabase
+      .from('message_media')
+      .insert({
+        uploaded_by: user.id,
+        media_type: mediaType,
+        storage_path: processedPath,
+        file_url: publicUrl,
+        mime_type: mimeType,
+        file_size: file.size,
+        duration_ms: durationMs,
+        thumbnail_url: thumbnailUrl,
+      })
+      .select('file_url, mime_type, file_size, duration_ms, thumbnail_url')
+      .single()
+
+    if (insertError) throw insertError
+
+    return respond({ success: true, media })
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    return respond({ success: false, error_code: 'PROCESSING_FAILED', error: message }, 500)
+  }
+})
@@ -0,0 +1,246 @@
+/*
+  # Signed Gym QR Codes
+
+  Replaces the "contains gym" QR check with signed, short-lived tokens.
+
+  Token format: rgqr1:<gym_id>:<issued_epoch>:<expires_epoch>:<nonce>:<signature>
+  The signature is an HMAC-SHA256 (hex) of everything before it, keyed with the
+  gym's secret. Secrets never leave the database: tokens are issued by
+  generate_gym_qr_token (admins only, for the kiosk screen) and checked by
+  verify_gym_qr_token, which also records each redemption so a token cannot be
+  used twice by the same member. A token expires when the kiosk shows the next
+  one, so a photo of the screen is useless a few seconds later.
+
+  Members no longer insert check-ins themselves: record_checkin verifies the
+  token and writes the check-in in the same call.
+
+  1. gym_qr_secrets - per-gym signing secret and rotation interval
+  2. gym_qr_redemptions - redeemed token nonces (replay protection)
+  3. generate_gym_qr_token / verify_gym_qr_token functions
+  4. record_checkin function, replacing direct inserts into gym_checkins
+  5. purge_gym_qr_redemptions - scheduled cleanup of redemptions for tokens
+     that have expired
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.gym_qr_secrets (
+  gym_id text PRIMARY KEY,
+  secret text NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  rotation_seconds integer NOT NULL DEFAULT 30 CHECK (rotation_seconds BETWEEN 10 AND 600),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.gym_qr_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  gym_id text NOT NULL REFERENCES public.gym_qr_secrets(gym_id) ON DELETE CASCADE,
+  nonce text NOT NULL,
+  redeemed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gym_qr_redemptions_redeemed_at ON public.gym_qr_redemptions(redeemed_at);
+
+-- Secrets and redemptions are only reachable through the SECURITY DEFINER functions below
+ALTER TABLE public.gym_qr_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gym_qr_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Seed the default gym
+INSERT INTO public.gym_qr_secrets (gym_id)
+VALUES ('ruangym')
+ON CONFLICT (gym_id) DO NOTHING;
+
+-- Issue a signed token for the kiosk screen
+CREATE OR REPLACE FUNCTION generate_gym_qr_token(p_gym_id text DEFAULT 'ruangym')
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_secret text;
+  v_rotation integer;
+  v_issued bigint;
+  v_expires bigint;
+  v_nonce text;
+  v_payload text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can generate gym QR codes';
+  END IF;
+
+  SELECT secret, rotation_seconds INTO v_secret, v_rotation
+  FROM gym_qr_secrets
+  WHERE gym_id = p_gym_id;
+
+  IF v_secret IS NULL THEN
+    RAISE EXCEPTION 'Unknown gym: %', p_gym_id;
+  END IF;
+
+  -- A token is only valid while it's on screen, plus a few seconds so a scan
+  -- started just before the kiosk refreshes still succeeds
+  v_issued := floor(extract(epoch FROM now()))::bigint;
+  v_expires := v_issued + v_rotation + 5;
+  v_nonce := encode(gen_random_bytes(8), 'hex');
+  v_payload := format('rgqr1:%s:%s:%s:%s', p_gym_id, v_issued, v_expires, v_nonce);
+
+  RETURN jsonb_build_object(
+    'token', v_payload || ':' || encode(hmac(v_payload, v_secret, 'sha256'), 'hex'),
+    'gym_id', p_gym_id,
+    'issued_at', to_timestamp(v_issued),
+    'expires_at', to_timestamp(v_expires),
+    'rotation_seconds', v_rotation
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify a scanned token for the calling user and record the redemption
+CREATE OR REPLACE FUNCTION verify_gym_qr_token(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_parts text[];
+  v_gym_id text;
+  v_issued bigint;
+  v_expires bigint;
+  v_nonce text;
+  v_secret text;
+  v_now bigint := floor(extract(epoch FROM now()))::bigint;
+  v_inserted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_VERIFICATION_FAILED');
+  END IF;
+
+  v_parts := string_to_array(coalesce(p_token, ''), ':');
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 6
+     OR v_parts[1] <> 'rgqr1'
+     OR v_parts[3] !~ '^[0-9]+$'
+     OR v_parts[4] !~ '^[0-9]+$' THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_INVALID_FORMAT');
+  END IF;
+
+  v_gym_id := v_parts[2];
+  v_issued := v_parts[3]::bigint;
+  v_expires := v_parts[4]::bigint;
+  v_nonce := v_parts[5];
+
+  SELECT secret INTO v_secret FROM gym_qr_secrets WHERE gym_id = v_gym_id;
+
+  IF v_secret IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_UNKNOWN_GYM');
+  END IF;
+
+  IF encode(hmac(array_to_string(v_parts[1:5], ':'), v_secret, 'sha256'), 'hex') <> v_parts[6] THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_FORGED');
+  END IF;
+
+  -- Allow a few seconds of clock skew on the issue time
+  IF v_issued > v_now + 5 OR v_expires < v_now THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_EXPIRED', 'gym_id', v_gym_id);
+  END IF;
+
+  INSERT INTO gym_qr_redemptions (user_id, gym_id, nonce)
+  VALUES (auth.uid(), v_gym_id, v_nonce)
+  ON CONFLICT (user_id, nonce) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  IF v_inserted = 0 THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_REPLAYED', 'gym_id', v_gym_id);
+  END IF;
+
+  RETURN jsonb_build_object('valid', true, 'gym_id', v_gym_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check the current user in with a scanned token. The token is verified and
+-- redeemed here, so a check-in can only exist for a code the gym issued.
+-- Returns { success, error_code, checkin }.
+CREATE OR REPLACE FUNCTION record_checkin(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_verification jsonb;
+  v_user_type text;
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_verification := verify_gym_qr_token(p_token);
+
+  IF NOT (v_verification->>'valid')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'error_code', v_verification->>'error_code');
+  END IF;
+
+  SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+  INSERT INTO gym_checkins (user_id, user_type, check_in_time, is_checked_in, check_in_reason)
+  VALUES (
+    v_user_id,
+    coalesce(v_user_type, 'user'),
+    now(),
+    true,
+    CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END
+  )
+  RETURNING * INTO v_checkin;
+
+  RETURN jsonb_build_object('success', true, 'checkin', to_jsonb(v_checkin));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redemptions only matter while their token is valid. Tokens can be issued up
+-- to 5 seconds ahead of the verifying clock and are valid for one rotation
+-- plus 5 seconds.
+CREATE OR REPLACE FUNCTION purge_gym_qr_redemptions()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  DELETE FROM gym_qr_redemptions r
+  USING gym_qr_secrets s
+  WHERE s.gym_id = r.gym_id
+    AND r.redeemed_at < now() - make_interval(secs => s.rotation_seconds + 10);
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check-ins are only written through record_checkin
+DROP POLICY IF EXISTS "Users can create own check-ins" ON public.gym_checkins;
+DROP POLICY IF EXISTS "Users can create their own checkins" ON public.gym_checkins;
+
+GRANT EXECUTE ON FUNCTION generate_gym_qr_token(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_gym_qr_token(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_checkin(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION purge_gym_qr_redemptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_gym_qr_redemptions() TO service_role;
+
+-- Schedule the cleanup where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'purge-gym-qr-redemptions',
+      '0 * * * *',
+      'SELECT public.purge_gym_qr_redemptions()'
+    );
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.gym_qr_secrets IS 'Per-gym HMAC secrets used to sign check-in QR tokens';
+COMMENT ON TABLE public.gym_qr_redemptions IS 'Redeemed QR token nonces, used to reject replayed codes';
+COMMENT ON FUNCTION generate_gym_qr_token(text) IS 'Issues a signed, short-lived check-in QR token for a gym. Admins only.';
+COMMENT ON FUNCTION verify_gym_qr_token(text) IS 'Verifies a scanned QR token for the current user and records the redemption.';
+COMMENT ON FUNCTION record_checkin(text) IS 'Verifies a scanned QR token and checks the current user in.';
+COMMENT ON FUNCTION purge_gym_qr_redemptions() IS 'Deletes redemptions of QR tokens that have expired. Run by pg_cron.';
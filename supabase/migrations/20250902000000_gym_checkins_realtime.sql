@@ -0,0 +1,18 @@
+/*
+  # Gym Check-ins Realtime
+
+  The admin kiosk screen keeps a live "who's in now" board, which needs
+  row changes on gym_checkins to be broadcast over Supabase Realtime.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'gym_checkins'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.gym_checkins;
+  END IF;
+END $$;
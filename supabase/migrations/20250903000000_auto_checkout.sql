@@ -0,0 +1,199 @@
+/*
+  # Automatic Check-out
+
+  Members often forget to check out. Instead of stamping those sessions with
+  the time of their next check-in (which produced multi-day durations), open
+  sessions are now closed at an estimated end time and flagged as auto_closed.
+
+  1. gym_settings - admin-editable gym configuration (key/value)
+  2. gym_checkins.auto_closed column
+  3. estimate_checkin_end / close_open_checkins / auto_close_stale_checkins functions
+  4. record_checkin closes the member's open sessions before a new check-in
+  5. pg_cron job running auto_close_stale_checkins every 15 minutes
+*/
+
+CREATE TABLE IF NOT EXISTS public.gym_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  description text,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.gym_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view gym settings"
+ON public.gym_settings
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert gym settings"
+ON public.gym_settings
+FOR INSERT TO authenticated
+WITH CHECK (auth.uid() IN (SELECT id FROM admin_profiles));
+
+CREATE POLICY "Admins can update gym settings"
+ON public.gym_settings
+FOR UPDATE TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('max_session_hours', '4', 'Open check-ins older than this many hours are closed automatically'),
+  ('default_session_minutes', '90', 'Estimated session length for members without completed sessions')
+ON CONFLICT (key) DO NOTHING;
+
+-- Read a numeric setting with a fallback
+CREATE OR REPLACE FUNCTION get_gym_setting_numeric(p_key text, p_default numeric)
+RETURNS numeric
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT (value #>> '{}')::numeric FROM gym_settings WHERE key = p_key), p_default);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE public.gym_checkins
+ADD COLUMN IF NOT EXISTS auto_closed boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_gym_checkins_open_sessions
+ON public.gym_checkins(check_in_time)
+WHERE is_checked_in = true;
+
+COMMENT ON COLUMN public.gym_checkins.auto_closed IS 'Session was closed by the system at an estimated end time, not by the member';
+
+-- Estimate when a forgotten session really ended: the member's average
+-- completed session length, capped at the maximum session length and never
+-- later than now
+CREATE OR REPLACE FUNCTION estimate_checkin_end(p_user_id uuid, p_check_in_time timestamptz)
+RETURNS timestamptz
+SET search_path = public
+AS $$
+DECLARE
+  v_max_minutes numeric := get_gym_setting_numeric('max_session_hours', 4) * 60;
+  v_avg_minutes numeric;
+BEGIN
+  SELECT avg(extract(epoch FROM (recent.check_out_time - recent.check_in_time)) / 60)
+  INTO v_avg_minutes
+  FROM (
+    SELECT check_in_time, check_out_time
+    FROM gym_checkins
+    WHERE user_id = p_user_id
+      AND check_out_time IS NOT NULL
+      AND auto_closed = false
+      AND check_out_time > check_in_time
+    ORDER BY check_in_time DESC
+    LIMIT 20
+  ) recent;
+
+  v_avg_minutes := least(
+    coalesce(v_avg_minutes, get_gym_setting_numeric('default_session_minutes', 90)),
+    v_max_minutes
+  );
+
+  RETURN least(p_check_in_time + make_interval(secs => v_avg_minutes * 60), now());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Close every open session for a user (called before a new check-in)
+CREATE OR REPLACE FUNCTION close_open_checkins(p_user_id uuid)
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_closed integer;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to close check-ins for another user';
+  END IF;
+
+  UPDATE gym_checkins
+  SET is_checked_in = false,
+      check_out_time = estimate_checkin_end(user_id, check_in_time),
+      auto_closed = true
+  WHERE user_id = p_user_id
+    AND is_checked_in = true;
+
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check-ins now close the member's forgotten sessions first
+CREATE OR REPLACE FUNCTION record_checkin(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_verification jsonb;
+  v_user_type text;
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_verification := verify_gym_qr_token(p_token);
+
+  IF NOT (v_verification->>'valid')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'error_code', v_verification->>'error_code');
+  END IF;
+
+  PERFORM close_open_checkins(v_user_id);
+
+  SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+  INSERT INTO gym_checkins (user_id, user_type, check_in_time, is_checked_in, check_in_reason)
+  VALUES (
+    v_user_id,
+    coalesce(v_user_type, 'user'),
+    now(),
+    true,
+    CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END
+  )
+  RETURNING * INTO v_checkin;
+
+  RETURN jsonb_build_object('success', true, 'checkin', to_jsonb(v_checkin));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Scheduled job: close sessions that have been open longer than the cap
+CREATE OR REPLACE FUNCTION auto_close_stale_checkins()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_closed integer;
+BEGIN
+  UPDATE gym_checkins
+  SET is_checked_in = false,
+      check_out_time = estimate_checkin_end(user_id, check_in_time),
+      auto_closed = true
+  WHERE is_checked_in = true
+    AND check_in_time < now() - make_interval(secs => get_gym_setting_numeric('max_session_hours', 4) * 3600);
+
+  GET DIAGNOSTICS v_closed = ROW_COUNT;
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_gym_setting_numeric(text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_open_checkins(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION estimate_checkin_end(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION auto_close_stale_checkins() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION auto_close_stale_checkins() TO service_role;
+
+-- Schedule the job where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'auto-close-stale-checkins',
+      '*/15 * * * *',
+      'SELECT public.auto_close_stale_checkins()'
+    );
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.gym_settings IS 'Gym-wide configuration editable by admins';
+COMMENT ON FUNCTION auto_close_stale_checkins() IS 'Closes check-ins open longer than max_session_hours at an estimated end time. Run by pg_cron.';
@@ -0,0 +1,138 @@
+/*
+  # Gym Locations
+
+  Adds support for running several gym branches on the same app.
+
+  1. gym_locations table (the existing single site is seeded as 'ruangym')
+  2. Every location gets its own QR signing secret
+  3. gym_checkins.location_id records where each check-in happened, taken
+     from the QR code by record_checkin
+  4. user_profiles.home_gym_id stores a member's preferred branch
+*/
+
+CREATE TABLE IF NOT EXISTS public.gym_locations (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9-]+$'),
+  name text NOT NULL,
+  address text,
+  city text,
+  timezone text NOT NULL DEFAULT 'UTC',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.gym_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view gym locations"
+ON public.gym_locations
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert gym locations"
+ON public.gym_locations
+FOR INSERT TO authenticated
+WITH CHECK (auth.uid() IN (SELECT id FROM admin_profiles));
+
+CREATE POLICY "Admins can update gym locations"
+ON public.gym_locations
+FOR UPDATE TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+INSERT INTO public.gym_locations (id, name)
+VALUES ('ruangym', 'Ruangym')
+ON CONFLICT (id) DO NOTHING;
+
+-- QR secrets now belong to a location
+INSERT INTO public.gym_locations (id, name)
+SELECT gym_id, gym_id FROM public.gym_qr_secrets
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.gym_qr_secrets
+DROP CONSTRAINT IF EXISTS gym_qr_secrets_gym_id_fkey;
+
+ALTER TABLE public.gym_qr_secrets
+ADD CONSTRAINT gym_qr_secrets_gym_id_fkey
+FOREIGN KEY (gym_id) REFERENCES public.gym_locations(id) ON DELETE CASCADE;
+
+-- Give every new location a signing secret
+CREATE OR REPLACE FUNCTION create_gym_location_qr_secret()
+RETURNS trigger
+SET search_path = public, extensions
+AS $$
+BEGIN
+  INSERT INTO gym_qr_secrets (gym_id)
+  VALUES (NEW.id)
+  ON CONFLICT (gym_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS create_gym_location_qr_secret ON public.gym_locations;
+CREATE TRIGGER create_gym_location_qr_secret
+  AFTER INSERT ON public.gym_locations
+  FOR EACH ROW EXECUTE FUNCTION create_gym_location_qr_secret();
+
+-- Reuse the check-in updated_at trigger function
+DROP TRIGGER IF EXISTS update_gym_locations_updated_at ON public.gym_locations;
+CREATE TRIGGER update_gym_locations_updated_at
+  BEFORE UPDATE ON public.gym_locations
+  FOR EACH ROW EXECUTE FUNCTION update_gym_checkins_updated_at();
+
+-- Location of every check-in
+ALTER TABLE public.gym_checkins
+ADD COLUMN IF NOT EXISTS location_id text REFERENCES public.gym_locations(id) DEFAULT 'ruangym';
+
+UPDATE public.gym_checkins SET location_id = 'ruangym' WHERE location_id IS NULL;
+
+ALTER TABLE public.gym_checkins ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_gym_checkins_location_active
+ON public.gym_checkins(location_id, is_checked_in);
+
+-- Check in at the location the QR code was issued for
+CREATE OR REPLACE FUNCTION record_checkin(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_verification jsonb;
+  v_user_type text;
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_verification := verify_gym_qr_token(p_token);
+
+  IF NOT (v_verification->>'valid')::boolean THEN
+    RETURN jsonb_build_object('success', false, 'error_code', v_verification->>'error_code');
+  END IF;
+
+  PERFORM close_open_checkins(v_user_id);
+
+  SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+  INSERT INTO gym_checkins (user_id, user_type, check_in_time, is_checked_in, check_in_reason, location_id)
+  VALUES (
+    v_user_id,
+    coalesce(v_user_type, 'user'),
+    now(),
+    true,
+    CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+    v_verification->>'gym_id'
+  )
+  RETURNING * INTO v_checkin;
+
+  RETURN jsonb_build_object('success', true, 'checkin', to_jsonb(v_checkin));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Member's preferred branch
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS home_gym_id text REFERENCES public.gym_locations(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE public.gym_locations IS 'Gym branches that members can check in to';
+COMMENT ON COLUMN public.gym_checkins.location_id IS 'Gym location the check-in QR code was issued for';
+COMMENT ON COLUMN public.user_profiles.home_gym_id IS 'Member''s preferred gym location';
@@ -0,0 +1,100 @@
+/*
+  # Gym Capacity and Occupancy
+
+  Lets members see how full their gym is before they head over.
+
+  1. gym_locations.capacity - maximum number of people inside at once
+  2. block_checkins_at_capacity setting - refuse member check-ins when full
+     (otherwise members are only warned)
+  3. get_gym_occupancy - live headcount from open check-ins
+  4. get_gym_busy_hours - average headcount per weekday/hour from history
+*/
+
+ALTER TABLE public.gym_locations
+ADD COLUMN IF NOT EXISTS capacity integer NOT NULL DEFAULT 100 CHECK (capacity > 0);
+
+COMMENT ON COLUMN public.gym_locations.capacity IS 'Maximum number of people allowed inside at once';
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('block_checkins_at_capacity', 'false', 'Refuse member check-ins when a location is at capacity instead of only warning')
+ON CONFLICT (key) DO NOTHING;
+
+-- Current headcount for a location. Members can't read other members'
+-- check-ins, so this runs as SECURITY DEFINER and only returns totals.
+CREATE OR REPLACE FUNCTION get_gym_occupancy(p_location_id text DEFAULT 'ruangym')
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity integer;
+  v_occupancy integer;
+BEGIN
+  SELECT capacity INTO v_capacity
+  FROM gym_locations
+  WHERE id = p_location_id;
+
+  IF v_capacity IS NULL THEN
+    RAISE EXCEPTION 'Unknown gym location: %', p_location_id;
+  END IF;
+
+  SELECT count(DISTINCT user_id) INTO v_occupancy
+  FROM gym_checkins
+  WHERE location_id = p_location_id
+    AND is_checked_in = true;
+
+  RETURN jsonb_build_object(
+    'location_id', p_location_id,
+    'capacity', v_capacity,
+    'occupancy', v_occupancy,
+    'updated_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Average number of people inside for every weekday (0 = Sunday) and hour,
+-- in the location's local time, over the last p_weeks weeks. Slots nobody
+-- was in are omitted and count as zero.
+CREATE OR REPLACE FUNCTION get_gym_busy_hours(
+  p_location_id text DEFAULT 'ruangym',
+  p_weeks integer DEFAULT 8
+)
+RETURNS TABLE (weekday integer, hour integer, average_occupancy numeric)
+SET search_path = public
+AS $$
+  WITH location AS (
+    SELECT timezone FROM gym_locations WHERE id = p_location_id
+  ),
+  sessions AS (
+    SELECT
+      c.user_id,
+      c.check_in_time AT TIME ZONE l.timezone AS started_at,
+      coalesce(c.check_out_time, now()) AT TIME ZONE l.timezone AS ended_at
+    FROM gym_checkins c, location l
+    WHERE c.location_id = p_location_id
+      AND c.check_in_time >= now() - make_interval(weeks => p_weeks)
+  ),
+  -- Gyms with less history than p_weeks are averaged over the weeks they have
+  weeks_covered AS (
+    SELECT greatest(1, least(p_weeks, ceil(extract(epoch FROM (max(ended_at) - min(started_at))) / 604800))) AS weeks
+    FROM sessions
+  ),
+  hourly AS (
+    SELECT slot, count(DISTINCT s.user_id) AS people
+    FROM sessions s
+    CROSS JOIN LATERAL generate_series(date_trunc('hour', s.started_at), s.ended_at, interval '1 hour') AS slot
+    GROUP BY slot
+  )
+  SELECT
+    extract(dow FROM h.slot)::integer AS weekday,
+    extract(hour FROM h.slot)::integer AS hour,
+    round(sum(h.people)::numeric / w.weeks, 1) AS average_occupancy
+  FROM hourly h, weeks_covered w
+  GROUP BY 1, 2, w.weeks
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_gym_occupancy(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_gym_busy_hours(text, integer) TO authenticated;
+
+COMMENT ON FUNCTION get_gym_occupancy(text) IS 'Live headcount and capacity for a gym location';
+COMMENT ON FUNCTION get_gym_busy_hours(text, integer) IS 'Average headcount per weekday and hour, used to predict busy times';
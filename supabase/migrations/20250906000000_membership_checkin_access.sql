@@ -0,0 +1,264 @@
+/*
+  # Membership Check-in Access
+
+  Check-in now enforces the membership state admins maintain in the members
+  screen (payment_status, subscription_end, is_blocked).
+
+  1. membership_grace_days setting - days an expired member can still check in
+  2. checkin_denials - audit log of refused check-in attempts
+  3. check_membership_access - decides whether a user may check in and logs
+     the attempt when they may not
+  4. log_checkin_denial - records refusals decided elsewhere (bad QR code,
+     gym at capacity, check-in limits)
+  5. record_checkin - refuses members without access, and members arriving
+     at a full location when block_checkins_at_capacity is on
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('membership_grace_days', '3', 'Days after subscription_end that an expired member can still check in')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.checkin_denials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  location_id text REFERENCES public.gym_locations(id) ON DELETE SET NULL,
+  reason text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_denials_created_at
+ON public.checkin_denials(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_denials_user_id
+ON public.checkin_denials(user_id);
+
+ALTER TABLE public.checkin_denials ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through the functions below
+CREATE POLICY "Admins can view check-in denials"
+ON public.checkin_denials
+FOR SELECT TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+-- Record a refused check-in attempt
+CREATE OR REPLACE FUNCTION log_checkin_denial(
+  p_user_id uuid,
+  p_location_id text,
+  p_reason text,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to log check-in attempts for another user';
+  END IF;
+
+  INSERT INTO checkin_denials (user_id, location_id, reason, details)
+  VALUES (
+    p_user_id,
+    (SELECT id FROM gym_locations WHERE id = p_location_id),
+    p_reason,
+    coalesce(p_details, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Decide whether a user may check in. Blocked accounts are always refused.
+-- Members (not trainers) also need a paid, unexpired membership; expired
+-- members keep access for membership_grace_days after subscription_end.
+-- Dates are compared in the location's timezone.
+CREATE OR REPLACE FUNCTION check_membership_access(p_user_id uuid, p_location_id text DEFAULT NULL)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_profile record;
+  v_today date;
+  v_grace_days integer := get_gym_setting_numeric('membership_grace_days', 3)::integer;
+  v_grace_remaining integer;
+  v_reason text;
+  v_warning text;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to check membership access for another user';
+  END IF;
+
+  v_today := (now() AT TIME ZONE coalesce(
+    (SELECT timezone FROM gym_locations WHERE id = p_location_id),
+    'UTC'
+  ))::date;
+
+  SELECT user_type, payment_status, subscription_end, coalesce(is_blocked, false) AS is_blocked
+  INTO v_profile
+  FROM user_profiles
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    v_reason := 'PROFILE_NOT_FOUND';
+  ELSIF v_profile.is_blocked THEN
+    v_reason := 'MEMBERSHIP_BLOCKED';
+  ELSIF v_profile.user_type = 'user' THEN
+    IF v_profile.payment_status = 'unpaid' THEN
+      v_reason := 'MEMBERSHIP_UNPAID';
+    ELSIF v_profile.subscription_end IS NOT NULL AND v_profile.subscription_end < v_today THEN
+      v_grace_remaining := v_profile.subscription_end + v_grace_days - v_today;
+      IF v_grace_remaining >= 0 THEN
+        v_warning := 'MEMBERSHIP_GRACE_PERIOD';
+      ELSE
+        v_reason := 'MEMBERSHIP_EXPIRED';
+      END IF;
+    ELSIF v_profile.payment_status = 'expired' THEN
+      -- Marked expired without an end date to count the grace period from
+      v_reason := 'MEMBERSHIP_EXPIRED';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO checkin_denials (user_id, location_id, reason, details)
+    SELECT
+      p_user_id,
+      (SELECT id FROM gym_locations WHERE id = p_location_id),
+      v_reason,
+      jsonb_build_object(
+        'payment_status', v_profile.payment_status,
+        'subscription_end', v_profile.subscription_end
+      )
+    WHERE v_reason <> 'PROFILE_NOT_FOUND';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_reason IS NULL,
+    'reason', v_reason,
+    'warning', v_warning,
+    'subscription_end', CASE WHEN v_reason = 'PROFILE_NOT_FOUND' THEN NULL ELSE v_profile.subscription_end END,
+    'grace_days_remaining', v_grace_remaining
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Membership and capacity rules for a check-in at a location, logging the
+-- attempt when it's refused. Staff can check in to a full gym; members are
+-- refused when block_checkins_at_capacity is on and otherwise only warned.
+-- Returns { allowed, error_code, warnings, access }.
+CREATE OR REPLACE FUNCTION checkin_access(p_user_id uuid, p_location_id text)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_access jsonb;
+  v_occupancy jsonb;
+  v_warnings jsonb := '[]'::jsonb;
+BEGIN
+  -- check_membership_access logs its own refusals
+  v_access := check_membership_access(p_user_id, p_location_id);
+
+  IF NOT (v_access->>'allowed')::boolean THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'error_code', v_access->>'reason',
+      'warnings', v_warnings,
+      'access', v_access
+    );
+  END IF;
+
+  IF v_access->>'warning' IS NOT NULL THEN
+    v_warnings := v_warnings || jsonb_build_array(jsonb_build_object('code', v_access->>'warning'));
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_profiles WHERE id = p_user_id AND user_type = 'trainer') THEN
+    RETURN jsonb_build_object('allowed', true, 'warnings', v_warnings, 'access', v_access);
+  END IF;
+
+  v_occupancy := get_gym_occupancy(p_location_id);
+
+  IF (v_occupancy->>'occupancy')::integer >= (v_occupancy->>'capacity')::integer THEN
+    IF coalesce((SELECT (value #>> '{}')::boolean FROM gym_settings WHERE key = 'block_checkins_at_capacity'), false) THEN
+      PERFORM log_checkin_denial(
+        p_user_id, p_location_id, 'GYM_AT_CAPACITY',
+        jsonb_build_object('occupancy', v_occupancy->'occupancy', 'capacity', v_occupancy->'capacity')
+      );
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'error_code', 'GYM_AT_CAPACITY',
+        'warnings', v_warnings,
+        'access', v_access
+      );
+    END IF;
+
+    v_warnings := v_warnings || jsonb_build_array(jsonb_build_object('code', 'GYM_AT_CAPACITY'));
+  END IF;
+
+  RETURN jsonb_build_object('allowed', true, 'warnings', v_warnings, 'access', v_access);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check the current user in with a scanned QR token. Refusals are logged to
+-- checkin_denials. Returns { success, error_code, checkin, warnings, access }.
+CREATE OR REPLACE FUNCTION record_checkin(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_verification jsonb;
+  v_access jsonb;
+  v_user_type text;
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_verification := verify_gym_qr_token(p_token);
+
+  IF NOT (v_verification->>'valid')::boolean THEN
+    PERFORM log_checkin_denial(v_user_id, NULL, v_verification->>'error_code');
+    RETURN jsonb_build_object('success', false, 'error_code', v_verification->>'error_code');
+  END IF;
+
+  v_access := checkin_access(v_user_id, v_verification->>'gym_id');
+
+  IF NOT (v_access->>'allowed')::boolean THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', v_access->>'error_code',
+      'access', v_access->'access'
+    );
+  END IF;
+
+  PERFORM close_open_checkins(v_user_id);
+
+  SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+  INSERT INTO gym_checkins (user_id, user_type, check_in_time, is_checked_in, check_in_reason, location_id)
+  VALUES (
+    v_user_id,
+    coalesce(v_user_type, 'user'),
+    now(),
+    true,
+    CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+    v_verification->>'gym_id'
+  )
+  RETURNING * INTO v_checkin;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkin', to_jsonb(v_checkin),
+    'warnings', v_access->'warnings',
+    'access', v_access->'access'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Denials are logged by the functions above, not by the app
+REVOKE EXECUTE ON FUNCTION log_checkin_denial(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION checkin_access(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_membership_access(uuid, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.checkin_denials IS 'Audit log of refused check-in attempts, reviewed on the admin dashboard';
+COMMENT ON FUNCTION check_membership_access(uuid, text) IS 'Whether a user may check in based on block status, payment status and subscription end date';
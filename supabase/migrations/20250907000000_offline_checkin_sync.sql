@@ -0,0 +1,332 @@
+/*
+  # Offline Check-in Sync
+
+  Check-ins and check-outs made without signal are queued on the device with
+  their original timestamp (and the scanned QR code) and replayed here once
+  the device is back online.
+
+  1. parse_gym_qr_token - signature/expiry check shared by live and offline
+     verification, evaluated at a given point in time
+  2. offline_checkin_events - one row per replayed device event, so replays
+     are idempotent
+  3. gym_checkins.recorded_offline column
+  4. sync_offline_checkin_event - applies a queued check-in or check-out,
+     resolving conflicts with sessions recorded in the meantime
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('offline_checkin_max_hours', '24', 'Queued offline check-ins older than this many hours are rejected when they sync')
+ON CONFLICT (key) DO NOTHING;
+
+-- Check a token's format, signature and validity window at p_at. Does not
+-- record a redemption.
+CREATE OR REPLACE FUNCTION parse_gym_qr_token(p_token text, p_at timestamptz DEFAULT now())
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_parts text[];
+  v_gym_id text;
+  v_issued bigint;
+  v_expires bigint;
+  v_secret text;
+  v_at bigint := floor(extract(epoch FROM p_at))::bigint;
+BEGIN
+  v_parts := string_to_array(coalesce(p_token, ''), ':');
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 6
+     OR v_parts[1] <> 'rgqr1'
+     OR v_parts[3] !~ '^[0-9]+$'
+     OR v_parts[4] !~ '^[0-9]+$' THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_INVALID_FORMAT');
+  END IF;
+
+  v_gym_id := v_parts[2];
+  v_issued := v_parts[3]::bigint;
+  v_expires := v_parts[4]::bigint;
+
+  SELECT secret INTO v_secret FROM gym_qr_secrets WHERE gym_id = v_gym_id;
+
+  IF v_secret IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_UNKNOWN_GYM');
+  END IF;
+
+  IF encode(hmac(array_to_string(v_parts[1:5], ':'), v_secret, 'sha256'), 'hex') <> v_parts[6] THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_FORGED');
+  END IF;
+
+  -- Allow a few seconds of clock skew on the issue time
+  IF v_issued > v_at + 5 OR v_expires < v_at THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_EXPIRED', 'gym_id', v_gym_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'gym_id', v_gym_id,
+    'nonce', v_parts[5],
+    'issued_at', to_timestamp(v_issued),
+    'expires_at', to_timestamp(v_expires)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION parse_gym_qr_token(text, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Live verification now shares the token checks
+CREATE OR REPLACE FUNCTION verify_gym_qr_token(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_token jsonb;
+  v_inserted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_VERIFICATION_FAILED');
+  END IF;
+
+  v_token := parse_gym_qr_token(p_token, now());
+
+  IF NOT (v_token->>'valid')::boolean THEN
+    RETURN v_token;
+  END IF;
+
+  INSERT INTO gym_qr_redemptions (user_id, gym_id, nonce)
+  VALUES (auth.uid(), v_token->>'gym_id', v_token->>'nonce')
+  ON CONFLICT (user_id, nonce) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  IF v_inserted = 0 THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'QR_REPLAYED', 'gym_id', v_token->>'gym_id');
+  END IF;
+
+  RETURN jsonb_build_object('valid', true, 'gym_id', v_token->>'gym_id');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.gym_checkins
+ADD COLUMN IF NOT EXISTS recorded_offline boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.gym_checkins.recorded_offline IS 'Check-in was made without signal and synced later';
+
+CREATE TABLE IF NOT EXISTS public.offline_checkin_events (
+  id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('check_in', 'check_out')),
+  occurred_at timestamptz NOT NULL,
+  status text NOT NULL CHECK (status IN ('applied', 'rejected')),
+  reason text,
+  checkin_id uuid REFERENCES public.gym_checkins(id) ON DELETE SET NULL,
+  synced_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_checkin_events_user_id
+ON public.offline_checkin_events(user_id);
+
+ALTER TABLE public.offline_checkin_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own offline check-in events"
+ON public.offline_checkin_events
+FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view offline check-in events"
+ON public.offline_checkin_events
+FOR SELECT TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+-- Apply one queued device event for the current user. Replaying the same
+-- p_event_id returns the original result without changing anything.
+--
+-- Conflicts:
+--   check_in  - a session the member opened online after the offline scan
+--               takes precedence; the offline session is stored closed at
+--               its estimated end (never past the next session's start)
+--   check_out - closes the latest session that started before it. An
+--               auto-closed session gets the real check-out time if it is
+--               before the estimated one, and is left alone otherwise. With no
+--               earlier session (the check-in was rejected or never
+--               recorded) the check-out is rejected as NO_MATCHING_CHECKIN.
+CREATE OR REPLACE FUNCTION sync_offline_checkin_event(
+  p_event_id uuid,
+  p_action text,
+  p_occurred_at timestamptz,
+  p_token text DEFAULT NULL
+)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_existing offline_checkin_events%ROWTYPE;
+  v_max_hours numeric := get_gym_setting_numeric('offline_checkin_max_hours', 24);
+  v_token jsonb;
+  v_access jsonb;
+  v_user_type text;
+  v_next_check_in timestamptz;
+  v_session gym_checkins%ROWTYPE;
+  v_checkin_id uuid;
+  v_reason text;
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_existing FROM offline_checkin_events WHERE id = p_event_id;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> v_user_id THEN
+      RAISE EXCEPTION 'Event belongs to another user';
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', v_existing.status,
+      'reason', v_existing.reason,
+      'checkin_id', v_existing.checkin_id,
+      'duplicate', true
+    );
+  END IF;
+
+  IF p_action NOT IN ('check_in', 'check_out') THEN
+    RAISE EXCEPTION 'Unknown offline check-in action: %', p_action;
+  END IF;
+
+  IF p_occurred_at > now() + interval '5 minutes' THEN
+    v_reason := 'OFFLINE_EVENT_IN_FUTURE';
+  ELSIF p_occurred_at < now() - make_interval(secs => v_max_hours * 3600) THEN
+    v_reason := 'OFFLINE_EVENT_TOO_OLD';
+  END IF;
+
+  IF v_reason IS NULL AND p_action = 'check_in' THEN
+    v_token := parse_gym_qr_token(p_token, p_occurred_at);
+
+    IF NOT (v_token->>'valid')::boolean THEN
+      v_reason := v_token->>'error_code';
+    ELSE
+      INSERT INTO gym_qr_redemptions (user_id, gym_id, nonce, redeemed_at)
+      VALUES (v_user_id, v_token->>'gym_id', v_token->>'nonce', p_occurred_at)
+      ON CONFLICT (user_id, nonce) DO NOTHING;
+
+      GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+      -- The code may already have been redeemed online right before the
+      -- connection dropped. That only counts as a replay if it produced a
+      -- check-in.
+      IF v_inserted = 0 AND EXISTS (
+        SELECT 1 FROM gym_checkins
+        WHERE user_id = v_user_id
+          AND check_in_time BETWEEN (v_token->>'issued_at')::timestamptz - interval '5 seconds'
+                                AND (v_token->>'expires_at')::timestamptz
+      ) THEN
+        v_reason := 'QR_REPLAYED';
+      END IF;
+    END IF;
+
+    IF v_reason IS NULL THEN
+      v_access := check_membership_access(v_user_id, v_token->>'gym_id');
+      IF NOT (v_access->>'allowed')::boolean THEN
+        v_reason := v_access->>'reason';
+      END IF;
+    END IF;
+
+    IF v_reason IS NULL THEN
+      SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+      SELECT min(check_in_time) INTO v_next_check_in
+      FROM gym_checkins
+      WHERE user_id = v_user_id
+        AND check_in_time > p_occurred_at;
+
+      IF v_next_check_in IS NULL THEN
+        -- Close whatever was left open before the offline scan
+        UPDATE gym_checkins
+        SET is_checked_in = false,
+            check_out_time = least(estimate_checkin_end(user_id, check_in_time), p_occurred_at),
+            auto_closed = true
+        WHERE user_id = v_user_id
+          AND is_checked_in = true
+          AND check_in_time <= p_occurred_at;
+
+        INSERT INTO gym_checkins (
+          user_id, user_type, check_in_time, is_checked_in, check_in_reason,
+          location_id, recorded_offline
+        )
+        VALUES (
+          v_user_id,
+          coalesce(v_user_type, 'user'),
+          p_occurred_at,
+          true,
+          CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+          v_token->>'gym_id',
+          true
+        )
+        RETURNING id INTO v_checkin_id;
+      ELSE
+        INSERT INTO gym_checkins (
+          user_id, user_type, check_in_time, check_out_time, is_checked_in,
+          auto_closed, check_in_reason, location_id, recorded_offline
+        )
+        VALUES (
+          v_user_id,
+          coalesce(v_user_type, 'user'),
+          p_occurred_at,
+          least(estimate_checkin_end(v_user_id, p_occurred_at), v_next_check_in),
+          false,
+          true,
+          CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+          v_token->>'gym_id',
+          true
+        )
+        RETURNING id INTO v_checkin_id;
+      END IF;
+    END IF;
+  ELSIF v_reason IS NULL AND p_action = 'check_out' THEN
+    SELECT * INTO v_session
+    FROM gym_checkins
+    WHERE user_id = v_user_id
+      AND check_in_time <= p_occurred_at
+    ORDER BY check_in_time DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_reason := 'NO_MATCHING_CHECKIN';
+    ELSIF NOT v_session.is_checked_in
+      AND (NOT v_session.auto_closed OR p_occurred_at >= v_session.check_out_time) THEN
+      v_reason := 'ALREADY_CHECKED_OUT';
+    ELSE
+      UPDATE gym_checkins
+      SET is_checked_in = false,
+          check_out_time = p_occurred_at,
+          auto_closed = false
+      WHERE id = v_session.id;
+
+      v_checkin_id := v_session.id;
+    END IF;
+  END IF;
+
+  INSERT INTO offline_checkin_events (id, user_id, action, occurred_at, status, reason, checkin_id)
+  VALUES (
+    p_event_id,
+    v_user_id,
+    p_action,
+    p_occurred_at,
+    CASE WHEN v_reason IS NULL THEN 'applied' ELSE 'rejected' END,
+    v_reason,
+    v_checkin_id
+  );
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN v_reason IS NULL THEN 'applied' ELSE 'rejected' END,
+    'reason', v_reason,
+    'checkin_id', v_checkin_id,
+    'duplicate', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION sync_offline_checkin_event(uuid, text, timestamptz, text) TO authenticated;
+
+COMMENT ON TABLE public.offline_checkin_events IS 'Device events replayed from the offline check-in queue, keyed by client event id';
+COMMENT ON FUNCTION sync_offline_checkin_event(uuid, text, timestamptz, text) IS 'Idempotently applies a check-in or check-out recorded offline';
@@ -0,0 +1,347 @@
+/*
+  # Guest Passes
+
+  Members and admins can let a friend train without an account.
+
+  1. guest_passes - single or limited-use passes, each with its own QR token
+  2. guest_passes_per_month / guest_pass_max_uses / guest_pass_max_valid_days
+     settings - member quotas
+  3. gym_checkins accepts 'guest' rows (no user_id) that reference the pass
+     and its sponsor
+  4. issue_guest_pass / revoke_guest_pass / redeem_guest_pass functions
+  5. Occupancy counts now include guests
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('guest_passes_per_month', '2', 'Guest passes each member can issue per calendar month'),
+  ('guest_pass_max_uses', '3', 'Maximum number of visits on a member-issued guest pass'),
+  ('guest_pass_max_valid_days', '30', 'Maximum number of days a member-issued guest pass stays valid')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.guest_passes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text NOT NULL UNIQUE DEFAULT ('rggp1:' || encode(extensions.gen_random_bytes(16), 'hex')),
+  guest_name text NOT NULL CHECK (length(trim(guest_name)) > 0),
+  sponsor_id uuid REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  issued_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  location_id text NOT NULL REFERENCES public.gym_locations(id) DEFAULT 'ruangym',
+  max_uses integer NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  uses integer NOT NULL DEFAULT 0 CHECK (uses >= 0),
+  valid_until timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_passes_sponsor_id ON public.guest_passes(sponsor_id, created_at);
+
+ALTER TABLE public.guest_passes ENABLE ROW LEVEL SECURITY;
+
+-- Passes are created and redeemed through the functions below
+CREATE POLICY "Sponsors can view their guest passes"
+ON public.guest_passes
+FOR SELECT TO authenticated
+USING (auth.uid() = sponsor_id OR auth.uid() = issued_by);
+
+CREATE POLICY "Admins can view guest passes"
+ON public.guest_passes
+FOR SELECT TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+-- Guest check-ins have no account
+ALTER TABLE public.gym_checkins ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.gym_checkins DROP CONSTRAINT IF EXISTS gym_checkins_user_type_check;
+ALTER TABLE public.gym_checkins
+ADD CONSTRAINT gym_checkins_user_type_check CHECK (user_type IN ('user', 'trainer', 'guest'));
+
+ALTER TABLE public.gym_checkins
+ADD COLUMN IF NOT EXISTS guest_pass_id uuid REFERENCES public.guest_passes(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS guest_name text,
+ADD COLUMN IF NOT EXISTS sponsor_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.gym_checkins DROP CONSTRAINT IF EXISTS gym_checkins_guest_check;
+ALTER TABLE public.gym_checkins
+ADD CONSTRAINT gym_checkins_guest_check CHECK (
+  (user_type = 'guest' AND user_id IS NULL AND guest_pass_id IS NOT NULL)
+  OR (user_type <> 'guest' AND user_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gym_checkins_guest_pass_id ON public.gym_checkins(guest_pass_id);
+
+COMMENT ON COLUMN public.gym_checkins.guest_pass_id IS 'Guest pass redeemed for a guest check-in';
+COMMENT ON COLUMN public.gym_checkins.sponsor_id IS 'Member who sponsored a guest check-in';
+
+-- Passes a member has issued this calendar month and the monthly quota.
+-- Members can only look up their own quota.
+CREATE OR REPLACE FUNCTION get_guest_pass_quota(p_sponsor_id uuid DEFAULT auth.uid())
+RETURNS jsonb
+SET search_path = public
+AS $$
+BEGIN
+  IF p_sponsor_id IS DISTINCT FROM auth.uid()
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view another member''s guest pass quota';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'issued', (
+      SELECT count(*)
+      FROM guest_passes
+      WHERE sponsor_id = p_sponsor_id
+        AND created_at >= date_trunc('month', now())
+        AND issued_by = p_sponsor_id
+    ),
+    'quota', get_gym_setting_numeric('guest_passes_per_month', 2)::integer,
+    'max_uses', get_gym_setting_numeric('guest_pass_max_uses', 3)::integer,
+    'max_valid_days', get_gym_setting_numeric('guest_pass_max_valid_days', 30)::integer
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Issue a guest pass. Members sponsor their own passes and are held to the
+-- monthly quota and the maximum validity; admins can issue house passes (no sponsor) or passes on a
+-- member's behalf without a quota.
+CREATE OR REPLACE FUNCTION issue_guest_pass(
+  p_guest_name text,
+  p_max_uses integer DEFAULT 1,
+  p_valid_days integer DEFAULT 30,
+  p_location_id text DEFAULT NULL,
+  p_sponsor_id uuid DEFAULT NULL
+)
+RETURNS guest_passes
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_is_admin boolean := EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid());
+  v_sponsor_id uuid;
+  v_quota jsonb;
+  v_location_id text;
+  v_valid_days integer := greatest(p_valid_days, 1);
+  v_pass guest_passes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_is_admin THEN
+    v_sponsor_id := p_sponsor_id;
+  ELSE
+    v_sponsor_id := auth.uid();
+
+    IF EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = v_sponsor_id AND coalesce(is_blocked, false)
+    ) THEN
+      RAISE EXCEPTION 'GUEST_PASS_SPONSOR_BLOCKED';
+    END IF;
+
+    v_quota := get_guest_pass_quota(v_sponsor_id);
+
+    IF (v_quota->>'issued')::integer >= (v_quota->>'quota')::integer THEN
+      RAISE EXCEPTION 'GUEST_PASS_QUOTA_REACHED';
+    END IF;
+
+    IF p_max_uses > (v_quota->>'max_uses')::integer THEN
+      RAISE EXCEPTION 'GUEST_PASS_TOO_MANY_USES';
+    END IF;
+
+    v_valid_days := least(v_valid_days, greatest((v_quota->>'max_valid_days')::integer, 1));
+  END IF;
+
+  v_location_id := coalesce(
+    p_location_id,
+    (SELECT home_gym_id FROM user_profiles WHERE id = v_sponsor_id),
+    'ruangym'
+  );
+
+  INSERT INTO guest_passes (guest_name, sponsor_id, issued_by, location_id, max_uses, valid_until)
+  VALUES (
+    trim(p_guest_name),
+    v_sponsor_id,
+    auth.uid(),
+    v_location_id,
+    p_max_uses,
+    now() + make_interval(days => v_valid_days)
+  )
+  RETURNING * INTO v_pass;
+
+  RETURN v_pass;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Revoke a pass so it can't be redeemed again (sponsor, issuer or admin)
+CREATE OR REPLACE FUNCTION revoke_guest_pass(p_pass_id uuid)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE guest_passes
+  SET revoked_at = now()
+  WHERE id = p_pass_id
+    AND revoked_at IS NULL
+    AND (
+      auth.uid() IN (sponsor_id, issued_by)
+      OR EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid())
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guest pass not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check a guest in with their pass. Any signed-in device can scan a pass
+-- (usually the front desk), the guest doesn't need an account.
+CREATE OR REPLACE FUNCTION redeem_guest_pass(p_token text)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_pass guest_passes;
+  v_occupancy jsonb;
+  v_checkin_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_NOT_FOUND');
+  END IF;
+
+  SELECT * INTO v_pass
+  FROM guest_passes
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_NOT_FOUND');
+  END IF;
+
+  IF v_pass.revoked_at IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_REVOKED', 'guest_name', v_pass.guest_name);
+  END IF;
+
+  IF v_pass.valid_until < now() THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_EXPIRED', 'guest_name', v_pass.guest_name);
+  END IF;
+
+  IF v_pass.uses >= v_pass.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_USED_UP', 'guest_name', v_pass.guest_name);
+  END IF;
+
+  IF v_pass.sponsor_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = v_pass.sponsor_id AND coalesce(is_blocked, false)
+  ) THEN
+    RETURN jsonb_build_object('valid', false, 'error_code', 'GUEST_PASS_SPONSOR_BLOCKED', 'guest_name', v_pass.guest_name);
+  END IF;
+
+  IF coalesce((SELECT (value #>> '{}')::boolean FROM gym_settings WHERE key = 'block_checkins_at_capacity'), false) THEN
+    v_occupancy := get_gym_occupancy(v_pass.location_id);
+    IF (v_occupancy->>'occupancy')::integer >= (v_occupancy->>'capacity')::integer THEN
+      RETURN jsonb_build_object('valid', false, 'error_code', 'GYM_AT_CAPACITY', 'guest_name', v_pass.guest_name);
+    END IF;
+  END IF;
+
+  -- A multi-use pass re-scanned before its last visit was closed
+  UPDATE gym_checkins
+  SET is_checked_in = false,
+      check_out_time = estimate_checkin_end(NULL, check_in_time),
+      auto_closed = true
+  WHERE guest_pass_id = v_pass.id
+    AND is_checked_in = true;
+
+  INSERT INTO gym_checkins (
+    user_id, user_type, check_in_time, is_checked_in, check_in_reason,
+    location_id, guest_pass_id, guest_name, sponsor_id
+  )
+  VALUES (
+    NULL, 'guest', now(), true, 'Guest visit',
+    v_pass.location_id, v_pass.id, v_pass.guest_name, v_pass.sponsor_id
+  )
+  RETURNING id INTO v_checkin_id;
+
+  UPDATE guest_passes SET uses = uses + 1 WHERE id = v_pass.id;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'checkin_id', v_checkin_id,
+    'guest_name', v_pass.guest_name,
+    'location_id', v_pass.location_id,
+    'remaining_uses', v_pass.max_uses - v_pass.uses - 1
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Guests have no user_id, so count people by check-in row for them
+CREATE OR REPLACE FUNCTION get_gym_occupancy(p_location_id text DEFAULT 'ruangym')
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity integer;
+  v_occupancy integer;
+BEGIN
+  SELECT capacity INTO v_capacity
+  FROM gym_locations
+  WHERE id = p_location_id;
+
+  IF v_capacity IS NULL THEN
+    RAISE EXCEPTION 'Unknown gym location: %', p_location_id;
+  END IF;
+
+  SELECT count(DISTINCT coalesce(user_id, id)) INTO v_occupancy
+  FROM gym_checkins
+  WHERE location_id = p_location_id
+    AND is_checked_in = true;
+
+  RETURN jsonb_build_object(
+    'location_id', p_location_id,
+    'capacity', v_capacity,
+    'occupancy', v_occupancy,
+    'updated_at', now()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_gym_busy_hours(
+  p_location_id text DEFAULT 'ruangym',
+  p_weeks integer DEFAULT 8
+)
+RETURNS TABLE (weekday integer, hour integer, average_occupancy numeric)
+SET search_path = public
+AS $$
+  WITH location AS (
+    SELECT timezone FROM gym_locations WHERE id = p_location_id
+  ),
+  sessions AS (
+    SELECT
+      coalesce(c.user_id, c.id) AS person_id,
+      c.check_in_time AT TIME ZONE l.timezone AS started_at,
+      coalesce(c.check_out_time, now()) AT TIME ZONE l.timezone AS ended_at
+    FROM gym_checkins c, location l
+    WHERE c.location_id = p_location_id
+      AND c.check_in_time >= now() - make_interval(weeks => p_weeks)
+  ),
+  weeks_covered AS (
+    SELECT greatest(1, least(p_weeks, ceil(extract(epoch FROM (max(ended_at) - min(started_at))) / 604800))) AS weeks
+    FROM sessions
+  ),
+  hourly AS (
+    SELECT slot, count(DISTINCT s.person_id) AS people
+    FROM sessions s
+    CROSS JOIN LATERAL generate_series(date_trunc('hour', s.started_at), s.ended_at, interval '1 hour') AS slot
+    GROUP BY slot
+  )
+  SELECT
+    extract(dow FROM h.slot)::integer AS weekday,
+    extract(hour FROM h.slot)::integer AS hour,
+    round(sum(h.people)::numeric / w.weeks, 1) AS average_occupancy
+  FROM hourly h, weeks_covered w
+  GROUP BY 1, 2, w.weeks
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_guest_pass_quota(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION issue_guest_pass(text, integer, integer, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_guest_pass(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_guest_pass(text) TO authenticated;
+
+COMMENT ON TABLE public.guest_passes IS 'Single or limited-use passes that let a guest check in without an account';
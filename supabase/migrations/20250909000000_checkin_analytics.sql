@@ -0,0 +1,270 @@
+/*
+  # Check-in Analytics
+
+  Server-side reporting over gym_checkins for the admin dashboard and the
+  check-in analytics export.
+
+  1. checkin_sessions view - one row per visit with the visitor, local time
+     and session length
+  2. get_checkin_heatmap - check-ins by weekday and hour
+  3. get_checkin_summary - totals, unique visitors and average session length
+  4. get_unique_visitors - unique visitors per day, week or month
+  5. get_retention_cohorts - share of each join-month cohort still visiting
+  6. get_churn_risk_members - regulars whose visit frequency dropped
+
+  The functions are admin-only. Times are bucketed in each location's timezone.
+*/
+
+-- One row per visit. Guests have no account, so each guest pass counts as
+-- one visitor. Only sessions the member checked out of themselves have a
+-- duration - auto-closed sessions end at an estimate.
+CREATE OR REPLACE VIEW public.checkin_sessions
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  coalesce(c.user_id, c.guest_pass_id, c.id) AS visitor_id,
+  c.user_id,
+  c.user_type,
+  c.location_id,
+  c.check_in_time,
+  c.check_out_time,
+  c.auto_closed,
+  c.check_in_time AT TIME ZONE l.timezone AS local_check_in_time,
+  CASE
+    WHEN c.check_out_time IS NOT NULL AND NOT c.auto_closed
+      THEN round(extract(epoch FROM (c.check_out_time - c.check_in_time)) / 60.0, 1)
+  END AS duration_minutes
+FROM public.gym_checkins c
+JOIN public.gym_locations l ON l.id = c.location_id;
+
+COMMENT ON VIEW public.checkin_sessions IS 'Check-ins with visitor id, local check-in time and session length for analytics';
+
+CREATE OR REPLACE FUNCTION assert_analytics_admin()
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can view check-in analytics';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Check-ins per weekday (0 = Sunday) and hour of the day
+CREATE OR REPLACE FUNCTION get_checkin_heatmap(
+  p_start timestamptz DEFAULT now() - interval '8 weeks',
+  p_end timestamptz DEFAULT now(),
+  p_location_id text DEFAULT NULL
+)
+RETURNS TABLE (weekday integer, hour integer, checkins bigint)
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_analytics_admin();
+
+  RETURN QUERY
+  SELECT
+    extract(dow FROM s.local_check_in_time)::integer,
+    extract(hour FROM s.local_check_in_time)::integer,
+    count(*)
+  FROM checkin_sessions s
+  WHERE s.check_in_time >= p_start
+    AND s.check_in_time < p_end
+    AND (p_location_id IS NULL OR s.location_id = p_location_id)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_checkin_summary(
+  p_start timestamptz DEFAULT now() - interval '30 days',
+  p_end timestamptz DEFAULT now(),
+  p_location_id text DEFAULT NULL
+)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_summary jsonb;
+BEGIN
+  PERFORM assert_analytics_admin();
+
+  SELECT jsonb_build_object(
+    'total_checkins', count(*),
+    'unique_visitors', count(DISTINCT s.visitor_id),
+    'member_checkins', count(*) FILTER (WHERE s.user_type = 'user'),
+    'trainer_checkins', count(*) FILTER (WHERE s.user_type = 'trainer'),
+    'guest_checkins', count(*) FILTER (WHERE s.user_type = 'guest'),
+    'completed_sessions', count(s.duration_minutes),
+    'auto_closed_sessions', count(*) FILTER (WHERE s.auto_closed),
+    'avg_session_minutes', coalesce(round(avg(s.duration_minutes), 1), 0)
+  )
+  INTO v_summary
+  FROM checkin_sessions s
+  WHERE s.check_in_time >= p_start
+    AND s.check_in_time < p_end
+    AND (p_location_id IS NULL OR s.location_id = p_location_id);
+
+  RETURN v_summary;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Unique visitors and check-ins per day, week (starting Monday) or month
+CREATE OR REPLACE FUNCTION get_unique_visitors(
+  p_period text DEFAULT 'week',
+  p_start timestamptz DEFAULT now() - interval '12 weeks',
+  p_end timestamptz DEFAULT now(),
+  p_location_id text DEFAULT NULL
+)
+RETURNS TABLE (period_start date, unique_visitors bigint, checkins bigint)
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_analytics_admin();
+
+  IF p_period NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown analytics period: %', p_period;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(p_period, s.local_check_in_time)::date,
+    count(DISTINCT s.visitor_id),
+    count(*)
+  FROM checkin_sessions s
+  WHERE s.check_in_time >= p_start
+    AND s.check_in_time < p_end
+    AND (p_location_id IS NULL OR s.location_id = p_location_id)
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- For members who joined in each of the last p_months months, how many
+-- checked in during each month since joining (month_offset 0 = join month)
+CREATE OR REPLACE FUNCTION get_retention_cohorts(
+  p_months integer DEFAULT 6,
+  p_location_id text DEFAULT NULL
+)
+RETURNS TABLE (
+  cohort_month date,
+  cohort_size bigint,
+  month_offset integer,
+  active_members bigint,
+  retention_rate numeric
+)
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_analytics_admin();
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT id, date_trunc('month', created_at)::date AS joined_month
+    FROM user_profiles
+    WHERE user_type = 'user'
+      AND created_at >= date_trunc('month', now()) - make_interval(months => greatest(p_months, 1) - 1)
+  ),
+  cohorts AS (
+    SELECT joined_month, count(*) AS size
+    FROM members
+    GROUP BY joined_month
+  ),
+  offsets AS (
+    SELECT
+      c.joined_month,
+      c.size,
+      g.n AS month_offset
+    FROM cohorts c
+    CROSS JOIN LATERAL generate_series(
+      0,
+      ((extract(year FROM now()) - extract(year FROM c.joined_month)) * 12
+        + extract(month FROM now()) - extract(month FROM c.joined_month))::integer
+    ) AS g(n)
+  ),
+  visits AS (
+    SELECT DISTINCT m.joined_month, m.id, date_trunc('month', s.local_check_in_time)::date AS visit_month
+    FROM members m
+    JOIN checkin_sessions s ON s.user_id = m.id
+    WHERE p_location_id IS NULL OR s.location_id = p_location_id
+  )
+  SELECT
+    o.joined_month,
+    o.size,
+    o.month_offset,
+    count(v.id),
+    round(count(v.id)::numeric / o.size, 3)
+  FROM offsets o
+  LEFT JOIN visits v
+    ON v.joined_month = o.joined_month
+   AND v.visit_month = (o.joined_month + make_interval(months => o.month_offset))::date
+  GROUP BY o.joined_month, o.size, o.month_offset
+  ORDER BY o.joined_month, o.month_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Regular members (at least p_min_weekly_visits a week over the baseline
+-- window) whose visits in the last p_recent_days fell by p_min_drop or more
+CREATE OR REPLACE FUNCTION get_churn_risk_members(
+  p_recent_days integer DEFAULT 14,
+  p_baseline_days integer DEFAULT 56,
+  p_min_drop numeric DEFAULT 0.5,
+  p_min_weekly_visits numeric DEFAULT 1,
+  p_location_id text DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  username text,
+  last_check_in timestamptz,
+  baseline_weekly_visits numeric,
+  recent_weekly_visits numeric,
+  drop_ratio numeric
+)
+SET search_path = public
+AS $$
+DECLARE
+  v_recent_start timestamptz := now() - make_interval(days => p_recent_days);
+  v_baseline_start timestamptz := now() - make_interval(days => p_recent_days + p_baseline_days);
+BEGIN
+  PERFORM assert_analytics_admin();
+
+  RETURN QUERY
+  WITH visits AS (
+    SELECT
+      s.user_id,
+      count(*) FILTER (WHERE s.check_in_time < v_recent_start) * 7.0 / p_baseline_days AS baseline_rate,
+      count(*) FILTER (WHERE s.check_in_time >= v_recent_start) * 7.0 / p_recent_days AS recent_rate,
+      max(s.check_in_time) AS last_visit
+    FROM checkin_sessions s
+    WHERE s.user_type = 'user'
+      AND s.check_in_time >= v_baseline_start
+      AND (p_location_id IS NULL OR s.location_id = p_location_id)
+    GROUP BY s.user_id
+  )
+  SELECT
+    p.id,
+    p.full_name,
+    p.username,
+    v.last_visit,
+    round(v.baseline_rate, 2),
+    round(v.recent_rate, 2),
+    round(1 - v.recent_rate / v.baseline_rate, 2)
+  FROM visits v
+  JOIN user_profiles p ON p.id = v.user_id
+  WHERE v.baseline_rate >= p_min_weekly_visits
+    AND v.recent_rate <= v.baseline_rate * (1 - p_min_drop)
+    AND NOT coalesce(p.is_blocked, false)
+  ORDER BY round(1 - v.recent_rate / v.baseline_rate, 2) DESC, v.last_visit ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_gym_checkins_check_in_time ON public.gym_checkins(check_in_time);
+
+GRANT SELECT ON public.checkin_sessions TO authenticated;
+GRANT EXECUTE ON FUNCTION get_checkin_heatmap(timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_checkin_summary(timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_unique_visitors(text, timestamptz, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_retention_cohorts(integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_churn_risk_members(integer, integer, numeric, numeric, text) TO authenticated;
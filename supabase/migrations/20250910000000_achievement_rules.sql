@@ -0,0 +1,445 @@
+/*
+  # Server-side Achievement Rules
+
+  Achievements used to be unlocked by the app, which compared a single number
+  against requirement_value and inserted user_achievements directly. They are
+  now described by a declarative rule and evaluated in the database whenever
+  something that could unlock one happens.
+
+  1. available_achievements.rule - the rule (format below)
+  2. evaluate_achievements - unlocks every achievement whose rule now passes,
+     once per user, and notifies the user
+  3. Triggers on check-ins, workouts, exercise sets, bookings, goals and
+     streaks call it with the matching event
+  4. user_achievements can no longer be inserted by the app
+
+  ## Rule format
+
+    {
+      "on": ["checkin"],          -- events that re-check the rule (all when omitted)
+      "when": <condition>
+    }
+
+  A condition is either compound:
+
+    { "all": [<condition>, ...] }   -- every condition passes
+    { "any": [<condition>, ...] }   -- at least one passes
+    { "not": <condition> }
+
+  or compares a metric:
+
+    {
+      "metric": "checkins",       -- see achievement_metric_value
+      "gte": 10,                  -- and/or "lte"
+      "window_days": 14,          -- only count the last N days (all time when omitted)
+      "offset_days": 0,           -- end the window N days ago
+      "filters": { "before_hour": 8, "after_hour": 17, "weekdays": [0, 6],
+                   "exercise": "Bench Press", "min_reps": 1, "status": "completed" }
+    }
+
+  Events: checkin, workout, workout_set, booking, goal, streak
+*/
+
+-- Achievement notifications
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'connection_request',
+  'connection_accepted',
+  'connection_rejected',
+  'new_message',
+  'workout_assigned',
+  'session_reminder',
+  'subscription_reminder',
+  'achievement_unlocked'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Notification type: connection_request, connection_accepted, connection_rejected, new_message, workout_assigned, session_reminder, subscription_reminder, achievement_unlocked';
+
+ALTER TABLE available_achievements
+ADD COLUMN IF NOT EXISTS rule jsonb;
+
+COMMENT ON COLUMN available_achievements.rule IS 'Declarative unlock rule evaluated by evaluate_achievements - see migration 20250910000000 for the format';
+
+-- Each achievement can only be unlocked once per user
+DELETE FROM user_achievements ua
+USING user_achievements earlier
+WHERE ua.user_id = earlier.user_id
+  AND ua.achievement_id = earlier.achievement_id
+  AND (ua.unlocked_at, ua.id) > (earlier.unlocked_at, earlier.id);
+
+ALTER TABLE user_achievements
+DROP CONSTRAINT IF EXISTS user_achievements_user_achievement_key;
+
+ALTER TABLE user_achievements
+ADD CONSTRAINT user_achievements_user_achievement_key UNIQUE (user_id, achievement_id);
+
+-- Unlocks only happen through evaluate_achievements
+DROP POLICY IF EXISTS "Users can insert their own achievements" ON user_achievements;
+
+-- Current value of one metric for a user, within the condition's window
+CREATE OR REPLACE FUNCTION achievement_metric_value(p_user_id uuid, p_condition jsonb)
+RETURNS numeric
+SET search_path = public
+AS $$
+DECLARE
+  v_metric text := p_condition->>'metric';
+  v_filters jsonb := coalesce(p_condition->'filters', '{}'::jsonb);
+  v_window_days integer := (p_condition->>'window_days')::integer;
+  v_end timestamptz := now() - make_interval(days => coalesce((p_condition->>'offset_days')::integer, 0));
+  v_start timestamptz;
+  v_exercise text := lower(trim(v_filters->>'exercise'));
+  v_min_reps integer := coalesce((v_filters->>'min_reps')::integer, 1);
+  v_value numeric;
+BEGIN
+  v_start := CASE
+    WHEN v_window_days IS NULL THEN '-infinity'::timestamptz
+    ELSE v_end - make_interval(days => v_window_days)
+  END;
+
+  CASE v_metric
+    WHEN 'checkins', 'checkin_days' THEN
+      SELECT CASE
+        WHEN v_metric = 'checkins' THEN count(*)
+        ELSE count(DISTINCT (c.check_in_time AT TIME ZONE l.timezone)::date)
+      END
+      INTO v_value
+      FROM gym_checkins c
+      JOIN gym_locations l ON l.id = c.location_id
+      WHERE c.user_id = p_user_id
+        AND c.check_in_time >= v_start
+        AND c.check_in_time < v_end
+        AND (v_filters->>'before_hour' IS NULL
+          OR extract(hour FROM c.check_in_time AT TIME ZONE l.timezone) < (v_filters->>'before_hour')::integer)
+        AND (v_filters->>'after_hour' IS NULL
+          OR extract(hour FROM c.check_in_time AT TIME ZONE l.timezone) >= (v_filters->>'after_hour')::integer)
+        AND (v_filters->'weekdays' IS NULL
+          OR extract(dow FROM c.check_in_time AT TIME ZONE l.timezone)::integer IN (
+            SELECT jsonb_array_elements_text(v_filters->'weekdays')::integer
+          ));
+
+    WHEN 'workouts' THEN
+      SELECT count(*) INTO v_value
+      FROM user_workout_sessions w
+      WHERE w.user_id = p_user_id
+        AND w.created_at >= v_start
+        AND w.created_at < v_end;
+
+    WHEN 'sets', 'max_weight', 'volume' THEN
+      SELECT CASE v_metric
+        WHEN 'sets' THEN count(*)
+        WHEN 'max_weight' THEN max(s.weight_kg)
+        ELSE sum(s.weight_kg * s.reps)
+      END
+      INTO v_value
+      FROM exercise_sets s
+      WHERE s.user_id = p_user_id
+        AND s.created_at >= v_start
+        AND s.created_at < v_end
+        AND s.reps >= v_min_reps
+        AND (v_exercise IS NULL OR lower(trim(s.exercise_name)) = v_exercise);
+
+    WHEN 'bookings' THEN
+      SELECT count(*) INTO v_value
+      FROM trainer_bookings b
+      WHERE b.user_id = p_user_id
+        AND b.status = coalesce(v_filters->>'status', 'completed')
+        AND coalesce(b.completed_at, b.created_at) >= v_start
+        AND coalesce(b.completed_at, b.created_at) < v_end;
+
+    WHEN 'goals_completed' THEN
+      SELECT count(*) INTO v_value
+      FROM user_goals g
+      WHERE g.user_id = p_user_id
+        AND g.status = 'completed'
+        AND g.updated_at >= v_start
+        AND g.updated_at < v_end;
+
+    WHEN 'streak' THEN
+      SELECT current_streak INTO v_value
+      FROM user_gamification_stats
+      WHERE user_id = p_user_id;
+
+    WHEN 'longest_streak' THEN
+      SELECT longest_streak INTO v_value
+      FROM user_gamification_stats
+      WHERE user_id = p_user_id;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown achievement metric: %', v_metric;
+  END CASE;
+
+  RETURN coalesce(v_value, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION evaluate_achievement_condition(p_user_id uuid, p_condition jsonb)
+RETURNS boolean
+SET search_path = public
+AS $$
+DECLARE
+  v_value numeric;
+BEGIN
+  IF p_condition ? 'all' THEN
+    RETURN NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_condition->'all') AS c(condition)
+      WHERE NOT evaluate_achievement_condition(p_user_id, c.condition)
+    );
+  ELSIF p_condition ? 'any' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_condition->'any') AS c(condition)
+      WHERE evaluate_achievement_condition(p_user_id, c.condition)
+    );
+  ELSIF p_condition ? 'not' THEN
+    RETURN NOT evaluate_achievement_condition(p_user_id, p_condition->'not');
+  END IF;
+
+  v_value := achievement_metric_value(p_user_id, p_condition);
+
+  RETURN (NOT p_condition ? 'gte' OR v_value >= (p_condition->>'gte')::numeric)
+     AND (NOT p_condition ? 'lte' OR v_value <= (p_condition->>'lte')::numeric);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Unlock every achievement whose rule now passes for the user. Pass the event
+-- that just happened to only re-check the rules listening for it. Safe to run
+-- repeatedly - each achievement is unlocked (and notified) at most once.
+CREATE OR REPLACE FUNCTION evaluate_achievements(p_user_id uuid, p_event text DEFAULT NULL)
+RETURNS SETOF available_achievements
+SET search_path = public
+AS $$
+DECLARE
+  v_achievement available_achievements%ROWTYPE;
+  v_unlocked boolean;
+BEGIN
+  FOR v_achievement IN
+    SELECT a.*
+    FROM available_achievements a
+    WHERE a.is_active
+      AND a.rule IS NOT NULL
+      AND (p_event IS NULL OR NOT a.rule ? 'on' OR a.rule->'on' ? p_event)
+      AND NOT EXISTS (
+        SELECT 1 FROM user_achievements ua
+        WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id
+      )
+  LOOP
+    IF evaluate_achievement_condition(p_user_id, v_achievement.rule->'when') THEN
+      INSERT INTO user_achievements (user_id, achievement_id, points_earned)
+      VALUES (p_user_id, v_achievement.id, v_achievement.points)
+      ON CONFLICT (user_id, achievement_id) DO NOTHING;
+
+      v_unlocked := FOUND;
+
+      IF v_unlocked THEN
+        IF NOT EXISTS (
+          SELECT 1 FROM notification_preferences
+          WHERE user_id = p_user_id AND achievements = false
+        ) THEN
+          PERFORM create_notification(
+            p_user_id,
+            'achievement_unlocked',
+            CONCAT('Achievement Unlocked! ', v_achievement.icon),
+            CONCAT('You earned "', v_achievement.name, '" and ', v_achievement.points, ' points.'),
+            jsonb_build_object('achievement_id', v_achievement.id, 'points', v_achievement.points)
+          );
+        END IF;
+
+        RETURN NEXT v_achievement;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-check all rules for the signed-in user and return anything new
+CREATE OR REPLACE FUNCTION check_my_achievements()
+RETURNS SETOF available_achievements
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY SELECT * FROM evaluate_achievements(auth.uid(), NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers. A failing rule must never block the action that triggered it.
+CREATE OR REPLACE FUNCTION evaluate_achievements_for_event(p_user_id uuid, p_event text)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_achievements(p_user_id, p_event);
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Achievement evaluation failed for % (%): %', p_user_id, p_event, SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION achievements_on_checkin()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  -- Only members earn achievements
+  IF NEW.user_type = 'user' AND NEW.user_id IS NOT NULL THEN
+    PERFORM evaluate_achievements_for_event(NEW.user_id, 'checkin');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION achievements_on_workout()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_achievements_for_event(NEW.user_id, TG_ARGV[0]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION achievements_on_booking()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM evaluate_achievements_for_event(NEW.user_id, 'booking');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION achievements_on_goal()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM evaluate_achievements_for_event(NEW.user_id, 'goal');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION achievements_on_streak()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_achievements_for_event(NEW.user_id, 'streak');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_checkin ON gym_checkins;
+CREATE TRIGGER trigger_achievements_on_checkin
+  AFTER INSERT ON gym_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION achievements_on_checkin();
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_workout ON user_workout_sessions;
+CREATE TRIGGER trigger_achievements_on_workout
+  AFTER INSERT ON user_workout_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION achievements_on_workout('workout');
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_exercise_set ON exercise_sets;
+CREATE TRIGGER trigger_achievements_on_exercise_set
+  AFTER INSERT OR UPDATE OF weight_kg, reps ON exercise_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION achievements_on_workout('workout_set');
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_booking ON trainer_bookings;
+CREATE TRIGGER trigger_achievements_on_booking
+  AFTER INSERT OR UPDATE OF status ON trainer_bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION achievements_on_booking();
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_goal ON user_goals;
+CREATE TRIGGER trigger_achievements_on_goal
+  AFTER INSERT OR UPDATE OF status ON user_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION achievements_on_goal();
+
+DROP TRIGGER IF EXISTS trigger_achievements_on_streak ON user_gamification_stats;
+CREATE TRIGGER trigger_achievements_on_streak
+  AFTER UPDATE OF current_streak ON user_gamification_stats
+  FOR EACH ROW
+  WHEN (NEW.current_streak > OLD.current_streak)
+  EXECUTE FUNCTION achievements_on_streak();
+
+-- Rules for the built-in achievements
+UPDATE available_achievements SET rule = '{"on": ["workout"], "when": {"metric": "workouts", "gte": 1}}'
+WHERE name = 'First Workout' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["streak"], "when": {"metric": "streak", "gte": 7}}'
+WHERE name = 'Week Warrior' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["goal"], "when": {"metric": "goals_completed", "gte": 3}}'
+WHERE name = 'Goal Crusher' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["workout"], "when": {"metric": "workouts", "gte": 20, "window_days": 30}}'
+WHERE name = 'Month Master' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["streak"], "when": {"metric": "streak", "gte": 30}}'
+WHERE name = 'Streak Legend' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["checkin"], "when": {"metric": "checkins", "gte": 50}}'
+WHERE name = 'Check-in Champion' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["workout"], "when": {"metric": "workouts", "gte": 100}}'
+WHERE name = 'Fitness Enthusiast' AND rule IS NULL;
+
+-- 5 gym days in each of the last 4 weeks
+UPDATE available_achievements SET rule = jsonb_build_object(
+  'on', jsonb_build_array('checkin'),
+  'when', jsonb_build_object('all', (
+    SELECT jsonb_agg(jsonb_build_object(
+      'metric', 'checkin_days', 'gte', 5, 'window_days', 7, 'offset_days', week * 7
+    ))
+    FROM generate_series(0, 3) AS week
+  ))
+)
+WHERE name = 'Consistency King' AND rule IS NULL;
+
+UPDATE available_achievements SET rule = '{"on": ["checkin"], "when": {"metric": "checkins", "gte": 10, "filters": {"before_hour": 8}}}'
+WHERE name = 'Early Bird' AND rule IS NULL;
+
+-- A weekend check-in in each of the last 8 weeks
+UPDATE available_achievements SET rule = jsonb_build_object(
+  'on', jsonb_build_array('checkin'),
+  'when', jsonb_build_object('all', (
+    SELECT jsonb_agg(jsonb_build_object(
+      'metric', 'checkins', 'gte', 1, 'window_days', 7, 'offset_days', week * 7,
+      'filters', jsonb_build_object('weekdays', jsonb_build_array(0, 6))
+    ))
+    FROM generate_series(0, 7) AS week
+  ))
+)
+WHERE name = 'Weekend Warrior' AND rule IS NULL;
+
+INSERT INTO available_achievements (name, description, icon, points, category, requirement_type, requirement_value, requirement_description, rule)
+SELECT v.name, v.description, v.icon, v.points, v.category, v.requirement_type, v.requirement_value, v.requirement_description, v.rule::jsonb
+FROM (VALUES
+  ('Double Digits', 'Check in 10 times in 14 days', '🔟', 150, 'checkin', 'count', 10, 'Check in 10 times within 14 days',
+    '{"on": ["checkin"], "when": {"metric": "checkins", "gte": 10, "window_days": 14}}'),
+  ('Bench Press Centurion', 'Bench press 100 kg', '🏋️', 300, 'special', 'special', 100, 'Log a bench press set of 100 kg or more',
+    '{"on": ["workout_set"], "when": {"metric": "max_weight", "gte": 100, "filters": {"exercise": "Bench Press"}}}'),
+  ('Coached Up', 'Complete 5 sessions with a trainer', '🤝', 200, 'special', 'count', 5, 'Complete 5 trainer sessions',
+    '{"on": ["booking"], "when": {"metric": "bookings", "gte": 5}}'),
+  ('All-Rounder', 'Check in 12 times and log 50 sets in 30 days', '🎖️', 350, 'special', 'special', 1, 'Check in 12 times and log 50 sets within 30 days',
+    '{"on": ["checkin", "workout_set"], "when": {"all": [{"metric": "checkins", "gte": 12, "window_days": 30}, {"metric": "sets", "gte": 50, "window_days": 30}]}}')
+) AS v(name, description, icon, points, category, requirement_type, requirement_value, requirement_description, rule)
+WHERE NOT EXISTS (SELECT 1 FROM available_achievements a WHERE a.name = v.name);
+
+REVOKE EXECUTE ON FUNCTION evaluate_achievements(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_achievements_for_event(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION achievement_metric_value(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_achievement_condition(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_my_achievements() TO authenticated;
@@ -0,0 +1,427 @@
+/*
+  # Challenge Lifecycle
+
+  Challenge progress used to be a number written by the app, with completion at
+  progress >= 1 and a flat 100 point reward. Challenges now run on the server:
+
+  1. Members opt in with join_challenge (and can leave until they complete)
+  2. Progress is computed from their own activity between start_date and
+     end_date, according to challenge_category:
+       - checkin: days with a gym check-in (in the gym's timezone)
+       - workout: days with logged exercise sets or a recorded workout session
+       - streak:  longest run of consecutive check-in days
+       - goal:    goals completed
+  3. Progress is refreshed by triggers on check-ins, exercise sets, workout
+     sessions and goals. Reaching target_value completes the challenge and pays
+     reward_points into user_gamification_stats exactly once (reward_paid_at)
+  4. close_expired_challenges closes challenges after end_date, giving late
+     activity (e.g. offline check-ins synced afterwards) a final count first.
+     Scheduled hourly with pg_cron where available
+  5. Admins create and deactivate challenges from the app
+*/
+
+-- Challenge completion notifications
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'connection_request',
+  'connection_accepted',
+  'connection_rejected',
+  'new_message',
+  'workout_assigned',
+  'session_reminder',
+  'subscription_reminder',
+  'achievement_unlocked',
+  'challenge_completed'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Notification type: connection_request, connection_accepted, connection_rejected, new_message, workout_assigned, session_reminder, subscription_reminder, achievement_unlocked, challenge_completed';
+
+ALTER TABLE available_challenges
+ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+ALTER TABLE available_challenges
+DROP CONSTRAINT IF EXISTS available_challenges_dates_check;
+
+ALTER TABLE available_challenges
+ADD CONSTRAINT available_challenges_dates_check CHECK (end_date >= start_date AND target_value > 0 AND reward_points >= 0);
+
+COMMENT ON COLUMN available_challenges.closed_at IS 'Set by close_expired_challenges once end_date has passed; no more progress is counted';
+
+ALTER TABLE user_challenges
+ADD COLUMN IF NOT EXISTS reward_paid_at timestamptz;
+
+COMMENT ON COLUMN user_challenges.reward_paid_at IS 'When reward_points were added to user_gamification_stats - guards against paying twice';
+
+-- Rewards for challenges completed before this migration were paid by the old trigger
+UPDATE user_challenges
+SET reward_paid_at = coalesce(completed_at, updated_at)
+WHERE completed AND reward_paid_at IS NULL;
+
+-- One enrolment per member and challenge, keeping completed and then newest rows
+DELETE FROM user_challenges uc
+USING user_challenges kept
+WHERE uc.user_id = kept.user_id
+  AND uc.challenge_id = kept.challenge_id
+  AND (uc.completed, uc.created_at, uc.id) < (kept.completed, kept.created_at, kept.id);
+
+ALTER TABLE user_challenges
+DROP CONSTRAINT IF EXISTS user_challenges_user_challenge_key;
+
+ALTER TABLE user_challenges
+ADD CONSTRAINT user_challenges_user_challenge_key UNIQUE (user_id, challenge_id);
+
+-- Rewards are paid by award_challenge_reward instead
+DROP TRIGGER IF EXISTS trigger_update_user_stats_on_challenge ON user_challenges;
+DROP FUNCTION IF EXISTS update_user_stats_on_challenge();
+
+-- Enrolment and progress only change through the functions below
+DROP POLICY IF EXISTS "Users can insert their own challenges" ON user_challenges;
+DROP POLICY IF EXISTS "Users can update their own challenges" ON user_challenges;
+
+DROP POLICY IF EXISTS "Admins can view all challenge entries" ON user_challenges;
+CREATE POLICY "Admins can view all challenge entries" ON user_challenges
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can create challenges" ON available_challenges;
+CREATE POLICY "Admins can create challenges" ON available_challenges
+  FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can update challenges" ON available_challenges;
+CREATE POLICY "Admins can update challenges" ON available_challenges
+  FOR UPDATE USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_available_challenges_open
+  ON available_challenges(end_date) WHERE closed_at IS NULL;
+
+-- A member's progress towards a challenge, counted over the whole challenge period
+CREATE OR REPLACE FUNCTION challenge_progress(p_user_id uuid, p_challenge_id uuid)
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge available_challenges%ROWTYPE;
+  v_progress integer;
+BEGIN
+  SELECT * INTO v_challenge FROM available_challenges WHERE id = p_challenge_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  CASE v_challenge.challenge_category
+    WHEN 'checkin', 'streak' THEN
+      WITH days AS (
+        SELECT DISTINCT (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date AS day
+        FROM gym_checkins c
+        LEFT JOIN gym_locations l ON l.id = c.location_id
+        WHERE c.user_id = p_user_id
+          AND (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date
+            BETWEEN v_challenge.start_date AND v_challenge.end_date
+      ),
+      runs AS (
+        SELECT count(*) AS length
+        FROM (SELECT day, day - (row_number() OVER (ORDER BY day))::integer AS run_start FROM days) d
+        GROUP BY d.run_start
+      )
+      SELECT CASE v_challenge.challenge_category
+        WHEN 'checkin' THEN (SELECT count(*) FROM days)
+        ELSE (SELECT coalesce(max(length), 0) FROM runs)
+      END
+      INTO v_progress;
+
+    WHEN 'workout' THEN
+      SELECT count(*) INTO v_progress
+      FROM (
+        SELECT s.workout_date FROM exercise_sets s
+        WHERE s.user_id = p_user_id
+          AND s.workout_date BETWEEN v_challenge.start_date AND v_challenge.end_date
+        UNION
+        SELECT w.workout_date FROM user_workout_sessions w
+        WHERE w.user_id = p_user_id
+          AND w.workout_date BETWEEN v_challenge.start_date AND v_challenge.end_date
+      ) workout_days;
+
+    WHEN 'goal' THEN
+      SELECT count(*) INTO v_progress
+      FROM user_goals g
+      WHERE g.user_id = p_user_id
+        AND g.status = 'completed'
+        AND g.updated_at::date BETWEEN v_challenge.start_date AND v_challenge.end_date;
+
+    ELSE
+      v_progress := 0;
+  END CASE;
+
+  RETURN coalesce(v_progress, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Complete a challenge entry and pay its reward. Does nothing if the reward
+-- was already paid or the target hasn't been reached, so it is safe to call
+-- more than once.
+CREATE OR REPLACE FUNCTION award_challenge_reward(p_user_challenge_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_reward integer;
+  v_name text;
+BEGIN
+  UPDATE user_challenges uc
+  SET completed = true,
+      completed_at = coalesce(uc.completed_at, now()),
+      points_earned = c.reward_points,
+      reward_paid_at = now(),
+      updated_at = now()
+  FROM available_challenges c
+  WHERE uc.id = p_user_challenge_id
+    AND c.id = uc.challenge_id
+    AND uc.reward_paid_at IS NULL
+    -- Only entries that really reached the target
+    AND challenge_progress(uc.user_id, c.id) >= c.target_value
+  RETURNING uc.user_id, c.reward_points, c.name
+  INTO v_user_id, v_reward, v_name;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO user_gamification_stats (user_id, total_points, challenges_completed, current_level)
+  VALUES (v_user_id, v_reward, 1, calculate_user_level(v_reward))
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_points = user_gamification_stats.total_points + v_reward,
+    challenges_completed = user_gamification_stats.challenges_completed + 1,
+    current_level = calculate_user_level(user_gamification_stats.total_points + v_reward),
+    updated_at = now();
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = v_user_id AND achievements = false
+  ) THEN
+    PERFORM create_notification(
+      v_user_id,
+      'challenge_completed',
+      'Challenge Complete! 🏁',
+      CONCAT('You completed "', v_name, '" and earned ', v_reward, ' points.'),
+      jsonb_build_object('user_challenge_id', p_user_challenge_id, 'points', v_reward)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recount a member's open challenges (optionally only some categories),
+-- completing any that reached their target
+CREATE OR REPLACE FUNCTION refresh_user_challenges(p_user_id uuid, p_categories text[] DEFAULT NULL)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+  v_progress integer;
+BEGIN
+  FOR v_entry IN
+    SELECT uc.id, uc.challenge_id, c.target_value
+    FROM user_challenges uc
+    JOIN available_challenges c ON c.id = uc.challenge_id
+    WHERE uc.user_id = p_user_id
+      AND NOT uc.completed
+      AND c.closed_at IS NULL
+      AND c.start_date <= current_date
+      AND (p_categories IS NULL OR c.challenge_category = ANY (p_categories))
+  LOOP
+    v_progress := challenge_progress(p_user_id, v_entry.challenge_id);
+
+    UPDATE user_challenges
+    SET current_progress = v_progress,
+        updated_at = now()
+    WHERE id = v_entry.id AND current_progress IS DISTINCT FROM v_progress;
+
+    IF v_progress >= v_entry.target_value THEN
+      PERFORM award_challenge_reward(v_entry.id);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Opt the signed-in member into a challenge. Activity since the challenge
+-- started counts, so joining late still credits earlier visits.
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid)
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge available_challenges%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_challenge FROM available_challenges WHERE id = p_challenge_id;
+
+  IF NOT FOUND OR NOT v_challenge.is_active THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  IF v_challenge.closed_at IS NOT NULL OR v_challenge.end_date < current_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  INSERT INTO user_challenges (user_id, challenge_id)
+  VALUES (auth.uid(), p_challenge_id)
+  ON CONFLICT (user_id, challenge_id) DO NOTHING;
+
+  PERFORM refresh_user_challenges(auth.uid(), ARRAY[v_challenge.challenge_category::text]);
+
+  RETURN (
+    SELECT current_progress FROM user_challenges
+    WHERE user_id = auth.uid() AND challenge_id = p_challenge_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION leave_challenge(p_challenge_id uuid)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM user_challenges
+  WHERE user_id = auth.uid()
+    AND challenge_id = p_challenge_id
+    AND NOT completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recount the signed-in member's open challenges
+CREATE OR REPLACE FUNCTION refresh_my_challenges()
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM refresh_user_challenges(auth.uid(), NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close challenges whose end_date has passed. Returns how many were closed.
+CREATE OR REPLACE FUNCTION close_expired_challenges()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge available_challenges%ROWTYPE;
+  v_entry record;
+  v_progress integer;
+  v_closed integer := 0;
+BEGIN
+  FOR v_challenge IN
+    SELECT * FROM available_challenges
+    WHERE closed_at IS NULL AND end_date < current_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Final count, for activity recorded after the last trigger ran
+    FOR v_entry IN
+      SELECT id, user_id FROM user_challenges
+      WHERE challenge_id = v_challenge.id AND NOT completed
+    LOOP
+      v_progress := challenge_progress(v_entry.user_id, v_challenge.id);
+
+      UPDATE user_challenges
+      SET current_progress = v_progress,
+          updated_at = now()
+      WHERE id = v_entry.id;
+
+      IF v_progress >= v_challenge.target_value THEN
+        PERFORM award_challenge_reward(v_entry.id);
+      END IF;
+    END LOOP;
+
+    UPDATE available_challenges
+    SET closed_at = now(),
+        is_active = false
+    WHERE id = v_challenge.id;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Triggers. A failing refresh must never block the action that triggered it.
+CREATE OR REPLACE FUNCTION challenges_on_activity()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_user_challenges(NEW.user_id, TG_ARGV);
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Challenge refresh failed for % (%): %', NEW.user_id, TG_TABLE_NAME, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_challenges_on_checkin ON gym_checkins;
+CREATE TRIGGER trigger_challenges_on_checkin
+  AFTER INSERT ON gym_checkins
+  FOR EACH ROW
+  WHEN (NEW.user_type = 'user' AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION challenges_on_activity('checkin', 'streak');
+
+DROP TRIGGER IF EXISTS trigger_challenges_on_exercise_set ON exercise_sets;
+CREATE TRIGGER trigger_challenges_on_exercise_set
+  AFTER INSERT ON exercise_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION challenges_on_activity('workout');
+
+DROP TRIGGER IF EXISTS trigger_challenges_on_workout ON user_workout_sessions;
+CREATE TRIGGER trigger_challenges_on_workout
+  AFTER INSERT ON user_workout_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION challenges_on_activity('workout');
+
+DROP TRIGGER IF EXISTS trigger_challenges_on_goal ON user_goals;
+CREATE TRIGGER trigger_challenges_on_goal
+  AFTER INSERT OR UPDATE OF status ON user_goals
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION challenges_on_activity('goal');
+
+REVOKE EXECUTE ON FUNCTION challenge_progress(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION award_challenge_reward(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_user_challenges(uuid, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION close_expired_challenges() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION close_expired_challenges() TO service_role;
+GRANT EXECUTE ON FUNCTION join_challenge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_challenge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_my_challenges() TO authenticated;
+
+-- Schedule the job where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'close-expired-challenges',
+      '5 * * * *',
+      'SELECT public.close_expired_challenges()'
+    );
+  END IF;
+END $$;
+
+COMMENT ON FUNCTION close_expired_challenges() IS 'Gives open entries a final count and closes challenges past their end_date. Run by pg_cron.';
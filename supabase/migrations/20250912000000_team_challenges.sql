@@ -0,0 +1,712 @@
+/*
+  # Team Challenges
+
+  Challenges can now be played between teams ("most check-ins this month,
+  Team Red vs Team Blue"), including head-to-head challenges between two
+  friends (two teams of one).
+
+  1. available_challenges.format - 'solo' (default) or 'team'
+  2. challenge_teams / challenge_team_members - teams and their members.
+     Members are invited (team_invite notification) and accept or decline
+  3. Accepted members are enrolled in user_challenges as usual, so each
+     member's progress is still counted by refresh_user_challenges. A team's
+     progress is the sum of its members' progress
+  4. Team challenges are competitive: nothing is paid when a member reaches
+     target_value. When the challenge closes every member of the leading
+     team(s) is rewarded and everyone is told the result
+  5. Members can create invite-only team challenges (without points),
+     starting today or later and at most max_member_challenges_per_week at a
+     time. Admin team challenges are open - any member can pick a team - and
+     can carry a reward
+  6. get_challenge_standings returns live team totals; user_challenges is
+     broadcast over Realtime so standings can update as progress changes
+  7. A team challenge only has a winner if at least two teams have accepted
+     members
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('max_member_challenges_per_week', '2', 'Team challenges a member can create in 7 days')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'connection_request',
+  'connection_accepted',
+  'connection_rejected',
+  'new_message',
+  'workout_assigned',
+  'session_reminder',
+  'subscription_reminder',
+  'achievement_unlocked',
+  'challenge_completed',
+  'team_invite'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Notification type: connection_request, connection_accepted, connection_rejected, new_message, workout_assigned, session_reminder, subscription_reminder, achievement_unlocked, challenge_completed, team_invite';
+
+ALTER TABLE available_challenges
+ADD COLUMN IF NOT EXISTS format text NOT NULL DEFAULT 'solo' CHECK (format IN ('solo', 'team')),
+ADD COLUMN IF NOT EXISTS invite_only boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN available_challenges.invite_only IS 'Team challenges created by members - only invited members can join a team';
+
+CREATE TABLE IF NOT EXISTS challenge_teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  challenge_id uuid NOT NULL REFERENCES available_challenges(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  color text NOT NULL DEFAULT '#FF6B35',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (challenge_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS challenge_team_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES challenge_teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  responded_at timestamptz,
+  UNIQUE (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_teams_challenge_id ON challenge_teams(challenge_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_team_members_user_id ON challenge_team_members(user_id);
+
+ALTER TABLE challenge_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE challenge_team_members ENABLE ROW LEVEL SECURITY;
+
+-- Whether the signed-in user has joined a team in the challenge
+CREATE OR REPLACE FUNCTION is_challenge_participant(p_challenge_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM challenge_team_members m
+    JOIN challenge_teams t ON t.id = m.team_id
+    WHERE t.challenge_id = p_challenge_id
+      AND m.user_id = auth.uid()
+      AND m.status = 'accepted'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Authenticated users can view challenge teams" ON challenge_teams
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Members can view their own and fellow team memberships" ON challenge_team_members
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR is_challenge_participant((SELECT challenge_id FROM challenge_teams WHERE id = team_id))
+    OR EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid())
+  );
+
+-- Participants see each other's progress so standings can update live
+CREATE POLICY "Team challenge participants can view entries" ON user_challenges
+  FOR SELECT USING (is_challenge_participant(challenge_id));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'user_challenges'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_challenges;
+  END IF;
+END $$;
+
+-- Reward text no longer assumes points (friendly team challenges pay none)
+CREATE OR REPLACE FUNCTION award_challenge_reward(p_user_challenge_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_reward integer;
+  v_name text;
+BEGIN
+  UPDATE user_challenges uc
+  SET completed = true,
+      completed_at = coalesce(uc.completed_at, now()),
+      points_earned = c.reward_points,
+      reward_paid_at = now(),
+      updated_at = now()
+  FROM available_challenges c
+  WHERE uc.id = p_user_challenge_id
+    AND c.id = uc.challenge_id
+    AND uc.reward_paid_at IS NULL
+    -- Solo entries must really have reached the target. Team rewards are
+    -- decided by close_expired_challenges once the challenge is over
+    AND CASE c.format
+      WHEN 'team' THEN c.end_date < current_date
+      ELSE challenge_progress(uc.user_id, c.id) >= c.target_value
+    END
+  RETURNING uc.user_id, c.reward_points, c.name
+  INTO v_user_id, v_reward, v_name;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO user_gamification_stats (user_id, total_points, challenges_completed, current_level)
+  VALUES (v_user_id, v_reward, 1, calculate_user_level(v_reward))
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_points = user_gamification_stats.total_points + v_reward,
+    challenges_completed = user_gamification_stats.challenges_completed + 1,
+    current_level = calculate_user_level(user_gamification_stats.total_points + v_reward),
+    updated_at = now();
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = v_user_id AND achievements = false
+  ) THEN
+    PERFORM create_notification(
+      v_user_id,
+      'challenge_completed',
+      'Challenge Complete! 🏁',
+      CONCAT(
+        'You completed "', v_name, '"',
+        CASE WHEN v_reward > 0 THEN CONCAT(' and earned ', v_reward, ' points') END,
+        '.'
+      ),
+      jsonb_build_object('user_challenge_id', p_user_challenge_id, 'points', v_reward)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Team challenges are decided at close, so only solo entries complete early
+CREATE OR REPLACE FUNCTION refresh_user_challenges(p_user_id uuid, p_categories text[] DEFAULT NULL)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+  v_progress integer;
+BEGIN
+  FOR v_entry IN
+    SELECT uc.id, uc.challenge_id, c.target_value, c.format
+    FROM user_challenges uc
+    JOIN available_challenges c ON c.id = uc.challenge_id
+    WHERE uc.user_id = p_user_id
+      AND NOT uc.completed
+      AND c.closed_at IS NULL
+      AND c.start_date <= current_date
+      AND (p_categories IS NULL OR c.challenge_category = ANY (p_categories))
+  LOOP
+    v_progress := challenge_progress(p_user_id, v_entry.challenge_id);
+
+    UPDATE user_challenges
+    SET current_progress = v_progress,
+        updated_at = now()
+    WHERE id = v_entry.id AND current_progress IS DISTINCT FROM v_progress;
+
+    IF v_entry.format = 'solo' AND v_progress >= v_entry.target_value THEN
+      PERFORM award_challenge_reward(v_entry.id);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Team challenges are joined by picking or accepting a team instead
+CREATE OR REPLACE FUNCTION join_challenge(p_challenge_id uuid)
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge available_challenges%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_challenge FROM available_challenges WHERE id = p_challenge_id;
+
+  IF NOT FOUND OR NOT v_challenge.is_active THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  IF v_challenge.format = 'team' THEN
+    RAISE EXCEPTION 'Pick a team to join this challenge';
+  END IF;
+
+  IF v_challenge.closed_at IS NOT NULL OR v_challenge.end_date < current_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  INSERT INTO user_challenges (user_id, challenge_id)
+  VALUES (auth.uid(), p_challenge_id)
+  ON CONFLICT (user_id, challenge_id) DO NOTHING;
+
+  PERFORM refresh_user_challenges(auth.uid(), ARRAY[v_challenge.challenge_category::text]);
+
+  RETURN (
+    SELECT current_progress FROM user_challenges
+    WHERE user_id = auth.uid() AND challenge_id = p_challenge_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION leave_challenge(p_challenge_id uuid)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM user_challenges
+  WHERE user_id = auth.uid()
+    AND challenge_id = p_challenge_id
+    AND NOT completed;
+
+  DELETE FROM challenge_team_members m
+  USING challenge_teams t
+  WHERE t.id = m.team_id
+    AND t.challenge_id = p_challenge_id
+    AND m.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put the user on a team and enrol them in the challenge. Only the user
+-- themselves or the team's creator can do this, and invite-only teams need
+-- an invitation.
+CREATE OR REPLACE FUNCTION add_challenge_team_member(p_team_id uuid, p_user_id uuid)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_team challenge_teams%ROWTYPE;
+  v_challenge available_challenges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_team FROM challenge_teams WHERE id = p_team_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF auth.uid() IS NULL
+     OR (auth.uid() <> p_user_id AND auth.uid() IS DISTINCT FROM v_team.created_by) THEN
+    RAISE EXCEPTION 'Not allowed to add members to this team';
+  END IF;
+
+  SELECT * INTO v_challenge FROM available_challenges WHERE id = v_team.challenge_id;
+
+  IF v_challenge.closed_at IS NOT NULL OR v_challenge.end_date < current_date THEN
+    RAISE EXCEPTION 'This challenge has ended';
+  END IF;
+
+  IF v_challenge.invite_only
+     AND auth.uid() IS DISTINCT FROM v_team.created_by
+     AND NOT EXISTS (
+       SELECT 1 FROM challenge_team_members
+       WHERE team_id = p_team_id AND user_id = p_user_id AND status = 'invited'
+     ) THEN
+    RAISE EXCEPTION 'This challenge is invite-only';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM challenge_team_members m
+    JOIN challenge_teams t ON t.id = m.team_id
+    WHERE t.challenge_id = v_challenge.id
+      AND t.id <> p_team_id
+      AND m.user_id = p_user_id
+      AND m.status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'Already on another team in this challenge';
+  END IF;
+
+  INSERT INTO challenge_team_members (team_id, user_id, status, responded_at)
+  VALUES (p_team_id, p_user_id, 'accepted', now())
+  ON CONFLICT (team_id, user_id) DO UPDATE
+  SET status = 'accepted', responded_at = now();
+
+  INSERT INTO user_challenges (user_id, challenge_id)
+  VALUES (p_user_id, v_challenge.id)
+  ON CONFLICT (user_id, challenge_id) DO NOTHING;
+
+  PERFORM refresh_user_challenges(p_user_id, ARRAY[v_challenge.challenge_category::text]);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create a team challenge. Members create invite-only challenges without
+-- points and join the first team; admins create open challenges with a reward
+-- and can backdate them.
+CREATE OR REPLACE FUNCTION create_team_challenge(
+  p_name text,
+  p_description text,
+  p_category text,
+  p_start_date date,
+  p_end_date date,
+  p_team_names text[],
+  p_reward_points integer DEFAULT 0
+)
+RETURNS uuid
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin boolean;
+  v_challenge_id uuid;
+  v_first_team_id uuid;
+  v_colors text[] := ARRAY['#E74C3C', '#3498DB', '#2ECC71', '#F39C12', '#9B59B6', '#1ABC9C'];
+  v_index integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_is_admin := EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid());
+
+  IF coalesce(array_length(p_team_names, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A team challenge needs at least two teams';
+  END IF;
+
+  IF p_end_date < greatest(p_start_date, current_date) THEN
+    RAISE EXCEPTION 'The challenge must end in the future';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    -- Past activity would count towards a backdated challenge
+    IF p_start_date < current_date THEN
+      RAISE EXCEPTION 'The challenge can''t start in the past';
+    END IF;
+
+    IF (
+      SELECT count(*) FROM available_challenges
+      WHERE created_by = auth.uid() AND created_at > now() - interval '7 days'
+    ) >= get_gym_setting_numeric('max_member_challenges_per_week', 2) THEN
+      RAISE EXCEPTION 'You can create at most % team challenges a week',
+        get_gym_setting_numeric('max_member_challenges_per_week', 2);
+    END IF;
+  END IF;
+
+  INSERT INTO available_challenges (
+    name, description, type, target_value, reward_points, start_date, end_date,
+    challenge_category, format, invite_only, created_by
+  )
+  VALUES (
+    trim(p_name),
+    trim(p_description),
+    CASE WHEN p_end_date - p_start_date <= 7 THEN 'weekly' WHEN p_end_date - p_start_date <= 31 THEN 'monthly' ELSE 'special' END,
+    1,
+    CASE WHEN v_is_admin THEN greatest(coalesce(p_reward_points, 0), 0) ELSE 0 END,
+    p_start_date,
+    p_end_date,
+    p_category,
+    'team',
+    NOT v_is_admin,
+    auth.uid()
+  )
+  RETURNING id INTO v_challenge_id;
+
+  FOR v_index IN 1..array_length(p_team_names, 1) LOOP
+    INSERT INTO challenge_teams (challenge_id, name, color, created_by)
+    VALUES (
+      v_challenge_id,
+      trim(p_team_names[v_index]),
+      v_colors[(v_index - 1) % array_length(v_colors, 1) + 1],
+      auth.uid()
+    )
+    RETURNING id INTO v_first_team_id;
+
+    IF v_index = 1 AND NOT v_is_admin THEN
+      PERFORM add_challenge_team_member(v_first_team_id, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN v_challenge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Invite a member (by username) onto a team the caller belongs to
+CREATE OR REPLACE FUNCTION invite_to_challenge_team(p_team_id uuid, p_username text)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_invitee_id uuid;
+  v_inviter_name text;
+  v_team challenge_teams%ROWTYPE;
+  v_challenge_name text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_team FROM challenge_teams WHERE id = p_team_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF NOT is_challenge_participant(v_team.challenge_id)
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Join the challenge before inviting others';
+  END IF;
+
+  SELECT id INTO v_invitee_id
+  FROM user_profiles
+  WHERE lower(username) = lower(trim(leading '@' FROM trim(p_username)))
+    AND coalesce(user_type, 'user') = 'user';
+
+  IF v_invitee_id IS NULL THEN
+    RAISE EXCEPTION 'No member found with that username';
+  END IF;
+
+  IF v_invitee_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot invite yourself';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM challenge_team_members m
+    JOIN challenge_teams t ON t.id = m.team_id
+    WHERE t.challenge_id = v_team.challenge_id
+      AND m.user_id = v_invitee_id
+      AND m.status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'That member is already taking part';
+  END IF;
+
+  INSERT INTO challenge_team_members (team_id, user_id, status, invited_by)
+  VALUES (p_team_id, v_invitee_id, 'invited', auth.uid())
+  ON CONFLICT (team_id, user_id) DO UPDATE
+  SET status = 'invited', invited_by = auth.uid(), responded_at = NULL, created_at = now();
+
+  SELECT coalesce(full_name, username, 'A member') INTO v_inviter_name FROM user_profiles WHERE id = auth.uid();
+  SELECT name INTO v_challenge_name FROM available_challenges WHERE id = v_team.challenge_id;
+
+  PERFORM create_notification(
+    v_invitee_id,
+    'team_invite',
+    CONCAT('Challenge invite from ', v_inviter_name, ' ⚔️'),
+    CONCAT(v_inviter_name, ' invited you to join ', v_team.name, ' in "', v_challenge_name, '".'),
+    jsonb_build_object('team_id', p_team_id, 'challenge_id', v_team.challenge_id, 'invited_by', auth.uid())
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION respond_to_team_invite(p_team_id uuid, p_accept boolean)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM challenge_team_members
+    WHERE team_id = p_team_id AND user_id = auth.uid() AND status = 'invited'
+  ) THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF p_accept THEN
+    PERFORM add_challenge_team_member(p_team_id, auth.uid());
+  ELSE
+    UPDATE challenge_team_members
+    SET status = 'declined', responded_at = now()
+    WHERE team_id = p_team_id AND user_id = auth.uid();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pick a team in an open (admin-created) team challenge
+CREATE OR REPLACE FUNCTION join_challenge_team(p_team_id uuid)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM challenge_teams t
+    JOIN available_challenges c ON c.id = t.challenge_id
+    WHERE t.id = p_team_id AND (c.invite_only OR NOT c.is_active)
+  ) THEN
+    RAISE EXCEPTION 'This challenge is invite-only';
+  END IF;
+
+  PERFORM add_challenge_team_member(p_team_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Team totals, leader first. Ties share a standing.
+CREATE OR REPLACE FUNCTION get_challenge_standings(p_challenge_id uuid)
+RETURNS TABLE (
+  team_id uuid,
+  team_name text,
+  color text,
+  progress bigint,
+  member_count bigint,
+  members jsonb,
+  standing integer
+)
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_challenge_participant(p_challenge_id)
+     AND NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid())
+     AND NOT EXISTS (SELECT 1 FROM available_challenges WHERE id = p_challenge_id AND NOT invite_only) THEN
+    RAISE EXCEPTION 'Challenge not found';
+  END IF;
+
+  RETURN QUERY
+  WITH team_members AS (
+    SELECT
+      t.id AS team_id,
+      m.user_id,
+      coalesce(up.full_name, up.username, 'Member') AS display_name,
+      coalesce(uc.current_progress, 0) AS member_progress
+    FROM challenge_teams t
+    JOIN challenge_team_members m ON m.team_id = t.id AND m.status = 'accepted'
+    LEFT JOIN user_profiles up ON up.id = m.user_id
+    LEFT JOIN user_challenges uc ON uc.user_id = m.user_id AND uc.challenge_id = t.challenge_id
+    WHERE t.challenge_id = p_challenge_id
+  ),
+  totals AS (
+    SELECT
+      t.id,
+      t.name,
+      t.color,
+      coalesce(sum(tm.member_progress), 0)::bigint AS team_progress,
+      count(tm.user_id) AS team_size,
+      coalesce(
+        jsonb_agg(
+          jsonb_build_object('user_id', tm.user_id, 'name', tm.display_name, 'progress', tm.member_progress)
+          ORDER BY tm.member_progress DESC
+        ) FILTER (WHERE tm.user_id IS NOT NULL),
+        '[]'::jsonb
+      ) AS team_members
+    FROM challenge_teams t
+    LEFT JOIN team_members tm ON tm.team_id = t.id
+    WHERE t.challenge_id = p_challenge_id
+    GROUP BY t.id, t.name, t.color
+  )
+  SELECT
+    totals.id,
+    totals.name,
+    totals.color,
+    totals.team_progress,
+    totals.team_size,
+    totals.team_members,
+    (rank() OVER (ORDER BY totals.team_progress DESC))::integer
+  FROM totals
+  ORDER BY totals.team_progress DESC, totals.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Close challenges whose end_date has passed. Solo entries that reached the
+-- target are rewarded; in team challenges every member of the leading
+-- team(s) is rewarded and all participants hear the result.
+CREATE OR REPLACE FUNCTION close_expired_challenges()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge available_challenges%ROWTYPE;
+  v_entry record;
+  v_progress integer;
+  v_winner_ids uuid[];
+  v_winners text;
+  v_closed integer := 0;
+BEGIN
+  FOR v_challenge IN
+    SELECT * FROM available_challenges
+    WHERE closed_at IS NULL AND end_date < current_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Final count, for activity recorded after the last trigger ran
+    FOR v_entry IN
+      SELECT id, user_id FROM user_challenges
+      WHERE challenge_id = v_challenge.id AND NOT completed
+    LOOP
+      v_progress := challenge_progress(v_entry.user_id, v_challenge.id);
+
+      UPDATE user_challenges
+      SET current_progress = v_progress,
+          updated_at = now()
+      WHERE id = v_entry.id;
+
+      IF v_challenge.format = 'solo' AND v_progress >= v_challenge.target_value THEN
+        PERFORM award_challenge_reward(v_entry.id);
+      END IF;
+    END LOOP;
+
+    IF v_challenge.format = 'team' THEN
+      -- The leading team(s); a team needs some progress to win, and there's
+      -- no winner unless at least two teams had accepted members
+      WITH totals AS (
+        SELECT t.id, t.name, coalesce(sum(uc.current_progress), 0) AS total
+        FROM challenge_teams t
+        JOIN challenge_team_members m ON m.team_id = t.id AND m.status = 'accepted'
+        LEFT JOIN user_challenges uc ON uc.user_id = m.user_id AND uc.challenge_id = t.challenge_id
+        WHERE t.challenge_id = v_challenge.id
+        GROUP BY t.id, t.name
+      )
+      SELECT array_agg(totals.id), string_agg(totals.name, ' & ' ORDER BY totals.name)
+      INTO v_winner_ids, v_winners
+      FROM totals
+      WHERE totals.total > 0
+        AND totals.total = (SELECT max(total) FROM totals)
+        AND (SELECT count(*) FROM totals) >= 2;
+
+      FOR v_entry IN
+        SELECT uc.id, m.user_id, coalesce(t.id = ANY (v_winner_ids), false) AS won
+        FROM challenge_team_members m
+        JOIN challenge_teams t ON t.id = m.team_id
+        LEFT JOIN user_challenges uc ON uc.user_id = m.user_id AND uc.challenge_id = t.challenge_id
+        WHERE t.challenge_id = v_challenge.id AND m.status = 'accepted'
+      LOOP
+        IF v_entry.won AND v_entry.id IS NOT NULL THEN
+          PERFORM award_challenge_reward(v_entry.id);
+        ELSIF v_winners IS NOT NULL THEN
+          PERFORM create_notification(
+            v_entry.user_id,
+            'challenge_completed',
+            'Challenge Over 🏁',
+            CONCAT(v_winners, ' won "', v_challenge.name, '". Better luck next time!'),
+            jsonb_build_object('challenge_id', v_challenge.id)
+          );
+        END IF;
+      END LOOP;
+    END IF;
+
+    UPDATE available_challenges
+    SET closed_at = now(),
+        is_active = false
+    WHERE id = v_challenge.id;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION add_challenge_team_member(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_challenge_participant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_team_challenge(text, text, text, date, date, text[], integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_to_challenge_team(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_team_invite(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_challenge_team(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_challenge_standings(uuid) TO authenticated;
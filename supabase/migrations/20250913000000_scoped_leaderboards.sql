@@ -0,0 +1,206 @@
+/*
+  # Scoped Leaderboards
+
+  The leaderboard used to be the all-time top 50 by total_points, read straight
+  from user_gamification_stats. get_leaderboard ranks members on the server:
+
+  1. Metrics
+       - points:   total_points, or points earned from achievements and
+                   challenge rewards within the period
+       - checkins: days with a gym check-in (in the gym's timezone)
+       - streak:   current streak, or the longest run of consecutive check-in
+                   days within the period
+       - volume:   kg lifted (weight x reps) from logged exercise sets
+  2. Periods: this week (from Monday), this month, or all time
+  3. Scopes
+       - everyone
+       - friends: people the caller has a trainer connection or a
+         conversation with
+       - trainer_group: a trainer's active clients, or everyone who shares a
+         trainer with the calling member
+  4. Members whose privacy settings turn off show_activity are left out of
+     everyone else's leaderboards
+  5. The caller's own row is always returned, after the top N when they are
+     outside it, so the app can show "your position"
+*/
+
+CREATE INDEX IF NOT EXISTS idx_exercise_sets_user_date ON exercise_sets(user_id, workout_date);
+CREATE INDEX IF NOT EXISTS idx_user_achievements_unlocked_at ON user_achievements(unlocked_at);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  p_metric text DEFAULT 'points',
+  p_period text DEFAULT 'all',
+  p_scope text DEFAULT 'everyone',
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  total_points integer,
+  level integer,
+  rank integer,
+  is_current_user boolean
+)
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_since date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_metric NOT IN ('points', 'checkins', 'streak', 'volume') THEN
+    RAISE EXCEPTION 'Unknown leaderboard metric: %', p_metric;
+  END IF;
+
+  IF p_scope NOT IN ('everyone', 'friends', 'trainer_group') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope: %', p_scope;
+  END IF;
+
+  IF p_period NOT IN ('week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', p_period;
+  END IF;
+
+  v_since := CASE p_period
+    WHEN 'week' THEN date_trunc('week', current_date)::date
+    WHEN 'month' THEN date_trunc('month', current_date)::date
+    WHEN 'all' THEN NULL
+  END;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT up.id
+    FROM user_profiles up
+    WHERE up.id = v_user_id
+       OR (
+         NOT EXISTS (
+           SELECT 1 FROM privacy_settings ps
+           WHERE ps.user_id = up.id AND ps.show_activity = false
+         )
+         AND CASE p_scope
+           WHEN 'everyone' THEN true
+           WHEN 'friends' THEN
+             EXISTS (
+               SELECT 1 FROM trainer_user_connections tuc
+               WHERE tuc.status = 'active'
+                 AND ((tuc.user_id = v_user_id AND tuc.trainer_id = up.id)
+                   OR (tuc.trainer_id = v_user_id AND tuc.user_id = up.id))
+             )
+             OR EXISTS (
+               SELECT 1 FROM conversations cv
+               WHERE (cv.participant_1_id = v_user_id AND cv.participant_2_id = up.id)
+                  OR (cv.participant_2_id = v_user_id AND cv.participant_1_id = up.id)
+             )
+           WHEN 'trainer_group' THEN
+             EXISTS (
+               SELECT 1 FROM trainer_user_connections tuc
+               WHERE tuc.status = 'active'
+                 AND tuc.user_id = up.id
+                 AND (
+                   tuc.trainer_id = v_user_id
+                   OR tuc.trainer_id IN (
+                     SELECT mine.trainer_id FROM trainer_user_connections mine
+                     WHERE mine.user_id = v_user_id AND mine.status = 'active'
+                   )
+                 )
+             )
+         END
+       )
+  ),
+  checkin_days AS (
+    SELECT DISTINCT c.user_id, (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date AS day
+    FROM gym_checkins c
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE c.user_id IN (SELECT id FROM candidates)
+      AND p_metric IN ('checkins', 'streak')
+      -- A day of slack so check-ins late on the evening before the period,
+      -- local time, are not cut off before their day is worked out
+      AND (v_since IS NULL OR c.check_in_time >= v_since - interval '1 day')
+  ),
+  period_checkin_days AS (
+    SELECT cd.user_id, cd.day
+    FROM checkin_days cd
+    WHERE v_since IS NULL OR cd.day >= v_since
+  ),
+  scores AS (
+    SELECT
+      cand.id,
+      CASE p_metric
+        WHEN 'points' THEN
+          CASE WHEN v_since IS NULL THEN coalesce(gs.total_points, 0)::numeric
+          ELSE (
+            SELECT coalesce(sum(ua.points_earned), 0)
+            FROM user_achievements ua
+            WHERE ua.user_id = cand.id AND ua.unlocked_at >= v_since
+          ) + (
+            SELECT coalesce(sum(uc.points_earned), 0)
+            FROM user_challenges uc
+            WHERE uc.user_id = cand.id AND uc.reward_paid_at >= v_since
+          )
+          END
+        WHEN 'checkins' THEN (
+          SELECT count(*) FROM period_checkin_days pcd WHERE pcd.user_id = cand.id
+        )::numeric
+        WHEN 'streak' THEN
+          CASE WHEN v_since IS NULL THEN coalesce(gs.current_streak, 0)::numeric
+          ELSE (
+            SELECT coalesce(max(run_length), 0)
+            FROM (
+              SELECT count(*) AS run_length
+              FROM (
+                SELECT pcd.day - (row_number() OVER (ORDER BY pcd.day))::integer AS run_start
+                FROM period_checkin_days pcd
+                WHERE pcd.user_id = cand.id
+              ) d
+              GROUP BY d.run_start
+            ) runs
+          )::numeric
+          END
+        WHEN 'volume' THEN (
+          SELECT coalesce(sum(s.weight_kg * s.reps), 0)
+          FROM exercise_sets s
+          WHERE s.user_id = cand.id
+            AND (v_since IS NULL OR s.workout_date >= v_since)
+        )
+      END AS score,
+      coalesce(gs.total_points, 0) AS points,
+      coalesce(gs.current_level, 1) AS current_level
+    FROM candidates cand
+    LEFT JOIN user_gamification_stats gs ON gs.user_id = cand.id
+  ),
+  ranked AS (
+    SELECT
+      s.id,
+      s.score,
+      s.points,
+      s.current_level,
+      (rank() OVER (ORDER BY s.score DESC))::integer AS standing,
+      row_number() OVER (ORDER BY s.score DESC, s.points DESC, s.id) AS row_index
+    FROM scores s
+    -- Nobody is ranked for doing nothing, except the caller so they can
+    -- see where they stand
+    WHERE s.score > 0 OR s.id = v_user_id
+  )
+  SELECT
+    r.id,
+    up.username,
+    up.full_name,
+    up.avatar_url,
+    r.score,
+    r.points,
+    r.current_level,
+    r.standing,
+    r.id = v_user_id
+  FROM ranked r
+  JOIN user_profiles up ON up.id = r.id
+  WHERE r.row_index <= p_limit OR r.id = v_user_id
+  ORDER BY r.row_index;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard(text, text, text, integer) TO authenticated;
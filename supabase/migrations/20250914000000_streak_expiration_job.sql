@@ -0,0 +1,269 @@
+/*
+  # Streak Expiration Job
+
+  Streaks used to be reset by GamificationService.checkStreakExpiration, a
+  client method that nothing called, so a missed day only showed up once the
+  member checked in again. expire_streaks now runs hourly on the server:
+
+  1. Days are worked out in the timezone of the gym the member last checked in
+     at. A streak is alive while the member checked in today or yesterday, and
+     breaks once a whole day has passed without a check-in
+  2. A frozen streak does not break while the freeze lasts (24 hours). When
+     the freeze ends, the day it was used on counts towards the streak, so the
+     member carries on from there. The weekly freeze allowance is reset each
+     Monday
+  3. Broken streaks are recorded in streak_history before current_streak is
+     reset
+  4. From 6pm on the last day to save a streak, members get a streak_reminder
+     notification (once per day)
+  5. freeze_streak - members freeze their streak through the server, which
+     enforces the once-a-week allowance
+*/
+
+-- Streak reminder notifications
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'connection_request',
+  'connection_accepted',
+  'connection_rejected',
+  'new_message',
+  'workout_assigned',
+  'session_reminder',
+  'subscription_reminder',
+  'achievement_unlocked',
+  'challenge_completed',
+  'team_invite',
+  'streak_reminder'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Notification type: connection_request, connection_accepted, connection_rejected, new_message, workout_assigned, session_reminder, subscription_reminder, achievement_unlocked, challenge_completed, team_invite, streak_reminder';
+
+ALTER TABLE user_gamification_stats
+ADD COLUMN IF NOT EXISTS streak_reminder_sent_on date;
+
+COMMENT ON COLUMN user_gamification_stats.streak_reminder_sent_on IS 'Local date the last streak_reminder was sent, so members get at most one a day';
+
+CREATE TABLE IF NOT EXISTS streak_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('broken')),
+  streak_length integer NOT NULL DEFAULT 0,
+  started_on date,
+  ended_on date,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_streak_history_user_created ON streak_history(user_id, created_at DESC);
+
+ALTER TABLE streak_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own streak history" ON streak_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all streak history" ON streak_history
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+-- The timezone of the gym a member last checked in at
+CREATE OR REPLACE FUNCTION member_timezone(p_user_id uuid)
+RETURNS text
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT l.timezone
+      FROM gym_checkins c
+      JOIN gym_locations l ON l.id = c.location_id
+      WHERE c.user_id = p_user_id
+      ORDER BY c.check_in_time DESC
+      LIMIT 1
+    ),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_streaks()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_stats record;
+  v_timezone text;
+  v_now timestamp;
+  v_today date;
+  v_last_day date;
+  v_frozen_day date;
+  v_freeze_active boolean;
+  v_broken integer := 0;
+BEGIN
+  -- A new week brings back the freeze allowance
+  UPDATE user_gamification_stats
+  SET
+    streak_freeze_used_this_week = false,
+    streak_freeze_week_start = date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date,
+    updated_at = now()
+  WHERE streak_freeze_used_this_week
+    AND (streak_freeze_week_start IS NULL
+      OR streak_freeze_week_start < date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date);
+
+  FOR v_stats IN
+    SELECT * FROM user_gamification_stats
+    WHERE current_streak > 0 OR streak_frozen
+  LOOP
+    v_timezone := member_timezone(v_stats.user_id);
+    v_now := now() AT TIME ZONE v_timezone;
+    v_today := v_now::date;
+
+    -- last_checkin_date is written by the app in UTC, so also look at the
+    -- check-ins themselves in the gym's timezone
+    SELECT greatest(
+      v_stats.last_checkin_date,
+      max((c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date)
+    )
+    INTO v_last_day
+    FROM gym_checkins c
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE c.user_id = v_stats.user_id;
+
+    v_freeze_active := v_stats.streak_frozen
+      AND v_stats.streak_frozen_at > now() - interval '24 hours';
+
+    -- End a freeze that has run its course, crediting the day it covered
+    IF v_stats.streak_frozen AND NOT v_freeze_active THEN
+      v_frozen_day := (coalesce(v_stats.streak_frozen_at, now()) AT TIME ZONE v_timezone)::date;
+
+      IF v_stats.current_streak > 0 AND v_last_day IS NOT NULL AND v_frozen_day = v_last_day + 1 THEN
+        v_last_day := v_frozen_day;
+      END IF;
+
+      UPDATE user_gamification_stats
+      SET
+        streak_frozen = false,
+        streak_frozen_at = NULL,
+        last_checkin_date = v_last_day,
+        updated_at = now()
+      WHERE user_id = v_stats.user_id;
+    END IF;
+
+    CONTINUE WHEN v_stats.current_streak = 0 OR v_freeze_active OR v_last_day IS NULL;
+
+    IF v_last_day < v_today - 1 THEN
+      INSERT INTO streak_history (user_id, event, streak_length, started_on, ended_on)
+      VALUES (
+        v_stats.user_id,
+        'broken',
+        v_stats.current_streak,
+        v_last_day - (v_stats.current_streak - 1),
+        v_last_day
+      );
+
+      UPDATE user_gamification_stats
+      SET current_streak = 0, updated_at = now()
+      WHERE user_id = v_stats.user_id;
+
+      v_broken := v_broken + 1;
+
+    -- Today is the last day to keep the streak going
+    ELSIF v_last_day = v_today - 1
+      AND extract(hour FROM v_now) >= 18
+      AND v_stats.streak_reminder_sent_on IS DISTINCT FROM v_today THEN
+
+      UPDATE user_gamification_stats
+      SET streak_reminder_sent_on = v_today
+      WHERE user_id = v_stats.user_id;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM notification_preferences
+        WHERE user_id = v_stats.user_id AND achievements = false
+      ) THEN
+        PERFORM create_notification(
+          v_stats.user_id,
+          'streak_reminder',
+          'Your streak ends tonight 🔥',
+          CASE
+            WHEN coalesce(v_stats.streak_freeze_used_this_week, false) THEN
+              CONCAT('Check in before midnight to keep your ', v_stats.current_streak, '-day streak.')
+            ELSE
+              CONCAT('Check in before midnight to keep your ', v_stats.current_streak,
+                '-day streak, or use your weekly streak freeze.')
+          END,
+          jsonb_build_object('current_streak', v_stats.current_streak, 'expires_on', v_today + 1)
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_broken;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Freeze the current user's streak for 24 hours. One freeze per week,
+-- counted in the member's timezone like the Monday reset above.
+-- Returns { success, error_code }.
+CREATE OR REPLACE FUNCTION freeze_streak()
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_stats user_gamification_stats%ROWTYPE;
+  v_week_start date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_stats
+  FROM user_gamification_stats
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'STATS_NOT_FOUND');
+  END IF;
+
+  v_week_start := date_trunc('week', now() AT TIME ZONE member_timezone(v_user_id))::date;
+
+  IF coalesce(v_stats.streak_freeze_used_this_week, false)
+     AND v_stats.streak_freeze_week_start >= v_week_start THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'FREEZE_ALREADY_USED');
+  END IF;
+
+  IF coalesce(v_stats.current_streak, 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NO_ACTIVE_STREAK');
+  END IF;
+
+  UPDATE user_gamification_stats
+  SET streak_frozen = true,
+      streak_frozen_at = now(),
+      streak_freeze_used_this_week = true,
+      streak_freeze_week_start = v_week_start,
+      updated_at = now()
+  WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION member_timezone(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_streaks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION freeze_streak() TO authenticated;
+
+-- Schedule the job where pg_cron is available. Hourly, so reminders and
+-- breaks happen close to each gym's local evening and midnight.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'expire-streaks',
+      '0 * * * *',
+      'SELECT public.expire_streaks()'
+    );
+  END IF;
+END $$;
+
+COMMENT ON FUNCTION expire_streaks() IS 'Resets broken streaks, ends expired freezes and sends streak reminders. Run hourly by pg_cron.';
@@ -0,0 +1,340 @@
+/*
+  # Streak History
+
+  streak_history kept one row per broken streak. It now keeps one row per
+  streak, open while the streak is running:
+
+  1. started_on, ended_on (NULL while running), streak_length, and how many
+     times a freeze was used during it (freezes_used, last_freeze_at)
+  2. track_streak_history keeps the rows in step with user_gamification_stats:
+     a new streak opens a row, a longer streak updates it, and a reset (by
+     expire_streaks, or a check-in after a missed day) closes it. Using a
+     freeze is recorded on the running streak
+  3. Two new achievement metrics, streaks_broken and freezes_used, and a
+     "Comeback" achievement for rebuilding a 7-day streak after a break
+*/
+
+ALTER TABLE streak_history DROP COLUMN IF EXISTS event;
+
+ALTER TABLE streak_history
+ADD COLUMN IF NOT EXISTS freezes_used integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_freeze_at timestamptz,
+ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+-- At most one running streak per member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streak_history_running
+ON streak_history(user_id) WHERE ended_on IS NULL;
+
+COMMENT ON TABLE streak_history IS 'One row per streak. ended_on is NULL while the streak is running. Maintained by track_streak_history.';
+
+-- Open rows for streaks that are already running
+INSERT INTO streak_history (user_id, streak_length, started_on, freezes_used, last_freeze_at)
+SELECT
+  gs.user_id,
+  gs.current_streak,
+  coalesce(gs.last_checkin_date, current_date) - (gs.current_streak - 1),
+  CASE WHEN gs.streak_frozen THEN 1 ELSE 0 END,
+  CASE WHEN gs.streak_frozen THEN gs.streak_frozen_at END
+FROM user_gamification_stats gs
+WHERE gs.current_streak > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM streak_history sh WHERE sh.user_id = gs.user_id AND sh.ended_on IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION track_streak_history()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    -- The streak ended: reset by expire_streaks, or restarted by a check-in
+    -- after a missed day
+    IF TG_OP = 'UPDATE' AND OLD.current_streak > 0
+       AND coalesce(NEW.current_streak, 0) < OLD.current_streak THEN
+      UPDATE streak_history
+      SET
+        streak_length = OLD.current_streak,
+        ended_on = coalesce(OLD.last_checkin_date, current_date),
+        updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO streak_history (user_id, streak_length, started_on, ended_on)
+        VALUES (
+          NEW.user_id,
+          OLD.current_streak,
+          coalesce(OLD.last_checkin_date, current_date) - (OLD.current_streak - 1),
+          coalesce(OLD.last_checkin_date, current_date)
+        );
+      END IF;
+    END IF;
+
+    IF coalesce(NEW.current_streak, 0) > 0 THEN
+      UPDATE streak_history
+      SET streak_length = NEW.current_streak, updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO streak_history (user_id, streak_length, started_on)
+        VALUES (
+          NEW.user_id,
+          NEW.current_streak,
+          coalesce(NEW.last_checkin_date, current_date) - (NEW.current_streak - 1)
+        );
+      END IF;
+    END IF;
+
+    IF NEW.streak_frozen AND (TG_OP = 'INSERT' OR NOT coalesce(OLD.streak_frozen, false)) THEN
+      UPDATE streak_history
+      SET
+        freezes_used = freezes_used + 1,
+        last_freeze_at = coalesce(NEW.streak_frozen_at, now()),
+        updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Streak history failed for user %: %', NEW.user_id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_track_streak_history ON user_gamification_stats;
+CREATE TRIGGER trigger_track_streak_history
+  AFTER INSERT OR UPDATE OF current_streak, streak_frozen ON user_gamification_stats
+  FOR EACH ROW
+  EXECUTE FUNCTION track_streak_history();
+
+-- expire_streaks no longer writes history itself
+CREATE OR REPLACE FUNCTION expire_streaks()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_stats record;
+  v_timezone text;
+  v_now timestamp;
+  v_today date;
+  v_last_day date;
+  v_frozen_day date;
+  v_freeze_active boolean;
+  v_broken integer := 0;
+BEGIN
+  -- A new week brings back the freeze allowance
+  UPDATE user_gamification_stats
+  SET
+    streak_freeze_used_this_week = false,
+    streak_freeze_week_start = date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date,
+    updated_at = now()
+  WHERE streak_freeze_used_this_week
+    AND (streak_freeze_week_start IS NULL
+      OR streak_freeze_week_start < date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date);
+
+  FOR v_stats IN
+    SELECT * FROM user_gamification_stats
+    WHERE current_streak > 0 OR streak_frozen
+  LOOP
+    v_timezone := member_timezone(v_stats.user_id);
+    v_now := now() AT TIME ZONE v_timezone;
+    v_today := v_now::date;
+
+    -- last_checkin_date is written by the app in UTC, so also look at the
+    -- check-ins themselves in the gym's timezone
+    SELECT greatest(
+      v_stats.last_checkin_date,
+      max((c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date)
+    )
+    INTO v_last_day
+    FROM gym_checkins c
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE c.user_id = v_stats.user_id;
+
+    v_freeze_active := v_stats.streak_frozen
+      AND v_stats.streak_frozen_at > now() - interval '24 hours';
+
+    -- End a freeze that has run its course, crediting the day it covered
+    IF v_stats.streak_frozen AND NOT v_freeze_active THEN
+      v_frozen_day := (coalesce(v_stats.streak_frozen_at, now()) AT TIME ZONE v_timezone)::date;
+
+      IF v_stats.current_streak > 0 AND v_last_day IS NOT NULL AND v_frozen_day = v_last_day + 1 THEN
+        v_last_day := v_frozen_day;
+      END IF;
+
+      UPDATE user_gamification_stats
+      SET
+        streak_frozen = false,
+        streak_frozen_at = NULL,
+        last_checkin_date = v_last_day,
+        updated_at = now()
+      WHERE user_id = v_stats.user_id;
+    END IF;
+
+    CONTINUE WHEN v_stats.current_streak = 0 OR v_freeze_active OR v_last_day IS NULL;
+
+    -- track_streak_history closes the streak's history entry
+    IF v_last_day < v_today - 1 THEN
+      UPDATE user_gamification_stats
+      SET current_streak = 0, updated_at = now()
+      WHERE user_id = v_stats.user_id;
+
+      v_broken := v_broken + 1;
+
+    -- Today is the last day to keep the streak going
+    ELSIF v_last_day = v_today - 1
+      AND extract(hour FROM v_now) >= 18
+      AND v_stats.streak_reminder_sent_on IS DISTINCT FROM v_today THEN
+
+      UPDATE user_gamification_stats
+      SET streak_reminder_sent_on = v_today
+      WHERE user_id = v_stats.user_id;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM notification_preferences
+        WHERE user_id = v_stats.user_id AND achievements = false
+      ) THEN
+        PERFORM create_notification(
+          v_stats.user_id,
+          'streak_reminder',
+          'Your streak ends tonight 🔥',
+          CASE
+            WHEN coalesce(v_stats.streak_freeze_used_this_week, false) THEN
+              CONCAT('Check in before midnight to keep your ', v_stats.current_streak, '-day streak.')
+            ELSE
+              CONCAT('Check in before midnight to keep your ', v_stats.current_streak,
+                '-day streak, or use your weekly streak freeze.')
+          END,
+          jsonb_build_object('current_streak', v_stats.current_streak, 'expires_on', v_today + 1)
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_broken;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Achievement metrics from streak history:
+--   streaks_broken - streaks that ended within the window
+--   freezes_used   - freezes used within the window
+CREATE OR REPLACE FUNCTION achievement_metric_value(p_user_id uuid, p_condition jsonb)
+RETURNS numeric
+SET search_path = public
+AS $$
+DECLARE
+  v_metric text := p_condition->>'metric';
+  v_filters jsonb := coalesce(p_condition->'filters', '{}'::jsonb);
+  v_window_days integer := (p_condition->>'window_days')::integer;
+  v_end timestamptz := now() - make_interval(days => coalesce((p_condition->>'offset_days')::integer, 0));
+  v_start timestamptz;
+  v_exercise text := lower(trim(v_filters->>'exercise'));
+  v_min_reps integer := coalesce((v_filters->>'min_reps')::integer, 1);
+  v_value numeric;
+BEGIN
+  v_start := CASE
+    WHEN v_window_days IS NULL THEN '-infinity'::timestamptz
+    ELSE v_end - make_interval(days => v_window_days)
+  END;
+
+  CASE v_metric
+    WHEN 'checkins', 'checkin_days' THEN
+      SELECT CASE
+        WHEN v_metric = 'checkins' THEN count(*)
+        ELSE count(DISTINCT (c.check_in_time AT TIME ZONE l.timezone)::date)
+      END
+      INTO v_value
+      FROM gym_checkins c
+      JOIN gym_locations l ON l.id = c.location_id
+      WHERE c.user_id = p_user_id
+        AND c.check_in_time >= v_start
+        AND c.check_in_time < v_end
+        AND (v_filters->>'before_hour' IS NULL
+          OR extract(hour FROM c.check_in_time AT TIME ZONE l.timezone) < (v_filters->>'before_hour')::integer)
+        AND (v_filters->>'after_hour' IS NULL
+          OR extract(hour FROM c.check_in_time AT TIME ZONE l.timezone) >= (v_filters->>'after_hour')::integer)
+        AND (v_filters->'weekdays' IS NULL
+          OR extract(dow FROM c.check_in_time AT TIME ZONE l.timezone)::integer IN (
+            SELECT jsonb_array_elements_text(v_filters->'weekdays')::integer
+          ));
+
+    WHEN 'workouts' THEN
+      SELECT count(*) INTO v_value
+      FROM user_workout_sessions w
+      WHERE w.user_id = p_user_id
+        AND w.created_at >= v_start
+        AND w.created_at < v_end;
+
+    WHEN 'sets', 'max_weight', 'volume' THEN
+      SELECT CASE v_metric
+        WHEN 'sets' THEN count(*)
+        WHEN 'max_weight' THEN max(s.weight_kg)
+        ELSE sum(s.weight_kg * s.reps)
+      END
+      INTO v_value
+      FROM exercise_sets s
+      WHERE s.user_id = p_user_id
+        AND s.created_at >= v_start
+        AND s.created_at < v_end
+        AND s.reps >= v_min_reps
+        AND (v_exercise IS NULL OR lower(trim(s.exercise_name)) = v_exercise);
+
+    WHEN 'bookings' THEN
+      SELECT count(*) INTO v_value
+      FROM trainer_bookings b
+      WHERE b.user_id = p_user_id
+        AND b.status = coalesce(v_filters->>'status', 'completed')
+        AND coalesce(b.completed_at, b.created_at) >= v_start
+        AND coalesce(b.completed_at, b.created_at) < v_end;
+
+    WHEN 'goals_completed' THEN
+      SELECT count(*) INTO v_value
+      FROM user_goals g
+      WHERE g.user_id = p_user_id
+        AND g.status = 'completed'
+        AND g.updated_at >= v_start
+        AND g.updated_at < v_end;
+
+    WHEN 'streak' THEN
+      SELECT current_streak INTO v_value
+      FROM user_gamification_stats
+      WHERE user_id = p_user_id;
+
+    WHEN 'longest_streak' THEN
+      SELECT longest_streak INTO v_value
+      FROM user_gamification_stats
+      WHERE user_id = p_user_id;
+
+    WHEN 'streaks_broken' THEN
+      SELECT count(*) INTO v_value
+      FROM streak_history sh
+      WHERE sh.user_id = p_user_id
+        AND sh.ended_on IS NOT NULL
+        AND sh.ended_on >= v_start
+        AND sh.ended_on < v_end;
+
+    WHEN 'freezes_used' THEN
+      SELECT coalesce(sum(sh.freezes_used), 0) INTO v_value
+      FROM streak_history sh
+      WHERE sh.user_id = p_user_id
+        AND sh.last_freeze_at >= v_start
+        AND sh.last_freeze_at < v_end;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown achievement metric: %', v_metric;
+  END CASE;
+
+  RETURN coalesce(v_value, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Comeback: a 7-day streak after losing one
+INSERT INTO available_achievements (name, description, icon, points, category, requirement_type, requirement_value, requirement_description, rule)
+SELECT v.name, v.description, v.icon, v.points, v.category, v.requirement_type, v.requirement_value, v.requirement_description, v.rule::jsonb
+FROM (VALUES
+  ('Comeback', 'Rebuild a 7-day streak after a break', '🔁', 200, 'streak', 'streak', 7, 'Reach a 7-day streak after losing a streak',
+    '{"on": ["streak"], "when": {"all": [{"metric": "streaks_broken", "gte": 1}, {"metric": "streak", "gte": 7}]}}')
+) AS v(name, description, icon, points, category, requirement_type, requirement_value, requirement_description, rule)
+WHERE NOT EXISTS (SELECT 1 FROM available_achievements a WHERE a.name = v.name);
+
+REVOKE EXECUTE ON FUNCTION achievement_metric_value(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_streaks() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,456 @@
+/*
+  # Streak Rules
+
+  A streak used to mean consecutive calendar days, which punishes members who
+  follow a 3 or 4 day split. Each member now picks a streak rule:
+
+  1. daily (default): consecutive gym days, where planned rest days
+     (rest_days, up to 3 weekdays, 0 = Sunday) never break the streak
+  2. weekly: consecutive weeks (Monday to Sunday) with at least weekly_target
+     gym days. current_streak then counts weeks
+
+  Streaks are now counted on the server when a check-in is recorded
+  (record_streak_checkin), instead of by the app. expire_streaks applies the
+  member's rule when breaking streaks and sending reminders, and a freeze
+  covers a missed day (daily) or a missed week (weekly).
+
+  set_streak_rules changes the rule. A new rule starts a new streak: switching
+  between daily and weekly counts different things, and a streak kept going
+  under different rest days or a different target could be rescued after a
+  missed day by changing the rule.
+*/
+
+ALTER TABLE user_gamification_stats
+ADD COLUMN IF NOT EXISTS streak_mode text NOT NULL DEFAULT 'daily' CHECK (streak_mode IN ('daily', 'weekly')),
+ADD COLUMN IF NOT EXISTS weekly_target integer NOT NULL DEFAULT 3 CHECK (weekly_target BETWEEN 1 AND 7),
+ADD COLUMN IF NOT EXISTS rest_days integer[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS streak_week_start date,
+ADD COLUMN IF NOT EXISTS streak_week_days integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS streak_week_credited date;
+
+COMMENT ON COLUMN user_gamification_stats.streak_mode IS 'daily: consecutive gym days (rest days excepted); weekly: consecutive weeks meeting weekly_target';
+COMMENT ON COLUMN user_gamification_stats.rest_days IS 'Planned rest weekdays (0 = Sunday) that do not break a daily streak';
+COMMENT ON COLUMN user_gamification_stats.streak_week_days IS 'Gym days in streak_week_start''s week, as of the last check-in';
+COMMENT ON COLUMN user_gamification_stats.streak_week_credited IS 'Monday of the last week that counted towards a weekly streak';
+
+ALTER TABLE streak_history
+ADD COLUMN IF NOT EXISTS streak_mode text NOT NULL DEFAULT 'daily' CHECK (streak_mode IN ('daily', 'weekly'));
+
+-- Days between p_from and p_to (inclusive) that are not planned rest days
+CREATE OR REPLACE FUNCTION streak_days_due(p_rest_days integer[], p_from date, p_to date)
+RETURNS integer
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  WHERE NOT (extract(dow FROM d.day)::integer = ANY (coalesce(p_rest_days, '{}')));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Gym days in the week starting p_week_start, in each gym's timezone
+CREATE OR REPLACE FUNCTION streak_week_day_count(p_user_id uuid, p_week_start date)
+RETURNS integer
+SET search_path = public
+AS $$
+  SELECT count(DISTINCT (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date)::integer
+  FROM gym_checkins c
+  LEFT JOIN gym_locations l ON l.id = c.location_id
+  WHERE c.user_id = p_user_id
+    AND c.check_in_time >= p_week_start - interval '1 day'
+    AND c.check_in_time < p_week_start + interval '8 days'
+    AND (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date
+      BETWEEN p_week_start AND p_week_start + 6;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Count a gym day towards the member's streak
+CREATE OR REPLACE FUNCTION record_streak_checkin(p_user_id uuid, p_day date)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_stats user_gamification_stats%ROWTYPE;
+  v_week_start date := date_trunc('week', p_day)::date;
+  v_week_days integer;
+  v_streak integer;
+  v_credited date;
+  v_continues boolean;
+BEGIN
+  INSERT INTO user_gamification_stats (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_stats
+  FROM user_gamification_stats
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- A second check-in that day, or an offline check-in synced late
+  IF v_stats.last_checkin_date IS NOT NULL AND p_day <= v_stats.last_checkin_date THEN
+    RETURN;
+  END IF;
+
+  v_streak := coalesce(v_stats.current_streak, 0);
+  v_credited := v_stats.streak_week_credited;
+  v_week_days := streak_week_day_count(p_user_id, v_week_start);
+
+  IF v_stats.streak_mode = 'weekly' THEN
+    IF v_week_days >= v_stats.weekly_target AND v_credited IS DISTINCT FROM v_week_start THEN
+      v_continues := v_streak > 0 AND (v_credited = v_week_start - 7 OR v_stats.streak_frozen);
+      v_streak := CASE WHEN v_continues THEN v_streak + 1 ELSE 1 END;
+      v_credited := v_week_start;
+    END IF;
+  ELSE
+    v_continues := v_streak > 0 AND v_stats.last_checkin_date IS NOT NULL AND (
+      streak_days_due(v_stats.rest_days, v_stats.last_checkin_date + 1, p_day - 1) = 0
+      OR (v_stats.streak_frozen
+        AND streak_days_due(v_stats.rest_days, v_stats.last_checkin_date + 1, p_day - 1) = 1)
+    );
+    v_streak := CASE WHEN v_continues THEN v_streak + 1 ELSE 1 END;
+  END IF;
+
+  UPDATE user_gamification_stats
+  SET
+    current_streak = v_streak,
+    longest_streak = greatest(coalesce(longest_streak, 0), v_streak),
+    last_checkin_date = p_day,
+    total_workouts = coalesce(total_workouts, 0) + 1,
+    streak_week_start = v_week_start,
+    streak_week_days = v_week_days,
+    streak_week_credited = v_credited,
+    -- Checking in uses up an active freeze
+    streak_frozen = false,
+    streak_frozen_at = NULL,
+    updated_at = now()
+  WHERE user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION streak_on_checkin()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM record_streak_checkin(
+    NEW.user_id,
+    (NEW.check_in_time AT TIME ZONE coalesce(
+      (SELECT timezone FROM gym_locations WHERE id = NEW.location_id),
+      'UTC'
+    ))::date
+  );
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Streak update failed for %: %', NEW.user_id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_streak_on_checkin ON gym_checkins;
+CREATE TRIGGER trigger_streak_on_checkin
+  AFTER INSERT ON gym_checkins
+  FOR EACH ROW
+  WHEN (NEW.user_type = 'user' AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION streak_on_checkin();
+
+-- Change the current member's streak rule
+CREATE OR REPLACE FUNCTION set_streak_rules(p_mode text, p_weekly_target integer, p_rest_days integer[])
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rest_days integer[];
+  v_stats user_gamification_stats%ROWTYPE;
+  v_week_start date;
+  v_week_days integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_mode NOT IN ('daily', 'weekly') THEN
+    RAISE EXCEPTION 'Unknown streak mode: %', p_mode;
+  END IF;
+
+  IF p_weekly_target IS NULL OR p_weekly_target NOT BETWEEN 1 AND 7 THEN
+    RAISE EXCEPTION 'Weekly target must be between 1 and 7 days';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT day ORDER BY day), '{}') INTO v_rest_days
+  FROM unnest(coalesce(p_rest_days, '{}')) AS day;
+
+  IF EXISTS (SELECT 1 FROM unnest(v_rest_days) AS day WHERE day NOT BETWEEN 0 AND 6) THEN
+    RAISE EXCEPTION 'Rest days must be weekdays from 0 (Sunday) to 6 (Saturday)';
+  END IF;
+
+  IF cardinality(v_rest_days) > 3 THEN
+    RAISE EXCEPTION 'Choose at most 3 rest days, or use a weekly target instead';
+  END IF;
+
+  INSERT INTO user_gamification_stats (user_id)
+  VALUES (v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_stats
+  FROM user_gamification_stats
+  WHERE user_id = v_user_id
+  FOR UPDATE;
+
+  -- Only the setting the current mode doesn't use changed
+  IF v_stats.streak_mode = p_mode
+     AND ((p_mode = 'daily' AND v_stats.rest_days = v_rest_days)
+       OR (p_mode = 'weekly' AND v_stats.weekly_target = p_weekly_target)) THEN
+    UPDATE user_gamification_stats
+    SET weekly_target = p_weekly_target, rest_days = v_rest_days, updated_at = now()
+    WHERE user_id = v_user_id;
+    RETURN;
+  END IF;
+
+  -- A new rule starts a new streak, so past gaps are never judged by a rule
+  -- chosen after them. A weekly streak starts straight away if this week
+  -- already meets the target.
+  v_week_start := date_trunc('week', now() AT TIME ZONE member_timezone(v_user_id))::date;
+  v_week_days := streak_week_day_count(v_user_id, v_week_start);
+
+  UPDATE user_gamification_stats
+  SET
+    streak_mode = p_mode,
+    weekly_target = p_weekly_target,
+    rest_days = v_rest_days,
+    current_streak = CASE
+      WHEN p_mode = 'weekly' AND v_week_days >= p_weekly_target THEN 1
+      ELSE 0
+    END,
+    streak_week_start = v_week_start,
+    streak_week_days = v_week_days,
+    streak_week_credited = CASE
+      WHEN p_mode = 'weekly' AND v_week_days >= p_weekly_target THEN v_week_start
+    END,
+    streak_frozen = false,
+    streak_frozen_at = NULL,
+    updated_at = now()
+  WHERE user_id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- History rows remember which rule the streak was counted under
+CREATE OR REPLACE FUNCTION track_streak_history()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    -- The streak ended: reset by expire_streaks, restarted by a check-in
+    -- after a missed day, or replaced by a new streak rule
+    IF TG_OP = 'UPDATE' AND OLD.current_streak > 0
+       AND (coalesce(NEW.current_streak, 0) < OLD.current_streak OR NEW.streak_mode <> OLD.streak_mode) THEN
+      UPDATE streak_history
+      SET
+        streak_length = OLD.current_streak,
+        ended_on = coalesce(OLD.last_checkin_date, current_date),
+        updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO streak_history (user_id, streak_mode, streak_length, started_on, ended_on)
+        VALUES (
+          NEW.user_id,
+          OLD.streak_mode,
+          OLD.current_streak,
+          coalesce(OLD.last_checkin_date, current_date)
+            - (OLD.current_streak - 1) * CASE WHEN OLD.streak_mode = 'weekly' THEN 7 ELSE 1 END,
+          coalesce(OLD.last_checkin_date, current_date)
+        );
+      END IF;
+    END IF;
+
+    IF coalesce(NEW.current_streak, 0) > 0 THEN
+      UPDATE streak_history
+      SET streak_length = NEW.current_streak, updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+
+      IF NOT FOUND THEN
+        INSERT INTO streak_history (user_id, streak_mode, streak_length, started_on)
+        VALUES (
+          NEW.user_id,
+          NEW.streak_mode,
+          NEW.current_streak,
+          CASE
+            WHEN NEW.streak_mode = 'weekly' THEN
+              coalesce(NEW.streak_week_credited, current_date) - (NEW.current_streak - 1) * 7
+            ELSE
+              coalesce(NEW.last_checkin_date, current_date) - (NEW.current_streak - 1)
+          END
+        );
+      END IF;
+    END IF;
+
+    IF NEW.streak_frozen AND (TG_OP = 'INSERT' OR NOT coalesce(OLD.streak_frozen, false)) THEN
+      UPDATE streak_history
+      SET
+        freezes_used = freezes_used + 1,
+        last_freeze_at = coalesce(NEW.streak_frozen_at, now()),
+        updated_at = now()
+      WHERE user_id = NEW.user_id AND ended_on IS NULL;
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Streak history failed for user %: %', NEW.user_id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_track_streak_history ON user_gamification_stats;
+CREATE TRIGGER trigger_track_streak_history
+  AFTER INSERT OR UPDATE OF current_streak, streak_frozen, streak_mode ON user_gamification_stats
+  FOR EACH ROW
+  EXECUTE FUNCTION track_streak_history();
+
+-- Streak expiration with the member's rule
+CREATE OR REPLACE FUNCTION expire_streaks()
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_stats record;
+  v_timezone text;
+  v_now timestamp;
+  v_today date;
+  v_week_start date;
+  v_last_day date;
+  v_credited date;
+  v_frozen_day date;
+  v_freeze_active boolean;
+  v_days_needed integer;
+  v_message text;
+  v_broken integer := 0;
+BEGIN
+  -- A new week brings back the freeze allowance
+  UPDATE user_gamification_stats
+  SET
+    streak_freeze_used_this_week = false,
+    streak_freeze_week_start = date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date,
+    updated_at = now()
+  WHERE streak_freeze_used_this_week
+    AND (streak_freeze_week_start IS NULL
+      OR streak_freeze_week_start < date_trunc('week', now() AT TIME ZONE member_timezone(user_id))::date);
+
+  FOR v_stats IN
+    SELECT * FROM user_gamification_stats
+    WHERE current_streak > 0 OR streak_frozen
+  LOOP
+    v_timezone := member_timezone(v_stats.user_id);
+    v_now := now() AT TIME ZONE v_timezone;
+    v_today := v_now::date;
+    v_week_start := date_trunc('week', v_today)::date;
+    v_credited := v_stats.streak_week_credited;
+
+    -- last_checkin_date was written by the app in UTC before streaks moved to
+    -- the server, so also look at the check-ins themselves
+    SELECT greatest(
+      v_stats.last_checkin_date,
+      max((c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date)
+    )
+    INTO v_last_day
+    FROM gym_checkins c
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE c.user_id = v_stats.user_id;
+
+    v_freeze_active := v_stats.streak_frozen
+      AND v_stats.streak_frozen_at > now() - interval '24 hours';
+
+    -- End a freeze that has run its course, crediting the day (or week) it
+    -- covered
+    IF v_stats.streak_frozen AND NOT v_freeze_active THEN
+      v_frozen_day := (coalesce(v_stats.streak_frozen_at, now()) AT TIME ZONE v_timezone)::date;
+
+      IF v_stats.current_streak > 0 AND v_stats.streak_mode = 'weekly' THEN
+        IF v_credited = date_trunc('week', v_frozen_day)::date - 7 THEN
+          v_credited := date_trunc('week', v_frozen_day)::date;
+        END IF;
+      ELSIF v_stats.current_streak > 0 AND v_last_day IS NOT NULL AND v_frozen_day > v_last_day
+        AND streak_days_due(v_stats.rest_days, v_last_day + 1, v_frozen_day - 1) = 0 THEN
+        v_last_day := v_frozen_day;
+      END IF;
+
+      UPDATE user_gamification_stats
+      SET
+        streak_frozen = false,
+        streak_frozen_at = NULL,
+        last_checkin_date = v_last_day,
+        streak_week_credited = v_credited,
+        updated_at = now()
+      WHERE user_id = v_stats.user_id;
+    END IF;
+
+    CONTINUE WHEN v_stats.current_streak = 0 OR v_freeze_active OR v_last_day IS NULL;
+
+    -- Weekly: last week had to meet the target. Daily: every day since the
+    -- last check-in, other than today and rest days, needed a check-in.
+    -- track_streak_history closes the streak's history entry.
+    IF (v_stats.streak_mode = 'weekly' AND (v_credited IS NULL OR v_credited < v_week_start - 7))
+       OR (v_stats.streak_mode = 'daily'
+         AND streak_days_due(v_stats.rest_days, v_last_day + 1, v_today - 1) > 0) THEN
+      UPDATE user_gamification_stats
+      SET current_streak = 0, updated_at = now()
+      WHERE user_id = v_stats.user_id;
+
+      v_broken := v_broken + 1;
+      CONTINUE;
+    END IF;
+
+    CONTINUE WHEN extract(hour FROM v_now) < 18
+      OR v_stats.streak_reminder_sent_on IS NOT DISTINCT FROM v_today;
+
+    v_message := NULL;
+
+    IF v_stats.streak_mode = 'weekly' THEN
+      -- Sunday evening, one gym day short of the target
+      v_days_needed := v_stats.weekly_target - CASE
+        WHEN v_stats.streak_week_start = v_week_start THEN v_stats.streak_week_days
+        ELSE 0
+      END;
+
+      IF extract(isodow FROM v_today) = 7 AND v_credited < v_week_start AND v_days_needed = 1 THEN
+        v_message := CONCAT('One more gym day today keeps your ', v_stats.current_streak, '-week streak going.');
+      END IF;
+    ELSIF v_last_day < v_today
+      AND NOT (extract(dow FROM v_today)::integer = ANY (v_stats.rest_days)) THEN
+      -- Today is the last day to keep the streak going
+      v_message := CONCAT('Check in before midnight to keep your ', v_stats.current_streak, '-day streak.');
+    END IF;
+
+    CONTINUE WHEN v_message IS NULL;
+
+    UPDATE user_gamification_stats
+    SET streak_reminder_sent_on = v_today
+    WHERE user_id = v_stats.user_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM notification_preferences
+      WHERE user_id = v_stats.user_id AND achievements = false
+    ) THEN
+      PERFORM create_notification(
+        v_stats.user_id,
+        'streak_reminder',
+        'Your streak ends tonight 🔥',
+        CASE
+          WHEN coalesce(v_stats.streak_freeze_used_this_week, false) THEN v_message
+          ELSE CONCAT(v_message, ' You can also use your weekly streak freeze.')
+        END,
+        jsonb_build_object(
+          'current_streak', v_stats.current_streak,
+          'streak_mode', v_stats.streak_mode,
+          'expires_on', v_today + 1
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_broken;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION streak_week_day_count(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_streak_checkin(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_streaks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_streak_rules(text, integer, integer[]) TO authenticated;
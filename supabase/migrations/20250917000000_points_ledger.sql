@@ -0,0 +1,796 @@
+/*
+  # Points Ledger
+
+  total_points was a bare counter: nothing recorded where points came from, and
+  there was nothing to spend them on. Every change to a member's points now goes
+  through an append-only ledger:
+
+  1. points_ledger has one row per change, with its source:
+       - achievement:       an achievement was unlocked
+       - challenge:         a challenge reward was paid
+       - checkin:           the first check-in of a day (gym setting
+                            checkin_points, in the gym's timezone)
+       - admin_grant:       points given by an admin
+       - admin_adjustment:  an admin correction (either direction)
+       - redemption:        points spent in the shop
+       - redemption_refund: a cancelled redemption
+     Rows can't be updated or deleted, and each row stores the balance after it
+  2. record_points is the only way points change. total_points stays the
+     lifetime total (levels and leaderboards); the new points_balance is what
+     can be spent, and never goes below zero. Other writes to either column
+     are ignored
+  3. Members redeem points for shop products with a points_price, or for
+     membership discounts. Redemptions wait at the front desk until an admin
+     fulfils them; cancelling one refunds the points (and restocks products)
+  4. reconcile_points_balances lists members whose stored totals don't match
+     their ledger
+  5. Existing points are backfilled from unlocked achievements and paid
+     challenge rewards, with an opening balance for anything else
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('checkin_points', '10', 'Points members earn for their first check-in of the day')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE user_gamification_stats
+ADD COLUMN IF NOT EXISTS points_balance integer NOT NULL DEFAULT 0 CHECK (points_balance >= 0);
+
+COMMENT ON COLUMN user_gamification_stats.total_points IS 'Lifetime points earned (redemptions do not reduce it). Written only by record_points';
+COMMENT ON COLUMN user_gamification_stats.points_balance IS 'Points available to redeem. Written only by record_points';
+
+CREATE TABLE IF NOT EXISTS points_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount <> 0),
+  balance_after integer NOT NULL DEFAULT 0,
+  source text NOT NULL CHECK (source IN (
+    'achievement',
+    'challenge',
+    'checkin',
+    'admin_grant',
+    'admin_adjustment',
+    'redemption',
+    'redemption_refund'
+  )),
+  reference_id uuid,
+  description text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_ledger_user_created ON points_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_created ON points_ledger(created_at);
+
+-- An achievement, challenge reward or check-in pays out once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_earned_once
+  ON points_ledger(source, reference_id)
+  WHERE source IN ('achievement', 'challenge', 'checkin');
+
+ALTER TABLE points_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own points ledger" ON points_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all points ledgers" ON points_ledger
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+COMMENT ON TABLE points_ledger IS 'Append-only record of every change to a member''s points';
+
+-- Backfill what we know about existing points, then an opening balance for
+-- the rest (points paid before achievements and rewards were tracked)
+INSERT INTO points_ledger (user_id, amount, source, reference_id, description, created_at)
+SELECT ua.user_id, ua.points_earned, 'achievement', ua.id, a.name, ua.unlocked_at
+FROM user_achievements ua
+JOIN available_achievements a ON a.id = ua.achievement_id
+WHERE ua.points_earned > 0;
+
+INSERT INTO points_ledger (user_id, amount, source, reference_id, description, created_at)
+SELECT uc.user_id, uc.points_earned, 'challenge', uc.id, c.name, uc.reward_paid_at
+FROM user_challenges uc
+JOIN available_challenges c ON c.id = uc.challenge_id
+WHERE uc.reward_paid_at IS NOT NULL AND uc.points_earned > 0;
+
+INSERT INTO points_ledger (user_id, amount, source, description, created_at)
+SELECT gs.user_id, gs.total_points - coalesce(l.amount, 0), 'admin_adjustment', 'Opening balance', coalesce(gs.created_at, now())
+FROM user_gamification_stats gs
+LEFT JOIN (
+  SELECT user_id, sum(amount) AS amount FROM points_ledger GROUP BY user_id
+) l ON l.user_id = gs.user_id
+WHERE coalesce(gs.total_points, 0) <> coalesce(l.amount, 0);
+
+UPDATE points_ledger pl
+SET balance_after = running.balance
+FROM (
+  SELECT id, sum(amount) OVER (PARTITION BY user_id ORDER BY created_at, id) AS balance
+  FROM points_ledger
+) running
+WHERE running.id = pl.id;
+
+UPDATE user_gamification_stats
+SET points_balance = greatest(coalesce(total_points, 0), 0);
+
+CREATE OR REPLACE FUNCTION prevent_points_ledger_changes()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  -- Let the rows go when their member's account is deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'points_ledger is append-only; record a new entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_points_ledger_append_only ON points_ledger;
+CREATE TRIGGER trigger_points_ledger_append_only
+  BEFORE UPDATE OR DELETE ON points_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_points_ledger_changes();
+
+-- Points columns only change through record_points. The app can still write
+-- the rest of the stats row (e.g. streak freezes), so other writes to them are
+-- quietly undone rather than rejected
+CREATE OR REPLACE FUNCTION protect_points_columns()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.points_ledger', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.total_points := 0;
+      NEW.points_balance := 0;
+      NEW.current_level := 1;
+    ELSE
+      NEW.total_points := OLD.total_points;
+      NEW.points_balance := OLD.points_balance;
+      NEW.current_level := OLD.current_level;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_points_columns ON user_gamification_stats;
+CREATE TRIGGER trigger_protect_points_columns
+  BEFORE INSERT OR UPDATE ON user_gamification_stats
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_points_columns();
+
+-- Add (or take away) points and record why. Raises if the member doesn't have
+-- enough points for a negative amount.
+CREATE OR REPLACE FUNCTION record_points(
+  p_user_id uuid,
+  p_amount integer,
+  p_source text,
+  p_reference_id uuid DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_created_by uuid DEFAULT NULL
+)
+RETURNS uuid
+SET search_path = public
+AS $$
+DECLARE
+  v_stats user_gamification_stats%ROWTYPE;
+  v_earned boolean := p_source IN ('achievement', 'challenge', 'checkin', 'admin_grant', 'admin_adjustment');
+  v_entry_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Points amount must not be zero';
+  END IF;
+
+  INSERT INTO user_gamification_stats (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_stats
+  FROM user_gamification_stats
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_stats.points_balance + p_amount < 0 THEN
+    RAISE EXCEPTION 'Not enough points (balance %, needs %)', v_stats.points_balance, -p_amount;
+  END IF;
+
+  INSERT INTO points_ledger (user_id, amount, balance_after, source, reference_id, description, created_by)
+  VALUES (p_user_id, p_amount, v_stats.points_balance + p_amount, p_source, p_reference_id, p_description, p_created_by)
+  RETURNING id INTO v_entry_id;
+
+  PERFORM set_config('app.points_ledger', 'on', true);
+
+  UPDATE user_gamification_stats
+  SET
+    points_balance = v_stats.points_balance + p_amount,
+    total_points = CASE WHEN v_earned THEN coalesce(v_stats.total_points, 0) + p_amount ELSE total_points END,
+    current_level = CASE
+      WHEN v_earned THEN calculate_user_level(coalesce(v_stats.total_points, 0) + p_amount)
+      ELSE current_level
+    END,
+    updated_at = now()
+  WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.points_ledger', 'off', true);
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Achievement points go through the ledger
+CREATE OR REPLACE FUNCTION update_user_stats_on_achievement()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_gamification_stats (user_id, achievements_unlocked)
+  VALUES (NEW.user_id, 1)
+  ON CONFLICT (user_id) DO UPDATE SET
+    achievements_unlocked = user_gamification_stats.achievements_unlocked + 1,
+    updated_at = now();
+
+  IF NEW.points_earned > 0 THEN
+    PERFORM record_points(
+      NEW.user_id,
+      NEW.points_earned,
+      'achievement',
+      NEW.id,
+      (SELECT name FROM available_achievements WHERE id = NEW.achievement_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- So do challenge rewards
+CREATE OR REPLACE FUNCTION award_challenge_reward(p_user_challenge_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_reward integer;
+  v_name text;
+BEGIN
+  UPDATE user_challenges uc
+  SET completed = true,
+      completed_at = coalesce(uc.completed_at, now()),
+      points_earned = c.reward_points,
+      reward_paid_at = now(),
+      updated_at = now()
+  FROM available_challenges c
+  WHERE uc.id = p_user_challenge_id
+    AND c.id = uc.challenge_id
+    AND uc.reward_paid_at IS NULL
+    -- Solo entries must really have reached the target. Team rewards are
+    -- decided by close_expired_challenges once the challenge is over
+    AND CASE c.format
+      WHEN 'team' THEN c.end_date < current_date
+      ELSE challenge_progress(uc.user_id, c.id) >= c.target_value
+    END
+  RETURNING uc.user_id, c.reward_points, c.name
+  INTO v_user_id, v_reward, v_name;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO user_gamification_stats (user_id, challenges_completed)
+  VALUES (v_user_id, 1)
+  ON CONFLICT (user_id) DO UPDATE SET
+    challenges_completed = user_gamification_stats.challenges_completed + 1,
+    updated_at = now();
+
+  IF v_reward > 0 THEN
+    PERFORM record_points(v_user_id, v_reward, 'challenge', p_user_challenge_id, v_name);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = v_user_id AND achievements = false
+  ) THEN
+    PERFORM create_notification(
+      v_user_id,
+      'challenge_completed',
+      'Challenge Complete! 🏁',
+      CONCAT(
+        'You completed "', v_name, '"',
+        CASE WHEN v_reward > 0 THEN CONCAT(' and earned ', v_reward, ' points') END,
+        '.'
+      ),
+      jsonb_build_object('user_challenge_id', p_user_challenge_id, 'points', v_reward)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Points for the first check-in of each day, in the gym's timezone
+CREATE OR REPLACE FUNCTION points_on_checkin()
+RETURNS trigger
+SET search_path = public
+AS $$
+DECLARE
+  v_points integer := get_gym_setting_numeric('checkin_points', 10)::integer;
+  v_day date;
+BEGIN
+  IF v_points <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_day := (NEW.check_in_time AT TIME ZONE coalesce(
+    (SELECT timezone FROM gym_locations WHERE id = NEW.location_id),
+    'UTC'
+  ))::date;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM points_ledger pl
+    JOIN gym_checkins c ON c.id = pl.reference_id
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE pl.user_id = NEW.user_id
+      AND pl.source = 'checkin'
+      AND (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date = v_day
+  ) THEN
+    PERFORM record_points(NEW.user_id, v_points, 'checkin', NEW.id, CONCAT('Check-in on ', to_char(v_day, 'Mon DD')));
+  END IF;
+
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Check-in points failed for %: %', NEW.user_id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_points_on_checkin ON gym_checkins;
+CREATE TRIGGER trigger_points_on_checkin
+  AFTER INSERT ON gym_checkins
+  FOR EACH ROW
+  WHEN (NEW.user_type = 'user' AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION points_on_checkin();
+
+-- Admin grants and corrections
+CREATE OR REPLACE FUNCTION admin_adjust_points(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text,
+  p_source text DEFAULT 'admin_grant'
+)
+RETURNS uuid
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can adjust points';
+  END IF;
+
+  IF p_source NOT IN ('admin_grant', 'admin_adjustment') THEN
+    RAISE EXCEPTION 'Unknown adjustment type: %', p_source;
+  END IF;
+
+  IF p_source = 'admin_grant' AND p_amount <= 0 THEN
+    RAISE EXCEPTION 'A grant must add points; use an adjustment to take points away';
+  END IF;
+
+  IF nullif(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason';
+  END IF;
+
+  RETURN record_points(p_user_id, p_amount, p_source, NULL, trim(p_reason), auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redeemable rewards
+ALTER TABLE shop_products
+ADD COLUMN IF NOT EXISTS points_price integer CHECK (points_price IS NULL OR points_price > 0);
+
+COMMENT ON COLUMN shop_products.points_price IS 'Points a member can redeem for this product instead of paying; NULL if it can''t be redeemed';
+
+CREATE TABLE IF NOT EXISTS membership_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  discount_percent integer NOT NULL CHECK (discount_percent BETWEEN 1 AND 100),
+  points_cost integer NOT NULL CHECK (points_cost > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE membership_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active membership discounts" ON membership_discounts
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage membership discounts" ON membership_discounts
+  FOR ALL USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+INSERT INTO membership_discounts (name, description, discount_percent, points_cost)
+SELECT * FROM (VALUES
+  ('5% off next month', 'Taken off your next membership payment', 5, 1000),
+  ('10% off next month', 'Taken off your next membership payment', 10, 1800)
+) AS seed(name, description, discount_percent, points_cost)
+WHERE NOT EXISTS (SELECT 1 FROM membership_discounts);
+
+CREATE TABLE IF NOT EXISTS point_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES shop_products(id) ON DELETE SET NULL,
+  membership_discount_id uuid REFERENCES membership_discounts(id) ON DELETE SET NULL,
+  item_name text NOT NULL,
+  points_spent integer NOT NULL CHECK (points_spent > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'cancelled')),
+  ledger_entry_id uuid REFERENCES points_ledger(id),
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_redemptions_user ON point_redemptions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_point_redemptions_pending ON point_redemptions(created_at) WHERE status = 'pending';
+
+ALTER TABLE point_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions" ON point_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all redemptions" ON point_redemptions
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+COMMENT ON COLUMN point_redemptions.item_name IS 'Name of the product or discount when it was redeemed';
+
+-- Spend the current member's points on a product or a membership discount.
+-- Pass exactly one of the two ids.
+CREATE OR REPLACE FUNCTION redeem_points(
+  p_product_id uuid DEFAULT NULL,
+  p_membership_discount_id uuid DEFAULT NULL
+)
+RETURNS uuid
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_name text;
+  v_cost integer;
+  v_redemption_id uuid := gen_random_uuid();
+  v_entry_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (p_product_id IS NULL) = (p_membership_discount_id IS NULL) THEN
+    RAISE EXCEPTION 'Choose a product or a membership discount';
+  END IF;
+
+  IF p_product_id IS NOT NULL THEN
+    -- Take one off the shelf; it goes back if the redemption is cancelled
+    UPDATE shop_products
+    SET stock_quantity = stock_quantity - 1, updated_at = now()
+    WHERE id = p_product_id
+      AND is_active
+      AND points_price IS NOT NULL
+      AND stock_quantity > 0
+    RETURNING name, points_price INTO v_name, v_cost;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This product can''t be redeemed right now';
+    END IF;
+  ELSE
+    SELECT name, points_cost INTO v_name, v_cost
+    FROM membership_discounts
+    WHERE id = p_membership_discount_id AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This discount is no longer available';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM point_redemptions
+      WHERE user_id = v_user_id
+        AND membership_discount_id IS NOT NULL
+        AND status = 'pending'
+    ) THEN
+      RAISE EXCEPTION 'You already have a membership discount waiting to be applied';
+    END IF;
+  END IF;
+
+  v_entry_id := record_points(v_user_id, -v_cost, 'redemption', v_redemption_id, v_name);
+
+  INSERT INTO point_redemptions (id, user_id, product_id, membership_discount_id, item_name, points_spent, ledger_entry_id)
+  VALUES (v_redemption_id, v_user_id, p_product_id, p_membership_discount_id, v_name, v_cost, v_entry_id);
+
+  RETURN v_redemption_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admins hand over a redeemed product or apply the discount (fulfil), or
+-- cancel the redemption and refund the points
+CREATE OR REPLACE FUNCTION resolve_redemption(p_redemption_id uuid, p_fulfil boolean)
+RETURNS void
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption point_redemptions%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can resolve redemptions';
+  END IF;
+
+  UPDATE point_redemptions
+  SET
+    status = CASE WHEN p_fulfil THEN 'fulfilled' ELSE 'cancelled' END,
+    resolved_by = auth.uid(),
+    resolved_at = now()
+  WHERE id = p_redemption_id AND status = 'pending'
+  RETURNING * INTO v_redemption;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This redemption has already been resolved';
+  END IF;
+
+  IF NOT p_fulfil THEN
+    PERFORM record_points(
+      v_redemption.user_id,
+      v_redemption.points_spent,
+      'redemption_refund',
+      v_redemption.id,
+      CONCAT('Refund: ', v_redemption.item_name),
+      auth.uid()
+    );
+
+    IF v_redemption.product_id IS NOT NULL THEN
+      UPDATE shop_products
+      SET stock_quantity = stock_quantity + 1, updated_at = now()
+      WHERE id = v_redemption.product_id;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Members whose stored points don't add up to their ledger. An empty result
+-- means every balance reconciles.
+CREATE OR REPLACE FUNCTION reconcile_points_balances()
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  full_name text,
+  stored_total integer,
+  ledger_total integer,
+  stored_balance integer,
+  ledger_balance integer,
+  broken_entries integer
+)
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can reconcile points';
+  END IF;
+
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT
+      pl.user_id,
+      sum(pl.amount) FILTER (WHERE pl.source NOT IN ('redemption', 'redemption_refund'))::integer AS earned,
+      sum(pl.amount)::integer AS balance,
+      -- Entries whose balance_after doesn't follow from the one before
+      count(*) FILTER (
+        WHERE pl.balance_after <> pl.running_balance
+      )::integer AS broken
+    FROM (
+      SELECT
+        l.*,
+        sum(l.amount) OVER (PARTITION BY l.user_id ORDER BY l.created_at, l.id) AS running_balance
+      FROM points_ledger l
+    ) pl
+    GROUP BY pl.user_id
+  )
+  SELECT
+    coalesce(gs.user_id, ledger.user_id),
+    up.username,
+    up.full_name,
+    coalesce(gs.total_points, 0),
+    coalesce(ledger.earned, 0),
+    coalesce(gs.points_balance, 0),
+    coalesce(ledger.balance, 0),
+    coalesce(ledger.broken, 0)
+  FROM user_gamification_stats gs
+  FULL JOIN ledger ON ledger.user_id = gs.user_id
+  LEFT JOIN user_profiles up ON up.id = coalesce(gs.user_id, ledger.user_id)
+  WHERE coalesce(gs.total_points, 0) <> coalesce(ledger.earned, 0)
+     OR coalesce(gs.points_balance, 0) <> coalesce(ledger.balance, 0)
+     OR coalesce(ledger.broken, 0) > 0
+  ORDER BY up.username;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Period points on the leaderboard now come from the ledger, so check-in
+-- points and admin grants count too
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  p_metric text DEFAULT 'points',
+  p_period text DEFAULT 'all',
+  p_scope text DEFAULT 'everyone',
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  value numeric,
+  total_points integer,
+  level integer,
+  rank integer,
+  is_current_user boolean
+)
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_since date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_metric NOT IN ('points', 'checkins', 'streak', 'volume') THEN
+    RAISE EXCEPTION 'Unknown leaderboard metric: %', p_metric;
+  END IF;
+
+  IF p_scope NOT IN ('everyone', 'friends', 'trainer_group') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope: %', p_scope;
+  END IF;
+
+  IF p_period NOT IN ('week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard period: %', p_period;
+  END IF;
+
+  v_since := CASE p_period
+    WHEN 'week' THEN date_trunc('week', current_date)::date
+    WHEN 'month' THEN date_trunc('month', current_date)::date
+    WHEN 'all' THEN NULL
+  END;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT up.id
+    FROM user_profiles up
+    WHERE up.id = v_user_id
+       OR (
+         NOT EXISTS (
+           SELECT 1 FROM privacy_settings ps
+           WHERE ps.user_id = up.id AND ps.show_activity = false
+         )
+         AND CASE p_scope
+           WHEN 'everyone' THEN true
+           WHEN 'friends' THEN
+             EXISTS (
+               SELECT 1 FROM trainer_user_connections tuc
+               WHERE tuc.status = 'active'
+                 AND ((tuc.user_id = v_user_id AND tuc.trainer_id = up.id)
+                   OR (tuc.trainer_id = v_user_id AND tuc.user_id = up.id))
+             )
+             OR EXISTS (
+               SELECT 1 FROM conversations cv
+               WHERE (cv.participant_1_id = v_user_id AND cv.participant_2_id = up.id)
+                  OR (cv.participant_2_id = v_user_id AND cv.participant_1_id = up.id)
+             )
+           WHEN 'trainer_group' THEN
+             EXISTS (
+               SELECT 1 FROM trainer_user_connections tuc
+               WHERE tuc.status = 'active'
+                 AND tuc.user_id = up.id
+                 AND (
+                   tuc.trainer_id = v_user_id
+                   OR tuc.trainer_id IN (
+                     SELECT mine.trainer_id FROM trainer_user_connections mine
+                     WHERE mine.user_id = v_user_id AND mine.status = 'active'
+                   )
+                 )
+             )
+         END
+       )
+  ),
+  checkin_days AS (
+    SELECT DISTINCT c.user_id, (c.check_in_time AT TIME ZONE coalesce(l.timezone, 'UTC'))::date AS day
+    FROM gym_checkins c
+    LEFT JOIN gym_locations l ON l.id = c.location_id
+    WHERE c.user_id IN (SELECT id FROM candidates)
+      AND p_metric IN ('checkins', 'streak')
+      -- A day of slack so check-ins late on the evening before the period,
+      -- local time, are not cut off before their day is worked out
+      AND (v_since IS NULL OR c.check_in_time >= v_since - interval '1 day')
+  ),
+  period_checkin_days AS (
+    SELECT cd.user_id, cd.day
+    FROM checkin_days cd
+    WHERE v_since IS NULL OR cd.day >= v_since
+  ),
+  scores AS (
+    SELECT
+      cand.id,
+      CASE p_metric
+        WHEN 'points' THEN
+          CASE WHEN v_since IS NULL THEN coalesce(gs.total_points, 0)::numeric
+          ELSE (
+            SELECT coalesce(sum(pl.amount), 0)
+            FROM points_ledger pl
+            WHERE pl.user_id = cand.id
+              AND pl.created_at >= v_since
+              AND pl.source NOT IN ('redemption', 'redemption_refund')
+          )
+          END
+        WHEN 'checkins' THEN (
+          SELECT count(*) FROM period_checkin_days pcd WHERE pcd.user_id = cand.id
+        )::numeric
+        WHEN 'streak' THEN
+          CASE WHEN v_since IS NULL THEN coalesce(gs.current_streak, 0)::numeric
+          ELSE (
+            SELECT coalesce(max(run_length), 0)
+            FROM (
+              SELECT count(*) AS run_length
+              FROM (
+                SELECT pcd.day - (row_number() OVER (ORDER BY pcd.day))::integer AS run_start
+                FROM period_checkin_days pcd
+                WHERE pcd.user_id = cand.id
+              ) d
+              GROUP BY d.run_start
+            ) runs
+          )::numeric
+          END
+        WHEN 'volume' THEN (
+          SELECT coalesce(sum(s.weight_kg * s.reps), 0)
+          FROM exercise_sets s
+          WHERE s.user_id = cand.id
+            AND (v_since IS NULL OR s.workout_date >= v_since)
+        )
+      END AS score,
+      coalesce(gs.total_points, 0) AS points,
+      coalesce(gs.current_level, 1) AS current_level
+    FROM candidates cand
+    LEFT JOIN user_gamification_stats gs ON gs.user_id = cand.id
+  ),
+  ranked AS (
+    SELECT
+      s.id,
+      s.score,
+      s.points,
+      s.current_level,
+      (rank() OVER (ORDER BY s.score DESC))::integer AS standing,
+      row_number() OVER (ORDER BY s.score DESC, s.points DESC, s.id) AS row_index
+    FROM scores s
+    -- Nobody is ranked for doing nothing, except the caller so they can
+    -- see where they stand
+    WHERE s.score > 0 OR s.id = v_user_id
+  )
+  SELECT
+    r.id,
+    up.username,
+    up.full_name,
+    up.avatar_url,
+    r.score,
+    r.points,
+    r.current_level,
+    r.standing,
+    r.id = v_user_id
+  FROM ranked r
+  JOIN user_profiles up ON up.id = r.id
+  WHERE r.row_index <= p_limit OR r.id = v_user_id
+  ORDER BY r.row_index;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Supabase grants new functions to anon and authenticated directly, so
+-- revoking from PUBLIC alone would leave record_points callable from the app
+REVOKE EXECUTE ON FUNCTION record_points(uuid, integer, text, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_points(uuid, integer, text, uuid, text, uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION points_on_checkin() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION admin_adjust_points(uuid, integer, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_points(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_redemption(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION reconcile_points_balances() TO authenticated;
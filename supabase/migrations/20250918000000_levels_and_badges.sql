@@ -0,0 +1,230 @@
+/*
+  # Levels and Badges
+
+  current_level was floor(points / 100) + 1, with a second, unused
+  calculate_user_level(uuid) that counted workouts instead. Levels now follow
+  one XP curve, and achievements become badges with a tier and a rarity:
+
+  1. XP is lifetime points (total_points). Reaching level L takes
+     50 * L * (L - 1) XP, so each level costs 100 XP more than the last:
+     level 2 at 100, 3 at 300, 4 at 600, 5 at 1,000, 10 at 4,500
+  2. Every level reached is recorded in level_ups, and the member gets a
+     level_up notification (unless achievement notifications are off)
+  3. Achievements have a tier (bronze, silver or gold), set from their points
+     for the existing ones
+  4. get_achievement_rarity gives the share of members who unlocked each
+     achievement, and get_profile_badges a level and badge count per person
+     for profile cards (respecting show_activity privacy)
+*/
+
+-- Level-up notifications
+ALTER TABLE notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN (
+  'connection_request',
+  'connection_accepted',
+  'connection_rejected',
+  'new_message',
+  'workout_assigned',
+  'session_reminder',
+  'subscription_reminder',
+  'achievement_unlocked',
+  'challenge_completed',
+  'team_invite',
+  'streak_reminder',
+  'level_up'
+));
+
+COMMENT ON COLUMN notifications.type IS 'Notification type: connection_request, connection_accepted, connection_rejected, new_message, workout_assigned, session_reminder, subscription_reminder, achievement_unlocked, challenge_completed, team_invite, streak_reminder, level_up';
+
+-- XP needed to reach a level
+CREATE OR REPLACE FUNCTION level_xp_threshold(p_level integer)
+RETURNS integer
+AS $$
+  SELECT 50 * greatest(p_level, 1) * (greatest(p_level, 1) - 1);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION calculate_user_level(points INTEGER)
+RETURNS INTEGER
+AS $$
+DECLARE
+  v_level integer;
+BEGIN
+  IF coalesce(points, 0) <= 0 THEN
+    RETURN 1;
+  END IF;
+
+  -- Solve 50 * L * (L - 1) <= points, then step past any rounding error
+  v_level := greatest(1, floor((1 + sqrt(1 + points / 12.5)) / 2)::integer);
+
+  WHILE level_xp_threshold(v_level + 1) <= points LOOP
+    v_level := v_level + 1;
+  END LOOP;
+
+  WHILE v_level > 1 AND level_xp_threshold(v_level) > points LOOP
+    v_level := v_level - 1;
+  END LOOP;
+
+  RETURN v_level;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+DROP FUNCTION IF EXISTS calculate_user_level(uuid);
+
+-- Move everyone onto the new curve (before level-ups are recorded, so this
+-- doesn't notify anyone)
+SELECT set_config('app.points_ledger', 'on', true);
+
+UPDATE user_gamification_stats
+SET current_level = calculate_user_level(coalesce(total_points, 0))
+WHERE current_level IS DISTINCT FROM calculate_user_level(coalesce(total_points, 0));
+
+SELECT set_config('app.points_ledger', 'off', true);
+
+CREATE TABLE IF NOT EXISTS level_ups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  level integer NOT NULL,
+  total_points integer NOT NULL,
+  reached_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_level_ups_user_reached ON level_ups(user_id, reached_at DESC);
+
+ALTER TABLE level_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own level ups" ON level_ups
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all level ups" ON level_ups
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION record_level_up()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  -- A big reward can skip levels; each one reached is recorded
+  INSERT INTO level_ups (user_id, level, total_points)
+  SELECT NEW.user_id, reached.level, coalesce(NEW.total_points, 0)
+  FROM generate_series(coalesce(OLD.current_level, 1) + 1, NEW.current_level) AS reached(level)
+  ON CONFLICT (user_id, level) DO NOTHING;
+
+  -- Levels lost to a points correction and regained don't notify again
+  IF FOUND AND NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = NEW.user_id AND achievements = false
+  ) THEN
+    PERFORM create_notification(
+      NEW.user_id,
+      'level_up',
+      CONCAT('Level ', NEW.current_level, '! 🚀'),
+      CONCAT(
+        'You reached level ', NEW.current_level, '. ',
+        level_xp_threshold(NEW.current_level + 1) - coalesce(NEW.total_points, 0),
+        ' XP to level ', NEW.current_level + 1, '.'
+      ),
+      jsonb_build_object('level', NEW.current_level, 'total_points', NEW.total_points)
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Level up tracking failed for %: %', NEW.user_id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_record_level_up ON user_gamification_stats;
+CREATE TRIGGER trigger_record_level_up
+  AFTER UPDATE OF current_level ON user_gamification_stats
+  FOR EACH ROW
+  WHEN (NEW.current_level > OLD.current_level)
+  EXECUTE FUNCTION record_level_up();
+
+-- Badge tiers
+ALTER TABLE available_achievements
+ADD COLUMN IF NOT EXISTS tier text NOT NULL DEFAULT 'bronze' CHECK (tier IN ('bronze', 'silver', 'gold'));
+
+UPDATE available_achievements
+SET tier = CASE
+  WHEN points >= 350 THEN 'gold'
+  WHEN points >= 150 THEN 'silver'
+  ELSE 'bronze'
+END;
+
+COMMENT ON COLUMN available_achievements.tier IS 'Badge tier: bronze, silver or gold';
+
+-- Percentage of members (user_type = 'user') who unlocked each achievement
+CREATE OR REPLACE FUNCTION get_achievement_rarity()
+RETURNS TABLE (
+  achievement_id uuid,
+  unlocked_count integer,
+  rarity numeric
+)
+SET search_path = public
+AS $$
+  WITH members AS (
+    SELECT count(*) AS total FROM user_profiles WHERE user_type = 'user'
+  )
+  SELECT
+    a.id,
+    count(ua.id)::integer,
+    CASE
+      WHEN members.total = 0 THEN 0
+      ELSE round(100.0 * count(ua.id) / members.total, 1)
+    END
+  FROM available_achievements a
+  CROSS JOIN members
+  LEFT JOIN user_achievements ua ON ua.achievement_id = a.id
+  WHERE a.is_active
+  GROUP BY a.id, members.total;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Level and badge counts for profile cards. People who turned off
+-- show_activity are left out, except for themselves and their trainers.
+CREATE OR REPLACE FUNCTION get_profile_badges(p_user_ids uuid[])
+RETURNS TABLE (
+  user_id uuid,
+  level integer,
+  total_points integer,
+  gold integer,
+  silver integer,
+  bronze integer
+)
+SET search_path = public
+AS $$
+  SELECT
+    up.id,
+    coalesce(gs.current_level, 1),
+    coalesce(gs.total_points, 0),
+    count(ua.id) FILTER (WHERE a.tier = 'gold')::integer,
+    count(ua.id) FILTER (WHERE a.tier = 'silver')::integer,
+    count(ua.id) FILTER (WHERE a.tier = 'bronze')::integer
+  FROM user_profiles up
+  LEFT JOIN user_gamification_stats gs ON gs.user_id = up.id
+  LEFT JOIN user_achievements ua ON ua.user_id = up.id
+  LEFT JOIN available_achievements a ON a.id = ua.achievement_id
+  WHERE up.id = ANY(p_user_ids)
+    AND (
+      up.id = auth.uid()
+      OR NOT EXISTS (
+        SELECT 1 FROM privacy_settings ps
+        WHERE ps.user_id = up.id AND ps.show_activity = false
+      )
+      OR EXISTS (
+        SELECT 1 FROM trainer_user_connections tuc
+        WHERE tuc.user_id = up.id AND tuc.trainer_id = auth.uid() AND tuc.status = 'active'
+      )
+    )
+  GROUP BY up.id, gs.current_level, gs.total_points;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_level_up() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION get_achievement_rarity() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_profile_badges(uuid[]) TO authenticated;
@@ -0,0 +1,789 @@
+/*
+  # Gamification Anti-Cheat
+
+  Workout sessions and exercise sets were written straight from the app,
+  check-ins had no rate limit, and the app could update its own stats row, so
+  members could award themselves points, streaks and achievements. These
+  writes now go through server functions that validate them:
+
+  1. Rate limit and sanity settings in gym_settings
+  2. gamification_flags - suspicious events for admins to review
+  3. Direct inserts into user_workout_sessions and exercise_sets are no
+     longer allowed (and exercise sets can't be edited)
+  4. record_checkin - a QR token that hasn't already produced a check-in,
+     with a cooldown and a daily limit. Offline check-ins synced later get
+     the same checks.
+  5. record_workout_session - daily limit and a maximum length
+  6. log_exercise_sets - rejects impossible sets (too heavy for the exercise,
+     too many reps, or too many sets for the exercise or the day) and sets
+     for any day before yesterday
+  7. record_checkout - members can no longer update their check-ins
+     directly, so check-out goes through the server
+  8. Stats counters (streaks, streak freezes, check-in and workout totals,
+     ...) can only be changed by the server. Changes made from the app are
+     undone and flagged.
+*/
+
+INSERT INTO public.gym_settings (key, value, description) VALUES
+  ('checkin_cooldown_minutes', '10', 'Minimum minutes between two check-ins by the same member'),
+  ('max_checkins_per_day', '5', 'Check-ins a member can make in 24 hours'),
+  ('max_workouts_per_day', '3', 'Workout sessions a member can record in 24 hours'),
+  ('max_workout_minutes', '360', 'Longest workout session that can be recorded'),
+  ('max_sets_per_exercise', '20', 'Most sets that can be logged for one exercise in a day'),
+  ('max_sets_per_day', '150', 'Most sets that can be logged across all exercises in a day'),
+  ('max_reps_per_set', '100', 'Most reps that can be logged in a single set'),
+  ('max_set_weight_kg', '500', 'Heaviest weight that can be logged for any exercise')
+ON CONFLICT (key) DO NOTHING;
+
+-- Lower weight limits for exercises that match a name pattern (ILIKE). The
+-- lowest matching limit applies.
+CREATE TABLE IF NOT EXISTS public.exercise_weight_limits (
+  pattern text PRIMARY KEY,
+  max_weight_kg numeric(6,2) NOT NULL CHECK (max_weight_kg > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.exercise_weight_limits (pattern, max_weight_kg) VALUES
+  ('%curl%', 120),
+  ('%raise%', 60),
+  ('%fly%', 80),
+  ('%extension%', 150)
+ON CONFLICT (pattern) DO NOTHING;
+
+ALTER TABLE public.exercise_weight_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exercise weight limits"
+ON public.exercise_weight_limits
+FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage exercise weight limits"
+ON public.exercise_weight_limits
+FOR ALL TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles))
+WITH CHECK (auth.uid() IN (SELECT id FROM admin_profiles));
+
+CREATE TABLE IF NOT EXISTS public.gamification_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('checkin', 'workout', 'exercise_sets', 'stats')),
+  reason text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'confirmed')),
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gamification_flags_status_created_at
+ON public.gamification_flags(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_gamification_flags_user_id
+ON public.gamification_flags(user_id);
+
+ALTER TABLE public.gamification_flags ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through flag_gamification_event
+CREATE POLICY "Admins can view gamification flags"
+ON public.gamification_flags
+FOR SELECT TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles));
+
+CREATE POLICY "Admins can review gamification flags"
+ON public.gamification_flags
+FOR UPDATE TO authenticated
+USING (auth.uid() IN (SELECT id FROM admin_profiles))
+WITH CHECK (auth.uid() IN (SELECT id FROM admin_profiles));
+
+CREATE OR REPLACE FUNCTION flag_gamification_event(
+  p_user_id uuid,
+  p_event_type text,
+  p_reason text,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO gamification_flags (user_id, event_type, reason, details)
+  VALUES (p_user_id, p_event_type, p_reason, coalesce(p_details, '{}'::jsonb));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Writes now go through the functions below
+DROP POLICY IF EXISTS "Users can insert their own workout sessions" ON user_workout_sessions;
+DROP POLICY IF EXISTS "Users can insert their own exercise sets" ON exercise_sets;
+DROP POLICY IF EXISTS "Users can update their own exercise sets" ON exercise_sets;
+
+-- The QR code a check-in was made with, so one scan makes one check-in
+ALTER TABLE public.gym_checkins
+ADD COLUMN IF NOT EXISTS qr_nonce text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gym_checkins_user_qr_nonce
+ON public.gym_checkins(user_id, qr_nonce)
+WHERE qr_nonce IS NOT NULL;
+
+-- Check the current user in with a scanned QR token, verifying and redeeming
+-- it in the same call. Refusals are logged to checkin_denials.
+-- Returns { success, error_code, checkin, warnings, access }.
+CREATE OR REPLACE FUNCTION record_checkin(p_token text)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_token jsonb;
+  v_verification jsonb;
+  v_access jsonb;
+  v_user_type text;
+  v_last_check_in timestamptz;
+  v_recent integer;
+  v_cooldown numeric := get_gym_setting_numeric('checkin_cooldown_minutes', 10);
+  v_max_per_day numeric := get_gym_setting_numeric('max_checkins_per_day', 5);
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_token := parse_gym_qr_token(p_token, now());
+
+  IF NOT (v_token->>'valid')::boolean THEN
+    PERFORM flag_gamification_event(v_user_id, 'checkin', 'INVALID_QR_TOKEN', v_token);
+    PERFORM log_checkin_denial(v_user_id, NULL, v_token->>'error_code');
+    RETURN jsonb_build_object('success', false, 'error_code', v_token->>'error_code');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM gym_checkins
+    WHERE user_id = v_user_id AND qr_nonce = v_token->>'nonce'
+  ) THEN
+    PERFORM flag_gamification_event(v_user_id, 'checkin', 'QR_REPLAYED', v_token);
+    PERFORM log_checkin_denial(v_user_id, v_token->>'gym_id', 'QR_REPLAYED');
+    RETURN jsonb_build_object('success', false, 'error_code', 'QR_REPLAYED');
+  END IF;
+
+  SELECT max(check_in_time), count(*) FILTER (WHERE check_in_time > now() - interval '24 hours')
+  INTO v_last_check_in, v_recent
+  FROM gym_checkins
+  WHERE user_id = v_user_id;
+
+  IF v_last_check_in > now() - make_interval(mins => v_cooldown::integer) THEN
+    PERFORM log_checkin_denial(
+      v_user_id, v_token->>'gym_id', 'CHECKIN_RATE_LIMITED',
+      jsonb_build_object('last_check_in', v_last_check_in)
+    );
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHECKIN_RATE_LIMITED');
+  END IF;
+
+  IF v_recent >= v_max_per_day THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'checkin', 'TOO_MANY_CHECKINS',
+      jsonb_build_object('checkins_last_24h', v_recent, 'limit', v_max_per_day)
+    );
+    PERFORM log_checkin_denial(
+      v_user_id, v_token->>'gym_id', 'CHECKIN_RATE_LIMITED',
+      jsonb_build_object('checkins_last_24h', v_recent)
+    );
+    RETURN jsonb_build_object('success', false, 'error_code', 'CHECKIN_RATE_LIMITED');
+  END IF;
+
+  v_access := checkin_access(v_user_id, v_token->>'gym_id');
+
+  IF NOT (v_access->>'allowed')::boolean THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', v_access->>'error_code',
+      'access', v_access->'access'
+    );
+  END IF;
+
+  -- Redeem the token once the limits pass
+  v_verification := verify_gym_qr_token(p_token);
+
+  IF NOT (v_verification->>'valid')::boolean THEN
+    PERFORM log_checkin_denial(v_user_id, v_token->>'gym_id', v_verification->>'error_code');
+    RETURN jsonb_build_object('success', false, 'error_code', v_verification->>'error_code');
+  END IF;
+
+  PERFORM close_open_checkins(v_user_id);
+
+  SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+  INSERT INTO gym_checkins (
+    user_id, user_type, check_in_time, is_checked_in, check_in_reason,
+    location_id, qr_nonce
+  )
+  VALUES (
+    v_user_id,
+    coalesce(v_user_type, 'user'),
+    now(),
+    true,
+    CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+    v_token->>'gym_id',
+    v_token->>'nonce'
+  )
+  RETURNING * INTO v_checkin;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkin', to_jsonb(v_checkin),
+    'warnings', v_access->'warnings',
+    'access', v_access->'access'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Offline check-ins replayed from the device queue get the same QR, cooldown
+-- and daily limit checks as record_checkin
+CREATE OR REPLACE FUNCTION sync_offline_checkin_event(
+  p_event_id uuid,
+  p_action text,
+  p_occurred_at timestamptz,
+  p_token text DEFAULT NULL
+)
+RETURNS jsonb
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_existing offline_checkin_events%ROWTYPE;
+  v_max_hours numeric := get_gym_setting_numeric('offline_checkin_max_hours', 24);
+  v_token jsonb;
+  v_access jsonb;
+  v_user_type text;
+  v_next_check_in timestamptz;
+  v_session gym_checkins%ROWTYPE;
+  v_checkin_id uuid;
+  v_reason text;
+  v_inserted integer;
+  v_recent integer;
+  v_cooldown numeric := get_gym_setting_numeric('checkin_cooldown_minutes', 10);
+  v_max_per_day numeric := get_gym_setting_numeric('max_checkins_per_day', 5);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_existing FROM offline_checkin_events WHERE id = p_event_id;
+
+  IF FOUND THEN
+    IF v_existing.user_id <> v_user_id THEN
+      RAISE EXCEPTION 'Event belongs to another user';
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', v_existing.status,
+      'reason', v_existing.reason,
+      'checkin_id', v_existing.checkin_id,
+      'duplicate', true
+    );
+  END IF;
+
+  IF p_action NOT IN ('check_in', 'check_out') THEN
+    RAISE EXCEPTION 'Unknown offline check-in action: %', p_action;
+  END IF;
+
+  IF p_occurred_at > now() + interval '5 minutes' THEN
+    v_reason := 'OFFLINE_EVENT_IN_FUTURE';
+  ELSIF p_occurred_at < now() - make_interval(secs => v_max_hours * 3600) THEN
+    v_reason := 'OFFLINE_EVENT_TOO_OLD';
+  END IF;
+
+  IF v_reason IS NULL AND p_action = 'check_in' THEN
+    v_token := parse_gym_qr_token(p_token, p_occurred_at);
+
+    IF NOT (v_token->>'valid')::boolean THEN
+      PERFORM flag_gamification_event(v_user_id, 'checkin', 'INVALID_QR_TOKEN', v_token);
+      v_reason := v_token->>'error_code';
+    ELSIF EXISTS (
+      SELECT 1 FROM gym_checkins
+      WHERE user_id = v_user_id AND qr_nonce = v_token->>'nonce'
+    ) THEN
+      PERFORM flag_gamification_event(v_user_id, 'checkin', 'QR_REPLAYED', v_token);
+      v_reason := 'QR_REPLAYED';
+    ELSE
+      INSERT INTO gym_qr_redemptions (user_id, gym_id, nonce, redeemed_at)
+      VALUES (v_user_id, v_token->>'gym_id', v_token->>'nonce', p_occurred_at)
+      ON CONFLICT (user_id, nonce) DO NOTHING;
+
+      GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+      -- The code may already have been redeemed online right before the
+      -- connection dropped. That only counts as a replay if it produced a
+      -- check-in.
+      IF v_inserted = 0 AND EXISTS (
+        SELECT 1 FROM gym_checkins
+        WHERE user_id = v_user_id
+          AND check_in_time BETWEEN (v_token->>'issued_at')::timestamptz - interval '5 seconds'
+                                AND (v_token->>'expires_at')::timestamptz
+      ) THEN
+        v_reason := 'QR_REPLAYED';
+      END IF;
+    END IF;
+
+    -- The same limits as record_checkin, counted around the offline scan
+    IF v_reason IS NULL AND EXISTS (
+      SELECT 1 FROM gym_checkins
+      WHERE user_id = v_user_id
+        AND check_in_time > p_occurred_at - make_interval(mins => v_cooldown::integer)
+        AND check_in_time < p_occurred_at + make_interval(mins => v_cooldown::integer)
+    ) THEN
+      v_reason := 'CHECKIN_RATE_LIMITED';
+    END IF;
+
+    IF v_reason IS NULL THEN
+      SELECT count(*) INTO v_recent
+      FROM gym_checkins
+      WHERE user_id = v_user_id
+        AND check_in_time > p_occurred_at - interval '24 hours'
+        AND check_in_time <= p_occurred_at;
+
+      IF v_recent >= v_max_per_day THEN
+        PERFORM flag_gamification_event(
+          v_user_id, 'checkin', 'TOO_MANY_CHECKINS',
+          jsonb_build_object('checkins_last_24h', v_recent, 'limit', v_max_per_day, 'offline', true)
+        );
+        v_reason := 'CHECKIN_RATE_LIMITED';
+      END IF;
+    END IF;
+
+    IF v_reason IS NULL THEN
+      v_access := check_membership_access(v_user_id, v_token->>'gym_id');
+      IF NOT (v_access->>'allowed')::boolean THEN
+        v_reason := v_access->>'reason';
+      END IF;
+    END IF;
+
+    IF v_reason IS NULL THEN
+      SELECT user_type INTO v_user_type FROM user_profiles WHERE id = v_user_id;
+
+      SELECT min(check_in_time) INTO v_next_check_in
+      FROM gym_checkins
+      WHERE user_id = v_user_id
+        AND check_in_time > p_occurred_at;
+
+      IF v_next_check_in IS NULL THEN
+        -- Close whatever was left open before the offline scan
+        UPDATE gym_checkins
+        SET is_checked_in = false,
+            check_out_time = least(estimate_checkin_end(user_id, check_in_time), p_occurred_at),
+            auto_closed = true
+        WHERE user_id = v_user_id
+          AND is_checked_in = true
+          AND check_in_time <= p_occurred_at;
+
+        INSERT INTO gym_checkins (
+          user_id, user_type, check_in_time, is_checked_in, check_in_reason,
+          location_id, recorded_offline, qr_nonce
+        )
+        VALUES (
+          v_user_id,
+          coalesce(v_user_type, 'user'),
+          p_occurred_at,
+          true,
+          CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+          v_token->>'gym_id',
+          true,
+          v_token->>'nonce'
+        )
+        RETURNING id INTO v_checkin_id;
+      ELSE
+        INSERT INTO gym_checkins (
+          user_id, user_type, check_in_time, check_out_time, is_checked_in,
+          auto_closed, check_in_reason, location_id, recorded_offline, qr_nonce
+        )
+        VALUES (
+          v_user_id,
+          coalesce(v_user_type, 'user'),
+          p_occurred_at,
+          least(estimate_checkin_end(v_user_id, p_occurred_at), v_next_check_in),
+          false,
+          true,
+          CASE WHEN v_user_type = 'trainer' THEN 'Staff check-in for training session' ELSE 'Member workout session' END,
+          v_token->>'gym_id',
+          true,
+          v_token->>'nonce'
+        )
+        RETURNING id INTO v_checkin_id;
+      END IF;
+    END IF;
+  ELSIF v_reason IS NULL AND p_action = 'check_out' THEN
+    SELECT * INTO v_session
+    FROM gym_checkins
+    WHERE user_id = v_user_id
+      AND check_in_time <= p_occurred_at
+    ORDER BY check_in_time DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_reason := 'NO_MATCHING_CHECKIN';
+    ELSIF NOT v_session.is_checked_in
+      AND (NOT v_session.auto_closed OR p_occurred_at >= v_session.check_out_time) THEN
+      -- An auto-closed session keeps its estimated end unless the member
+      -- really left earlier, so it can't be stretched after the fact
+      v_reason := 'ALREADY_CHECKED_OUT';
+    ELSE
+      UPDATE gym_checkins
+      SET is_checked_in = false,
+          check_out_time = p_occurred_at,
+          auto_closed = false
+      WHERE id = v_session.id;
+
+      v_checkin_id := v_session.id;
+    END IF;
+  END IF;
+
+  INSERT INTO offline_checkin_events (id, user_id, action, occurred_at, status, reason, checkin_id)
+  VALUES (
+    p_event_id,
+    v_user_id,
+    p_action,
+    p_occurred_at,
+    CASE WHEN v_reason IS NULL THEN 'applied' ELSE 'rejected' END,
+    v_reason,
+    v_checkin_id
+  );
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN v_reason IS NULL THEN 'applied' ELSE 'rejected' END,
+    'reason', v_reason,
+    'checkin_id', v_checkin_id,
+    'duplicate', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check the current user out of their open session. Members can no longer
+-- update gym_checkins directly, so check-in times and locations stay as the
+-- server recorded them. Returns { success, error_code, checkin }.
+CREATE OR REPLACE FUNCTION record_checkout()
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_checkin gym_checkins%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE gym_checkins
+  SET is_checked_in = false,
+      check_out_time = now()
+  WHERE id = (
+    SELECT id FROM gym_checkins
+    WHERE user_id = v_user_id AND is_checked_in = true
+    ORDER BY check_in_time DESC
+    LIMIT 1
+  )
+  RETURNING * INTO v_checkin;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NO_ACTIVE_CHECKIN');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'checkin', to_jsonb(v_checkin));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Users can update own check-ins" ON public.gym_checkins;
+DROP POLICY IF EXISTS "Users can update their own checkins" ON public.gym_checkins;
+
+-- Record a finished workout for the current user.
+-- Returns { success, error_code, session_id }.
+CREATE OR REPLACE FUNCTION record_workout_session(
+  p_workout_type text DEFAULT 'gym_session',
+  p_duration_minutes integer DEFAULT 0
+)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_max_minutes numeric := get_gym_setting_numeric('max_workout_minutes', 360);
+  v_max_per_day numeric := get_gym_setting_numeric('max_workouts_per_day', 3);
+  v_recent integer;
+  v_session_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(p_duration_minutes, 0) < 0 OR p_duration_minutes > v_max_minutes THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'workout', 'IMPOSSIBLE_WORKOUT_LENGTH',
+      jsonb_build_object('duration_minutes', p_duration_minutes, 'limit', v_max_minutes)
+    );
+    RETURN jsonb_build_object('success', false, 'error_code', 'IMPOSSIBLE_WORKOUT_LENGTH');
+  END IF;
+
+  SELECT count(*) INTO v_recent
+  FROM user_workout_sessions
+  WHERE user_id = v_user_id
+    AND created_at > now() - interval '24 hours';
+
+  IF v_recent >= v_max_per_day THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'workout', 'TOO_MANY_WORKOUTS',
+      jsonb_build_object('workouts_last_24h', v_recent, 'limit', v_max_per_day)
+    );
+    RETURN jsonb_build_object('success', false, 'error_code', 'WORKOUT_RATE_LIMITED');
+  END IF;
+
+  INSERT INTO user_workout_sessions (user_id, workout_date, workout_type, duration_minutes)
+  VALUES (v_user_id, current_date, left(coalesce(p_workout_type, 'gym_session'), 100), coalesce(p_duration_minutes, 0))
+  RETURNING id INTO v_session_id;
+
+  UPDATE user_gamification_stats
+  SET last_workout_date = current_date,
+      updated_at = now()
+  WHERE user_id = v_user_id;
+
+  RETURN jsonb_build_object('success', true, 'session_id', v_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log sets for one exercise, e.g. p_sets = [{"weight": 40, "reps": 10}].
+-- Returns { success, error_code, message, sets_saved }.
+CREATE OR REPLACE FUNCTION log_exercise_sets(
+  p_exercise_name text,
+  p_sets jsonb,
+  p_workout_date date DEFAULT current_date
+)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_max_sets numeric := get_gym_setting_numeric('max_sets_per_exercise', 20);
+  v_max_sets_per_day numeric := get_gym_setting_numeric('max_sets_per_day', 150);
+  v_max_reps numeric := get_gym_setting_numeric('max_reps_per_set', 100);
+  v_max_weight numeric;
+  v_set_count integer := jsonb_array_length(coalesce(p_sets, '[]'::jsonb));
+  v_logged_for_exercise integer;
+  v_logged_today integer;
+  v_bad_set record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(trim(p_exercise_name), '') = '' OR v_set_count = 0 THEN
+    RAISE EXCEPTION 'An exercise name and at least one set are required';
+  END IF;
+
+  IF p_workout_date > current_date THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'WORKOUT_DATE_IN_FUTURE',
+      'message', 'Sets can''t be logged for a future date'
+    );
+  END IF;
+
+  -- Back-filling older days would get around the daily limits, so only
+  -- today and yesterday (for a workout that ran past midnight) are accepted
+  IF p_workout_date < current_date - 1 THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'exercise_sets', 'WORKOUT_DATE_TOO_OLD',
+      jsonb_build_object('exercise', p_exercise_name, 'sets', v_set_count, 'workout_date', p_workout_date)
+    );
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'WORKOUT_DATE_TOO_OLD',
+      'message', 'Sets can only be logged for today or yesterday'
+    );
+  END IF;
+
+  -- Limits count the sets already logged that day, not just this call
+  SELECT
+    count(*) FILTER (WHERE exercise_name = p_exercise_name),
+    count(*)
+  INTO v_logged_for_exercise, v_logged_today
+  FROM exercise_sets
+  WHERE user_id = v_user_id AND workout_date = p_workout_date;
+
+  IF v_logged_for_exercise + v_set_count > v_max_sets THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'exercise_sets', 'TOO_MANY_SETS',
+      jsonb_build_object(
+        'exercise', p_exercise_name,
+        'sets', v_set_count,
+        'already_logged', v_logged_for_exercise,
+        'limit', v_max_sets
+      )
+    );
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'TOO_MANY_SETS',
+      'message', format('At most %s sets can be logged for one exercise in a day', v_max_sets)
+    );
+  END IF;
+
+  IF v_logged_today + v_set_count > v_max_sets_per_day THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'exercise_sets', 'TOO_MANY_SETS',
+      jsonb_build_object('sets', v_set_count, 'already_logged', v_logged_today, 'daily_limit', v_max_sets_per_day)
+    );
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'TOO_MANY_SETS',
+      'message', format('At most %s sets can be logged in a day', v_max_sets_per_day)
+    );
+  END IF;
+
+  SELECT least(
+    get_gym_setting_numeric('max_set_weight_kg', 500),
+    coalesce(min(max_weight_kg), 'Infinity'::numeric)
+  )
+  INTO v_max_weight
+  FROM exercise_weight_limits
+  WHERE p_exercise_name ILIKE pattern;
+
+  SELECT s.ordinality AS set_number, (s.value->>'weight')::numeric AS weight, (s.value->>'reps')::numeric AS reps
+  INTO v_bad_set
+  FROM jsonb_array_elements(p_sets) WITH ORDINALITY AS s(value, ordinality)
+  WHERE (s.value->>'weight')::numeric NOT BETWEEN 0 AND v_max_weight
+     OR (s.value->>'reps')::numeric NOT BETWEEN 1 AND v_max_reps
+  LIMIT 1;
+
+  IF FOUND THEN
+    PERFORM flag_gamification_event(
+      v_user_id, 'exercise_sets', 'IMPOSSIBLE_SET',
+      jsonb_build_object(
+        'exercise', p_exercise_name,
+        'set_number', v_bad_set.set_number,
+        'weight_kg', v_bad_set.weight,
+        'reps', v_bad_set.reps,
+        'max_weight_kg', v_max_weight,
+        'max_reps', v_max_reps
+      )
+    );
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_code', 'IMPOSSIBLE_SET',
+      'message', format(
+        'Set %s looks wrong: %s can be logged up to %s kg and %s reps per set',
+        v_bad_set.set_number, p_exercise_name, v_max_weight, v_max_reps
+      )
+    );
+  END IF;
+
+  INSERT INTO exercise_sets (user_id, exercise_name, workout_date, set_number, weight_kg, reps, rest_seconds, notes)
+  SELECT
+    v_user_id,
+    p_exercise_name,
+    p_workout_date,
+    v_logged_for_exercise + s.ordinality,
+    (s.value->>'weight')::numeric,
+    (s.value->>'reps')::integer,
+    nullif((s.value->>'rest')::integer, 0),
+    nullif(s.value->>'notes', '')
+  FROM jsonb_array_elements(p_sets) WITH ORDINALITY AS s(value, ordinality);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM exercise_workouts
+    WHERE user_id = v_user_id AND workout_name = p_exercise_name AND workout_date = p_workout_date
+  ) THEN
+    INSERT INTO exercise_workouts (user_id, workout_name, workout_date)
+    VALUES (v_user_id, p_exercise_name, p_workout_date);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'sets_saved', v_set_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The stats trigger below runs as the member, so it can't use
+-- flag_gamification_event. Members can only flag themselves with this.
+CREATE OR REPLACE FUNCTION flag_stats_tampering(p_attempted jsonb)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM flag_gamification_event(auth.uid(), 'stats', 'STATS_TAMPERING', jsonb_build_object('attempted', p_attempted));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stats counters only change on the server: in server functions (which run
+-- as their owner) and in triggers set off by other writes. A direct write
+-- from the app is undone and flagged. Streaks are frozen with freeze_streak.
+CREATE OR REPLACE FUNCTION protect_gamification_stats()
+RETURNS trigger
+SET search_path = public
+AS $$
+DECLARE
+  v_tampered jsonb;
+BEGIN
+  IF current_user <> 'authenticated' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.current_streak := 0;
+    NEW.longest_streak := 0;
+    NEW.total_workouts := 0;
+    NEW.total_checkins := 0;
+    NEW.total_goals_achieved := 0;
+    NEW.achievements_unlocked := 0;
+    NEW.challenges_completed := 0;
+    NEW.last_workout_date := NULL;
+    NEW.last_checkin_date := NULL;
+    NEW.streak_frozen := false;
+    NEW.streak_frozen_at := NULL;
+    NEW.streak_freeze_used_this_week := false;
+    NEW.streak_freeze_week_start := NULL;
+    RETURN NEW;
+  END IF;
+
+  v_tampered := jsonb_strip_nulls(jsonb_build_object(
+    'current_streak', CASE WHEN NEW.current_streak IS DISTINCT FROM OLD.current_streak THEN NEW.current_streak END,
+    'longest_streak', CASE WHEN NEW.longest_streak IS DISTINCT FROM OLD.longest_streak THEN NEW.longest_streak END,
+    'total_workouts', CASE WHEN NEW.total_workouts IS DISTINCT FROM OLD.total_workouts THEN NEW.total_workouts END,
+    'total_checkins', CASE WHEN NEW.total_checkins IS DISTINCT FROM OLD.total_checkins THEN NEW.total_checkins END,
+    'total_goals_achieved', CASE WHEN NEW.total_goals_achieved IS DISTINCT FROM OLD.total_goals_achieved THEN NEW.total_goals_achieved END,
+    'achievements_unlocked', CASE WHEN NEW.achievements_unlocked IS DISTINCT FROM OLD.achievements_unlocked THEN NEW.achievements_unlocked END,
+    'challenges_completed', CASE WHEN NEW.challenges_completed IS DISTINCT FROM OLD.challenges_completed THEN NEW.challenges_completed END,
+    'last_workout_date', CASE WHEN NEW.last_workout_date IS DISTINCT FROM OLD.last_workout_date THEN NEW.last_workout_date END,
+    'last_checkin_date', CASE WHEN NEW.last_checkin_date IS DISTINCT FROM OLD.last_checkin_date THEN NEW.last_checkin_date END,
+    'streak_frozen', CASE WHEN NEW.streak_frozen IS DISTINCT FROM OLD.streak_frozen THEN NEW.streak_frozen END,
+    'streak_frozen_at', CASE WHEN NEW.streak_frozen_at IS DISTINCT FROM OLD.streak_frozen_at THEN NEW.streak_frozen_at END,
+    'streak_freeze_used_this_week', CASE WHEN NEW.streak_freeze_used_this_week IS DISTINCT FROM OLD.streak_freeze_used_this_week THEN NEW.streak_freeze_used_this_week END,
+    'streak_freeze_week_start', CASE WHEN NEW.streak_freeze_week_start IS DISTINCT FROM OLD.streak_freeze_week_start THEN NEW.streak_freeze_week_start END
+  ));
+
+  IF v_tampered <> '{}'::jsonb THEN
+    NEW.current_streak := OLD.current_streak;
+    NEW.longest_streak := OLD.longest_streak;
+    NEW.total_workouts := OLD.total_workouts;
+    NEW.total_checkins := OLD.total_checkins;
+    NEW.total_goals_achieved := OLD.total_goals_achieved;
+    NEW.achievements_unlocked := OLD.achievements_unlocked;
+    NEW.challenges_completed := OLD.challenges_completed;
+    NEW.last_workout_date := OLD.last_workout_date;
+    NEW.last_checkin_date := OLD.last_checkin_date;
+    NEW.streak_frozen := OLD.streak_frozen;
+    NEW.streak_frozen_at := OLD.streak_frozen_at;
+    NEW.streak_freeze_used_this_week := OLD.streak_freeze_used_this_week;
+    NEW.streak_freeze_week_start := OLD.streak_freeze_week_start;
+
+    PERFORM flag_stats_tampering(v_tampered);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_gamification_stats ON user_gamification_stats;
+CREATE TRIGGER trigger_protect_gamification_stats
+  BEFORE INSERT OR UPDATE ON user_gamification_stats
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_gamification_stats();
+
+REVOKE EXECUTE ON FUNCTION flag_gamification_event(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION flag_stats_tampering(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_checkin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_checkout() TO authenticated;
+GRANT EXECUTE ON FUNCTION record_workout_session(text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION log_exercise_sets(text, jsonb, date) TO authenticated;
@@ -0,0 +1,529 @@
+/*
+  # Group Conversations
+
+  Conversations were always between two people (participant_1 and
+  participant_2). Trainers can now start group chats with their clients:
+
+  1. conversations.is_group, with a name, avatar and creator. In a group,
+     participant_1 is the current owner and participant_2 is empty
+  2. conversation_members lists who is in each group with a role (owner or
+     member), when they joined and left, and their own read state
+     (last_read_at and unread_count)
+  3. Group messages have no receiver_id. Every other active member's unread
+     count goes up and they get a new_message notification (unless message
+     notifications are off)
+  4. create_group_conversation, add_group_members, remove_group_member and
+     leave_group_conversation post a system message for each join and leave,
+     so the chat shows who came and went. Only a trainer's active clients can
+     be added, and only the owner can add or remove people. When the owner
+     leaves, the longest-standing member takes over
+  5. Conversation, message and reaction policies let active members in
+*/
+
+-- Groups on conversations
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS is_group boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS name text,
+ADD COLUMN IF NOT EXISTS avatar_url text,
+ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE conversations
+ALTER COLUMN participant_2_id DROP NOT NULL,
+ALTER COLUMN participant_2_type DROP NOT NULL;
+
+ALTER TABLE conversations
+DROP CONSTRAINT IF EXISTS conversations_group_check;
+
+ALTER TABLE conversations
+ADD CONSTRAINT conversations_group_check
+CHECK (
+  (is_group AND name IS NOT NULL AND participant_2_id IS NULL)
+  OR (NOT is_group AND participant_2_id IS NOT NULL)
+);
+
+-- One direct conversation per pair; groups can share members
+DROP INDEX IF EXISTS idx_conversations_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_unique ON conversations(
+  LEAST(participant_1_id, participant_2_id),
+  GREATEST(participant_1_id, participant_2_id)
+) WHERE NOT is_group;
+
+COMMENT ON COLUMN conversations.is_group IS 'Group chat: members are in conversation_members and participant_1 is the owner';
+
+-- Group messages go to every member rather than one receiver
+ALTER TABLE messages
+ALTER COLUMN receiver_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS conversation_members (
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  left_at timestamptz,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  unread_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_members_user ON conversation_members(user_id) WHERE left_at IS NULL;
+
+ALTER TABLE conversation_members ENABLE ROW LEVEL SECURITY;
+
+-- Whether someone is currently in a group. SECURITY DEFINER so policies on
+-- conversation_members can use it without recursing.
+CREATE OR REPLACE FUNCTION is_conversation_member(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+      AND left_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Members see the whole member list; people who left still see their own row
+CREATE POLICY "Members can view group members" ON conversation_members
+  FOR SELECT USING (
+    user_id = auth.uid() OR is_conversation_member(conversation_id, auth.uid())
+  );
+
+CREATE POLICY "Admins can view all group members" ON conversation_members
+  FOR SELECT USING (EXISTS (SELECT 1 FROM admin_profiles WHERE id = auth.uid()));
+
+CREATE POLICY "Members can view group conversations" ON conversations
+  FOR SELECT USING (is_group AND is_conversation_member(id, auth.uid()));
+
+CREATE POLICY "Members can view group messages" ON messages
+  FOR SELECT USING (is_conversation_member(conversation_id, auth.uid()));
+
+-- Join and leave events are only written by the functions below
+CREATE POLICY "Members can send group messages" ON messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND receiver_id IS NULL
+    AND message_type <> 'system'
+    AND is_conversation_member(conversation_id, auth.uid())
+  );
+
+CREATE POLICY "Members can view reactions on group messages" ON message_reactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id AND is_conversation_member(m.conversation_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can react to group messages" ON message_reactions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id AND is_conversation_member(m.conversation_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can view attachments in group messages" ON message_attachments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_id AND is_conversation_member(m.conversation_id, auth.uid())
+    )
+  );
+
+GRANT SELECT ON conversation_members TO authenticated;
+
+-- Last message and unread counts, now for groups as well
+CREATE OR REPLACE FUNCTION update_conversation_last_message()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_name text;
+  v_sender_name text;
+BEGIN
+  UPDATE conversations
+  SET
+    last_message_id = NEW.id,
+    last_message_time = NEW.created_at,
+    updated_at = NOW()
+  WHERE id = NEW.conversation_id;
+
+  IF NEW.receiver_id IS NULL THEN
+    UPDATE conversation_members
+    SET unread_count = unread_count + 1
+    WHERE conversation_id = NEW.conversation_id
+      AND user_id <> NEW.sender_id
+      AND left_at IS NULL;
+
+    -- Join and leave events show in the chat but don't notify
+    IF NEW.message_type <> 'system' THEN
+      SELECT name INTO v_group_name FROM conversations WHERE id = NEW.conversation_id;
+      SELECT coalesce(full_name, username, 'Someone') INTO v_sender_name
+      FROM user_profiles WHERE id = NEW.sender_id;
+
+      PERFORM create_notification(
+        cm.user_id,
+        'new_message',
+        v_group_name,
+        CONCAT(v_sender_name, ': ', left(NEW.content, 50), CASE WHEN length(NEW.content) > 50 THEN '...' ELSE '' END),
+        jsonb_build_object(
+          'conversation_id', NEW.conversation_id,
+          'sender_id', NEW.sender_id,
+          'message_id', NEW.id,
+          'message_preview', left(NEW.content, 100)
+        )
+      )
+      FROM conversation_members cm
+      WHERE cm.conversation_id = NEW.conversation_id
+        AND cm.user_id <> NEW.sender_id
+        AND cm.left_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM notification_preferences np
+          WHERE np.user_id = cm.user_id AND np.new_messages = false
+        );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  UPDATE conversations
+  SET
+    unread_count_participant_1 = CASE
+      WHEN participant_1_id = NEW.receiver_id THEN unread_count_participant_1 + 1
+      ELSE unread_count_participant_1
+    END,
+    unread_count_participant_2 = CASE
+      WHEN participant_2_id = NEW.receiver_id THEN unread_count_participant_2 + 1
+      ELSE unread_count_participant_2
+    END
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- In a group, reading moves the member's own last_read_at; the messages
+-- themselves stay unread for everyone else
+CREATE OR REPLACE FUNCTION mark_messages_as_read(
+  p_conversation_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND is_group) THEN
+    UPDATE conversation_members
+    SET unread_count = 0, last_read_at = NOW()
+    WHERE conversation_id = p_conversation_id
+      AND user_id = p_user_id
+      AND left_at IS NULL;
+    RETURN;
+  END IF;
+
+  UPDATE messages
+  SET
+    is_read = TRUE,
+    read_at = NOW()
+  WHERE conversation_id = p_conversation_id
+    AND receiver_id = p_user_id
+    AND is_read = FALSE;
+
+  UPDATE conversations
+  SET
+    unread_count_participant_1 = CASE
+      WHEN participant_1_id = p_user_id THEN 0
+      ELSE unread_count_participant_1
+    END,
+    unread_count_participant_2 = CASE
+      WHEN participant_2_id = p_user_id THEN 0
+      ELSE unread_count_participant_2
+    END
+  WHERE id = p_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A join or leave line in the chat, sent as the person who acted
+CREATE OR REPLACE FUNCTION post_group_event(p_conversation_id uuid, p_sender_id uuid, p_content text)
+RETURNS void
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO messages (conversation_id, sender_id, receiver_id, content, message_type, delivery_status)
+  VALUES (p_conversation_id, p_sender_id, NULL, p_content, 'system', 'sent');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION group_member_name(p_user_id uuid)
+RETURNS text
+SET search_path = public
+AS $$
+  SELECT coalesce(full_name, username, 'Someone') FROM user_profiles WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Adds people to a group the caller owns. Everyone must be one of the
+-- caller's active clients; people who left before are let back in.
+CREATE OR REPLACE FUNCTION add_group_members(p_conversation_id uuid, p_member_ids uuid[])
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_group_name text;
+  v_added record;
+  v_added_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT name INTO v_group_name FROM conversations WHERE id = p_conversation_id AND is_group;
+
+  IF v_group_name IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'GROUP_NOT_FOUND');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = p_conversation_id AND user_id = v_user_id
+      AND role = 'owner' AND left_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_GROUP_OWNER');
+  END IF;
+
+  IF coalesce(array_length(p_member_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NO_MEMBERS');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_member_ids) AS m(id)
+    WHERE m.id <> v_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM trainer_user_connections tuc
+        WHERE tuc.trainer_id = v_user_id AND tuc.user_id = m.id AND tuc.status = 'active'
+      )
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_YOUR_CLIENT');
+  END IF;
+
+  FOR v_added IN
+    INSERT INTO conversation_members (conversation_id, user_id, role)
+    SELECT DISTINCT p_conversation_id, m.id, 'member'
+    FROM unnest(p_member_ids) AS m(id)
+    WHERE m.id <> v_user_id
+    ON CONFLICT (conversation_id, user_id) DO UPDATE
+    SET role = 'member', joined_at = now(), left_at = NULL, last_read_at = now(), unread_count = 0
+    WHERE conversation_members.left_at IS NOT NULL
+    RETURNING user_id
+  LOOP
+    v_added_count := v_added_count + 1;
+
+    PERFORM post_group_event(
+      p_conversation_id,
+      v_user_id,
+      CONCAT(group_member_name(v_user_id), ' added ', group_member_name(v_added.user_id))
+    );
+
+    PERFORM create_notification(
+      v_added.user_id,
+      'new_message',
+      v_group_name,
+      CONCAT(group_member_name(v_user_id), ' added you to ', v_group_name),
+      jsonb_build_object('conversation_id', p_conversation_id, 'sender_id', v_user_id)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'added', v_added_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trainers start a group with some of their active clients
+CREATE OR REPLACE FUNCTION create_group_conversation(
+  p_name text,
+  p_member_ids uuid[],
+  p_avatar_url text DEFAULT NULL
+)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_name text := btrim(coalesce(p_name, ''));
+  v_conversation_id uuid;
+  v_result jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM trainer_profiles WHERE id = v_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_A_TRAINER');
+  END IF;
+
+  IF v_name = '' OR length(v_name) > 60 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_NAME');
+  END IF;
+
+  IF coalesce(array_length(p_member_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NO_MEMBERS');
+  END IF;
+
+  INSERT INTO conversations (
+    is_group, name, avatar_url, created_by,
+    participant_1_id, participant_1_type, participant_2_id, participant_2_type,
+    last_message_time
+  ) VALUES (
+    true, v_name, p_avatar_url, v_user_id,
+    v_user_id, 'trainer', NULL, NULL,
+    now()
+  )
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO conversation_members (conversation_id, user_id, role)
+  VALUES (v_conversation_id, v_user_id, 'owner');
+
+  PERFORM post_group_event(
+    v_conversation_id,
+    v_user_id,
+    CONCAT(group_member_name(v_user_id), ' created the group')
+  );
+
+  v_result := add_group_members(v_conversation_id, p_member_ids);
+
+  -- Undo the whole group if any member was refused
+  IF NOT (v_result->>'success')::boolean THEN
+    DELETE FROM conversations WHERE id = v_conversation_id;
+    RETURN v_result;
+  END IF;
+
+  IF (v_result->>'added')::integer = 0 THEN
+    DELETE FROM conversations WHERE id = v_conversation_id;
+    RETURN jsonb_build_object('success', false, 'error_code', 'NO_MEMBERS');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'conversation_id', v_conversation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The owner removes someone from the group
+CREATE OR REPLACE FUNCTION remove_group_member(p_conversation_id uuid, p_user_id uuid)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = p_conversation_id AND user_id = v_user_id
+      AND role = 'owner' AND left_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_GROUP_OWNER');
+  END IF;
+
+  -- Owners leave with leave_group_conversation so the group gets a new owner
+  IF p_user_id = v_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CANNOT_REMOVE_OWNER');
+  END IF;
+
+  UPDATE conversation_members
+  SET left_at = now(), unread_count = 0
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id AND left_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_A_MEMBER');
+  END IF;
+
+  PERFORM post_group_event(
+    p_conversation_id,
+    v_user_id,
+    CONCAT(group_member_name(v_user_id), ' removed ', group_member_name(p_user_id))
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave a group. If the owner leaves, the member who joined first takes over.
+CREATE OR REPLACE FUNCTION leave_group_conversation(p_conversation_id uuid)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_new_owner_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT role INTO v_role
+  FROM conversation_members
+  WHERE conversation_id = p_conversation_id AND user_id = v_user_id AND left_at IS NULL;
+
+  IF v_role IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_A_MEMBER');
+  END IF;
+
+  PERFORM post_group_event(
+    p_conversation_id,
+    v_user_id,
+    CONCAT(group_member_name(v_user_id), ' left the group')
+  );
+
+  UPDATE conversation_members
+  SET left_at = now(), unread_count = 0, role = 'member'
+  WHERE conversation_id = p_conversation_id AND user_id = v_user_id;
+
+  IF v_role = 'owner' THEN
+    SELECT user_id INTO v_new_owner_id
+    FROM conversation_members
+    WHERE conversation_id = p_conversation_id AND left_at IS NULL
+    ORDER BY joined_at, user_id
+    LIMIT 1;
+
+    IF v_new_owner_id IS NOT NULL THEN
+      UPDATE conversation_members
+      SET role = 'owner'
+      WHERE conversation_id = p_conversation_id AND user_id = v_new_owner_id;
+
+      UPDATE conversations
+      SET
+        participant_1_id = v_new_owner_id,
+        participant_1_type = CASE
+          WHEN EXISTS (SELECT 1 FROM trainer_profiles WHERE id = v_new_owner_id) THEN 'trainer'
+          ELSE 'user'
+        END,
+        updated_at = now()
+      WHERE id = p_conversation_id;
+
+      PERFORM post_group_event(
+        p_conversation_id,
+        v_new_owner_id,
+        CONCAT(group_member_name(v_new_owner_id), ' is now the group owner')
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'new_owner_id', v_new_owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION post_group_event(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION group_member_name(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION is_conversation_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_group_conversation(text, uuid[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_group_members(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_group_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_group_conversation(uuid) TO authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Message Pagination
+
+  Conversations open on their newest messages and load older ones page by
+  page. The cursor is (created_at, id), so messages sent in the same instant
+  are neither skipped nor repeated; this index serves that order directly.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_cursor
+  ON messages(conversation_id, created_at DESC, id DESC);
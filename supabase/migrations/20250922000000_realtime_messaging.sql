@@ -0,0 +1,91 @@
+/*
+  # Realtime Messaging
+
+  Chats update live instead of on refresh:
+
+  1. messages and conversation_members are broadcast over Supabase Realtime,
+     so new messages, receipts and group read markers arrive as they happen
+  2. mark_messages_delivered marks messages as delivered when they actually
+     reach the receiver's device: as they stream in, and for anything still
+     pending when the app connects
+  3. update_message_delivery_status only lets the receiver move a message
+     forward (sent, delivered, read). It ran with the caller's rights before,
+     and the update policy only covers senders, so receipts never stuck
+
+  Typing and presence go over Realtime broadcast and presence channels and
+  aren't stored.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'conversation_members'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
+  END IF;
+END $$;
+
+-- Messages to the caller that reached their device. With no ids, everything
+-- still waiting for them.
+CREATE OR REPLACE FUNCTION mark_messages_delivered(p_message_ids uuid[] DEFAULT NULL)
+RETURNS integer
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE messages
+  SET delivery_status = 'delivered', delivered_at = coalesce(delivered_at, now())
+  WHERE receiver_id = auth.uid()
+    AND delivery_status = 'sent'
+    AND (p_message_ids IS NULL OR id = ANY(p_message_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_message_delivery_status(
+  p_message_id UUID,
+  p_status TEXT,
+  p_user_id UUID
+)
+RETURNS VOID
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF p_status = 'delivered' THEN
+    UPDATE messages
+    SET delivery_status = 'delivered', delivered_at = coalesce(delivered_at, now())
+    WHERE id = p_message_id AND receiver_id = p_user_id AND delivery_status = 'sent';
+  ELSIF p_status = 'read' THEN
+    -- The read trigger sets delivery_status to 'read'
+    UPDATE messages
+    SET is_read = TRUE, read_at = now()
+    WHERE id = p_message_id AND receiver_id = p_user_id AND is_read = FALSE;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION mark_messages_delivered(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_message_delivery_status(uuid, text, uuid) TO authenticated;
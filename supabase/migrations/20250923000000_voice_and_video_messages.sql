@@ -0,0 +1,141 @@
+/*
+  # Voice Notes and Video Messages
+
+  Trainers can send quick voice notes and short technique videos:
+
+  1. messages.message_type accepts 'audio' and 'video', and
+     messages.media_duration_ms holds how long the clip runs
+  2. A message-media storage bucket for the recordings and their poster
+     frames. Each user uploads into their own folder, and the bucket only
+     takes audio, video and JPEG files up to 50 MB
+  3. message_media records each clip once the process-message-media edge
+     function has checked it: the server works out its size and duration
+     (from the sample tables, not just the duration the file states), renders
+     a video's first frame as its thumbnail and moves the file to processed/,
+     which only the service role can write to or delete from. Only the
+     service role writes to message_media
+  4. Limits, checked on every row: voice notes up to 10 MB and 5 minutes,
+     videos up to 50 MB and 2 minutes
+  5. An audio or video message must point at a processed clip uploaded by
+     its sender. Its size, type, duration and thumbnail are copied from
+     message_media, so they can't be made up by the client
+*/
+
+-- Audio and video message types
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'file', 'system', 'audio', 'video'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS media_duration_ms integer;
+
+-- Storage for recordings and poster frames
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-media',
+  'message-media',
+  true,
+  52428800,
+  ARRAY['audio/mp4', 'audio/m4a', 'audio/x-m4a', 'audio/aac', 'video/mp4', 'video/quicktime', 'image/jpeg']
+)
+ON CONFLICT (id) DO UPDATE
+SET file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Users can upload own message media" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own message media" ON storage.objects;
+DROP POLICY IF EXISTS "Public can view message media" ON storage.objects;
+
+-- Only the user's own upload folder. processed/ is never a user id, so
+-- checked clips can only be written and deleted by the service role.
+CREATE POLICY "Users can upload own message media"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'message-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own message media"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'message-media' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Public can view message media"
+ON storage.objects
+FOR SELECT
+TO public
+USING (bucket_id = 'message-media');
+
+-- Clips checked by the server
+CREATE TABLE IF NOT EXISTS message_media (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  uploaded_by uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  media_type text NOT NULL CHECK (media_type IN ('audio', 'video')),
+  storage_path text NOT NULL UNIQUE,
+  file_url text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  file_size integer NOT NULL CHECK (file_size > 0),
+  duration_ms integer NOT NULL CHECK (duration_ms > 0),
+  thumbnail_url text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT message_media_limits CHECK (
+    (media_type = 'audio' AND file_size <= 10485760 AND duration_ms <= 300000)
+    OR (media_type = 'video' AND file_size <= 52428800 AND duration_ms <= 120000)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_media_uploaded_by ON message_media(uploaded_by);
+
+ALTER TABLE message_media ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own message media" ON message_media;
+
+CREATE POLICY "Users can view own message media" ON message_media
+  FOR SELECT USING (auth.uid() = uploaded_by);
+
+-- Audio and video messages take their details from the processed clip
+CREATE OR REPLACE FUNCTION apply_message_media()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_media message_media%ROWTYPE;
+BEGIN
+  IF NEW.message_type NOT IN ('audio', 'video') THEN
+    NEW.media_duration_ms := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_media
+  FROM message_media
+  WHERE file_url = NEW.file_url
+  AND uploaded_by = NEW.sender_id
+  AND media_type = NEW.message_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'MEDIA_NOT_PROCESSED'
+      USING HINT = 'Upload the clip through process-message-media before sending it';
+  END IF;
+
+  NEW.file_size := v_media.file_size;
+  NEW.file_type := v_media.mime_type;
+  NEW.media_duration_ms := v_media.duration_ms;
+  NEW.thumbnail_url := v_media.thumbnail_url;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_message_media() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS apply_message_media_trigger ON messages;
+
+CREATE TRIGGER apply_message_media_trigger
+  BEFORE INSERT OR UPDATE OF message_type, file_url, file_size, file_type, thumbnail_url, media_duration_ms
+  ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_message_media();
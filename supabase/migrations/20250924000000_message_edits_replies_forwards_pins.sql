@@ -0,0 +1,401 @@
+/*
+  # Message Edits, Replies, Forwards and Pins
+
+  Deleting was the only thing a sender could do with a message once sent:
+
+  1. Edits: edit_message changes a message's text. Every change to a
+     message's content keeps the text it replaced in message_edits and sets
+     messages.edited_at, so chats can show "edited" and the history
+  2. Replies: messages.reply_to_message_id must point at a message in the
+     same conversation. Deleting the parent leaves the reply in place
+  3. Forwards: forward_message copies a message (text, file, voice note or
+     video) into another conversation the caller is in.
+     messages.forwarded_from_message_id points back at the original
+  4. Pins: set_message_pinned pins a message to the top of its
+     conversation (messages.pinned_at and pinned_by), up to 10 at a time.
+     Anyone in a direct chat can pin; in a group only the owner can
+  5. A message's text, edit time, pin and forward source can only be changed
+     through the functions above, and new messages can't arrive already
+     edited or pinned. The sender's update policy still covers the other
+     columns
+
+  System messages (group joins and leaves) can't be edited, forwarded or
+  pinned.
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+ADD COLUMN IF NOT EXISTS forwarded_from_message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS pinned_at timestamptz,
+ADD COLUMN IF NOT EXISTS pinned_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+-- Deleting a message used to fail while anything replied to it
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_reply_to_message_id_fkey;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_reply_to_message_id_fkey
+FOREIGN KEY (reply_to_message_id) REFERENCES messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_pinned
+  ON messages(conversation_id, pinned_at DESC)
+  WHERE pinned_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_forwarded_from ON messages(forwarded_from_message_id);
+
+-- What a message said before each edit
+CREATE TABLE IF NOT EXISTS message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message_id ON message_edits(message_id, edited_at DESC);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view edits of messages they can see" ON message_edits;
+
+-- Whoever can see the message can see its history
+CREATE POLICY "Users can view edits of messages they can see" ON message_edits
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM messages WHERE id = message_id)
+  );
+
+-- A direct chat's participants, or a group's current members
+CREATE OR REPLACE FUNCTION can_view_conversation(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id
+      AND NOT is_group
+      AND (participant_1_id = p_user_id OR participant_2_id = p_user_id)
+  ) OR is_conversation_member(p_conversation_id, p_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Keep the old text whenever the content changes, however it's updated
+CREATE OR REPLACE FUNCTION record_message_edit()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_edits (message_id, previous_content)
+    VALUES (OLD.id, OLD.content);
+
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_message_edit_trigger ON messages;
+
+CREATE TRIGGER record_message_edit_trigger
+  BEFORE UPDATE OF content ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION record_message_edit();
+
+-- Replies stay in their conversation, and only what the sender can see can
+-- be forwarded
+CREATE OR REPLACE FUNCTION check_message_references()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.reply_to_message_id
+      AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'REPLY_NOT_IN_CONVERSATION';
+  END IF;
+
+  IF NEW.forwarded_from_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.forwarded_from_message_id
+      AND can_view_conversation(conversation_id, NEW.sender_id)
+  ) THEN
+    RAISE EXCEPTION 'FORWARD_NOT_ALLOWED';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_message_references_trigger ON messages;
+
+CREATE TRIGGER check_message_references_trigger
+  BEFORE INSERT OR UPDATE OF reply_to_message_id, forwarded_from_message_id ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_message_references();
+
+-- A forwarded voice note or video points at the clip the original sender
+-- uploaded, so it's accepted as long as the original carries the same clip
+CREATE OR REPLACE FUNCTION apply_message_media()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+DECLARE
+  v_media message_media%ROWTYPE;
+BEGIN
+  IF NEW.message_type NOT IN ('audio', 'video') THEN
+    NEW.media_duration_ms := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT mm.* INTO v_media
+  FROM message_media mm
+  WHERE mm.file_url = NEW.file_url
+    AND mm.media_type = NEW.message_type
+    AND (
+      mm.uploaded_by = NEW.sender_id
+      OR EXISTS (
+        SELECT 1 FROM messages original
+        WHERE original.id = NEW.forwarded_from_message_id
+          AND original.file_url = NEW.file_url
+      )
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'MEDIA_NOT_PROCESSED'
+      USING HINT = 'Upload the clip through process-message-media before sending it';
+  END IF;
+
+  NEW.file_size := v_media.file_size;
+  NEW.file_type := v_media.mime_type;
+  NEW.media_duration_ms := v_media.duration_ms;
+  NEW.thumbnail_url := v_media.thumbnail_url;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Updates from the app can't touch the columns edit_message and
+-- set_message_pinned are in charge of, or where a forward came from. Those
+-- functions switch this check off for their own update. A new message starts
+-- unedited and unpinned whatever the app sends (check_message_references
+-- checks its forward source).
+CREATE OR REPLACE FUNCTION protect_message_columns()
+RETURNS trigger
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.edited_at := NULL;
+    NEW.pinned_at := NULL;
+    NEW.pinned_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.message_update', true) IS DISTINCT FROM 'on' AND (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.pinned_at IS DISTINCT FROM OLD.pinned_at
+    OR NEW.pinned_by IS DISTINCT FROM OLD.pinned_by
+    OR NEW.forwarded_from_message_id IS DISTINCT FROM OLD.forwarded_from_message_id
+  ) THEN
+    RAISE EXCEPTION 'Messages can only be edited with edit_message and pinned with set_message_pinned';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs before record_message_edit_trigger (triggers fire in name order), so
+-- a rejected edit isn't written to message_edits
+DROP TRIGGER IF EXISTS protect_message_columns_trigger ON messages;
+
+CREATE TRIGGER protect_message_columns_trigger
+  BEFORE INSERT OR UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_message_columns();
+
+-- The sender changes a message's text
+CREATE OR REPLACE FUNCTION edit_message(p_message_id uuid, p_content text)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_message messages%ROWTYPE;
+  v_content text := btrim(p_content);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'MESSAGE_NOT_FOUND');
+  END IF;
+
+  IF v_message.sender_id <> v_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_YOUR_MESSAGE');
+  END IF;
+
+  IF v_message.message_type = 'system' OR v_message.forwarded_from_message_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CANNOT_EDIT');
+  END IF;
+
+  IF v_content IS NULL OR v_content = '' OR length(v_content) > 2000 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'INVALID_CONTENT');
+  END IF;
+
+  -- The trigger keeps the old text and sets edited_at
+  PERFORM set_config('app.message_update', 'on', true);
+  UPDATE messages SET content = v_content WHERE id = p_message_id;
+  PERFORM set_config('app.message_update', 'off', true);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Copy a message the caller can see into another conversation they're in
+CREATE OR REPLACE FUNCTION forward_message(p_message_id uuid, p_conversation_id uuid)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_original messages%ROWTYPE;
+  v_target conversations%ROWTYPE;
+  v_receiver_id uuid;
+  v_message_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT * INTO v_original FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND OR NOT can_view_conversation(v_original.conversation_id, v_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'MESSAGE_NOT_FOUND');
+  END IF;
+
+  IF v_original.message_type = 'system' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CANNOT_FORWARD');
+  END IF;
+
+  SELECT * INTO v_target FROM conversations WHERE id = p_conversation_id;
+
+  IF NOT FOUND OR NOT can_view_conversation(p_conversation_id, v_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CONVERSATION_NOT_FOUND');
+  END IF;
+
+  IF NOT v_target.is_group THEN
+    v_receiver_id := CASE
+      WHEN v_target.participant_1_id = v_user_id THEN v_target.participant_2_id
+      ELSE v_target.participant_1_id
+    END;
+  END IF;
+
+  INSERT INTO messages (
+    conversation_id, sender_id, receiver_id, content, message_type, delivery_status,
+    file_url, file_name, file_size, file_type, thumbnail_url, forwarded_from_message_id
+  )
+  VALUES (
+    p_conversation_id, v_user_id, v_receiver_id, v_original.content, v_original.message_type, 'sent',
+    v_original.file_url, v_original.file_name, v_original.file_size, v_original.file_type,
+    v_original.thumbnail_url,
+    -- Forwarding a forward still points at the first message
+    coalesce(v_original.forwarded_from_message_id, v_original.id)
+  )
+  RETURNING id INTO v_message_id;
+
+  -- Groups notify their members from the insert trigger
+  IF v_receiver_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = v_receiver_id AND new_messages = false
+  ) THEN
+    PERFORM create_notification(
+      v_receiver_id,
+      'new_message',
+      'New Message',
+      CONCAT(group_member_name(v_user_id), ' forwarded a message'),
+      jsonb_build_object(
+        'conversation_id', p_conversation_id,
+        'sender_id', v_user_id,
+        'message_id', v_message_id,
+        'message_preview', left(v_original.content, 100)
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'message_id', v_message_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pin or unpin a message at the top of its conversation
+CREATE OR REPLACE FUNCTION set_message_pinned(p_message_id uuid, p_pinned boolean)
+RETURNS jsonb
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_message messages%ROWTYPE;
+  v_is_group boolean;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id;
+
+  IF NOT FOUND OR NOT can_view_conversation(v_message.conversation_id, v_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'MESSAGE_NOT_FOUND');
+  END IF;
+
+  IF v_message.message_type = 'system' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'CANNOT_PIN');
+  END IF;
+
+  SELECT is_group INTO v_is_group FROM conversations WHERE id = v_message.conversation_id;
+
+  IF v_is_group AND NOT EXISTS (
+    SELECT 1 FROM conversation_members
+    WHERE conversation_id = v_message.conversation_id
+      AND user_id = v_user_id
+      AND role = 'owner'
+      AND left_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'NOT_GROUP_OWNER');
+  END IF;
+
+  IF NOT p_pinned THEN
+    PERFORM set_config('app.message_update', 'on', true);
+    UPDATE messages SET pinned_at = NULL, pinned_by = NULL WHERE id = p_message_id;
+    PERFORM set_config('app.message_update', 'off', true);
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  IF v_message.pinned_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  IF (
+    SELECT count(*) FROM messages
+    WHERE conversation_id = v_message.conversation_id AND pinned_at IS NOT NULL
+  ) >= 10 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'TOO_MANY_PINS');
+  END IF;
+
+  PERFORM set_config('app.message_update', 'on', true);
+  UPDATE messages SET pinned_at = now(), pinned_by = v_user_id WHERE id = p_message_id;
+  PERFORM set_config('app.message_update', 'off', true);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_message_edit() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_message_references() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION can_view_conversation(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION edit_message(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION forward_message(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_message_pinned(uuid, boolean) TO authenticated;